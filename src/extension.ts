@@ -4,7 +4,7 @@
 
 import * as vscode from 'vscode';
 import { InstantiationServiceBuilder } from './di/instantiationServiceBuilder';
-import { registerServices, ILogService, IClaudeAgentService, IWebViewService, IToolRegistry, IClaudeConfigService } from './services/serviceRegistry';
+import { registerServices, ILogService, IClaudeAgentService, IWebViewService, IToolRegistry, IClaudeConfigService, ISSHService, IFileSnapshotService } from './services/serviceRegistry';
 import { VSCodeTransport } from './services/claude/transport/VSCodeTransport';
 import { WorkspaceInitService } from './services/WorkspaceInitService';
 import { initializeBuiltinTools } from './services/toolInitializer';
@@ -96,6 +96,14 @@ export function activate(context: vscode.ExtensionContext) {
 		});
 		context.subscriptions.push(workspaceChangeDisposable);
 
+		// 扩展停用时关闭 SSH 会话和端口转发隧道（ssh 子进程不会随扩展自动退出）
+		const sshService = accessor.get(ISSHService);
+		context.subscriptions.push({ dispose: () => void sshService.closeAll() });
+
+		// 扩展停用时写入尚未保存的快照索引（索引保存带防抖）
+		const fileSnapshotService = accessor.get(IFileSnapshotService);
+		context.subscriptions.push({ dispose: () => fileSnapshotService.dispose() });
+
 		// Register disposables
 		context.subscriptions.push(webviewProvider);
 		context.subscriptions.push(
@@ -11,16 +11,14 @@
 import * as vscode from 'vscode';
 import { ILogService } from './logService';
 import { IClaudeAgentService } from './claude/ClaudeAgentService';
+import { parseTaskItems, toTaskInfos } from './taskFile';
+import type { TaskInfo } from '../shared/tasks';
 
 const TASKS_DIR = '.tasks';
 const TASKS_FILE = 'current.md';
 const DEFAULT_CHECK_INTERVAL = 3000; // 默认 3 秒检查一次
 
-export interface Task {
-    title: string;
-    status: 'pending' | 'in-progress' | 'completed';
-    section: 'in-progress' | 'pending' | 'completed';
-}
+export type Task = TaskInfo;
 
 export interface AutoTaskConfig {
     enabled: boolean;
@@ -272,9 +270,9 @@ export class AutoTaskService {
                 const parsedTasks = this.parseTaskFile(taskContent);
                 tasks.push(...parsedTasks);
 
-                // 找出未完成的任务
+                // 找出未完成的任务（依赖未完成的任务不执行）
                 const pendingTasks = tasks.filter(
-                    t => t.status === 'pending' && (t.section === 'in-progress' || t.section === 'pending')
+                    t => t.status === 'pending' && (t.section === 'in-progress' || t.section === 'pending') && !t.blocked
                 );
 
                 // 当有未完成任务且满足以下条件之一时触发回调：
@@ -307,50 +305,10 @@ export class AutoTaskService {
     }
 
     /**
-     * 解析任务文件内容
+     * 解析任务文件内容（支持 ID、优先级、依赖等扩展格式，见 taskFile.ts）
      */
     private parseTaskFile(content: string): Task[] {
-        const tasks: Task[] = [];
-        const lines = content.split('\n');
-
-        let currentSection: 'in-progress' | 'pending' | 'completed' | null = null;
-
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-
-            // 检测 section 标题
-            if (trimmedLine.startsWith('## ')) {
-                const sectionTitle = trimmedLine.substring(3).toLowerCase();
-                if (sectionTitle.includes('进行中') || sectionTitle.includes('in progress') || sectionTitle.includes('in-progress')) {
-                    currentSection = 'in-progress';
-                } else if (sectionTitle.includes('待办') || sectionTitle.includes('todo') || sectionTitle.includes('pending')) {
-                    currentSection = 'pending';
-                } else if (sectionTitle.includes('已完成') || sectionTitle.includes('completed') || sectionTitle.includes('done')) {
-                    currentSection = 'completed';
-                }
-                continue;
-            }
-
-            // 解析任务项
-            if (currentSection && trimmedLine.startsWith('- ')) {
-                const taskMatch = trimmedLine.match(/^- \[([ xX])\] (.+)$/);
-                if (taskMatch) {
-                    const isCompleted = taskMatch[1].toLowerCase() === 'x';
-                    const title = taskMatch[2].trim();
-
-                    // 忽略空任务
-                    if (title) {
-                        tasks.push({
-                            title,
-                            status: isCompleted ? 'completed' : 'pending',
-                            section: currentSection
-                        });
-                    }
-                }
-            }
-        }
-
-        return tasks;
+        return toTaskInfos(parseTaskItems(content));
     }
 
     /**
@@ -365,7 +323,7 @@ export class AutoTaskService {
         if (inProgressTasks.length > 0) {
             prompt += '## 正在进行的任务\n';
             inProgressTasks.forEach(t => {
-                prompt += `- ${t.title}\n`;
+                prompt += this.formatTaskLine(t);
             });
             prompt += '\n';
         }
@@ -373,7 +331,7 @@ export class AutoTaskService {
         if (pendingTasks.length > 0 && inProgressTasks.length === 0) {
             prompt += '## 待办任务\n';
             pendingTasks.forEach(t => {
-                prompt += `- ${t.title}\n`;
+                prompt += this.formatTaskLine(t);
             });
             prompt += '\n';
         }
@@ -383,6 +341,17 @@ export class AutoTaskService {
         return prompt;
     }
 
+    /**
+     * 提示词中的单个任务（附带 ID 和验收标准）
+     */
+    private formatTaskLine(task: Task): string {
+        let line = `- ${task.title}${task.id ? ` (#${task.id})` : ''}\n`;
+        for (const criterion of task.acceptance ?? []) {
+            line += `  - 验收：${criterion}\n`;
+        }
+        return line;
+    }
+
     /**
      * 清理资源
      */
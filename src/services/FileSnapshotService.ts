@@ -2,43 +2,142 @@
  * FileSnapshotService - 文件快照服务
  *
  * 用于保存和恢复文件修改前的快照，支持撤回功能
+ *
+ * 快照持久化在 globalStorage/snapshots 目录下：
+ * - index.json：快照元数据和检查点索引
+ * - blobs/<id>：文件原始内容（按字节保存）
+ *
+ * 每个快照可以绑定到 (sessionId, assistant messageId) 组成的检查点，
+ * 从而支持按轮次回滚，或回滚某条消息之后的所有修改（包括新建/删除的文件）。
+ * Bash 命令删除的文件在命令执行前创建 delete 快照，一个工具调用可以对应多个快照。
+ *
+ * 远程文件（SSH）的快照与本地快照共用索引和检查点，记录连接参数；
+ * 撤回时复用相同主机的已连接会话，没有时重新连接后写回
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import { createDecorator } from '../di/instantiation';
 import { ILogService } from './logService';
+import { ISSHService, SSHConnectionConfig } from './sshService';
+
+export const IFileSnapshotService = createDecorator<IFileSnapshotService>('fileSnapshotService');
 
 /**
- * 文件快照信息
+ * 快照对应的操作：写入、编辑，或 Bash 命令删除文件
+ */
+export type SnapshotOperationType = 'write' | 'edit' | 'delete';
+
+/**
+ * 文件快照信息（原始内容单独存放在 blob 文件中）
  */
 export interface FileSnapshot {
-    /** 快照 ID（使用 tool_use_id） */
+    /** 快照 ID（使用 tool_use_id；一个工具调用删除多个文件时为 `${toolUseId}__${序号}`） */
     id: string;
+    /** 所属工具调用 ID（与 id 不同时记录） */
+    toolUseId?: string;
     /** 文件路径 */
     filePath: string;
-    /** 原始内容（修改前） */
-    originalContent: string;
     /** 快照时间 */
     timestamp: number;
     /** 操作类型 */
-    operationType: 'write' | 'edit';
+    operationType: SnapshotOperationType;
     /** 是否已被撤回 */
     reverted: boolean;
     /** 是否是新创建的文件（撤回时需要删除） */
     isNewFile: boolean;
+    /** 所属会话 ID */
+    sessionId?: string;
+    /** 所属 assistant 消息 ID（检查点） */
+    messageId?: string;
+    /** 远程文件所在主机（SSH 连接参数）；本地文件为空 */
+    remote?: SSHConnectionConfig;
+}
+
+/**
+ * 检查点：一轮 assistant 回复中产生的所有快照
+ */
+export interface SnapshotCheckpoint {
+    /** 检查点 ID（`${sessionId}:${messageId}`） */
+    id: string;
+    /** 会话 ID */
+    sessionId: string;
+    /** assistant 消息 ID */
+    messageId: string;
+    /** 创建时间 */
+    timestamp: number;
+    /** 包含的快照 ID（按创建顺序） */
+    snapshotIds: string[];
+}
+
+/**
+ * 批量回滚结果
+ */
+export interface CheckpointRevertResult {
+    success: boolean;
+    message: string;
+    /** 已恢复的文件路径 */
+    revertedFiles: string[];
+}
+
+/**
+ * 快照索引文件结构
+ */
+interface SnapshotIndex {
+    version: number;
+    snapshots: FileSnapshot[];
+    checkpoints: SnapshotCheckpoint[];
 }
 
 /**
  * 文件快照服务接口
  */
 export interface IFileSnapshotService {
+    readonly _serviceBrand: undefined;
+
     /**
      * 创建文件快照
      * @param id 快照 ID（通常使用 tool_use_id）
      * @param filePath 文件路径
      * @param operationType 操作类型
+     * @param sessionId 所属会话 ID（可选）
+     * @returns 是否创建成功
+     */
+    createSnapshot(id: string, filePath: string, operationType: 'write' | 'edit', sessionId?: string): Promise<boolean>;
+
+    /**
+     * 创建远程文件快照（通过 SSH 会话读取原内容）
+     * @param id 快照 ID（通常使用 tool_use_id）
+     * @param sshSessionId SSH 会话 ID
+     * @param filePath 远程文件路径（相对路径基于会话当前目录）
+     * @param operationType 操作类型
+     * @param sessionId 所属会话 ID（可选）
      * @returns 是否创建成功
      */
-    createSnapshot(id: string, filePath: string, operationType: 'write' | 'edit'): Promise<boolean>;
+    createRemoteSnapshot(
+        id: string,
+        sshSessionId: string,
+        filePath: string,
+        operationType: 'write' | 'edit',
+        sessionId?: string
+    ): Promise<boolean>;
+
+    /**
+     * 为 Bash 命令即将删除的本地文件创建快照（目录展开为其中的文件）
+     * @param toolUseId 工具调用 ID
+     * @param paths 绝对路径
+     * @param sessionId 所属会话 ID（可选）
+     * @returns 创建的快照数量
+     */
+    createDeleteSnapshots(toolUseId: string, paths: string[], sessionId?: string): Promise<number>;
+
+    /**
+     * 将工具调用绑定到 assistant 消息对应的检查点
+     * 快照可能晚于消息创建，未找到的 tool_use_id 会在快照创建时补绑定
+     */
+    bindToolUses(sessionId: string, messageId: string, toolUseIds: string[]): void;
 
     /**
      * 撤回文件修改
@@ -47,6 +146,22 @@ export interface IFileSnapshotService {
      */
     revert(id: string): Promise<{ success: boolean; message: string }>;
 
+    /**
+     * 回滚一个检查点（一整轮修改）
+     * @param includeLater 为 true 时同时回滚该检查点之后的所有检查点
+     */
+    revertCheckpoint(sessionId: string, messageId: string, includeLater?: boolean): Promise<CheckpointRevertResult>;
+
+    /**
+     * 回滚会话中指定时间之后的所有修改
+     */
+    revertSince(sessionId: string, timestamp: number): Promise<CheckpointRevertResult>;
+
+    /**
+     * 列出会话的检查点（按时间升序）
+     */
+    listCheckpoints(sessionId: string): SnapshotCheckpoint[];
+
     /**
      * 检查快照是否存在且可撤回
      * @param id 快照 ID
@@ -59,6 +174,18 @@ export interface IFileSnapshotService {
      */
     getSnapshot(id: string): FileSnapshot | undefined;
 
+    /**
+     * 读取快照保存的原始内容（新建文件返回空字符串）
+     * @param id 快照 ID
+     */
+    readSnapshotContent(id: string): Promise<string | undefined>;
+
+    /**
+     * 读取远程快照对应文件的当前内容（文件已删除时返回空字符串）
+     * @param id 快照 ID
+     */
+    readRemoteContent(id: string): Promise<string>;
+
     /**
      * 清除所有快照
      */
@@ -69,63 +196,82 @@ export interface IFileSnapshotService {
      * @param maxAge 最大保留时间（毫秒）
      */
     clearExpired(maxAge: number): void;
+
+    /**
+     * 立即写入尚未保存的索引（扩展停用时调用）
+     */
+    dispose(): void;
 }
 
 /**
  * 文件快照服务实现
  */
 export class FileSnapshotService implements IFileSnapshotService {
-    private static instance: FileSnapshotService | null = null;
+    readonly _serviceBrand: undefined;
+
+    /** 当前索引格式版本 */
+    private static readonly INDEX_VERSION = 1;
 
     /** 快照存储（Map<id, snapshot>） */
     private snapshots: Map<string, FileSnapshot> = new Map();
 
+    /** 检查点存储（Map<checkpointId, checkpoint>） */
+    private checkpoints: Map<string, SnapshotCheckpoint> = new Map();
+
+    /** 尚未创建快照的工具调用绑定（Map<toolUseId, {sessionId, messageId}>） */
+    private pendingBindings: Map<string, { sessionId: string; messageId: string }> = new Map();
+
     /** 最大快照数量 */
-    private readonly maxSnapshots = 100;
+    private readonly maxSnapshots = 2000;
 
-    /** 日志服务 */
-    private logService: ILogService;
+    /** 最大保留时间（30 天） */
+    private readonly maxAge = 30 * 24 * 60 * 60 * 1000;
 
-    private constructor(logService: ILogService) {
-        this.logService = logService;
-    }
+    /** 一次删除最多快照的文件数（删除整个大目录时不再逐个保存） */
+    private readonly maxDeleteFiles = 200;
 
-    /**
-     * 获取单例实例
-     */
-    static getInstance(logService: ILogService): FileSnapshotService {
-        if (!FileSnapshotService.instance) {
-            FileSnapshotService.instance = new FileSnapshotService(logService);
-        }
-        return FileSnapshotService.instance;
-    }
+    /** 删除快照的单个文件大小上限 */
+    private readonly maxDeleteFileSize = 5 * 1024 * 1024;
 
-    /**
-     * 重置单例（用于测试）
-     */
-    static resetInstance(): void {
-        FileSnapshotService.instance = null;
+    /** 存储目录 */
+    private readonly storageDir: string;
+
+    /** 索引加载完成 */
+    private readonly ready: Promise<void>;
+
+    private saveDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+    private readonly SAVE_DEBOUNCE_MS = 500;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        @ILogService private readonly logService: ILogService,
+        @ISSHService private readonly sshService: ISSHService
+    ) {
+        this.storageDir = path.join(context.globalStorageUri.fsPath, 'snapshots');
+        this.ready = this.load();
     }
 
     async createSnapshot(
         id: string,
         filePath: string,
-        operationType: 'write' | 'edit'
+        operationType: 'write' | 'edit',
+        sessionId?: string
     ): Promise<boolean> {
+        await this.ready;
+
         try {
             this.logService.info(`[FileSnapshotService] 创建快照: id=${id}, path=${filePath}, type=${operationType}`);
 
-            let originalContent = '';
+            let originalContent: Uint8Array = new Uint8Array();
             let isNewFile = false;
 
             // 尝试读取原文件内容
             try {
                 const uri = vscode.Uri.file(filePath);
-                const fileContent = await vscode.workspace.fs.readFile(uri);
-                originalContent = Buffer.from(fileContent).toString('utf-8');
-            } catch (err: any) {
+                originalContent = await vscode.workspace.fs.readFile(uri);
+            } catch (err) {
                 // 文件不存在，说明是新创建的文件
-                if (err.code === 'FileNotFound' || err.code === 'ENOENT') {
+                if (isFileNotFound(err)) {
                     isNewFile = true;
                     this.logService.info(`[FileSnapshotService] 文件不存在，标记为新文件: ${filePath}`);
                 } else {
@@ -133,20 +279,15 @@ export class FileSnapshotService implements IFileSnapshotService {
                 }
             }
 
-            const snapshot: FileSnapshot = {
+            await this.storeSnapshot({
                 id,
                 filePath,
-                originalContent,
                 timestamp: Date.now(),
                 operationType,
                 reverted: false,
                 isNewFile,
-            };
-
-            this.snapshots.set(id, snapshot);
-
-            // 清理过多的快照
-            this.cleanupIfNeeded();
+                sessionId,
+            }, originalContent);
 
             this.logService.info(`[FileSnapshotService] 快照创建成功: ${id}`);
             return true;
@@ -156,7 +297,282 @@ export class FileSnapshotService implements IFileSnapshotService {
         }
     }
 
+    async createRemoteSnapshot(
+        id: string,
+        sshSessionId: string,
+        filePath: string,
+        operationType: 'write' | 'edit',
+        sessionId?: string
+    ): Promise<boolean> {
+        await this.ready;
+
+        try {
+            const session = this.sshService.getActiveSessions().find(s => s.id === sshSessionId);
+            if (!session) {
+                this.logService.warn(`[FileSnapshotService] SSH 会话不存在，跳过远程快照: ${sshSessionId}`);
+                return false;
+            }
+
+            const remotePath = await this.sshService.resolveRemotePath(sshSessionId, filePath);
+            this.logService.info(`[FileSnapshotService] 创建远程快照: id=${id}, host=${session.config.host}, path=${remotePath}, type=${operationType}`);
+
+            const originalContent = await this.sshService.readFile(sshSessionId, remotePath);
+            if (!originalContent) {
+                this.logService.info(`[FileSnapshotService] 远程文件不存在，标记为新文件: ${remotePath}`);
+            }
+
+            await this.storeSnapshot({
+                id,
+                filePath: remotePath,
+                timestamp: Date.now(),
+                operationType,
+                reverted: false,
+                isNewFile: !originalContent,
+                sessionId,
+                remote: { ...session.config },
+            }, originalContent ?? new Uint8Array());
+
+            this.logService.info(`[FileSnapshotService] 远程快照创建成功: ${id}`);
+            return true;
+        } catch (error) {
+            this.logService.error(`[FileSnapshotService] 创建远程快照失败: ${error}`);
+            return false;
+        }
+    }
+
+    async createDeleteSnapshots(toolUseId: string, paths: string[], sessionId?: string): Promise<number> {
+        await this.ready;
+
+        const files = await this.expandFiles(paths);
+        let created = 0;
+
+        for (const filePath of files) {
+            try {
+                const content = await fs.readFile(filePath);
+                await this.storeSnapshot({
+                    id: `${toolUseId}__${created}`,
+                    toolUseId,
+                    filePath,
+                    timestamp: Date.now(),
+                    operationType: 'delete',
+                    reverted: false,
+                    isNewFile: false,
+                    sessionId,
+                }, content);
+                created++;
+            } catch (error) {
+                this.logService.warn(`[FileSnapshotService] 创建删除快照失败: ${filePath}, ${error}`);
+            }
+        }
+
+        if (created > 0) {
+            this.logService.info(`[FileSnapshotService] 已为 ${toolUseId} 将删除的 ${created} 个文件创建快照`);
+        }
+        return created;
+    }
+
+    bindToolUses(sessionId: string, messageId: string, toolUseIds: string[]): void {
+        let bound = 0;
+
+        for (const toolUseId of toolUseIds) {
+            const snapshot = this.snapshots.get(toolUseId);
+            if (snapshot) {
+                this.attachToCheckpoint(snapshot, sessionId, messageId);
+                bound++;
+                continue;
+            }
+
+            // 删除快照按工具调用分组；之后创建的快照在 storeSnapshot 中补绑定
+            for (const grouped of this.snapshots.values()) {
+                if (grouped.toolUseId === toolUseId) {
+                    this.attachToCheckpoint(grouped, sessionId, messageId);
+                    bound++;
+                }
+            }
+            this.pendingBindings.set(toolUseId, { sessionId, messageId });
+        }
+
+        // 只保留最近的待绑定项，避免无快照的工具调用无限累积
+        if (this.pendingBindings.size > 500) {
+            const overflow = Array.from(this.pendingBindings.keys()).slice(0, this.pendingBindings.size - 500);
+            for (const key of overflow) {
+                this.pendingBindings.delete(key);
+            }
+        }
+
+        if (bound > 0) {
+            this.scheduleSave();
+        }
+    }
+
     async revert(id: string): Promise<{ success: boolean; message: string }> {
+        await this.ready;
+        return this.revertSnapshot(id, true);
+    }
+
+    async revertCheckpoint(
+        sessionId: string,
+        messageId: string,
+        includeLater = false
+    ): Promise<CheckpointRevertResult> {
+        await this.ready;
+
+        const target = this.checkpoints.get(this.checkpointId(sessionId, messageId));
+        if (!target) {
+            return { success: false, message: `检查点不存在: ${messageId}`, revertedFiles: [] };
+        }
+
+        const checkpoints = includeLater
+            ? this.listCheckpoints(sessionId).filter(cp => cp.timestamp >= target.timestamp)
+            : [target];
+
+        this.logService.info(`[FileSnapshotService] 回滚检查点: session=${sessionId}, message=${messageId}, 共 ${checkpoints.length} 个`);
+        return this.revertMany(checkpoints.flatMap(cp => cp.snapshotIds));
+    }
+
+    async revertSince(sessionId: string, timestamp: number): Promise<CheckpointRevertResult> {
+        await this.ready;
+
+        const ids = Array.from(this.snapshots.values())
+            .filter(s => s.sessionId === sessionId && s.timestamp >= timestamp)
+            .map(s => s.id);
+
+        this.logService.info(`[FileSnapshotService] 回滚会话 ${sessionId} 在 ${new Date(timestamp).toISOString()} 之后的 ${ids.length} 个快照`);
+        return this.revertMany(ids);
+    }
+
+    listCheckpoints(sessionId: string): SnapshotCheckpoint[] {
+        return Array.from(this.checkpoints.values())
+            .filter(cp => cp.sessionId === sessionId)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    canRevert(id: string): boolean {
+        const snapshot = this.snapshots.get(id);
+        return snapshot !== undefined && !snapshot.reverted;
+    }
+
+    getSnapshot(id: string): FileSnapshot | undefined {
+        return this.snapshots.get(id);
+    }
+
+    async readSnapshotContent(id: string): Promise<string | undefined> {
+        await this.ready;
+
+        const snapshot = this.snapshots.get(id);
+        if (!snapshot) {
+            return undefined;
+        }
+        if (snapshot.isNewFile) {
+            return '';
+        }
+
+        try {
+            const content = await fs.readFile(this.blobPath(id));
+            return content.toString('utf-8');
+        } catch (error) {
+            this.logService.warn(`[FileSnapshotService] 读取快照内容失败: ${id}, ${error}`);
+            return undefined;
+        }
+    }
+
+    async readRemoteContent(id: string): Promise<string> {
+        const snapshot = this.snapshots.get(id);
+        if (!snapshot?.remote) {
+            throw new Error(`不是远程文件快照: ${id}`);
+        }
+
+        const sshSessionId = await this.sshService.acquireSession(snapshot.remote);
+        const content = await this.sshService.readFile(sshSessionId, snapshot.filePath);
+        return content ? Buffer.from(content).toString('utf-8') : '';
+    }
+
+    clearAll(): void {
+        const ids = Array.from(this.snapshots.keys());
+        this.snapshots.clear();
+        this.checkpoints.clear();
+        this.pendingBindings.clear();
+        this.deleteBlobs(ids);
+        this.scheduleSave();
+        this.logService.info('[FileSnapshotService] 已清除所有快照');
+    }
+
+    clearExpired(maxAge: number): void {
+        const now = Date.now();
+        const expired: string[] = [];
+
+        for (const [id, snapshot] of this.snapshots) {
+            if (now - snapshot.timestamp > maxAge) {
+                expired.push(id);
+            }
+        }
+
+        if (expired.length > 0) {
+            this.removeSnapshots(expired);
+            this.logService.info(`[FileSnapshotService] 已清除 ${expired.length} 个过期快照`);
+        }
+    }
+
+    dispose(): void {
+        if (!this.saveDebounceTimer) {
+            return;
+        }
+
+        clearTimeout(this.saveDebounceTimer);
+        this.saveDebounceTimer = null;
+
+        // 扩展停用时不会等待异步操作完成，这里同步写入
+        try {
+            fsSync.mkdirSync(this.storageDir, { recursive: true });
+            fsSync.writeFileSync(this.indexPath(), JSON.stringify(this.buildIndex()), 'utf-8');
+        } catch (error) {
+            this.logService.error(`[FileSnapshotService] 保存快照索引失败: ${error}`);
+        }
+    }
+
+    /**
+     * 展开将被删除的路径：目录递归取出其中的文件，跳过不存在和过大的文件
+     */
+    private async expandFiles(paths: string[]): Promise<string[]> {
+        const files: string[] = [];
+
+        const visit = async (target: string): Promise<void> => {
+            if (files.length >= this.maxDeleteFiles) {
+                return;
+            }
+
+            let stat: fsSync.Stats;
+            try {
+                stat = await fs.lstat(target);
+            } catch {
+                return;
+            }
+
+            if (stat.isDirectory()) {
+                const entries = await fs.readdir(target);
+                for (const entry of entries) {
+                    await visit(path.join(target, entry));
+                }
+            } else if (stat.isFile() && stat.size <= this.maxDeleteFileSize) {
+                files.push(target);
+            }
+        };
+
+        for (const target of paths) {
+            await visit(target);
+        }
+
+        if (files.length >= this.maxDeleteFiles) {
+            this.logService.warn(`[FileSnapshotService] 将删除的文件过多，只保存前 ${this.maxDeleteFiles} 个`);
+        }
+        return files;
+    }
+
+    /**
+     * 撤回单个快照
+     * @param showDocument 恢复后是否在编辑器中打开文件
+     */
+    private async revertSnapshot(id: string, showDocument: boolean): Promise<{ success: boolean; message: string }> {
         const snapshot = this.snapshots.get(id);
 
         if (!snapshot) {
@@ -168,27 +584,44 @@ export class FileSnapshotService implements IFileSnapshotService {
         }
 
         try {
-            this.logService.info(`[FileSnapshotService] 撤回操作: id=${id}, path=${snapshot.filePath}`);
+            this.logService.info(`[FileSnapshotService] 撤回操作: id=${id}, path=${snapshot.filePath}${snapshot.remote ? `, host=${snapshot.remote.host}` : ''}`);
+
+            if (snapshot.remote) {
+                await this.revertRemote(snapshot);
+                snapshot.reverted = true;
+                this.scheduleSave();
+                return { success: true, message: snapshot.isNewFile ? '已删除新创建的远程文件' : '已恢复远程文件到修改前的状态' };
+            }
 
             const uri = vscode.Uri.file(snapshot.filePath);
 
             if (snapshot.isNewFile) {
-                // 新创建的文件，撤回时删除
-                await vscode.workspace.fs.delete(uri);
+                // 新创建的文件，撤回时删除（已被删除则视为成功）
+                try {
+                    await vscode.workspace.fs.delete(uri);
+                } catch (err) {
+                    if (!isFileNotFound(err)) {
+                        throw err;
+                    }
+                }
                 this.logService.info(`[FileSnapshotService] 已删除新创建的文件: ${snapshot.filePath}`);
             } else {
-                // 恢复原内容
-                const content = Buffer.from(snapshot.originalContent, 'utf-8');
+                // 恢复原内容（文件已被删除时会重新创建）
+                const content = await fs.readFile(this.blobPath(id));
+                await fs.mkdir(path.dirname(snapshot.filePath), { recursive: true });
                 await vscode.workspace.fs.writeFile(uri, content);
                 this.logService.info(`[FileSnapshotService] 已恢复文件内容: ${snapshot.filePath}`);
 
                 // 在编辑器中显示恢复后的文件
-                const document = await vscode.workspace.openTextDocument(uri);
-                await vscode.window.showTextDocument(document);
+                if (showDocument) {
+                    const document = await vscode.workspace.openTextDocument(uri);
+                    await vscode.window.showTextDocument(document);
+                }
             }
 
             // 标记为已撤回
             snapshot.reverted = true;
+            this.scheduleSave();
 
             return { success: true, message: snapshot.isNewFile ? '已删除新创建的文件' : '已恢复到修改前的状态' };
         } catch (error) {
@@ -197,33 +630,211 @@ export class FileSnapshotService implements IFileSnapshotService {
         }
     }
 
-    canRevert(id: string): boolean {
-        const snapshot = this.snapshots.get(id);
-        return snapshot !== undefined && !snapshot.reverted;
+    /**
+     * 撤回远程文件修改：新建的文件删除，其余写回快照内容
+     */
+    private async revertRemote(snapshot: FileSnapshot): Promise<void> {
+        const sshSessionId = await this.sshService.acquireSession(snapshot.remote!);
+
+        if (snapshot.isNewFile) {
+            await this.sshService.deleteFile(sshSessionId, snapshot.filePath);
+            this.logService.info(`[FileSnapshotService] 已删除新创建的远程文件: ${snapshot.filePath}`);
+        } else {
+            const content = await fs.readFile(this.blobPath(snapshot.id));
+            await this.sshService.writeFile(sshSessionId, snapshot.filePath, content);
+            this.logService.info(`[FileSnapshotService] 已恢复远程文件内容: ${snapshot.filePath}`);
+        }
     }
 
-    getSnapshot(id: string): FileSnapshot | undefined {
-        return this.snapshots.get(id);
+    /**
+     * 按时间倒序撤回多个快照，保证同一文件最终恢复到最早的状态
+     */
+    private async revertMany(ids: string[]): Promise<CheckpointRevertResult> {
+        const targets = ids
+            .map(id => this.snapshots.get(id))
+            .filter((s): s is FileSnapshot => !!s && !s.reverted)
+            .sort((a, b) => b.timestamp - a.timestamp);
+
+        const revertedFiles = new Set<string>();
+        const failures: string[] = [];
+
+        for (const snapshot of targets) {
+            const result = await this.revertSnapshot(snapshot.id, false);
+            if (result.success) {
+                revertedFiles.add(snapshot.filePath);
+            } else {
+                failures.push(`${snapshot.filePath}: ${result.message}`);
+            }
+        }
+
+        if (failures.length > 0) {
+            return {
+                success: false,
+                message: `部分文件回滚失败:\n${failures.join('\n')}`,
+                revertedFiles: Array.from(revertedFiles),
+            };
+        }
+
+        return {
+            success: true,
+            message: revertedFiles.size > 0 ? `已回滚 ${revertedFiles.size} 个文件` : '没有需要回滚的修改',
+            revertedFiles: Array.from(revertedFiles),
+        };
     }
 
-    clearAll(): void {
-        this.snapshots.clear();
-        this.logService.info('[FileSnapshotService] 已清除所有快照');
+    /**
+     * 保存快照内容和元数据，并处理检查点补绑定
+     */
+    private async storeSnapshot(snapshot: FileSnapshot, originalContent: Uint8Array): Promise<void> {
+        await fs.mkdir(this.blobDir(), { recursive: true });
+        await fs.writeFile(this.blobPath(snapshot.id), originalContent);
+
+        this.snapshots.set(snapshot.id, snapshot);
+
+        // 消息先于快照到达时，补上检查点绑定（同一工具调用的删除快照共用绑定）
+        const bindingKey = snapshot.toolUseId ?? snapshot.id;
+        const pending = this.pendingBindings.get(bindingKey);
+        if (pending) {
+            if (!snapshot.toolUseId) {
+                this.pendingBindings.delete(bindingKey);
+            }
+            this.attachToCheckpoint(snapshot, pending.sessionId, pending.messageId);
+        }
+
+        // 清理过多的快照
+        this.cleanupIfNeeded();
+        this.scheduleSave();
     }
 
-    clearExpired(maxAge: number): void {
-        const now = Date.now();
-        let cleared = 0;
+    /**
+     * 将快照加入检查点
+     */
+    private attachToCheckpoint(snapshot: FileSnapshot, sessionId: string, messageId: string): void {
+        if (snapshot.messageId === messageId && snapshot.sessionId === sessionId) {
+            return;
+        }
 
-        for (const [id, snapshot] of this.snapshots) {
-            if (now - snapshot.timestamp > maxAge) {
-                this.snapshots.delete(id);
-                cleared++;
+        snapshot.sessionId = sessionId;
+        snapshot.messageId = messageId;
+
+        const id = this.checkpointId(sessionId, messageId);
+        let checkpoint = this.checkpoints.get(id);
+        if (!checkpoint) {
+            checkpoint = {
+                id,
+                sessionId,
+                messageId,
+                timestamp: snapshot.timestamp,
+                snapshotIds: [],
+            };
+            this.checkpoints.set(id, checkpoint);
+        }
+
+        if (!checkpoint.snapshotIds.includes(snapshot.id)) {
+            checkpoint.snapshotIds.push(snapshot.id);
+            checkpoint.timestamp = Math.min(checkpoint.timestamp, snapshot.timestamp);
+        }
+    }
+
+    private checkpointId(sessionId: string, messageId: string): string {
+        return `${sessionId}:${messageId}`;
+    }
+
+    private indexPath(): string {
+        return path.join(this.storageDir, 'index.json');
+    }
+
+    private blobDir(): string {
+        return path.join(this.storageDir, 'blobs');
+    }
+
+    private blobPath(id: string): string {
+        // tool_use_id 只包含安全字符，这里仍做一次过滤防止路径穿越
+        return path.join(this.blobDir(), id.replace(/[^a-zA-Z0-9_-]/g, '_'));
+    }
+
+    /**
+     * 加载快照索引
+     */
+    private async load(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.indexPath(), 'utf-8');
+            const index = JSON.parse(content) as SnapshotIndex;
+
+            for (const snapshot of index.snapshots ?? []) {
+                this.snapshots.set(snapshot.id, snapshot);
+            }
+            for (const checkpoint of index.checkpoints ?? []) {
+                this.checkpoints.set(checkpoint.id, checkpoint);
             }
+
+            this.logService.info(`[FileSnapshotService] 已加载 ${this.snapshots.size} 个快照, ${this.checkpoints.size} 个检查点`);
+
+            this.clearExpired(this.maxAge);
+        } catch (error) {
+            if (!isFileNotFound(error)) {
+                this.logService.warn(`[FileSnapshotService] 加载快照索引失败: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * 保存快照索引（带防抖）
+     */
+    private scheduleSave(): void {
+        if (this.saveDebounceTimer) {
+            clearTimeout(this.saveDebounceTimer);
         }
 
-        if (cleared > 0) {
-            this.logService.info(`[FileSnapshotService] 已清除 ${cleared} 个过期快照`);
+        this.saveDebounceTimer = setTimeout(() => {
+            this.saveDebounceTimer = null;
+            void this.save();
+        }, this.SAVE_DEBOUNCE_MS);
+    }
+
+    private buildIndex(): SnapshotIndex {
+        return {
+            version: FileSnapshotService.INDEX_VERSION,
+            snapshots: Array.from(this.snapshots.values()),
+            checkpoints: Array.from(this.checkpoints.values()),
+        };
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await fs.mkdir(this.storageDir, { recursive: true });
+            await fs.writeFile(this.indexPath(), JSON.stringify(this.buildIndex()), 'utf-8');
+        } catch (error) {
+            this.logService.error(`[FileSnapshotService] 保存快照索引失败: ${error}`);
+        }
+    }
+
+    /**
+     * 删除快照及其内容，并从检查点中移除
+     */
+    private removeSnapshots(ids: string[]): void {
+        const removed = new Set(ids);
+
+        for (const id of ids) {
+            this.snapshots.delete(id);
+        }
+
+        for (const [cpId, checkpoint] of this.checkpoints) {
+            checkpoint.snapshotIds = checkpoint.snapshotIds.filter(id => !removed.has(id));
+            if (checkpoint.snapshotIds.length === 0) {
+                this.checkpoints.delete(cpId);
+            }
+        }
+
+        this.deleteBlobs(ids);
+        this.scheduleSave();
+    }
+
+    private deleteBlobs(ids: string[]): void {
+        for (const id of ids) {
+            fs.rm(this.blobPath(id), { force: true }).catch(error => {
+                this.logService.warn(`[FileSnapshotService] 删除快照内容失败: ${id}, ${error}`);
+            });
         }
     }
 
@@ -233,15 +844,21 @@ export class FileSnapshotService implements IFileSnapshotService {
     private cleanupIfNeeded(): void {
         if (this.snapshots.size > this.maxSnapshots) {
             // 按时间排序，删除最旧的
-            const sortedSnapshots = Array.from(this.snapshots.entries())
-                .sort((a, b) => b[1].timestamp - a[1].timestamp);
+            const sortedSnapshots = Array.from(this.snapshots.values())
+                .sort((a, b) => b.timestamp - a.timestamp);
 
-            const toDelete = sortedSnapshots.slice(this.maxSnapshots);
-            for (const [id] of toDelete) {
-                this.snapshots.delete(id);
-            }
+            const toDelete = sortedSnapshots.slice(this.maxSnapshots).map(s => s.id);
+            this.removeSnapshots(toDelete);
 
             this.logService.info(`[FileSnapshotService] 清理了 ${toDelete.length} 个旧快照`);
         }
     }
 }
+
+/**
+ * 判断错误是否为文件不存在（vscode.FileSystemError 或 Node.js 错误）
+ */
+function isFileNotFound(error: unknown): boolean {
+    const code = (error as { code?: string } | undefined)?.code;
+    return code === 'FileNotFound' || code === 'ENOENT';
+}
@@ -2,17 +2,24 @@
  * 本地 Todo 持久化服务
  *
  * 职责：管理本地 Todo 的 CRUD 操作和持久化存储
+ *
+ * 所有工作区的 Todo 存在同一个文件中，每个 Todo 记录所属工作区目录；
+ * 查询、清除已完成等操作默认只作用于当前工作区（含未归属的旧数据）。
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import type { LocalTodo, TodoStore, CreateTodoInput, UpdateTodoInput } from '../shared/todos';
+import type { LocalTodo, TodoStore, TodoQuery, TodoExternalRef, CreateTodoInput, UpdateTodoInput } from '../shared/todos';
+import { getProjectHistoryDir } from './claude/ClaudeSessionService';
+
+/** 当前存储数据版本 */
+const STORE_VERSION = 2;
 
 /**
  * 生成简单的 UUID
  */
-function generateId(): string {
+export function generateId(): string {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
         const r = Math.random() * 16 | 0;
         const v = c === 'x' ? r : (r & 0x3 | 0x8);
@@ -57,14 +64,14 @@ export class LocalTodoService {
             this.cache = JSON.parse(content);
 
             // 数据迁移检查
-            if (this.cache && this.cache.version < 1) {
-                this.cache.version = 1;
-                await this.save();
+            if (this.cache && this.cache.version < STORE_VERSION) {
+                await this.migrate(this.cache);
+                await this.saveImmediately();
             }
         } catch {
             // 文件不存在，创建默认存储
             this.cache = {
-                version: 1,
+                version: STORE_VERSION,
                 todos: [],
                 lastModified: Date.now()
             };
@@ -73,6 +80,58 @@ export class LocalTodoService {
         return this.cache!;
     }
 
+    /**
+     * 旧数据迁移
+     * v1 → v2：按工作区划分。关联任务文件的 Todo，以及会话记录位于当前工作区的 Todo
+     * 归入当前工作区，其余保持未归属（在所有工作区显示）
+     */
+    private async migrate(store: TodoStore): Promise<void> {
+        if (store.version < 2) {
+            const workspace = this.getCurrentWorkspace();
+            let assigned = 0;
+            if (workspace) {
+                const historyDir = getProjectHistoryDir(workspace);
+                for (const todo of store.todos) {
+                    if (todo.workspace) {
+                        continue;
+                    }
+                    const inWorkspace = !!todo.taskLink
+                        || (!!todo.sessionId && await this.exists(path.join(historyDir, `${todo.sessionId}.jsonl`)));
+                    if (inWorkspace) {
+                        todo.workspace = workspace;
+                        assigned++;
+                    }
+                }
+            }
+            console.log(`[LocalTodoService] 数据迁移到 v2：${assigned}/${store.todos.length} 个 Todo 归入当前工作区`);
+        }
+
+        store.version = STORE_VERSION;
+    }
+
+    private async exists(file: string): Promise<boolean> {
+        try {
+            await fs.access(file);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 当前工作区目录（未打开工作区时为 undefined）
+     */
+    getCurrentWorkspace(): string | undefined {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+
+    /**
+     * Todo 是否在当前工作区中显示（未归属的 Todo 在所有工作区显示）
+     */
+    private isInCurrentWorkspace(todo: LocalTodo): boolean {
+        return !todo.workspace || todo.workspace === this.getCurrentWorkspace();
+    }
+
     /**
      * 保存存储数据（带防抖）
      */
@@ -121,13 +180,62 @@ export class LocalTodoService {
     }
 
     /**
-     * 获取所有 Todo
+     * 获取所有 Todo（不区分工作区）
      */
     async getAll(): Promise<LocalTodo[]> {
         const store = await this.load();
         return store.todos;
     }
 
+    /**
+     * 按范围、会话、搜索词和标签查询 Todo
+     */
+    async query(query: TodoQuery = {}): Promise<LocalTodo[]> {
+        const store = await this.load();
+        const search = query.search?.trim().toLowerCase();
+
+        return store.todos.filter(todo => {
+            const scope = query.scope ?? 'workspace';
+            if (scope !== 'all' && !this.isInCurrentWorkspace(todo)) {
+                return false;
+            }
+            if (scope === 'session' && (!query.sessionId || todo.sessionId !== query.sessionId)) {
+                return false;
+            }
+            if (query.tag && !todo.tags?.includes(query.tag)) {
+                return false;
+            }
+            if (search) {
+                const text = [todo.content, todo.activeForm ?? '', ...(todo.tags ?? [])].join(' ').toLowerCase();
+                return text.includes(search);
+            }
+            return true;
+        });
+    }
+
+    /**
+     * 查询范围内出现过的标签（按出现次数排序）
+     */
+    async getTags(query: TodoQuery = {}): Promise<string[]> {
+        const todos = await this.query({ scope: query.scope, sessionId: query.sessionId });
+        const counts = new Map<string, number>();
+        for (const todo of todos) {
+            for (const tag of todo.tags ?? []) {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            }
+        }
+        return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+    }
+
+    /**
+     * 整体替换 Todo 列表（用于与任务文件同步）
+     */
+    async setAll(todos: LocalTodo[]): Promise<void> {
+        const store = await this.load();
+        store.todos = todos;
+        await this.saveImmediately();
+    }
+
     /**
      * 添加 Todo
      */
@@ -137,6 +245,7 @@ export class LocalTodoService {
 
         const newTodo: LocalTodo = {
             ...input,
+            workspace: input.workspace ?? this.getCurrentWorkspace(),
             id: generateId(),
             createdAt: now,
             updatedAt: now
@@ -201,13 +310,13 @@ export class LocalTodoService {
     }
 
     /**
-     * 清除已完成的 Todo
+     * 清除当前工作区已完成的 Todo
      */
     async clearCompleted(): Promise<number> {
         const store = await this.load();
         const before = store.todos.length;
 
-        store.todos = store.todos.filter(t => t.status !== 'completed');
+        store.todos = store.todos.filter(t => t.status !== 'completed' || !this.isInCurrentWorkspace(t));
 
         const deleted = before - store.todos.length;
         if (deleted > 0) {
@@ -238,18 +347,22 @@ export class LocalTodoService {
                 continue;
             }
 
-            const existing = store.todos.find(t => t.content === todo.content);
+            // 只在当前工作区内匹配，优先匹配同一会话的任务，避免不同会话的同名任务互相覆盖
+            const candidates = store.todos.filter(t => t.content === todo.content && this.isInCurrentWorkspace(t));
+            const existing = candidates.find(t => !!sessionId && t.sessionId === sessionId) ?? candidates[0];
 
             if (existing) {
-                // 更新现有任务
+                // 更新现有任务（先判断完成状态变化，再覆盖状态）
+                if (todo.status === 'completed' && existing.status !== 'completed') {
+                    existing.completedAt = now;
+                } else if (todo.status !== 'completed') {
+                    existing.completedAt = undefined;
+                }
+
                 existing.status = todo.status as LocalTodo['status'];
                 existing.activeForm = todo.activeForm;
                 existing.updatedAt = now;
                 existing.sessionId = sessionId;
-
-                if (todo.status === 'completed' && existing.status !== 'completed') {
-                    existing.completedAt = now;
-                }
             } else {
                 // 添加新任务
                 const newTodo: LocalTodo = {
@@ -259,7 +372,9 @@ export class LocalTodoService {
                     activeForm: todo.activeForm,
                     createdAt: now,
                     updatedAt: now,
-                    sessionId
+                    sessionId,
+                    workspace: this.getCurrentWorkspace(),
+                    source: 'claude'
                 };
 
                 if (todo.status === 'completed') {
@@ -275,11 +390,92 @@ export class LocalTodoService {
     }
 
     /**
-     * 按状态获取 Todo
+     * 从外部来源（issue 导出、CSV、Markdown）导入到当前工作区
+     * linkExternal 为 true 时记录外部 ID，已导入过的按外部 ID 更新；
+     * 否则只添加当前工作区中内容不重复的 Todo
      */
-    async getByStatus(status: LocalTodo['status']): Promise<LocalTodo[]> {
+    async importTodos(
+        items: Array<Pick<LocalTodo, 'content' | 'status' | 'priority' | 'tags'> & { external?: TodoExternalRef }>,
+        linkExternal: boolean
+    ): Promise<{ added: number; updated: number; skipped: number }> {
         const store = await this.load();
-        return store.todos.filter(t => t.status === status);
+        const now = Date.now();
+        const workspace = this.getCurrentWorkspace();
+        const result = { added: 0, updated: 0, skipped: 0 };
+        const added: LocalTodo[] = [];
+
+        for (const item of items) {
+            const external = linkExternal ? item.external : undefined;
+            const candidates = [...added, ...store.todos].filter(t => this.isInCurrentWorkspace(t));
+            const existing = external
+                ? candidates.find(t => t.external?.source === external.source && t.external.id === external.id)
+                : candidates.find(t => t.content === item.content);
+
+            if (existing && !external) {
+                result.skipped++;
+                continue;
+            }
+
+            if (existing) {
+                const changed = existing.content !== item.content || existing.status !== item.status
+                    || existing.priority !== item.priority
+                    || (existing.tags ?? []).join('\n') !== (item.tags ?? []).join('\n');
+                if (!changed) {
+                    result.skipped++;
+                    continue;
+                }
+
+                if (item.status === 'completed' && existing.status !== 'completed') {
+                    existing.completedAt = now;
+                } else if (item.status !== 'completed') {
+                    existing.completedAt = undefined;
+                }
+                existing.content = item.content;
+                existing.status = item.status;
+                existing.priority = item.priority;
+                existing.tags = item.tags;
+                existing.external = external;
+                existing.updatedAt = now;
+                result.updated++;
+                continue;
+            }
+
+            const newTodo: LocalTodo = {
+                id: generateId(),
+                content: item.content,
+                status: item.status,
+                priority: item.priority,
+                tags: item.tags,
+                createdAt: now,
+                updatedAt: now,
+                workspace,
+                source: 'local'
+            };
+            if (external) {
+                newTodo.external = external;
+            }
+            if (item.status === 'completed') {
+                newTodo.completedAt = now;
+            }
+            added.push(newTodo);
+            result.added++;
+        }
+
+        // 保持导入文件中的顺序，放在最前面
+        store.todos.unshift(...added);
+
+        if (result.added > 0 || result.updated > 0) {
+            await this.saveImmediately();
+        }
+        return result;
+    }
+
+    /**
+     * 按状态获取当前工作区的 Todo
+     */
+    async getByStatus(status: LocalTodo['status']): Promise<LocalTodo[]> {
+        const todos = await this.query();
+        return todos.filter(t => t.status === status);
     }
 
     /**
@@ -291,8 +487,7 @@ export class LocalTodoService {
         inProgress: number;
         completed: number;
     }> {
-        const store = await this.load();
-        const todos = store.todos;
+        const todos = await this.query();
 
         return {
             total: todos.length,
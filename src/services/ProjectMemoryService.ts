@@ -0,0 +1,146 @@
+/**
+ * 项目记忆服务 / Project Memory Service
+ *
+ * 维护 Claude 每次会话都会读取的记忆文件：
+ * - 聊天输入中以 `#` 开头的快速记忆追加到对应的记忆文件（见 shared/memory.ts）
+ * - 会话结束时根据 Claude 的总结生成 .claude-summary.md 的更新提案，
+ *   在 Diff 编辑器中展示，用户确认后才写入（确认前可以直接编辑右侧内容）
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import { ILogService } from './logService';
+import { IFileSystemService } from './fileSystemService';
+import { appendMemoryNote, appendSummaryNote, buildSummaryUpdate, splitSummary, WorklogMeta } from './projectMemory';
+import type { MemoryTarget, MemoryUpdateStatus } from '../shared/memory';
+
+const SUMMARY_FILE = '.claude-summary.md';
+
+const MEMORY_FILES: Record<Exclude<MemoryTarget, 'user' | 'summary'>, string> = {
+    project: 'CLAUDE.md',
+    local: 'CLAUDE.local.md'
+};
+
+export class ProjectMemoryService {
+    constructor(
+        private readonly logService: ILogService,
+        private readonly fileSystemService: IFileSystemService
+    ) {}
+
+    /**
+     * 记忆文件的绝对路径（需要工作区的文件在没有工作区时返回 undefined）
+     */
+    getMemoryFilePath(target: MemoryTarget): string | undefined {
+        if (target === 'user') {
+            const configDir = process.env.CLAUDE_CONFIG_DIR ?? path.join(os.homedir(), '.claude');
+            return path.join(configDir, 'CLAUDE.md');
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        const fileName = target === 'summary' ? SUMMARY_FILE : MEMORY_FILES[target];
+        return path.join(workspaceFolder.uri.fsPath, fileName);
+    }
+
+    /**
+     * 追加一条快速记忆，返回写入的文件路径
+     */
+    async addNote(target: MemoryTarget, note: string): Promise<string> {
+        const filePath = this.getMemoryFilePath(target);
+        if (!filePath) {
+            throw new Error('没有打开的工作区');
+        }
+
+        const current = await this.readFile(filePath) ?? '';
+        const updated = target === 'summary' ? appendSummaryNote(current, note) : appendMemoryNote(current, note);
+
+        if (updated !== current) {
+            await this.writeFile(filePath, updated);
+            this.logService.info(`[ProjectMemory] 已添加记忆到 ${filePath}: ${note}`);
+        } else {
+            this.logService.info(`[ProjectMemory] 记忆已存在，跳过: ${note}`);
+        }
+        return filePath;
+    }
+
+    /**
+     * 当前的项目概述（不含工作日志），供生成更新提案时参考
+     */
+    async getSummaryOverview(): Promise<{ exists: boolean; overview: string }> {
+        const filePath = this.getMemoryFilePath('summary');
+        const content = filePath ? await this.readFile(filePath) : undefined;
+        return {
+            exists: content !== undefined,
+            overview: content !== undefined ? splitSummary(content).overview.trim() : ''
+        };
+    }
+
+    /**
+     * 根据 Claude 的总结生成 .claude-summary.md 的更新提案，展示 Diff 并等待用户确认
+     */
+    async proposeSummaryUpdate(reply: string, meta: WorklogMeta): Promise<MemoryUpdateStatus> {
+        const filePath = this.getMemoryFilePath('summary');
+        if (!filePath) {
+            throw new Error('没有打开的工作区');
+        }
+
+        const current = await this.readFile(filePath);
+        const proposed = buildSummaryUpdate(current, reply, meta);
+        if (proposed === current) {
+            return 'unchanged';
+        }
+
+        // 左侧：当前文件（不存在时为空），右侧：可编辑的提案
+        const leftPath = current !== undefined
+            ? filePath
+            : await this.fileSystemService.createTempFile(SUMMARY_FILE, '');
+        const rightPath = await this.fileSystemService.createTempFile(SUMMARY_FILE, proposed);
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(leftPath),
+            vscode.Uri.file(rightPath),
+            `${SUMMARY_FILE} (当前 ↔ 建议更新)`,
+            { preview: true }
+        );
+
+        const choice = await vscode.window.showInformationMessage(
+            `是否更新项目记忆 ${SUMMARY_FILE}？`,
+            {
+                modal: true,
+                detail: `根据本次会话${meta.modifiedFiles.length > 0 ? `（修改了 ${meta.modifiedFiles.length} 个文件）` : ''}生成了更新建议，可以先在右侧编辑再应用。`
+            },
+            '应用'
+        );
+
+        if (choice !== '应用') {
+            this.logService.info('[ProjectMemory] 用户放弃了项目概述的更新');
+            return 'rejected';
+        }
+
+        // 使用右侧编辑后的内容（包括未保存的修改）
+        const edited = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === rightPath)?.getText()
+            ?? await this.readFile(rightPath)
+            ?? proposed;
+        await this.writeFile(filePath, edited);
+        this.logService.info(`[ProjectMemory] 已更新 ${filePath}`);
+        return 'applied';
+    }
+
+    private async readFile(filePath: string): Promise<string | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+            return Buffer.from(content).toString('utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeFile(filePath: string, content: string): Promise<void> {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(filePath)));
+        await vscode.workspace.fs.writeFile(vscode.Uri.file(filePath), Buffer.from(content, 'utf-8'));
+    }
+}
@@ -0,0 +1,349 @@
+/**
+ * 定时任务服务 / Scheduled Task Service
+ *
+ * 按 xiong.schedules 配置在后台运行命名的提示词：
+ * - cron：按 cron 表达式定时触发（见 cron.ts）
+ * - watch：工作区内匹配 glob 的文件变化时触发（带防抖）
+ * - 也可以在会话页面手动运行
+ *
+ * 每次运行在独立的后台会话中执行，结果保存为普通会话，可在会话列表中查看。
+ * 同一个定时任务同一时间只运行一次；运行期间及结束后的防抖时间内忽略文件变化，
+ * 避免任务自己修改文件后再次触发。
+ */
+
+import * as vscode from 'vscode';
+import { ILogService } from './logService';
+import { IConfigurationService } from './configurationService';
+import { parseCron, nextCronTime, CronSchedule } from './cron';
+import type {
+    ScheduleConfig,
+    ScheduleInfo,
+    ScheduleRunRecord,
+    ScheduleTrigger,
+    ScheduledTasksState
+} from '../shared/schedules';
+
+export type { ScheduleConfig, ScheduledTasksState } from '../shared/schedules';
+
+/** 文件变化触发的默认防抖时间（秒） */
+const DEFAULT_DEBOUNCE = 5;
+
+/** 保留的运行记录数 */
+const MAX_HISTORY = 50;
+
+/** setTimeout 支持的最大延迟（约 24.8 天），更远的触发时间分段等待 */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * 一次后台运行的参数
+ */
+export interface ScheduledRun {
+    name: string;
+    prompt: string;
+    trigger: ScheduleTrigger;
+    permissionMode: NonNullable<ScheduleConfig['permissionMode']>;
+    model?: string;
+    /** 文件触发时变化的文件（相对路径） */
+    file?: string;
+}
+
+/**
+ * 单次运行的结果
+ */
+export interface ScheduledRunResult {
+    success: boolean;
+    error?: string;
+    sessionId?: string;
+}
+
+/**
+ * 在后台会话中执行一次运行
+ */
+export type ScheduledRunner = (run: ScheduledRun) => Promise<ScheduledRunResult>;
+
+interface ScheduleEntry {
+    config: ScheduleConfig;
+    cron?: CronSchedule;
+    error?: string;
+    nextRunAt?: number;
+    timer?: ReturnType<typeof setTimeout>;
+    watcher?: vscode.FileSystemWatcher;
+    debounceTimer?: ReturnType<typeof setTimeout>;
+    pendingFile?: string;
+    running: boolean;
+    /** 在此时间之前忽略文件变化 */
+    ignoreFileChangesUntil: number;
+    lastRun?: ScheduleRunRecord;
+}
+
+export class ScheduledTaskService {
+    private entries = new Map<string, ScheduleEntry>();
+    private history: ScheduleRunRecord[] = [];
+    private configListener: vscode.Disposable;
+    private onStateChangedCallback: ((state: ScheduledTasksState) => void) | null = null;
+
+    constructor(
+        private readonly logService: ILogService,
+        private readonly configService: IConfigurationService,
+        private readonly runner: ScheduledRunner
+    ) {
+        this.configListener = this.configService.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('xiong.schedules')) {
+                this.logService.info('[ScheduledTaskService] 配置已更改，重新加载');
+                this.reload();
+            }
+        });
+        this.reload();
+    }
+
+    /**
+     * 设置状态变化回调（用于推送到 WebView）
+     */
+    onStateChanged(callback: (state: ScheduledTasksState) => void): void {
+        this.onStateChangedCallback = callback;
+    }
+
+    getState(): ScheduledTasksState {
+        const schedules: ScheduleInfo[] = [...this.entries.values()].map(entry => ({
+            name: entry.config.name,
+            prompt: entry.config.prompt,
+            cron: entry.config.cron,
+            watch: entry.config.watch,
+            permissionMode: entry.config.permissionMode ?? 'plan',
+            enabled: entry.config.enabled !== false,
+            nextRunAt: entry.nextRunAt,
+            error: entry.error,
+            running: entry.running,
+            lastRun: entry.lastRun ? { ...entry.lastRun } : undefined
+        }));
+
+        return {
+            schedules,
+            history: this.history.map(record => ({ ...record }))
+        };
+    }
+
+    /**
+     * 手动运行（已在运行或不存在时返回错误信息）
+     */
+    runNow(name: string): string | undefined {
+        const entry = this.entries.get(name);
+        if (!entry) {
+            return `定时任务不存在: ${name}`;
+        }
+        if (entry.running) {
+            return `定时任务正在运行: ${name}`;
+        }
+        void this.execute(entry, 'manual');
+        return undefined;
+    }
+
+    dispose(): void {
+        this.configListener.dispose();
+        this.clearEntries();
+        this.onStateChangedCallback = null;
+    }
+
+    // ===== 私有方法 =====
+
+    /**
+     * 读取配置并重新安排所有触发器（正在运行的任务不受影响）
+     */
+    private reload(): void {
+        const previous = this.entries;
+        this.clearEntries();
+        this.entries = new Map();
+
+        const configs = this.configService.getValue<ScheduleConfig[]>('xiong.schedules', []) ?? [];
+        for (const config of configs) {
+            if (!config || typeof config.name !== 'string' || !config.name.trim() || typeof config.prompt !== 'string') {
+                this.logService.warn(`[ScheduledTaskService] 忽略无效配置: ${JSON.stringify(config)}`);
+                continue;
+            }
+            if (this.entries.has(config.name)) {
+                this.logService.warn(`[ScheduledTaskService] 忽略重名的定时任务: ${config.name}`);
+                continue;
+            }
+
+            const old = previous.get(config.name);
+            const entry: ScheduleEntry = {
+                config,
+                running: old?.running ?? false,
+                ignoreFileChangesUntil: old?.ignoreFileChangesUntil ?? 0,
+                lastRun: old?.lastRun
+            };
+            this.entries.set(config.name, entry);
+
+            if (config.cron) {
+                try {
+                    entry.cron = parseCron(config.cron);
+                } catch (error) {
+                    entry.error = error instanceof Error ? error.message : String(error);
+                    this.logService.error(`[ScheduledTaskService] ${config.name} 的 cron 表达式无效: ${entry.error}`);
+                }
+            }
+
+            if (config.enabled === false) {
+                continue;
+            }
+            this.scheduleNext(entry);
+            this.watchFiles(entry);
+        }
+
+        this.logService.info(`[ScheduledTaskService] 已加载 ${this.entries.size} 个定时任务`);
+        this.fireStateChanged();
+    }
+
+    private clearEntries(): void {
+        for (const entry of this.entries.values()) {
+            if (entry.timer) {
+                clearTimeout(entry.timer);
+            }
+            if (entry.debounceTimer) {
+                clearTimeout(entry.debounceTimer);
+            }
+            entry.watcher?.dispose();
+            entry.timer = undefined;
+            entry.debounceTimer = undefined;
+            entry.watcher = undefined;
+        }
+    }
+
+    /**
+     * 安排下一次 cron 触发
+     */
+    private scheduleNext(entry: ScheduleEntry): void {
+        if (!entry.cron) {
+            return;
+        }
+
+        const next = nextCronTime(entry.cron, new Date());
+        entry.nextRunAt = next?.getTime();
+        if (!next) {
+            entry.error = `cron 表达式没有可触发的时间: ${entry.config.cron}`;
+            this.logService.warn(`[ScheduledTaskService] ${entry.error}`);
+            return;
+        }
+
+        this.armTimer(entry, next.getTime());
+        this.logService.info(`[ScheduledTaskService] ${entry.config.name} 下次运行: ${next.toLocaleString()}`);
+    }
+
+    private armTimer(entry: ScheduleEntry, at: number): void {
+        const delay = Math.max(0, at - Date.now());
+        entry.timer = setTimeout(() => {
+            entry.timer = undefined;
+            if (this.entries.get(entry.config.name) !== entry) {
+                return;
+            }
+            if (Date.now() < at) {
+                // 超过 setTimeout 上限，继续等待
+                this.armTimer(entry, at);
+                return;
+            }
+
+            if (entry.running) {
+                this.logService.info(`[ScheduledTaskService] ${entry.config.name} 仍在运行，跳过本次 cron 触发`);
+            } else {
+                void this.execute(entry, 'cron');
+            }
+            this.scheduleNext(entry);
+            this.fireStateChanged();
+        }, Math.min(delay, MAX_TIMER_DELAY));
+    }
+
+    /**
+     * 监听工作区内匹配 glob 的文件
+     */
+    private watchFiles(entry: ScheduleEntry): void {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!entry.config.watch || !workspaceFolder) {
+            return;
+        }
+
+        const pattern = new vscode.RelativePattern(workspaceFolder, entry.config.watch);
+        entry.watcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+        const onChange = (uri: vscode.Uri) => this.handleFileChange(entry, uri);
+        entry.watcher.onDidChange(onChange);
+        entry.watcher.onDidCreate(onChange);
+        entry.watcher.onDidDelete(onChange);
+
+        this.logService.info(`[ScheduledTaskService] ${entry.config.name} 监听文件: ${entry.config.watch}`);
+    }
+
+    private handleFileChange(entry: ScheduleEntry, uri: vscode.Uri): void {
+        if (entry.running || Date.now() < entry.ignoreFileChangesUntil) {
+            return;
+        }
+
+        entry.pendingFile = vscode.workspace.asRelativePath(uri, false);
+        if (entry.debounceTimer) {
+            clearTimeout(entry.debounceTimer);
+        }
+
+        entry.debounceTimer = setTimeout(() => {
+            entry.debounceTimer = undefined;
+            if (this.entries.get(entry.config.name) !== entry || entry.running) {
+                return;
+            }
+            this.logService.info(`[ScheduledTaskService] ${entry.config.name} 文件变化触发: ${entry.pendingFile}`);
+            void this.execute(entry, 'file', entry.pendingFile);
+        }, this.getDebounceMs(entry));
+    }
+
+    private getDebounceMs(entry: ScheduleEntry): number {
+        const seconds = entry.config.debounce;
+        return (typeof seconds === 'number' && seconds >= 0 ? seconds : DEFAULT_DEBOUNCE) * 1000;
+    }
+
+    /**
+     * 在后台会话中运行一次
+     */
+    private async execute(entry: ScheduleEntry, trigger: ScheduleTrigger, file?: string): Promise<void> {
+        const record: ScheduleRunRecord = {
+            name: entry.config.name,
+            trigger,
+            status: 'running',
+            startedAt: Date.now(),
+            file
+        };
+        entry.running = true;
+        entry.lastRun = record;
+        this.history.unshift(record);
+        this.history.splice(MAX_HISTORY);
+        this.fireStateChanged();
+
+        this.logService.info(`[ScheduledTaskService] 开始运行 ${entry.config.name} (触发: ${trigger})`);
+
+        try {
+            const result = await this.runner({
+                name: entry.config.name,
+                prompt: entry.config.prompt,
+                trigger,
+                permissionMode: entry.config.permissionMode ?? 'plan',
+                model: entry.config.model,
+                file
+            });
+            record.status = result.success ? 'succeeded' : 'failed';
+            record.sessionId = result.sessionId;
+            record.error = result.error;
+        } catch (error) {
+            record.status = 'failed';
+            record.error = error instanceof Error ? error.message : String(error);
+        }
+
+        record.finishedAt = Date.now();
+        this.logService.info(`[ScheduledTaskService] ${entry.config.name} 运行结束: ${record.status}${record.error ? ` (${record.error})` : ''}`);
+
+        // 配置重新加载后运行状态转移到新的条目上
+        const current = this.entries.get(entry.config.name) ?? entry;
+        current.running = false;
+        current.ignoreFileChangesUntil = Date.now() + this.getDebounceMs(current);
+        this.fireStateChanged();
+    }
+
+    private fireStateChanged(): void {
+        this.onStateChangedCallback?.(this.getState());
+    }
+}
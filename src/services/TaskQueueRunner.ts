@@ -0,0 +1,312 @@
+/**
+ * 任务队列执行器 / Task Queue Runner
+ *
+ * 逐条执行 .tasks/current.md 中未完成的任务：
+ * 1. 选出下一个任务（先「进行中」后「待办」），在文件中移到「进行中」
+ * 2. 交给执行回调在新会话中执行（由 WebView 创建会话并等待完成）
+ * 3. 执行成功后运行验证命令（任务的 `verify:`，否则 xiong.tasks.verifyCommand，例如测试或 lint）
+ * 4. 验证通过才勾选并移到「已完成」；失败时把原因记录在任务下方，继续下一个任务
+ *
+ * 每次运行中每个任务最多执行一次，失败的任务留在「进行中」，下次运行时重试。
+ * 依赖未完成的任务会被跳过，同一节内按优先级执行。
+ */
+
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+import { ILogService } from './logService';
+import { IConfigurationService } from './configurationService';
+import {
+    parseTaskItems,
+    findNextTask,
+    findTaskByTitle,
+    markTaskInProgress,
+    markTaskCompleted,
+    moveTask,
+    appendTaskNote,
+    TaskFileItem
+} from './taskFile';
+import type { TaskQueueState, TaskRunRecord } from '../shared/tasks';
+
+export type { TaskQueueState, TaskRunRecord } from '../shared/tasks';
+
+const TASKS_DIR = '.tasks';
+const TASKS_FILE = 'current.md';
+
+/** 验证命令默认超时（秒） */
+const DEFAULT_VERIFY_TIMEOUT = 600;
+
+/** 失败原因中保留的输出行数 */
+const FAILURE_OUTPUT_LINES = 20;
+
+/**
+ * 单个任务的执行结果
+ */
+export interface TaskExecutionResult {
+    success: boolean;
+    error?: string;
+    sessionId?: string;
+}
+
+/**
+ * 执行单个任务（在新会话中发送提示词并等待完成）
+ */
+export type TaskExecutor = (task: { title: string; prompt: string }) => Promise<TaskExecutionResult>;
+
+export interface VerifyResult {
+    passed: boolean;
+    exitCode: number | null;
+    output: string;
+}
+
+/**
+ * 生成单个任务的提示词（任务下方的备注和失败记录一并提供）
+ */
+export function buildTaskPrompt(task: TaskFileItem): string {
+    let prompt = `请完成以下任务：\n\n${task.title}\n`;
+
+    const details = task.body.filter(line => line.trim());
+    if (details.length > 0) {
+        prompt += `\n任务说明与历史记录：\n${details.join('\n')}\n`;
+    }
+
+    if (task.acceptance.length > 0) {
+        prompt += `\n完成前请确认满足验收标准：\n${task.acceptance.map(item => `- ${item}`).join('\n')}\n`;
+    }
+
+    prompt += '\n只处理这一个任务。不要修改 `.tasks/current.md` 中该任务的勾选状态，完成后会自动验证并更新。';
+    return prompt;
+}
+
+export class TaskQueueRunner {
+    private state: TaskQueueState = { running: false, stopping: false, history: [] };
+    private onStateChangedCallback: ((state: TaskQueueState) => void) | null = null;
+
+    constructor(
+        private readonly logService: ILogService,
+        private readonly configService: IConfigurationService,
+        private readonly executor: TaskExecutor
+    ) {}
+
+    /**
+     * 设置状态变化回调（用于推送到 WebView）
+     */
+    onStateChanged(callback: (state: TaskQueueState) => void): void {
+        this.onStateChangedCallback = callback;
+    }
+
+    getState(): TaskQueueState {
+        return {
+            ...this.state,
+            current: this.state.current ? { ...this.state.current } : undefined,
+            history: this.state.history.map(record => ({ ...record }))
+        };
+    }
+
+    isRunning(): boolean {
+        return this.state.running;
+    }
+
+    /**
+     * 开始执行队列（已在运行时返回 false）
+     */
+    start(): boolean {
+        if (this.state.running) {
+            return false;
+        }
+
+        const verifyCommand = this.configService.getValue<string>('xiong.tasks.verifyCommand', '')?.trim();
+        this.state = { running: true, stopping: false, verifyCommand: verifyCommand || undefined, history: [] };
+        this.logService.info(`[TaskQueueRunner] 开始执行任务队列，验证命令: ${verifyCommand || '（无）'}`);
+        this.fireStateChanged();
+
+        void this.runLoop().catch(error => {
+            this.logService.error(`[TaskQueueRunner] 任务队列异常结束: ${error}`);
+        }).finally(() => {
+            this.state.running = false;
+            this.state.stopping = false;
+            this.state.current = undefined;
+            this.fireStateChanged();
+        });
+        return true;
+    }
+
+    /**
+     * 请求停止（当前任务结束后生效）
+     */
+    stop(): void {
+        if (!this.state.running || this.state.stopping) {
+            return;
+        }
+        this.state.stopping = true;
+        this.logService.info('[TaskQueueRunner] 已请求停止，当前任务结束后停止');
+        this.fireStateChanged();
+    }
+
+    // ===== 私有方法 =====
+
+    private async runLoop(): Promise<void> {
+        const attempted = new Set<string>();
+
+        while (!this.state.stopping) {
+            const content = await this.readTaskFile();
+            if (content === undefined) {
+                this.logService.warn('[TaskQueueRunner] 任务文件不存在，停止');
+                return;
+            }
+
+            const items = parseTaskItems(content);
+            const task = findNextTask(items, item => attempted.has(item.title));
+            if (!task) {
+                const blocked = items.filter(item => !item.checked && item.section !== 'completed' && !attempted.has(item.title));
+                this.logService.info(blocked.length > 0
+                    ? `[TaskQueueRunner] 剩余 ${blocked.length} 个任务的依赖未完成，队列结束`
+                    : '[TaskQueueRunner] 没有待执行的任务，队列结束');
+                return;
+            }
+
+            attempted.add(task.title);
+            await this.runTask(task, content);
+        }
+
+        this.logService.info('[TaskQueueRunner] 任务队列已停止');
+    }
+
+    private async runTask(task: TaskFileItem, content: string): Promise<void> {
+        const record: TaskRunRecord = { title: task.title, status: 'running', startedAt: Date.now() };
+        this.state.current = record;
+        this.fireStateChanged();
+
+        this.logService.info(`[TaskQueueRunner] 执行任务: ${task.title}`);
+        await this.writeTaskFile(markTaskInProgress(content, task.title));
+
+        const result = await this.executor({ title: task.title, prompt: buildTaskPrompt(task) })
+            .catch((error): TaskExecutionResult => ({ success: false, error: String(error) }));
+        record.sessionId = result.sessionId;
+
+        if (!result.success) {
+            await this.finishTask(record, result.error || '任务执行失败');
+            return;
+        }
+
+        const verifyCommand = task.verify || this.state.verifyCommand;
+        if (verifyCommand) {
+            record.status = 'verifying';
+            this.fireStateChanged();
+
+            const verify = await this.runVerifyCommand(verifyCommand);
+            if (!verify.passed) {
+                const output = verify.output.trim().split('\n').slice(-FAILURE_OUTPUT_LINES).join('\n');
+                const exit = verify.exitCode === null ? '超时或无法执行' : `退出码 ${verify.exitCode}`;
+                await this.finishTask(record, `验证命令 \`${verifyCommand}\` 失败（${exit}）${output ? `\n${output}` : ''}`);
+                return;
+            }
+        }
+
+        await this.finishTask(record);
+    }
+
+    /**
+     * 结束任务：通过时勾选，失败时记录原因（任务留在「进行中」）
+     */
+    private async finishTask(record: TaskRunRecord, error?: string): Promise<void> {
+        record.status = error ? 'failed' : 'passed';
+        record.error = error;
+        record.finishedAt = Date.now();
+
+        const content = await this.readTaskFile();
+        if (content !== undefined && findTaskByTitle(parseTaskItems(content), record.title)) {
+            if (error) {
+                const time = new Date(record.finishedAt).toLocaleString();
+                const reverted = moveTask(content, record.title, 'in-progress', false);
+                await this.writeTaskFile(appendTaskNote(reverted, record.title, `❌ 执行失败（${time}）：${error}`));
+            } else {
+                await this.writeTaskFile(markTaskCompleted(content, record.title));
+            }
+        } else {
+            this.logService.warn(`[TaskQueueRunner] 任务已不在任务文件中，无法更新: ${record.title}`);
+        }
+
+        if (error) {
+            this.logService.warn(`[TaskQueueRunner] 任务失败: ${record.title} - ${error.split('\n')[0]}`);
+        } else {
+            this.logService.info(`[TaskQueueRunner] 任务完成: ${record.title}`);
+        }
+
+        this.state.current = undefined;
+        this.state.history.push(record);
+        this.fireStateChanged();
+    }
+
+    /**
+     * 在工作区根目录运行验证命令（也供无尽模式每轮结束后使用）
+     */
+    runVerifyCommand(command: string): Promise<VerifyResult> {
+        const cwd = this.getWorkspaceFolder()?.uri.fsPath ?? process.cwd();
+        const timeoutSeconds = this.configService.getValue<number>('xiong.tasks.verifyTimeout', DEFAULT_VERIFY_TIMEOUT);
+        const timeout = (typeof timeoutSeconds === 'number' && timeoutSeconds > 0 ? timeoutSeconds : DEFAULT_VERIFY_TIMEOUT) * 1000;
+
+        this.logService.info(`[TaskQueueRunner] 运行验证命令: ${command} (cwd: ${cwd})`);
+
+        return new Promise<VerifyResult>((resolve) => {
+            let output = '';
+            const proc = spawn(command, { cwd, shell: true });
+
+            const timer = setTimeout(() => {
+                this.logService.warn(`[TaskQueueRunner] 验证命令超时（${timeout}ms）`);
+                proc.kill('SIGTERM');
+                resolve({ passed: false, exitCode: null, output });
+            }, timeout);
+
+            proc.stdout?.on('data', (data: Buffer) => {
+                output += data.toString();
+            });
+            proc.stderr?.on('data', (data: Buffer) => {
+                output += data.toString();
+            });
+
+            proc.on('close', (code) => {
+                clearTimeout(timer);
+                this.logService.info(`[TaskQueueRunner] 验证命令结束，退出码: ${code}`);
+                resolve({ passed: code === 0, exitCode: code, output });
+            });
+
+            proc.on('error', (error) => {
+                clearTimeout(timer);
+                resolve({ passed: false, exitCode: null, output: error.message });
+            });
+        });
+    }
+
+    private getWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+        return vscode.workspace.workspaceFolders?.[0];
+    }
+
+    private getTaskFileUri(): vscode.Uri | undefined {
+        const workspaceFolder = this.getWorkspaceFolder();
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, TASKS_DIR, TASKS_FILE) : undefined;
+    }
+
+    private async readTaskFile(): Promise<string | undefined> {
+        const uri = this.getTaskFileUri();
+        if (!uri) {
+            return undefined;
+        }
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            return Buffer.from(content).toString('utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeTaskFile(content: string): Promise<void> {
+        const uri = this.getTaskFileUri();
+        if (uri) {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+        }
+    }
+
+    private fireStateChanged(): void {
+        this.onStateChangedCallback?.(this.getState());
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * Todo 同步服务 / Todo Sync Service
+ *
+ * 让三处任务列表保持一致：
+ * - Todos 页面中的本地 Todo（LocalTodoService）
+ * - Claude 通过 TodoWrite 工具写入的任务
+ * - 工作区的 .tasks/current.md
+ *
+ * TodoWrite 的结果先合并进本地 Todo，再与任务文件同步；冲突规则见 todoSync.ts。
+ * 任务文件不存在时不会自动创建，只有在文件中有变化时才写回。
+ */
+
+import * as vscode from 'vscode';
+import { ILogService } from './logService';
+import { IConfigurationService } from './configurationService';
+import { LocalTodoService, generateId } from './LocalTodoService';
+import { reconcileTaskFile } from './todoSync';
+import { removeTask } from './taskFile';
+import type { LocalTodo } from '../shared/todos';
+
+const TASKS_DIR = '.tasks';
+const TASKS_FILE = 'current.md';
+
+/**
+ * Claude TodoWrite 工具输入中的单个任务
+ */
+export interface ClaudeTodoItem {
+    content: string;
+    status: string;
+    activeForm?: string;
+}
+
+/**
+ * 判断工具输入是否为 TodoWrite 的输入（{ todos: [...] }）
+ */
+export function isTodoWriteInput(input: unknown): input is { todos: ClaudeTodoItem[] } {
+    if (typeof input !== 'object' || input === null || !('todos' in input) || !Array.isArray(input.todos)) {
+        return false;
+    }
+    return input.todos.every((todo: unknown) =>
+        typeof todo === 'object' && todo !== null
+        && 'content' in todo && typeof todo.content === 'string'
+        && 'status' in todo && typeof todo.status === 'string'
+    );
+}
+
+export class TodoSyncService {
+    private syncChain: Promise<LocalTodo[]> = Promise.resolve([]);
+    private onTodosChangedCallback: ((todos: LocalTodo[]) => void) | null = null;
+
+    constructor(
+        private readonly logService: ILogService,
+        private readonly configService: IConfigurationService,
+        private readonly localTodoService: LocalTodoService
+    ) {}
+
+    /**
+     * 设置 Todo 列表变化回调（用于推送到 WebView）
+     */
+    onTodosChanged(callback: (todos: LocalTodo[]) => void): void {
+        this.onTodosChangedCallback = callback;
+    }
+
+    isEnabled(): boolean {
+        return this.configService.getValue<boolean>('xiong.tasks.syncTodos', true) !== false;
+    }
+
+    /**
+     * 同步本地 Todo 与任务文件（串行执行），返回同步后的 Todo 列表
+     */
+    sync(removed: LocalTodo[] = []): Promise<LocalTodo[]> {
+        const next = this.syncChain.then(() => this.doSync(removed));
+        this.syncChain = next.catch(error => {
+            this.logService.error(`[TodoSyncService] 同步失败: ${error}`);
+            return [];
+        });
+        return next;
+    }
+
+    /**
+     * 合并 Claude TodoWrite 的任务列表，然后同步到任务文件
+     */
+    async applyClaudeTodos(todos: ClaudeTodoItem[], sessionId?: string): Promise<LocalTodo[]> {
+        await this.localTodoService.importFromClaude(todos, sessionId);
+        this.logService.info(`[TodoSyncService] 合并 TodoWrite 任务 ${todos.length} 个 (session: ${sessionId ?? '无'})`);
+        const result = await this.sync();
+        // 关闭文件同步时也要通知 WebView
+        if (!this.isEnabled()) {
+            this.fireTodosChanged(result);
+        }
+        return result;
+    }
+
+    /**
+     * 从任务文件中删除与这些 Todo 关联的任务（在删除 Todo 之后调用），然后同步
+     */
+    removeTodos(todos: LocalTodo[]): Promise<LocalTodo[]> {
+        return this.sync(todos);
+    }
+
+    private async doSync(removed: LocalTodo[]): Promise<LocalTodo[]> {
+        const todos = await this.localTodoService.getAll();
+        const uri = this.getTaskFileUri();
+        if (!uri || !this.isEnabled()) {
+            return todos;
+        }
+
+        const original = await this.readTaskFile(uri);
+        if (original === undefined) {
+            return todos;
+        }
+
+        const file = this.toRelativePath(uri);
+        let content = original;
+        for (const todo of removed) {
+            if (todo.taskLink?.file === file) {
+                content = removeTask(content, todo.taskLink.taskId);
+            }
+        }
+
+        // 只同步属于当前工作区的 Todo，其他工作区和未归属的保持不变
+        const workspace = this.localTodoService.getCurrentWorkspace();
+        const scoped = todos.filter(todo => workspace && todo.workspace === workspace);
+        const others = todos.filter(todo => !scoped.includes(todo));
+
+        const result = reconcileTaskFile(scoped, content, file, {
+            now: Date.now(),
+            createTaskId,
+            createTodoId: generateId
+        });
+
+        if (result.content !== original) {
+            await this.writeTaskFile(uri, result.content);
+            this.logService.info('[TodoSyncService] 已更新任务文件');
+        }
+
+        const merged = [...result.todos.map(todo => todo.workspace ? todo : { ...todo, workspace }), ...others];
+        if (result.todosChanged) {
+            await this.localTodoService.setAll(merged);
+            this.logService.info(`[TodoSyncService] 已更新本地 Todo，共 ${result.todos.length} 个`);
+            this.fireTodosChanged(merged);
+        }
+
+        return merged;
+    }
+
+    private getTaskFileUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, TASKS_DIR, TASKS_FILE) : undefined;
+    }
+
+    /**
+     * 关联中记录的文件路径（相对工作区）
+     */
+    private toRelativePath(uri: vscode.Uri): string {
+        return vscode.workspace.asRelativePath(uri, false);
+    }
+
+    private async readTaskFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(uri);
+            return Buffer.from(content).toString('utf-8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeTaskFile(uri: vscode.Uri, content: string): Promise<void> {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    }
+
+    private fireTodosChanged(todos: LocalTodo[]): void {
+        this.onTodosChangedCallback?.(todos);
+    }
+}
+
+function createTaskId(): string {
+    return `t-${Math.random().toString(16).slice(2, 10).padEnd(8, '0')}`;
+}
+
@@ -3,11 +3,12 @@
  *
  * 职责：
  * 1. 管理用户与 AI 的对话
- * 2. 协调工具调用
- * 3. 处理工具调用循环
- * 4. 管理会话状态
+ * 2. 协调工具调用（连续的只读工具并行执行，执行过程中流式输出部分结果）
+ * 3. 处理工具调用循环（收到中断信号时立即退出）
+ * 4. 管理会话状态（接近上下文窗口时自动压缩历史）
  */
 
+import { randomUUID } from 'crypto';
 import { createDecorator } from '../../di/instantiation';
 import { ILogService } from '../logService';
 import { IConfigurationService } from '../configurationService';
@@ -33,6 +34,11 @@ import {
 } from '../../tools';
 import { generateSystemPrompt, getClaudeImpersonationConfig } from '../ai/SystemPrompts';
 import { IImagePreprocessingService, ImageRecognitionResult } from '../ImagePreprocessingService';
+import { IFileSnapshotService } from '../FileSnapshotService';
+import type { MessageStreamClient } from '../ai/OpenAICompatibleClient';
+import { ContextManager, estimateFixedTokens } from './ContextManager';
+import type { ContextBudget, ContextStats, CompactionResult } from './ContextManager';
+import { DEFAULT_CONTEXT_WINDOW } from '../../shared/models';
 
 export const IAgentCoordinator = createDecorator<IAgentCoordinator>('agentCoordinator');
 
@@ -52,6 +58,12 @@ export interface AgentConfig {
     maxToolLoops?: number;
     /** 系统提示词（可选，默认使用 SystemPrompts 生成） */
     systemPrompt?: string;
+    /** 模型客户端（可选，默认使用 ClaudeApiClient；OpenAI 兼容 Provider 传入自己的客户端） */
+    client?: MessageStreamClient;
+    /** 单次请求最大输出 tokens */
+    maxTokens?: number;
+    /** 模型上下文窗口（用于上下文预算，默认 200000） */
+    contextWindow?: number;
 }
 
 /**
@@ -89,6 +101,8 @@ export interface SessionState {
     lastActiveAt: number;
     /** 配置 */
     config: AgentConfig;
+    /** 上一轮请求的 token 统计（用于校准上下文估算） */
+    contextStats?: ContextStats;
 }
 
 /**
@@ -113,12 +127,20 @@ export interface StreamMessageOptions {
 export type AgentStreamEvent =
     | { type: 'text'; text: string }
     | { type: 'tool_start'; id: string; name: string; input: any }
+    | { type: 'tool_progress'; id: string; name: string; output: string }
     | { type: 'tool_end'; id: string; name: string; output: string; isError: boolean; snapshotId?: string; canRevert?: boolean }
     | { type: 'tool_rejected'; id: string; name: string; reason: string }
     | { type: 'thinking'; text: string }
+    | { type: 'compacting'; preTokens: number }
+    | ({ type: 'compacted' } & CompactionResult)
     | { type: 'done'; response: string; usage?: { inputTokens: number; outputTokens: number } }
     | { type: 'error'; error: string };
 
+/**
+ * 工具执行结果（附带撤回元数据）
+ */
+type ExecutedToolResult = ToolResultBlock & { snapshotId?: string; canRevert?: boolean };
+
 /**
  * 代理协调器接口
  */
@@ -141,7 +163,7 @@ export interface IAgentCoordinator {
      * @param userMessage 用户消息
      * @param options 可选的流式消息选项（包含中断信号和工具确认回调）
      */
-    streamMessage(session: SessionState, userMessage: string, options?: StreamMessageOptions): AsyncIterable<AgentStreamEvent>;
+    streamMessage(session: SessionState, userMessage: string | ContentBlock[], options?: StreamMessageOptions): AsyncIterable<AgentStreamEvent>;
 
     /**
      * 获取工具定义（用于发送给模型）
@@ -157,6 +179,16 @@ export interface IAgentCoordinator {
  */
 const DEFAULT_MAX_TOOL_LOOPS = 1000;
 
+/**
+ * 单个工具执行超时：2分钟
+ */
+const TOOL_TIMEOUT = 120000;
+
+/**
+ * 默认单次请求最大输出 tokens
+ */
+const DEFAULT_MAX_TOKENS = 32768;
+
 /**
  * 生成会话 ID
  */
@@ -170,14 +202,19 @@ function generateSessionId(): string {
 export class AgentCoordinator implements IAgentCoordinator {
     readonly _serviceBrand: undefined;
 
+    private readonly contextManager: ContextManager;
+
     constructor(
         @ILogService private readonly logService: ILogService,
         @IConfigurationService private readonly configService: IConfigurationService,
         @IClaudeConfigService private readonly claudeConfigService: IClaudeConfigService,
         @IClaudeApiClient private readonly apiClient: IClaudeApiClient,
         @IToolRegistry private readonly toolRegistry: IToolRegistry,
-        @IImagePreprocessingService private readonly imagePreprocessing: IImagePreprocessingService
-    ) { }
+        @IImagePreprocessingService private readonly imagePreprocessing: IImagePreprocessingService,
+        @IFileSnapshotService private readonly snapshotService: IFileSnapshotService
+    ) {
+        this.contextManager = new ContextManager(this.logService);
+    }
 
     createSession(config: AgentConfig): SessionState {
         const sessionId = generateSessionId();
@@ -213,11 +250,12 @@ export class AgentCoordinator implements IAgentCoordinator {
         return fullResponse;
     }
 
-    async *streamMessage(session: SessionState, userMessage: string, options?: StreamMessageOptions): AsyncIterable<AgentStreamEvent> {
+    async *streamMessage(session: SessionState, userMessage: string | ContentBlock[], options?: StreamMessageOptions): AsyncIterable<AgentStreamEvent> {
         const { config } = session;
         const maxLoops = config.maxToolLoops ?? DEFAULT_MAX_TOOL_LOOPS;
         const signal = options?.signal;
         const toolConfirmCallback = options?.toolConfirmCallback;
+        const client = config.client ?? this.apiClient;
 
         // 检查是否已被中断
         if (signal?.aborted) {
@@ -228,7 +266,7 @@ export class AgentCoordinator implements IAgentCoordinator {
         this.logService.info(`[AgentCoordinator] ====== streamMessage 开始 ======`);
         this.logService.info(`[AgentCoordinator] session.id: ${session.id}`);
         this.logService.info(`[AgentCoordinator] config.model: ${config.model || '(未设置)'}`);
-        this.logService.info(`[AgentCoordinator] userMessage: ${userMessage.slice(0, 50)}...`);
+        this.logService.info(`[AgentCoordinator] userMessage: ${typeof userMessage === 'string' ? userMessage.slice(0, 50) : `[${userMessage.length} 个内容块]`}...`);
         this.logService.info(`[AgentCoordinator] toolConfirmCallback: ${toolConfirmCallback ? '已设置' : '未设置'}`);
 
         // 1. 处理用户消息（包括图片预处理）
@@ -247,6 +285,15 @@ export class AgentCoordinator implements IAgentCoordinator {
         const tools = this.getToolDefinitions();
         this.logService.info(`[AgentCoordinator] 工具数量: ${tools.length}`);
 
+        // 上下文预算（系统提示词和工具定义每轮都会发送）
+        const maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+        const contextWindow = config.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+        const budget: ContextBudget = {
+            contextWindow,
+            outputReserve: Math.min(maxTokens, Math.floor(contextWindow / 4)),
+            fixedTokens: estimateFixedTokens(systemPrompt, tools),
+        };
+
         // 4. 工具调用循环
         let loopCount = 0;
         let finalResponse = '';
@@ -265,13 +312,29 @@ export class AgentCoordinator implements IAgentCoordinator {
             this.logService.info(`[AgentCoordinator] 工具调用循环 ${loopCount}/${maxLoops}`);
 
             try {
+                // 接近上下文窗口时压缩历史
+                if (this.contextManager.needsCompaction(session.messages, budget, session.contextStats)) {
+                    yield { type: 'compacting', preTokens: this.contextManager.estimate(session.messages, budget, session.contextStats) };
+                    const compaction = await this.contextManager.compact(
+                        session.messages,
+                        budget,
+                        client,
+                        config.model,
+                        session.contextStats,
+                        signal
+                    );
+                    this.logService.info(`[AgentCoordinator] 上下文压缩完成: ${compaction.strategy}, ${compaction.preTokens} -> ${compaction.postTokens} tokens`);
+                    yield { type: 'compacted', ...compaction };
+                }
+                const estimatedInputTokens = this.contextManager.estimate(session.messages, budget);
+
                 // 5. 发送流式请求
                 const request: MessageRequest = {
                     model: config.model || undefined as any,
                     messages: session.messages,
                     system: systemPrompt,
                     tools,
-                    max_tokens: 32768,
+                    max_tokens: maxTokens,
                 };
 
                 this.logService.info(`[AgentCoordinator] 即将发送流式 API 请求，model=${request.model || '(undefined, 使用默认)'}`);
@@ -285,11 +348,12 @@ export class AgentCoordinator implements IAgentCoordinator {
                 let currentToolUseName = '';
                 let currentToolUseInputJson = '';
                 let stopReason: string | undefined;
+                let requestInputTokens = 0;
 
                 let streamEventCount = 0;
                 this.logService.info(`[AgentCoordinator] 开始接收 SSE 流事件...`);
 
-                for await (const event of this.apiClient.streamMessage(request, signal)) {
+                for await (const event of client.streamMessage(request, signal)) {
                     // 检查是否被中断
                     if (signal?.aborted) {
                         this.logService.info(`[AgentCoordinator] 收到中断信号，停止处理`);
@@ -305,7 +369,8 @@ export class AgentCoordinator implements IAgentCoordinator {
                             this.logService.info(`[AgentCoordinator] message_start 收到`);
                             // 消息开始，可以获取 usage.input_tokens
                             if (event.message?.usage?.input_tokens) {
-                                totalInputTokens += event.message.usage.input_tokens;
+                                requestInputTokens = event.message.usage.input_tokens;
+                                totalInputTokens += requestInputTokens;
                             }
                             break;
 
@@ -371,6 +436,11 @@ export class AgentCoordinator implements IAgentCoordinator {
                             if (event.usage?.output_tokens) {
                                 totalOutputTokens += event.usage.output_tokens;
                             }
+                            // OpenAI 兼容接口只在流结束时返回 input_tokens
+                            if (event.usage?.input_tokens && !requestInputTokens) {
+                                requestInputTokens = event.usage.input_tokens;
+                                totalInputTokens += requestInputTokens;
+                            }
                             break;
 
                         case 'message_stop':
@@ -388,6 +458,11 @@ export class AgentCoordinator implements IAgentCoordinator {
 
                 this.logService.info(`[AgentCoordinator] 流式请求完成，stop_reason=${stopReason}`);
 
+                // 记录实际 input_tokens，用于校准下一轮的上下文估算
+                if (requestInputTokens > 0) {
+                    session.contextStats = { actualInputTokens: requestInputTokens, estimatedInputTokens };
+                }
+
                 // 保护性检查：如果 stopReason 未定义，记录警告并视为异常
                 if (!stopReason) {
                     this.logService.warn(`[AgentCoordinator] 警告: SSE 流结束但未收到 stop_reason，可能存在网络问题`);
@@ -448,12 +523,17 @@ export class AgentCoordinator implements IAgentCoordinator {
 
                 this.logService.info(`[AgentCoordinator] 有 ${toolUses.length} 个工具调用，开始执行...`);
 
-                // 8. 执行工具调用
-                const toolResults: ToolResultBlock[] = [];
-                const TOOL_TIMEOUT = 120000; // 工具执行超时：2分钟
+                // 将本轮工具调用绑定到同一个检查点，便于按轮次回滚
+                this.snapshotService.bindToolUses(session.id, `turn_${randomUUID()}`, toolUses.map(t => t.id));
+
+                // 8. 逐个确认工具调用（权限确认按模型给出的顺序依次弹出）
+                const resultsById = new Map<string, ExecutedToolResult>();
+                const approved: ToolUseBlock[] = [];
 
                 for (const toolUse of toolUses) {
-                    // 8.1 检查是否需要用户确认
+                    if (signal?.aborted) {
+                        break;
+                    }
                     if (toolConfirmCallback) {
                         this.logService.info(`[AgentCoordinator] 工具 ${toolUse.name} 需要用户确认...`);
                         const confirmed = await toolConfirmCallback(toolUse.name, toolUse.id, toolUse.input);
@@ -462,7 +542,7 @@ export class AgentCoordinator implements IAgentCoordinator {
                             yield { type: 'tool_rejected', id: toolUse.id, name: toolUse.name, reason: '用户拒绝执行' };
 
                             // 添加拒绝结果到工具结果列表
-                            toolResults.push({
+                            resultsById.set(toolUse.id, {
                                 type: 'tool_result',
                                 tool_use_id: toolUse.id,
                                 content: '用户拒绝执行此操作',
@@ -472,78 +552,40 @@ export class AgentCoordinator implements IAgentCoordinator {
                         }
                         this.logService.info(`[AgentCoordinator] 工具 ${toolUse.name} 用户已确认`);
                     }
+                    approved.push(toolUse);
+                }
 
-                    yield { type: 'tool_start', id: toolUse.id, name: toolUse.name, input: toolUse.input };
-
-                    const context: ToolContext = {
-                        cwd: config.cwd,
-                        logService: this.logService,
-                        sessionId: session.id,
-                        metadata: {
-                            toolUseId: toolUse.id,
-                        },
-                    };
-
-                    const toolRequest: ToolUseRequest = {
-                        id: toolUse.id,
-                        name: toolUse.name,
-                        input: toolUse.input,
-                    };
-
-                    let result;
-                    try {
-                        // 添加工具执行超时保护
-                        const executePromise = this.toolRegistry.execute(toolRequest, context);
-                        const timeoutPromise = new Promise<never>((_, reject) => {
-                            setTimeout(() => reject(new Error(`工具 ${toolUse.name} 执行超时（${TOOL_TIMEOUT / 1000}秒）`)), TOOL_TIMEOUT);
-                        });
-                        result = await Promise.race([executePromise, timeoutPromise]);
-                    } catch (toolError) {
-                        this.logService.error(`[AgentCoordinator] 工具执行失败: ${toolError}`);
-                        result = {
-                            content: `工具执行错误: ${toolError}`,
-                            is_error: true,
-                        };
-                    }
-
-                    // 统一转换为字符串
-                    const resultContent = typeof result.content === 'string'
-                        ? result.content
-                        : JSON.stringify(result.content);
-
-                    // 发送 tool_end 事件，包含撤回相关字段
-                    yield {
-                        type: 'tool_end',
-                        id: toolUse.id,
-                        name: toolUse.name,
-                        output: resultContent,
-                        isError: result.is_error ?? false,
-                        snapshotId: result.snapshotId,
-                        canRevert: result.canRevert,
-                    };
-
-                    // 构建工具结果对象，包含撤回元数据
-                    const toolResultObj: any = {
-                        type: 'tool_result',
-                        tool_use_id: toolUse.id,
-                        content: resultContent,
-                        is_error: result.is_error,
-                    };
-                    // 传递撤回相关字段（如果存在）
-                    if (result.snapshotId) {
-                        toolResultObj.snapshotId = result.snapshotId;
+                // 9. 分批执行：连续的只读工具并行执行，其余工具逐个执行
+                for (const batch of this.groupToolBatches(approved)) {
+                    if (signal?.aborted) {
+                        break;
                     }
-                    if (result.canRevert !== undefined) {
-                        toolResultObj.canRevert = result.canRevert;
+                    if (batch.length > 1) {
+                        this.logService.info(`[AgentCoordinator] 并行执行 ${batch.length} 个只读工具: ${batch.map(t => t.name).join(', ')}`);
                     }
-                    toolResults.push(toolResultObj);
+                    yield* this.executeToolBatch(batch, session, resultsById, signal);
+                }
+
+                // 按模型给出的顺序整理结果，未执行的工具（中断）标记为已取消
+                const toolResults: ToolResultBlock[] = toolUses.map(toolUse => resultsById.get(toolUse.id) ?? {
+                    type: 'tool_result',
+                    tool_use_id: toolUse.id,
+                    content: '操作已取消',
+                    is_error: true,
+                });
 
-                    this.logService.info(`[AgentCoordinator] 工具 ${toolUse.name} 执行完成`);
+                if (signal?.aborted) {
+                    // 保留工具调用和结果，保证下一轮对话的消息历史完整
+                    session.messages.push({ role: 'assistant', content: contentBlocks });
+                    session.messages.push({ role: 'user', content: toolResults });
+                    this.logService.info(`[AgentCoordinator] 工具执行期间收到中断信号，退出工具调用循环`);
+                    yield { type: 'error', error: '请求被用户中断' };
+                    return;
                 }
 
                 this.logService.info(`[AgentCoordinator] 所有工具执行完成 (${toolResults.length} 个)，添加消息到历史并继续循环`);
 
-                // 9. 添加助手消息和工具结果到历史
+                // 10. 添加助手消息和工具结果到历史
                 session.messages.push({
                     role: 'assistant',
                     content: contentBlocks,
@@ -577,6 +619,150 @@ export class AgentCoordinator implements IAgentCoordinator {
         return this.toolRegistry.getToolDefinitions();
     }
 
+    /**
+     * 将工具调用分批：连续的只读工具为一批，其余工具单独成批
+     */
+    private groupToolBatches(toolUses: ToolUseBlock[]): ToolUseBlock[][] {
+        const batches: ToolUseBlock[][] = [];
+        for (const toolUse of toolUses) {
+            const last = batches[batches.length - 1];
+            if (last && this.toolRegistry.isReadOnly(toolUse.name) && this.toolRegistry.isReadOnly(last[0].name)) {
+                last.push(toolUse);
+            } else {
+                batches.push([toolUse]);
+            }
+        }
+        return batches;
+    }
+
+    /**
+     * 执行一批工具，按完成顺序输出 tool_progress / tool_end 事件
+     */
+    private async *executeToolBatch(
+        batch: ToolUseBlock[],
+        session: SessionState,
+        resultsById: Map<string, ExecutedToolResult>,
+        signal?: AbortSignal
+    ): AsyncGenerator<AgentStreamEvent> {
+        const pending: AgentStreamEvent[] = [];
+        let wake: (() => void) | undefined;
+        const push = (event: AgentStreamEvent) => {
+            pending.push(event);
+            wake?.();
+            wake = undefined;
+        };
+
+        for (const toolUse of batch) {
+            yield { type: 'tool_start', id: toolUse.id, name: toolUse.name, input: toolUse.input };
+        }
+
+        for (const toolUse of batch) {
+            void this.executeTool(toolUse, session, signal, output => {
+                push({ type: 'tool_progress', id: toolUse.id, name: toolUse.name, output });
+            }).then(result => {
+                resultsById.set(toolUse.id, result);
+                const output = typeof result.content === 'string' ? result.content : JSON.stringify(result.content);
+                // 发送 tool_end 事件，包含撤回相关字段
+                push({
+                    type: 'tool_end',
+                    id: toolUse.id,
+                    name: toolUse.name,
+                    output,
+                    isError: result.is_error ?? false,
+                    snapshotId: result.snapshotId,
+                    canRevert: result.canRevert,
+                });
+                this.logService.info(`[AgentCoordinator] 工具 ${toolUse.name} 执行完成`);
+            });
+        }
+
+        let remaining = batch.length;
+        while (remaining > 0) {
+            if (pending.length === 0) {
+                await new Promise<void>(resolve => { wake = resolve; });
+            }
+            while (pending.length > 0) {
+                const event = pending.shift()!;
+                if (event.type === 'tool_end') {
+                    remaining--;
+                }
+                yield event;
+            }
+        }
+    }
+
+    /**
+     * 执行单个工具（带超时和中断保护），异常转换为错误结果
+     */
+    private async executeTool(
+        toolUse: ToolUseBlock,
+        session: SessionState,
+        signal: AbortSignal | undefined,
+        onProgress: (output: string) => void
+    ): Promise<ExecutedToolResult> {
+        const context: ToolContext = {
+            cwd: session.config.cwd,
+            abortSignal: signal,
+            logService: this.logService,
+            sessionId: session.id,
+            snapshotService: this.snapshotService,
+            onProgress,
+            metadata: {
+                toolUseId: toolUse.id,
+            },
+        };
+
+        const toolRequest: ToolUseRequest = {
+            id: toolUse.id,
+            name: toolUse.name,
+            input: toolUse.input,
+        };
+
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        let onAbort: (() => void) | undefined;
+
+        try {
+            const executePromise = this.toolRegistry.execute(toolRequest, context);
+            const timeoutPromise = new Promise<never>((_, reject) => {
+                timeoutId = setTimeout(() => reject(new Error(`工具 ${toolUse.name} 执行超时（${TOOL_TIMEOUT / 1000}秒）`)), TOOL_TIMEOUT);
+            });
+            // 中断时不等待工具自行结束
+            const abortPromise = new Promise<never>((_, reject) => {
+                onAbort = () => reject(new Error('操作已取消'));
+                signal?.addEventListener('abort', onAbort);
+            });
+            const result = await Promise.race([executePromise, timeoutPromise, abortPromise]);
+
+            // 构建工具结果对象，包含撤回元数据
+            const toolResult: ExecutedToolResult = {
+                type: 'tool_result',
+                tool_use_id: toolUse.id,
+                content: typeof result.content === 'string' ? result.content : JSON.stringify(result.content),
+                is_error: result.is_error,
+            };
+            if (result.snapshotId) {
+                toolResult.snapshotId = result.snapshotId;
+            }
+            if (result.canRevert !== undefined) {
+                toolResult.canRevert = result.canRevert;
+            }
+            return toolResult;
+        } catch (toolError) {
+            this.logService.error(`[AgentCoordinator] 工具执行失败: ${toolError}`);
+            return {
+                type: 'tool_result',
+                tool_use_id: toolUse.id,
+                content: signal?.aborted ? '操作已取消' : `工具执行错误: ${toolError}`,
+                is_error: true,
+            };
+        } finally {
+            clearTimeout(timeoutId);
+            if (onAbort) {
+                signal?.removeEventListener('abort', onAbort);
+            }
+        }
+    }
+
     /**
      * 构建系统提示词
      */
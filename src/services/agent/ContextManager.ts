@@ -0,0 +1,403 @@
+/**
+ * ContextManager - 上下文预算管理
+ *
+ * 职责：
+ * 1. 按消息估算 token 数（根据上一轮 API 返回的实际 input_tokens 校准）
+ * 2. 接近上下文窗口时压缩会话历史：
+ *    - 裁剪较早的工具结果
+ *    - 通过同一个模型客户端将较早的对话总结为摘要
+ *    - 摘要失败时直接移除最早的消息
+ */
+
+import { ILogService } from '../logService';
+import type {
+    Message,
+    ContentBlock,
+    ToolResultBlock,
+} from '../ai/ClaudeApiClient';
+import type { ToolDefinition } from '../../tools';
+import type { MessageStreamClient } from '../ai/OpenAICompatibleClient';
+
+// ============== 类型定义 ==============
+
+/**
+ * 上下文预算
+ */
+export interface ContextBudget {
+    /** 模型上下文窗口 */
+    contextWindow: number;
+    /** 为输出预留的 tokens */
+    outputReserve: number;
+    /** 系统提示词和工具定义占用的 tokens */
+    fixedTokens: number;
+}
+
+/**
+ * 上一轮请求的 token 统计（用于校准估算）
+ */
+export interface ContextStats {
+    /** API 返回的实际 input_tokens */
+    actualInputTokens: number;
+    /** 同一请求的估算值 */
+    estimatedInputTokens: number;
+}
+
+/**
+ * 压缩结果
+ */
+export interface CompactionResult {
+    /** 使用的策略：裁剪工具结果 / 生成摘要 / 移除最早的消息 */
+    strategy: 'trim' | 'summarize' | 'truncate';
+    /** 压缩前估算的 tokens */
+    preTokens: number;
+    /** 压缩后估算的 tokens */
+    postTokens: number;
+    /** 耗时（毫秒） */
+    durationMs: number;
+}
+
+// ============== 常量 ==============
+
+/** 达到可用预算的该比例时触发压缩 */
+const COMPACT_THRESHOLD = 0.85;
+
+/** 压缩目标：可用预算的该比例 */
+const COMPACT_TARGET = 0.5;
+
+/** 始终保留原文的最近消息数 */
+const KEEP_RECENT_MESSAGES = 6;
+
+/** 较早工具结果裁剪后保留的字符数 */
+const TRIMMED_TOOL_RESULT_CHARS = 1000;
+
+/** 裁剪标记（避免重复裁剪） */
+const TRIMMED_MARKER = '[旧工具结果已裁剪';
+
+/** 摘要请求最大输出 tokens */
+const SUMMARY_MAX_TOKENS = 4096;
+
+/** 摘要转录中单条工具结果保留的字符数 */
+const SUMMARY_TOOL_RESULT_CHARS = 500;
+
+/** 图片按固定 tokens 估算 */
+const IMAGE_TOKENS = 1600;
+
+/** 每条消息的格式开销 */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_SYSTEM_PROMPT = `你负责压缩一段编程助手与用户之间的对话记录，使后续对话可以在不查看原始记录的情况下继续。
+请输出简洁的中文摘要，包含：
+1. 用户的原始需求和后续补充要求（尽量保留原文）
+2. 已完成的工作：修改过的文件、执行过的命令及关键结果
+3. 重要的发现、决策和约束
+4. 尚未完成的工作和下一步计划
+不要编造记录中不存在的内容，不要输出与摘要无关的解释。`;
+
+const CJK_PATTERN = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+// ============== token 估算 ==============
+
+/**
+ * 估算文本 token 数：CJK 字符约 1 token/字，其余约 4 字符/token
+ */
+export function estimateTextTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+    const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+    return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+function estimateBlockTokens(block: ContentBlock): number {
+    switch (block.type) {
+        case 'text':
+            return estimateTextTokens(block.text);
+        case 'image':
+            return IMAGE_TOKENS;
+        case 'tool_use':
+            return estimateTextTokens(block.name) + estimateTextTokens(JSON.stringify(block.input ?? {}));
+        case 'tool_result':
+            return typeof block.content === 'string'
+                ? estimateTextTokens(block.content)
+                : block.content.reduce((sum, b) => sum + estimateBlockTokens(b), 0);
+        default:
+            return estimateTextTokens(JSON.stringify(block));
+    }
+}
+
+/**
+ * 估算单条消息的 token 数
+ */
+export function estimateMessageTokens(message: Message): number {
+    const content = typeof message.content === 'string'
+        ? estimateTextTokens(message.content)
+        : message.content.reduce((sum, block) => sum + estimateBlockTokens(block), 0);
+    return content + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * 估算系统提示词和工具定义的 token 数
+ */
+export function estimateFixedTokens(system: string | undefined, tools: ToolDefinition[]): number {
+    return estimateTextTokens(system ?? '') + estimateTextTokens(JSON.stringify(tools));
+}
+
+function isToolResultMessage(message: Message): boolean {
+    return Array.isArray(message.content) && message.content.some(b => b.type === 'tool_result');
+}
+
+// ============== 实现 ==============
+
+/**
+ * 上下文预算管理器
+ */
+export class ContextManager {
+    constructor(
+        private readonly logService: ILogService
+    ) { }
+
+    /**
+     * 估算请求的输入 tokens（按上一轮的实际值校准）
+     */
+    estimate(messages: Message[], budget: ContextBudget, stats?: ContextStats): number {
+        const raw = budget.fixedTokens + messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+        return Math.ceil(raw * this.getCalibration(stats));
+    }
+
+    /**
+     * 可用于输入的 tokens
+     */
+    getAvailable(budget: ContextBudget): number {
+        return Math.max(budget.contextWindow - budget.outputReserve, Math.floor(budget.contextWindow / 2));
+    }
+
+    /**
+     * 是否需要压缩
+     */
+    needsCompaction(messages: Message[], budget: ContextBudget, stats?: ContextStats): boolean {
+        return this.estimate(messages, budget, stats) > this.getAvailable(budget) * COMPACT_THRESHOLD;
+    }
+
+    /**
+     * 压缩会话历史（原地修改 messages）
+     *
+     * 依次尝试：裁剪较早的工具结果 → 总结较早的对话 → 移除最早的消息
+     */
+    async compact(
+        messages: Message[],
+        budget: ContextBudget,
+        client: MessageStreamClient,
+        model: string | undefined,
+        stats?: ContextStats,
+        signal?: AbortSignal
+    ): Promise<CompactionResult> {
+        const startedAt = Date.now();
+        const preTokens = this.estimate(messages, budget, stats);
+        const target = this.getAvailable(budget) * COMPACT_TARGET;
+        const result = (strategy: CompactionResult['strategy']): CompactionResult => ({
+            strategy,
+            preTokens,
+            postTokens: this.estimate(messages, budget, stats),
+            durationMs: Date.now() - startedAt,
+        });
+
+        this.logService.info(`[ContextManager] 开始压缩上下文: ${preTokens} tokens, 目标 ${Math.floor(target)} tokens, 消息数 ${messages.length}`);
+
+        // 1. 裁剪较早的工具结果
+        const trimmed = this.trimToolResults(messages);
+        if (trimmed > 0) {
+            this.logService.info(`[ContextManager] 已裁剪 ${trimmed} 个较早的工具结果`);
+        }
+        if (this.estimate(messages, budget, stats) <= target) {
+            return result('trim');
+        }
+
+        // 2. 总结较早的对话
+        const splitIndex = this.findSplitIndex(messages);
+        if (splitIndex <= 0) {
+            this.logService.warn('[ContextManager] 没有可压缩的较早消息');
+            return result('trim');
+        }
+
+        try {
+            const summary = await this.summarize(messages.slice(0, splitIndex), budget, client, model, signal);
+            messages.splice(0, splitIndex, {
+                role: 'user',
+                content: `[此前对话的摘要]\n${summary}\n\n请基于以上摘要继续完成任务。`,
+            });
+            this.logService.info(`[ContextManager] 已将 ${splitIndex} 条较早的消息压缩为摘要（${summary.length} 字符）`);
+
+            if (this.estimate(messages, budget, stats) <= this.getAvailable(budget) * COMPACT_THRESHOLD) {
+                return result('summarize');
+            }
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            this.logService.warn(`[ContextManager] 生成摘要失败，改为移除最早的消息: ${error}`);
+        }
+
+        // 3. 移除最早的消息，直到低于目标
+        this.truncate(messages, budget, target, stats);
+        return result('truncate');
+    }
+
+    /**
+     * 根据上一轮实际 input_tokens 计算校准系数（限制在 0.5 ~ 2 之间）
+     */
+    private getCalibration(stats?: ContextStats): number {
+        if (!stats || stats.actualInputTokens <= 0 || stats.estimatedInputTokens <= 0) {
+            return 1;
+        }
+        return Math.min(2, Math.max(0.5, stats.actualInputTokens / stats.estimatedInputTokens));
+    }
+
+    /**
+     * 裁剪最近消息之前的长工具结果，返回裁剪数量
+     */
+    private trimToolResults(messages: Message[]): number {
+        let count = 0;
+        const end = Math.max(0, messages.length - KEEP_RECENT_MESSAGES);
+
+        for (let i = 0; i < end; i++) {
+            const content = messages[i].content;
+            if (!Array.isArray(content)) {
+                continue;
+            }
+            messages[i] = {
+                ...messages[i],
+                content: content.map(block => {
+                    if (block.type !== 'tool_result' || typeof block.content !== 'string') {
+                        return block;
+                    }
+                    if (block.content.length <= TRIMMED_TOOL_RESULT_CHARS || block.content.includes(TRIMMED_MARKER)) {
+                        return block;
+                    }
+                    count++;
+                    const trimmedBlock: ToolResultBlock = {
+                        ...block,
+                        content: `${block.content.slice(0, TRIMMED_TOOL_RESULT_CHARS)}\n...${TRIMMED_MARKER}，原长度 ${block.content.length} 字符]`,
+                    };
+                    return trimmedBlock;
+                }),
+            };
+        }
+
+        return count;
+    }
+
+    /**
+     * 查找压缩分界点：最近消息之前的最后一条助手消息
+     *
+     * 分界点之前的消息被替换为一条用户摘要消息，
+     * 从助手消息开始保留可以保证 tool_use / tool_result 成对出现且角色交替
+     */
+    private findSplitIndex(messages: Message[]): number {
+        for (let i = messages.length - KEEP_RECENT_MESSAGES; i > 0; i--) {
+            if (messages[i]?.role === 'assistant') {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * 通过模型客户端生成摘要
+     */
+    private async summarize(
+        older: Message[],
+        budget: ContextBudget,
+        client: MessageStreamClient,
+        model: string | undefined,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const lines = older.map(message => this.renderMessage(message));
+
+        // 转录本身不能超过上下文，保留第一条（原始需求），从较早的内容开始丢弃
+        const limit = this.getAvailable(budget) - SUMMARY_MAX_TOKENS - estimateTextTokens(SUMMARY_SYSTEM_PROMPT);
+        let total = lines.reduce((sum, line) => sum + estimateTextTokens(line), 0);
+        while (total > limit && lines.length > 2) {
+            total -= estimateTextTokens(lines.splice(1, 1)[0]);
+        }
+
+        let summary = '';
+        for await (const event of client.streamMessage({
+            model: model || undefined as any,
+            system: SUMMARY_SYSTEM_PROMPT,
+            messages: [{ role: 'user', content: `以下是需要压缩的对话记录：\n\n${lines.join('\n\n')}` }],
+            max_tokens: SUMMARY_MAX_TOKENS,
+        }, signal)) {
+            if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                summary += event.delta.text;
+            } else if (event.type === 'error') {
+                throw new Error(event.error.message);
+            }
+        }
+
+        if (signal?.aborted) {
+            throw new Error('请求被用户中断');
+        }
+        if (!summary.trim()) {
+            throw new Error('摘要为空');
+        }
+        return summary.trim();
+    }
+
+    /**
+     * 将消息渲染为摘要转录文本
+     */
+    private renderMessage(message: Message): string {
+        const speaker = message.role === 'user'
+            ? (isToolResultMessage(message) ? '工具结果' : '用户')
+            : '助手';
+
+        if (typeof message.content === 'string') {
+            return `【${speaker}】${message.content}`;
+        }
+
+        const parts = message.content.map(block => {
+            switch (block.type) {
+                case 'text':
+                    return block.text;
+                case 'image':
+                    return '[图片]';
+                case 'tool_use':
+                    return `[调用工具 ${block.name}] ${JSON.stringify(block.input ?? {})}`;
+                case 'tool_result': {
+                    const text = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+                    const clipped = text.length > SUMMARY_TOOL_RESULT_CHARS ? `${text.slice(0, SUMMARY_TOOL_RESULT_CHARS)}...` : text;
+                    return `${block.is_error ? '[错误] ' : ''}${clipped}`;
+                }
+                default:
+                    return '';
+            }
+        });
+        return `【${speaker}】${parts.filter(Boolean).join('\n')}`;
+    }
+
+    /**
+     * 从最早的消息开始移除，直到低于目标
+     */
+    private truncate(messages: Message[], budget: ContextBudget, target: number, stats?: ContextStats): void {
+        let removed = 0;
+        while (this.estimate(messages, budget, stats) > target) {
+            const splitIndex = this.findSplitIndex(messages);
+            // 每次至少移除到下一条助手消息，保留最近的消息
+            const next = messages.findIndex((m, i) => i > 0 && m.role === 'assistant');
+            const index = next > 0 && next <= splitIndex ? next : -1;
+            if (index <= 0) {
+                break;
+            }
+            messages.splice(0, index);
+            removed += index;
+        }
+
+        if (removed > 0) {
+            messages.unshift({
+                role: 'user',
+                content: '[较早的对话已被移除以适应上下文长度，请基于剩余的上下文继续完成任务。]',
+            });
+            this.logService.info(`[ContextManager] 已移除 ${removed} 条最早的消息`);
+        }
+    }
+}
@@ -3,3 +3,4 @@
  */
 
 export * from './AgentCoordinator';
+export * from './ContextManager';
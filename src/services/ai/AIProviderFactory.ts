@@ -10,7 +10,11 @@
 import { createDecorator } from '../../di/instantiation';
 import { ILogService } from '../logService';
 import { IConfigurationService } from '../configurationService';
-import { IAIProvider, ProviderType } from './IAIProvider';
+import { IClaudeConfigService } from '../claudeConfigService';
+import { IModelRegistryService } from '../modelRegistryService';
+import { IAgentCoordinator } from '../agent/AgentCoordinator';
+import { IAIProvider, ProviderCapabilities, ProviderType, splitProviderModelId } from './IAIProvider';
+import { AgentProvider, AGENT_PROVIDER_DEFINITIONS } from './AgentProvider';
 
 export const IAIProviderFactory = createDecorator<IAIProviderFactory>('aiProviderFactory');
 
@@ -22,6 +26,7 @@ export interface ProviderInfo {
     displayName: string;
     available: boolean;
     models: Array<{ id: string; name: string }>;
+    capabilities: ProviderCapabilities;
 }
 
 /**
@@ -98,8 +103,23 @@ export class AIProviderFactory implements IAIProviderFactory {
 
     constructor(
         @ILogService private readonly logService: ILogService,
-        @IConfigurationService private readonly configService: IConfigurationService
+        @IConfigurationService private readonly configService: IConfigurationService,
+        @IClaudeConfigService private readonly claudeConfigService: IClaudeConfigService,
+        @IAgentCoordinator private readonly agentCoordinator: IAgentCoordinator,
+        @IModelRegistryService private readonly modelRegistry: IModelRegistryService
     ) {
+        // OpenAI 兼容 / Ollama / GLM：通过 AgentCoordinator 执行工具调用循环
+        for (const definition of AGENT_PROVIDER_DEFINITIONS) {
+            this.providers.set(definition.type, new AgentProvider(
+                definition,
+                this.agentCoordinator,
+                this.configService,
+                this.claudeConfigService,
+                this.modelRegistry,
+                this.logService
+            ));
+        }
+
         this.logService.info('[AIProviderFactory] Initialized with providers: ' +
             Array.from(this.providers.keys()).join(', '));
     }
@@ -117,6 +137,18 @@ export class AIProviderFactory implements IAIProviderFactory {
     }
 
     getProviderByModel(modelId: string): IAIProvider | undefined {
+        // 带前缀的模型 ID（如 "ollama:qwen2.5-coder"）
+        const prefixed = splitProviderModelId(modelId);
+        if (prefixed && prefixed.provider !== 'claude' && this.providers.has(prefixed.provider as ProviderType)) {
+            return this.providers.get(prefixed.provider as ProviderType);
+        }
+
+        // 模型目录中登记的模型
+        const entry = this.modelRegistry.getModel(modelId);
+        if (entry && this.providers.has(entry.provider as ProviderType)) {
+            return this.providers.get(entry.provider as ProviderType);
+        }
+
         const providerType = MODEL_PROVIDER_MAP[modelId];
         if (providerType) {
             return this.providers.get(providerType);
@@ -142,6 +174,7 @@ export class AIProviderFactory implements IAIProviderFactory {
                 displayName: provider.displayName,
                 available,
                 models,
+                capabilities: provider.getCapabilities(),
             });
         }
 
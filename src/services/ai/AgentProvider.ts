@@ -0,0 +1,571 @@
+/**
+ * AgentProvider - 基于 AgentCoordinator 的 AI Provider
+ *
+ * 用于 OpenAI 兼容接口、Ollama 和 GLM 文本模型：
+ * - 模型请求通过 OpenAICompatibleClient 发送
+ * - 工具调用循环由 AgentCoordinator 执行（使用 IToolRegistry 中的内置工具）
+ * - 输出转换为与 Claude SDK 一致的消息格式，WebView 无需区分来源
+ */
+
+import { randomUUID } from 'crypto';
+import { ILogService } from '../logService';
+import { IConfigurationService } from '../configurationService';
+import { IClaudeConfigService } from '../claudeConfigService';
+import type { IModelRegistryService } from '../modelRegistryService';
+import type { IAgentCoordinator, AgentStreamEvent, SessionState } from '../agent/AgentCoordinator';
+import type { ContentBlock } from './ClaudeApiClient';
+import { OpenAICompatibleClient } from './OpenAICompatibleClient';
+import {
+    IAIProvider,
+    IAIQuery,
+    AIMessage,
+    AIQueryParams,
+    ProviderCapabilities,
+    ProviderType,
+    splitProviderModelId,
+} from './IAIProvider';
+
+// ============== 类型定义 ==============
+
+/**
+ * 单个 Provider 的用户配置（xiong.providers.<type>）
+ */
+export interface AgentProviderSettings {
+    /** 是否启用（默认启用） */
+    enabled?: boolean;
+    /** API Base URL（包含版本路径） */
+    baseUrl?: string;
+    /** API Key */
+    apiKey?: string;
+    /** 模型列表（为空时自动获取或使用默认列表） */
+    models?: string[];
+    /** 单次请求最大输出 tokens */
+    maxTokens?: number;
+    /** 模型上下文窗口（tokens），用于自动压缩上下文 */
+    contextWindow?: number;
+}
+
+/**
+ * Provider 定义
+ */
+export interface AgentProviderDefinition {
+    type: Exclude<ProviderType, 'claude'>;
+    displayName: string;
+    defaultBaseUrl: string;
+    requiresApiKey: boolean;
+    defaultModels: string[];
+    defaultMaxTokens: number;
+    defaultContextWindow: number;
+    capabilities: Omit<ProviderCapabilities, 'models'>;
+}
+
+/**
+ * 内置的 Agent Provider 定义
+ */
+export const AGENT_PROVIDER_DEFINITIONS: AgentProviderDefinition[] = [
+    {
+        type: 'openai',
+        displayName: 'OpenAI 兼容',
+        defaultBaseUrl: 'https://api.openai.com/v1',
+        requiresApiKey: true,
+        defaultModels: [],
+        defaultMaxTokens: 8192,
+        defaultContextWindow: 128000,
+        capabilities: { streaming: true, toolUse: true, thinking: false, resume: false, interrupt: true },
+    },
+    {
+        type: 'ollama',
+        displayName: 'Ollama（本地）',
+        defaultBaseUrl: 'http://localhost:11434/v1',
+        requiresApiKey: false,
+        defaultModels: [],
+        defaultMaxTokens: 8192,
+        defaultContextWindow: 32768,
+        capabilities: { streaming: true, toolUse: true, thinking: false, resume: false, interrupt: true },
+    },
+    {
+        type: 'glm',
+        displayName: 'GLM',
+        defaultBaseUrl: 'https://open.bigmodel.cn/api/paas/v4',
+        requiresApiKey: true,
+        defaultModels: ['glm-4.6', 'glm-4.5-air'],
+        defaultMaxTokens: 16384,
+        defaultContextWindow: 128000,
+        capabilities: { streaming: true, toolUse: true, thinking: false, resume: false, interrupt: true },
+    },
+];
+
+/**
+ * 内置工具名 → Claude Code 工具名
+ * 用于权限规则匹配和 WebView 中的工具展示
+ */
+const TOOL_DISPLAY_NAMES: Record<string, string> = {
+    file_read: 'Read',
+    file_write: 'Write',
+    file_edit: 'Edit',
+    bash_terminal: 'Bash',
+    bash_exec: 'Bash',
+    bash_output: 'BashOutput',
+    glob_search: 'Glob',
+    grep_search: 'Grep',
+    web_fetch: 'WebFetch',
+};
+
+/** 模型列表自动获取的超时时间 */
+const MODEL_DISCOVERY_TIMEOUT = 3000;
+
+/**
+ * 判断用户输入是否为空（无内容或只有空白文本块）
+ */
+function isBlankContent(content: string | ContentBlock[] | undefined): boolean {
+    if (!content) {
+        return true;
+    }
+    if (typeof content === 'string') {
+        return content.trim() === '';
+    }
+    return content.every(block => block.type === 'text' && !block.text?.trim());
+}
+
+// ============== Query 实现 ==============
+
+/**
+ * AgentQuery - 将 AgentCoordinator 的事件流转换为 SDK 格式的消息流
+ */
+class AgentQuery implements IAIQuery {
+    private abortController: AbortController | undefined;
+    private readonly session: SessionState;
+
+    constructor(
+        private readonly params: AIQueryParams,
+        private readonly coordinator: IAgentCoordinator,
+        client: OpenAICompatibleClient,
+        model: string,
+        maxTokens: number,
+        contextWindow: number,
+        private readonly logService: ILogService
+    ) {
+        this.session = coordinator.createSession({
+            model,
+            cwd: params.cwd,
+            client,
+            maxTokens,
+            contextWindow,
+        });
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<AIMessage> {
+        return this.run();
+    }
+
+    private async *run(): AsyncGenerator<AIMessage> {
+        yield {
+            type: 'system',
+            subtype: 'init',
+            session_id: this.session.id,
+            uuid: randomUUID(),
+            model: this.session.config.model,
+            cwd: this.params.cwd,
+            tools: this.coordinator.getToolDefinitions().map(t => TOOL_DISPLAY_NAMES[t.name] ?? t.name),
+            mcp_servers: [],
+            permissionMode: this.params.permissionMode,
+            apiKeySource: 'none',
+        };
+
+        for await (const input of this.params.inputStream) {
+            // SDK 格式的用户消息内容在 message.content 中
+            const content = (input.message as { content?: string | ContentBlock[] } | undefined)?.content ?? input.content;
+            if (isBlankContent(content)) {
+                // WebView 在上下文压缩后会自动发送空白的继续消息，这里无需再发起一轮对话
+                continue;
+            }
+
+            this.abortController = new AbortController();
+            yield* this.runTurn(content, this.abortController.signal);
+            this.abortController = undefined;
+        }
+    }
+
+    /**
+     * 执行一轮对话
+     */
+    private async *runTurn(content: string | ContentBlock[], signal: AbortSignal): AsyncGenerator<AIMessage> {
+        const startedAt = Date.now();
+        let text = '';
+        let numTurns = 1;
+
+        const events = this.coordinator.streamMessage(this.session, content, {
+            signal,
+            toolConfirmCallback: async (toolName, _toolId, input) => {
+                const result = await this.params.canUseTool(TOOL_DISPLAY_NAMES[toolName] ?? toolName, input ?? {}, { suggestions: [] });
+                return result.behavior === 'allow';
+            },
+        });
+
+        for await (const event of events as AsyncIterable<AgentStreamEvent>) {
+            switch (event.type) {
+                case 'text':
+                    text += event.text;
+                    break;
+
+                case 'tool_start':
+                    if (text) {
+                        yield this.assistantMessage([{ type: 'text', text }]);
+                        text = '';
+                    }
+                    numTurns++;
+                    yield this.assistantMessage([{
+                        type: 'tool_use',
+                        id: event.id,
+                        name: TOOL_DISPLAY_NAMES[event.name] ?? event.name,
+                        input: event.input,
+                    }]);
+                    break;
+
+                case 'tool_progress':
+                    yield this.toolProgressMessage(event.id, event.name, event.output, startedAt);
+                    break;
+
+                case 'tool_end':
+                    yield this.toolResultMessage(event.id, event.output, event.isError);
+                    break;
+
+                case 'tool_rejected':
+                    yield this.toolResultMessage(event.id, event.reason, true);
+                    break;
+
+                case 'compacting':
+                    yield this.statusMessage('compacting');
+                    break;
+
+                case 'compacted':
+                    yield this.compactBoundaryMessage(event.preTokens, event.postTokens, event.durationMs);
+                    yield this.statusMessage(null);
+                    break;
+
+                case 'done': {
+                    const usage = {
+                        input_tokens: event.usage?.inputTokens ?? 0,
+                        output_tokens: event.usage?.outputTokens ?? 0,
+                    };
+                    if (text) {
+                        yield this.assistantMessage([{ type: 'text', text }], usage);
+                    }
+                    yield this.resultMessage(false, event.response, startedAt, numTurns, usage);
+                    return;
+                }
+
+                case 'error':
+                    if (text) {
+                        yield this.assistantMessage([{ type: 'text', text }]);
+                    }
+                    this.logService.warn(`[AgentProvider] 对话出错: ${event.error}`);
+                    yield this.resultMessage(true, event.error, startedAt, numTurns);
+                    return;
+            }
+        }
+
+        // 事件流提前结束（通常是被中断）
+        if (text) {
+            yield this.assistantMessage([{ type: 'text', text }]);
+        }
+        yield this.resultMessage(true, '请求被用户中断', startedAt, numTurns);
+    }
+
+    private assistantMessage(content: unknown[], usage?: { input_tokens: number; output_tokens: number }): AIMessage {
+        return {
+            type: 'assistant',
+            uuid: randomUUID(),
+            session_id: this.session.id,
+            parent_tool_use_id: null,
+            message: {
+                id: `msg_${Date.now()}`,
+                type: 'message',
+                role: 'assistant',
+                model: this.session.config.model,
+                content,
+                stop_reason: null,
+                usage,
+            },
+        };
+    }
+
+    private toolResultMessage(toolUseId: string, output: string, isError: boolean): AIMessage {
+        return {
+            type: 'user',
+            uuid: randomUUID(),
+            session_id: this.session.id,
+            parent_tool_use_id: null,
+            message: {
+                role: 'user',
+                content: [{ type: 'tool_result', tool_use_id: toolUseId, content: output, is_error: isError }],
+            },
+        };
+    }
+
+    /**
+     * 工具部分输出（SDK tool_progress 消息，额外携带 output 字段供 WebView 展示）
+     */
+    private toolProgressMessage(toolUseId: string, toolName: string, output: string, startedAt: number): AIMessage {
+        return {
+            type: 'tool_progress',
+            uuid: randomUUID(),
+            session_id: this.session.id,
+            tool_use_id: toolUseId,
+            tool_name: TOOL_DISPLAY_NAMES[toolName] ?? toolName,
+            parent_tool_use_id: null,
+            elapsed_time_seconds: (Date.now() - startedAt) / 1000,
+            output,
+        };
+    }
+
+    /**
+     * 会话状态消息（与 SDK 上下文压缩时的 status 消息一致）
+     */
+    private statusMessage(status: 'compacting' | null): AIMessage {
+        return {
+            type: 'system',
+            subtype: 'status',
+            status,
+            uuid: randomUUID(),
+            session_id: this.session.id,
+        };
+    }
+
+    /**
+     * 上下文压缩完成标记（SDK compact_boundary 消息）
+     */
+    private compactBoundaryMessage(preTokens: number, postTokens: number, durationMs: number): AIMessage {
+        return {
+            type: 'system',
+            subtype: 'compact_boundary',
+            uuid: randomUUID(),
+            session_id: this.session.id,
+            compact_metadata: {
+                trigger: 'auto',
+                pre_tokens: preTokens,
+                post_tokens: postTokens,
+                duration_ms: durationMs,
+            },
+        };
+    }
+
+    private resultMessage(
+        isError: boolean,
+        result: string,
+        startedAt: number,
+        numTurns: number,
+        usage?: { input_tokens: number; output_tokens: number }
+    ): AIMessage {
+        return {
+            type: 'result',
+            subtype: isError ? 'error_during_execution' : 'success',
+            is_error: isError,
+            result,
+            uuid: randomUUID(),
+            session_id: this.session.id,
+            duration_ms: Date.now() - startedAt,
+            duration_api_ms: Date.now() - startedAt,
+            num_turns: numTurns,
+            total_cost_usd: 0,
+            usage: usage ?? { input_tokens: 0, output_tokens: 0 },
+        };
+    }
+
+    async interrupt(): Promise<void> {
+        this.logService.info(`[AgentProvider] 中断会话: ${this.session.id}`);
+        this.abortController?.abort();
+    }
+
+    async setModel(model: string): Promise<void> {
+        this.session.config.model = splitProviderModelId(model)?.model ?? model;
+        this.logService.info(`[AgentProvider] 切换模型: ${this.session.config.model}`);
+    }
+
+    async setMaxThinkingTokens(): Promise<void> {
+        // 不支持思考模式
+    }
+
+    async setPermissionMode(): Promise<void> {
+        // 权限模式由 canUseTool 回调执行
+    }
+
+    return(): void {
+        this.abortController?.abort();
+        this.params.inputStream.done();
+    }
+}
+
+// ============== Provider 实现 ==============
+
+/**
+ * AgentProvider 实现
+ */
+export class AgentProvider implements IAIProvider {
+    readonly type: ProviderType;
+    readonly displayName: string;
+
+    private knownModels: string[] = [];
+
+    constructor(
+        private readonly definition: AgentProviderDefinition,
+        private readonly coordinator: IAgentCoordinator,
+        private readonly configService: IConfigurationService,
+        private readonly claudeConfigService: IClaudeConfigService,
+        private readonly modelRegistry: IModelRegistryService,
+        private readonly logService: ILogService
+    ) {
+        this.type = definition.type;
+        this.displayName = definition.displayName;
+    }
+
+    getCapabilities(): ProviderCapabilities {
+        return {
+            ...this.definition.capabilities,
+            models: this.knownModels.map(model => `${this.type}:${model}`),
+        };
+    }
+
+    async query(params: AIQueryParams): Promise<IAIQuery> {
+        const { baseUrl, apiKey } = await this.resolveEndpoint();
+        const settings = this.getSettings();
+        // 模型目录中登记的模型可指定上游模型 ID 和最大输出
+        const catalogEntry = params.model ? this.modelRegistry.getModel(params.model) : undefined;
+        const model = catalogEntry?.upstreamId
+            ?? (params.model ? splitProviderModelId(params.model)?.model ?? params.model : this.knownModels[0]);
+
+        if (!model) {
+            throw new Error(`${this.displayName} 没有可用的模型，请在 xiong.providers.${this.type}.models 中配置`);
+        }
+        if (this.definition.requiresApiKey && !apiKey) {
+            throw new Error(`${this.displayName} 未配置 API Key，请在 xiong.providers.${this.type}.apiKey 中配置`);
+        }
+
+        const timeoutSeconds = this.configService.getValue<number>('xiong.requestTimeout', 60) ?? 60;
+        const maxTokens = catalogEntry?.maxOutputTokens ?? settings.maxTokens ?? this.definition.defaultMaxTokens;
+        const contextWindow = catalogEntry?.contextWindow ?? settings.contextWindow ?? this.definition.defaultContextWindow;
+        const client = new OpenAICompatibleClient({
+            baseUrl,
+            apiKey,
+            maxTokens,
+            timeout: timeoutSeconds * 1000,
+            name: this.displayName,
+        }, this.logService);
+
+        this.logService.info(`[AgentProvider] ${this.displayName} 启动会话: model=${model}, baseUrl=${baseUrl}, contextWindow=${contextWindow}`);
+
+        return new AgentQuery(params, this.coordinator, client, model, maxTokens, contextWindow, this.logService);
+    }
+
+    async interrupt(query: IAIQuery): Promise<void> {
+        await query.interrupt();
+    }
+
+    async isAvailable(): Promise<boolean> {
+        if (this.getSettings().enabled === false) {
+            return false;
+        }
+
+        const { apiKey } = await this.resolveEndpoint();
+        if (this.definition.requiresApiKey && !apiKey) {
+            return false;
+        }
+
+        return (await this.getModels()).length > 0;
+    }
+
+    async getModels(): Promise<Array<{ id: string; name: string }>> {
+        const configured = this.getSettings().models?.filter(m => m.trim() !== '');
+        const models = configured && configured.length > 0
+            ? configured
+            : await this.discoverModels();
+
+        this.knownModels = models;
+        const result = models.map(model => ({ id: `${this.type}:${model}`, name: model }));
+
+        // 合并模型目录中属于该 Provider 的条目（目录中的显示名称优先）
+        for (const entry of this.modelRegistry.getModels()) {
+            if (entry.provider !== this.type || entry.hidden) {
+                continue;
+            }
+            const existing = result.find(m => m.id === entry.id);
+            if (existing) {
+                existing.name = entry.displayName;
+            } else {
+                result.push({ id: entry.id, name: entry.displayName });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 读取 xiong.providers.<type> 配置
+     */
+    private getSettings(): AgentProviderSettings {
+        const all = this.configService.getValue<Record<string, AgentProviderSettings>>('xiong.providers', {}) ?? {};
+        return all[this.type] ?? {};
+    }
+
+    /**
+     * 解析接口地址和 API Key
+     * GLM 未单独配置时复用 xiong.apiKey / xiong.baseUrl 代理（与 GLMClient 一致）
+     */
+    private async resolveEndpoint(): Promise<{ baseUrl: string; apiKey?: string }> {
+        const settings = this.getSettings();
+
+        if (this.type === 'glm' && !settings.apiKey) {
+            const proxyBaseUrl = await this.claudeConfigService.getGlmBaseUrl();
+            const proxyApiKey = await this.claudeConfigService.getGlmApiKey();
+            if (proxyBaseUrl && proxyApiKey) {
+                return { baseUrl: settings.baseUrl || `${proxyBaseUrl.replace(/\/+$/, '')}/v1`, apiKey: proxyApiKey };
+            }
+        }
+
+        return {
+            baseUrl: settings.baseUrl || this.definition.defaultBaseUrl,
+            apiKey: settings.apiKey || undefined,
+        };
+    }
+
+    /**
+     * 自动获取模型列表
+     * - Ollama: GET /api/tags
+     * - OpenAI 兼容: GET /models
+     * - 其他: 使用默认列表
+     */
+    private async discoverModels(): Promise<string[]> {
+        if (this.type !== 'ollama' && this.type !== 'openai') {
+            return this.definition.defaultModels;
+        }
+
+        const { baseUrl, apiKey } = await this.resolveEndpoint();
+        if (this.definition.requiresApiKey && !apiKey) {
+            return this.definition.defaultModels;
+        }
+
+        const url = this.type === 'ollama'
+            ? `${baseUrl.replace(/\/v1\/?$/, '')}/api/tags`
+            : `${baseUrl.replace(/\/+$/, '')}/models`;
+
+        try {
+            const response = await fetch(url, {
+                headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+                signal: AbortSignal.timeout(MODEL_DISCOVERY_TIMEOUT),
+            });
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json() as { models?: Array<{ name: string }>; data?: Array<{ id: string }> };
+            const models = this.type === 'ollama'
+                ? (data.models ?? []).map(m => m.name)
+                : (data.data ?? []).map(m => m.id);
+
+            this.logService.info(`[AgentProvider] ${this.displayName} 发现 ${models.length} 个模型`);
+            return models;
+        } catch (error) {
+            this.logService.info(`[AgentProvider] ${this.displayName} 获取模型列表失败: ${error}`);
+            return this.definition.defaultModels;
+        }
+    }
+}
@@ -3,7 +3,9 @@
  *
  * 定义统一的 AI 服务提供者接口，支持多种 AI 后端：
  * - Claude (Anthropic)
- * - 其他未来可能的 Provider
+ * - OpenAI 兼容接口（Chat Completions）
+ * - Ollama（本地模型）
+ * - GLM（智谱文本模型）
  */
 
 import { AsyncStream } from '../claude/transport';
@@ -46,7 +48,19 @@ export interface ProviderCapabilities {
 /**
  * Provider 类型枚举
  */
-export type ProviderType = 'claude';
+export type ProviderType = 'claude' | 'openai' | 'ollama' | 'glm';
+
+/**
+ * 拆分带 Provider 前缀的模型 ID（如 "ollama:qwen2.5-coder:7b"）
+ * 只按第一个冒号拆分，模型名本身可以包含冒号
+ */
+export function splitProviderModelId(modelId: string): { provider: string; model: string } | undefined {
+    const index = modelId.indexOf(':');
+    if (index <= 0) {
+        return undefined;
+    }
+    return { provider: modelId.slice(0, index), model: modelId.slice(index + 1) };
+}
 
 /**
  * 工具权限回调结果
@@ -0,0 +1,387 @@
+/**
+ * OpenAICompatibleClient - OpenAI 兼容接口客户端
+ *
+ * 调用 OpenAI Chat Completions 兼容接口（OpenAI、Ollama、GLM 等），
+ * 并将请求/响应与 Anthropic Messages 格式互相转换，
+ * 使 AgentCoordinator 的工具调用循环可以不加修改地复用。
+ *
+ * 功能：
+ * - Anthropic 消息 / 工具定义 → OpenAI messages / tools
+ * - OpenAI SSE 流 → Anthropic StreamEvent
+ * - 支持中断
+ */
+
+import { ILogService } from '../logService';
+import type {
+    IClaudeApiClient,
+    Message,
+    MessageRequest,
+    StreamEvent,
+    ContentBlock,
+    ToolResultBlock,
+    ToolUseBlock,
+} from './ClaudeApiClient';
+
+// ============== 类型定义 ==============
+
+/**
+ * 客户端配置
+ */
+export interface OpenAICompatibleConfig {
+    /** API Base URL（包含版本路径，如 https://api.openai.com/v1） */
+    baseUrl: string;
+    /** API Key（Ollama 等本地服务可为空） */
+    apiKey?: string;
+    /** 默认最大输出 tokens */
+    maxTokens: number;
+    /** 请求超时（毫秒） */
+    timeout: number;
+    /** 日志前缀 */
+    name: string;
+}
+
+/**
+ * OpenAI 消息
+ */
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> | null;
+    tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+    tool_call_id?: string;
+}
+
+/**
+ * OpenAI 流式响应块
+ */
+interface ChatCompletionChunk {
+    choices?: Array<{
+        index: number;
+        delta: {
+            content?: string | null;
+            tool_calls?: Array<{
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+            }>;
+        };
+        finish_reason: string | null;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+    };
+    error?: { message: string };
+}
+
+/**
+ * 只实现流式接口，与 AgentCoordinator 使用的 IClaudeApiClient 子集一致
+ */
+export type MessageStreamClient = Pick<IClaudeApiClient, 'streamMessage'>;
+
+// ============== 格式转换 ==============
+
+/**
+ * OpenAI finish_reason → Anthropic stop_reason
+ */
+const STOP_REASON_MAPPING: Record<string, string> = {
+    stop: 'end_turn',
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+    length: 'max_tokens',
+};
+
+function toolResultText(block: ToolResultBlock): string {
+    if (typeof block.content === 'string') {
+        return block.content;
+    }
+    return block.content
+        .map(b => b.type === 'text' ? b.text : JSON.stringify(b))
+        .join('\n');
+}
+
+/**
+ * 将 Anthropic 格式的消息转换为 OpenAI 格式
+ */
+export function toChatMessages(messages: Message[], system?: string): ChatMessage[] {
+    const result: ChatMessage[] = [];
+
+    if (system) {
+        result.push({ role: 'system', content: system });
+    }
+
+    for (const message of messages) {
+        if (typeof message.content === 'string') {
+            result.push({ role: message.role, content: message.content });
+            continue;
+        }
+
+        const blocks = message.content as ContentBlock[];
+
+        if (message.role === 'assistant') {
+            const text = blocks.filter(b => b.type === 'text').map(b => (b as { text: string }).text).join('');
+            const toolUses = blocks.filter((b): b is ToolUseBlock => b.type === 'tool_use');
+            result.push({
+                role: 'assistant',
+                content: text || null,
+                tool_calls: toolUses.length > 0
+                    ? toolUses.map(t => ({
+                        id: t.id,
+                        type: 'function' as const,
+                        function: { name: t.name, arguments: JSON.stringify(t.input ?? {}) },
+                    }))
+                    : undefined,
+            });
+            continue;
+        }
+
+        // 用户消息：tool_result 拆分为 tool 角色消息，其余内容合并为一条用户消息
+        const parts: Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> = [];
+        for (const block of blocks) {
+            if (block.type === 'tool_result') {
+                result.push({ role: 'tool', tool_call_id: block.tool_use_id, content: toolResultText(block) });
+            } else if (block.type === 'text') {
+                parts.push({ type: 'text', text: block.text });
+            } else if (block.type === 'image') {
+                parts.push({
+                    type: 'image_url',
+                    image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` },
+                });
+            }
+        }
+
+        if (parts.length > 0) {
+            const textOnly = parts.every(p => p.type === 'text');
+            result.push({
+                role: 'user',
+                content: textOnly ? parts.map(p => (p as { text: string }).text).join('\n') : parts,
+            });
+        }
+    }
+
+    return result;
+}
+
+// ============== 实现 ==============
+
+/**
+ * OpenAI 兼容客户端
+ */
+export class OpenAICompatibleClient implements MessageStreamClient {
+    constructor(
+        private readonly config: OpenAICompatibleConfig,
+        private readonly logService: ILogService
+    ) { }
+
+    async *streamMessage(request: MessageRequest, signal?: AbortSignal): AsyncIterable<StreamEvent> {
+        if (signal?.aborted) {
+            this.logService.info(`[${this.config.name}] 请求已被中断，跳过发送`);
+            return;
+        }
+
+        const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+        const body: Record<string, unknown> = {
+            model: request.model,
+            messages: toChatMessages(request.messages, request.system),
+            max_tokens: Math.min(request.max_tokens ?? this.config.maxTokens, this.config.maxTokens),
+            stream: true,
+            stream_options: { include_usage: true },
+        };
+
+        if (request.tools && request.tools.length > 0) {
+            body.tools = request.tools.map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.input_schema,
+                },
+            }));
+        }
+        if (request.temperature !== undefined) {
+            body.temperature = request.temperature;
+        }
+        if (request.stop_sequences) {
+            body.stop = request.stop_sequences;
+        }
+
+        this.logService.info(`[${this.config.name}] 发送流式请求到: ${url}, 模型: ${request.model}`);
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+        const onExternalAbort = () => controller.abort();
+        signal?.addEventListener('abort', onExternalAbort);
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+
+            // 响应头已返回，流读取阶段不再受总超时限制
+            clearTimeout(timeoutId);
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`${this.config.name} API 请求失败: ${response.status} ${errorText}`);
+            }
+            if (!response.body) {
+                throw new Error('响应没有 body');
+            }
+
+            yield* this.convertStream(response.body, request.model, signal);
+        } catch (error) {
+            if (signal?.aborted) {
+                this.logService.info(`[${this.config.name}] 用户中断请求`);
+                return;
+            }
+            throw error;
+        } finally {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onExternalAbort);
+        }
+    }
+
+    /**
+     * 将 OpenAI SSE 流转换为 Anthropic StreamEvent
+     *
+     * 内容块按顺序输出（同一时间只有一个打开的块），与 AgentCoordinator 的解析方式一致
+     */
+    private async *convertStream(
+        body: ReadableStream<Uint8Array>,
+        model: string,
+        signal?: AbortSignal
+    ): AsyncIterable<StreamEvent> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        let blockIndex = -1;
+        let openBlock: 'text' | 'tool_use' | null = null;
+        let openToolIndex = -1;
+        let hasToolCalls = false;
+        let finishReason: string | null = null;
+        let usage = { input_tokens: 0, output_tokens: 0 };
+
+        yield { type: 'message_start', message: { model, role: 'assistant', content: [] } };
+
+        const closeBlock = function* (): Generator<StreamEvent> {
+            if (openBlock) {
+                yield { type: 'content_block_stop', index: blockIndex };
+                openBlock = null;
+            }
+        };
+
+        try {
+            while (true) {
+                if (signal?.aborted) {
+                    this.logService.info(`[${this.config.name}] 收到中断信号，停止读取`);
+                    reader.cancel();
+                    return;
+                }
+
+                const { done, value } = await reader.read();
+                if (done) {
+                    break;
+                }
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    if (!line.startsWith('data:')) {
+                        continue;
+                    }
+                    const data = line.slice(5).trim();
+                    if (!data || data === '[DONE]') {
+                        continue;
+                    }
+
+                    let chunk: ChatCompletionChunk;
+                    try {
+                        chunk = JSON.parse(data) as ChatCompletionChunk;
+                    } catch {
+                        this.logService.warn(`[${this.config.name}] 解析 SSE 事件失败: ${data.slice(0, 100)}`);
+                        continue;
+                    }
+
+                    if (chunk.error) {
+                        yield { type: 'error', error: { type: 'api_error', message: chunk.error.message } };
+                        return;
+                    }
+
+                    if (chunk.usage) {
+                        usage = {
+                            input_tokens: chunk.usage.prompt_tokens ?? 0,
+                            output_tokens: chunk.usage.completion_tokens ?? 0,
+                        };
+                    }
+
+                    const choice = chunk.choices?.[0];
+                    if (!choice) {
+                        continue;
+                    }
+
+                    if (choice.delta?.content) {
+                        if (openBlock !== 'text') {
+                            yield* closeBlock();
+                            blockIndex++;
+                            openBlock = 'text';
+                            yield { type: 'content_block_start', index: blockIndex, content_block: { type: 'text', text: '' } };
+                        }
+                        yield { type: 'content_block_delta', index: blockIndex, delta: { type: 'text_delta', text: choice.delta.content } };
+                    }
+
+                    for (const call of choice.delta?.tool_calls ?? []) {
+                        if (openBlock !== 'tool_use' || call.index !== openToolIndex) {
+                            yield* closeBlock();
+                            blockIndex++;
+                            openBlock = 'tool_use';
+                            openToolIndex = call.index;
+                            hasToolCalls = true;
+                            yield {
+                                type: 'content_block_start',
+                                index: blockIndex,
+                                content_block: {
+                                    type: 'tool_use',
+                                    id: call.id || `call_${Date.now()}_${call.index}`,
+                                    name: call.function?.name ?? '',
+                                    input: {},
+                                },
+                            };
+                        }
+                        if (call.function?.arguments) {
+                            yield {
+                                type: 'content_block_delta',
+                                index: blockIndex,
+                                delta: { type: 'input_json_delta', partial_json: call.function.arguments },
+                            };
+                        }
+                    }
+
+                    if (choice.finish_reason) {
+                        finishReason = choice.finish_reason;
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+
+        yield* closeBlock();
+
+        // 部分服务（如 Ollama）返回工具调用时 finish_reason 仍为 stop
+        const stopReason = hasToolCalls ? 'tool_use' : STOP_REASON_MAPPING[finishReason ?? 'stop'] ?? 'end_turn';
+        this.logService.info(`[${this.config.name}] 流结束，finish_reason=${finishReason}, stop_reason=${stopReason}`);
+
+        yield { type: 'message_delta', delta: { stop_reason: stopReason }, usage };
+        yield { type: 'message_stop' };
+    }
+}
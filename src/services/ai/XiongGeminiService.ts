@@ -47,6 +47,7 @@ export interface IXiongGeminiService {
 export interface XiongGeminiQueryParams {
     inputStream: AsyncStream<SDKUserMessage>;
     resume: string | null;
+    resumeSessionAt?: string | null;
     canUseTool: CanUseTool;
     model: string | null;
     cwd: string;
@@ -6,5 +6,7 @@ export * from './IAIProvider';
 export * from './AIProviderFactory';
 export * from './SystemPrompts';
 export * from './ClaudeApiClient';
+export * from './OpenAICompatibleClient';
+export * from './AgentProvider';
 export * from './GLMClient';
 export * from './XiongGeminiService';
@@ -16,6 +16,7 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { createDecorator } from '../../di/instantiation';
 import { ILogService } from '../logService';
 import { IConfigurationService } from '../configurationService';
@@ -23,7 +24,7 @@ import { IWorkspaceService } from '../workspaceService';
 import { IFileSystemService } from '../fileSystemService';
 import { INotificationService } from '../notificationService';
 import { ITerminalService } from '../terminalService';
-import { ISSHService } from '../sshService';
+import { ISSHService, type SSHCommandOutputEvent } from '../sshService';
 import { ITabsAndEditorsService } from '../tabsAndEditorsService';
 import { IClaudeSdkService } from './ClaudeSdkService';
 import { IXiongGeminiService } from '../ai/XiongGeminiService';
@@ -34,8 +35,21 @@ import { IWebViewService } from '../webViewService';
 import { IClaudeConfigService } from '../claudeConfigService';
 import { LocalTodoService } from '../LocalTodoService';
 import { AutoTaskService, Task } from '../AutoTaskService';
+import { TaskQueueRunner, type TaskQueueState } from '../TaskQueueRunner';
+import { TodoSyncService, isTodoWriteInput } from '../TodoSyncService';
+import { ProjectMemoryService } from '../ProjectMemoryService';
+import { ScheduledTaskService, type ScheduledRun, type ScheduledRunResult, type ScheduledTasksState } from '../ScheduledTaskService';
+import { parseTaskItems, toTaskInfos } from '../taskFile';
+import { IFileSnapshotService } from '../FileSnapshotService';
+import { IPermissionRuleService } from '../permissionRuleService';
+import { IAIProviderFactory } from '../ai/AIProviderFactory';
+import { IModelRegistryService } from '../modelRegistryService';
+import { IDialogService } from '../dialogService';
+import type { IAIProvider, AIUserMessage, CanUseToolCallback, ProviderType as AIProviderType } from '../ai/IAIProvider';
 
 // 消息类型导入
+import { READ_ONLY_TOOLS, FILE_EDIT_TOOLS, SHELL_TOOLS } from '../../shared/permissions';
+import type { LocalTodo } from '../../shared/todos';
 import type {
     WebViewToExtensionMessage,
     ExtensionToWebViewMessage,
@@ -44,6 +58,13 @@ import type {
     ExtensionRequest,
     ToolPermissionRequest,
     ToolPermissionResponse,
+    RunQueuedTaskRequest,
+    RunQueuedTaskResponse,
+    RunVerifyCommandRequest,
+    RunVerifyCommandResponse,
+    GetScheduledTasksResponse,
+    RunScheduledTaskRequest,
+    RunScheduledTaskResponse,
 } from '../../shared/messages';
 
 // SDK 类型导入
@@ -92,6 +113,8 @@ import {
     handleDeleteLocalTodo,
     handleClearCompletedTodos,
     handleImportClaudeTodos,
+    handleImportTodos,
+    handleExportTodos,
     // handleOpenClaudeInTerminal,
     // handleGetAuthStatus,
     // handleLogin,
@@ -105,25 +128,41 @@ import {
     handleSSHDisconnect,
     handleSSHGetOutput,
     handleSSHListSessions,
+    handleSSHListProfiles,
+    handleSSHSaveProfile,
+    handleSSHRemoveProfile,
+    handleSSHOpenTunnel,
+    handleSSHCloseTunnel,
+    handleSSHAttachTerminal,
 } from './handlers/sshHandlers';
 
-/**
- * 模型名称映射表
- *
- * 将 UI 中的简短模型 ID 映射为 Anthropic API 兼容的完整模型 ID
- */
-const MODEL_NAME_MAPPING: Record<string, string> = {
-    // UI 模型 ID -> Anthropic API 完整模型 ID
-    'claude-opus-4-5': 'claude-opus-4-5-20251101',
-    'claude-opus-4.6': 'claude-opus-4.6',
-    'claude-sonnet-4-5': 'claude-sonnet-4-5-20250929',
-    'claude-haiku-4-5': 'claude-haiku-4-5-20251001',
-    // XiongGemini 模型 -> Claude 模型（通过 Opus 代理）
-    'xionggemini-opus': 'claude-opus-4-5-20251101',
-    'xionggemini-sonnet': 'claude-sonnet-4-5-20250929',
-    'xionggemini-haiku': 'claude-haiku-4-5-20251001',
-    'xionggemini-pro': 'claude-sonnet-4-5-20250929',
-};
+// Snapshot Handlers 导入
+import {
+    handleRevertFileChange,
+    handleViewSnapshotDiff,
+    handleRevertCheckpoint,
+    handleListCheckpoints,
+    handleRewindSession,
+    attachSnapshotFields,
+} from './handlers/snapshotHandlers';
+
+// Permission Handlers 导入
+import {
+    handleGetPermissionRules,
+    handleAddPermissionRule,
+    handleRemovePermissionRule,
+    handleGetPermissionDecisions,
+} from './handlers/permissionHandlers';
+
+// Provider Handlers 导入
+import { handleGetProviders, handleGetModels } from './handlers/providerHandlers';
+
+// Memory Handlers 导入
+import {
+    handleAddMemoryNote,
+    handleGetSummaryOverview,
+    handleProposeSummaryUpdate,
+} from './handlers/memoryHandlers';
 
 export const IClaudeAgentService = createDecorator<IClaudeAgentService>('claudeAgentService');
 
@@ -132,9 +171,9 @@ export const IClaudeAgentService = createDecorator<IClaudeAgentService>('claudeA
 // ============================================================================
 
 /**
- * Provider 类型
+ * Provider 类型（openai / ollama / glm 通过 AgentCoordinator 运行）
  */
-export type ProviderType = 'claude' | 'xionggemini';
+export type ProviderType = AIProviderType | 'xionggemini';
 
 /**
  * Channel 对象：管理单个 Claude 会话
@@ -183,7 +222,8 @@ export interface IClaudeAgentService {
         cwd: string,
         model: string | null,
         permissionMode: string,
-        thinkingLevel: string | null
+        thinkingLevel: string | null,
+        resumeSessionAt?: string | null
     ): Promise<void>;
 
     /**
@@ -268,7 +308,7 @@ export class ClaudeAgentService implements IClaudeAgentService {
     // Thinking Level 配置
     private thinkingLevel: string = 'off';
 
-    // 每个 channel 的权限模式（用于 YOLO 模式判断）
+    // 每个 channel 的权限模式（在 canUseTool 回调中执行，SDK 始终使用 'default'）
     private channelPermissionModes = new Map<string, string>();
 
     // 每个 channel 的 session ID（用于错误恢复）
@@ -296,6 +336,15 @@ export class ClaudeAgentService implements IClaudeAgentService {
     // 自动任务服务
     private autoTaskService: AutoTaskService;
 
+    // 任务队列执行器
+    private taskQueueRunner: TaskQueueRunner;
+
+    // 本地 Todo / TodoWrite / 任务文件同步
+    private readonly todoSyncService: TodoSyncService;
+
+    // 定时任务（cron / 文件变化触发的后台会话）
+    private scheduledTaskService: ScheduledTaskService;
+
     constructor(
         // 静态参数必须放在最前面（由 SyncDescriptor 传入）
         private readonly localTodoService: LocalTodoService,
@@ -313,7 +362,14 @@ export class ClaudeAgentService implements IClaudeAgentService {
         @IClaudeSessionService private readonly sessionService: IClaudeSessionService,
         @IWebViewService private readonly webViewService: IWebViewService,
         @IClaudeConfigService private readonly claudeConfigService: IClaudeConfigService,
+        @IFileSnapshotService private readonly fileSnapshotService: IFileSnapshotService,
+        @IPermissionRuleService private readonly permissionRuleService: IPermissionRuleService,
+        @IAIProviderFactory private readonly providerFactory: IAIProviderFactory,
+        @IModelRegistryService private readonly modelRegistry: IModelRegistryService,
+        @IDialogService private readonly dialogService: IDialogService,
     ) {
+        this.todoSyncService = new TodoSyncService(this.logService, this.configService, this.localTodoService);
+
         // 构建 Handler 上下文
         this.handlerContext = {
             logService: this.logService,
@@ -330,8 +386,25 @@ export class ClaudeAgentService implements IClaudeAgentService {
             webViewService: this.webViewService,
             claudeConfigService: this.claudeConfigService,
             localTodoService: this.localTodoService,
+            todoSyncService: this.todoSyncService,
+            projectMemoryService: new ProjectMemoryService(this.logService, this.fileSystemService),
+            fileSnapshotService: this.fileSnapshotService,
+            permissionRuleService: this.permissionRuleService,
+            providerFactory: this.providerFactory,
+            modelRegistry: this.modelRegistry,
+            dialogService: this.dialogService,
         };
 
+        // 模型目录变化时推送到 WebView
+        this.modelRegistry.onDidChangeModels(() => this.notifyModelsChanged());
+
+        // SSH 命令部分输出推送到 WebView
+        this.sshService.onDidCommandOutput(e => this.notifySSHCommandOutput(e));
+
+        // SSH 会话 / 隧道变化推送到 WebView 会话面板
+        this.sshService.onDidChangeSessions(() => this.notifySSHSessionsChanged());
+        this.sshService.onDidChangeTunnels(() => this.notifySSHSessionsChanged());
+
         // 初始化自动任务服务
         this.autoTaskService = new AutoTaskService(this.logService, this);
 
@@ -344,6 +417,24 @@ export class ClaudeAgentService implements IClaudeAgentService {
         this.autoTaskService.onTaskFileChanged((tasks) => {
             this.handleTaskFileChanged(tasks);
         });
+
+        // 初始化任务队列执行器（每个任务交给 WebView 在新会话中执行）
+        this.taskQueueRunner = new TaskQueueRunner(this.logService, this.configService, (task) => this.runQueuedTask(task));
+        this.taskQueueRunner.onStateChanged((state) => {
+            this.notifyTaskQueueStateChanged(state);
+        });
+
+        // Todo 同步后推送到 WebView（Todos 页面和会话中的任务列表）
+        this.todoSyncService.onTodosChanged((todos) => {
+            this.notifyLocalTodosChanged(todos);
+        });
+        void this.todoSyncService.sync().catch(() => undefined);
+
+        // 初始化定时任务（每次触发在后台会话中运行，不占用 WebView 的会话）
+        this.scheduledTaskService = new ScheduledTaskService(this.logService, this.configService, (run) => this.runScheduledPrompt(run));
+        this.scheduledTaskService.onStateChanged((state) => {
+            this.notifyScheduledTasksChanged(state);
+        });
     }
 
     /**
@@ -391,7 +482,8 @@ export class ClaudeAgentService implements IClaudeAgentService {
                             message.cwd || this.getCwd(),
                             message.model || null,
                             message.permissionMode || "acceptEdits",
-                            message.thinkingLevel || null
+                            message.thinkingLevel || null,
+                            message.resumeSessionAt || null
                         );
                         break;
 
@@ -458,7 +550,8 @@ export class ClaudeAgentService implements IClaudeAgentService {
         cwd: string,
         model: string | null,
         permissionMode: string,
-        thinkingLevel: string | null
+        thinkingLevel: string | null,
+        resumeSessionAt: string | null = null
     ): Promise<void> {
         // 保存 thinkingLevel
         if (thinkingLevel) {
@@ -470,8 +563,12 @@ export class ClaudeAgentService implements IClaudeAgentService {
 
         // 检测模型类型
         const isXiongGeminiModel = model ? this.xiongGeminiService.isXiongGeminiModel(model) : false;
+        const agentProvider = this.getAgentProvider(model);
         let providerName = 'Claude';
         if (isXiongGeminiModel) providerName = 'XiongGemini';
+        if (agentProvider) {
+            providerName = agentProvider.displayName;
+        }
 
         this.logService.info('');
         this.logService.info('╔════════════════════════════════════════╗');
@@ -479,6 +576,9 @@ export class ClaudeAgentService implements IClaudeAgentService {
         this.logService.info('╚════════════════════════════════════════╝');
         this.logService.info(`  Channel ID: ${channelId}`);
         this.logService.info(`  Resume: ${resume || 'null'}`);
+        if (resumeSessionAt) {
+            this.logService.info(`  Resume At: ${resumeSessionAt}`);
+        }
         this.logService.info(`  CWD: ${cwd}`);
         this.logService.info(`  Model: ${model || 'null'}`);
         this.logService.info(`  Provider: ${providerName}`);
@@ -518,14 +618,81 @@ export class ClaudeAgentService implements IClaudeAgentService {
             const canUseToolCallback = async (toolName: string, input: any, options: any) => {
                 // 工具权限回调
                 this.logService.info(`🔧 工具权限请求: ${toolName}`);
-                this.logService.info(`   当前自动审批配置: autoApproveEnabled=${this.autoApproveConfig.autoApproveEnabled}, confirmWrite=${this.autoApproveConfig.confirmWrite}, confirmEdit=${this.autoApproveConfig.confirmEdit}`);
 
-                // 检查是否需要针对特定工具进行确认
-                const needsConfirmation = this.shouldConfirmTool(toolName);
-                this.logService.info(`   需要确认: ${needsConfirmation}`);
+                // 按权限规则决定 allow / deny / ask
+                const decision = await this.permissionRuleService.evaluate(toolName, input ?? {}, {
+                    sessionId: channelId,
+                    cwd
+                });
+
+                if (decision.behavior === 'deny') {
+                    this.logService.info(`  [DENY] 规则拒绝: ${toolName} (${decision.rule?.text})`);
+                    return {
+                        behavior: 'deny' as const,
+                        message: `权限规则拒绝了此操作: ${decision.rule?.text ?? toolName}`
+                    };
+                }
+
+                // 按当前权限模式调整决策（deny 规则在任何模式下都生效）
+                const mode = (this.channelPermissionModes.get(channelId) ?? 'default') as PermissionMode;
+                const configuredRule = decision.rule && decision.rule.source !== 'builtin';
+
+                if (mode === 'plan') {
+                    if (toolName === 'ExitPlanMode') {
+                        // 退出计划模式必须由用户批准
+                        this.logService.info(`  [PLAN] 请求批准计划`);
+                        const result = await this.requestToolPermission(
+                            channelId,
+                            toolName,
+                            input,
+                            options.suggestions || []
+                        );
+                        if (result.behavior === 'allow') {
+                            this.channelPermissionModes.set(channelId, 'default');
+                            this.logService.info(`  [PLAN] 计划已批准，退出计划模式`);
+                        }
+                        return result;
+                    }
+
+                    if (!READ_ONLY_TOOLS.includes(toolName)) {
+                        this.logService.info(`  [PLAN] 计划模式拒绝: ${toolName}`);
+                        return {
+                            behavior: 'deny' as const,
+                            message: `当前处于计划模式，不能执行 ${toolName}。请只使用只读工具调研，完成计划后调用 ExitPlanMode 请求用户批准。`
+                        };
+                    }
+                } else if (mode === 'bypassPermissions') {
+                    this.logService.info(`  [BYPASS] 自动允许: ${toolName}`);
+                    return {
+                        behavior: 'allow' as const,
+                        updatedInput: input
+                    };
+                } else if (mode === 'acceptEdits') {
+                    // 显式配置的 ask 规则优先于模式
+                    const explicitAsk = configuredRule && decision.behavior === 'ask';
+
+                    if (FILE_EDIT_TOOLS.includes(toolName) && !explicitAsk) {
+                        const filePath = input?.file_path ?? input?.notebook_path;
+                        if (typeof filePath === 'string' && this.isInsideWorkspace(filePath, cwd)) {
+                            this.logService.info(`  [ACCEPT_EDITS] 自动允许工作区内编辑: ${filePath}`);
+                            return {
+                                behavior: 'allow' as const,
+                                updatedInput: input
+                            };
+                        }
+                        this.logService.info(`  [ACCEPT_EDITS] 工作区外的编辑需要确认: ${filePath}`);
+                        return this.requestToolPermission(channelId, toolName, input, options.suggestions || []);
+                    }
+
+                    // Bash 和远程命令仍需确认，除非有显式的 allow 规则
+                    if (SHELL_TOOLS.includes(toolName) && !(configuredRule && decision.behavior === 'allow')) {
+                        this.logService.info(`  [ACCEPT_EDITS] ${toolName} 需要确认`);
+                        return this.requestToolPermission(channelId, toolName, input, options.suggestions || []);
+                    }
+                }
 
                 // 如果需要确认，通过 RPC 请求 WebView 确认
-                if (needsConfirmation) {
+                if (decision.behavior === 'ask') {
                     this.logService.info(`  [CONFIRM] 需要用户确认: ${toolName}`);
                     return this.requestToolPermission(
                         channelId,
@@ -546,7 +713,15 @@ export class ClaudeAgentService implements IClaudeAgentService {
 
             // 根据模型类型选择不同的 spawn 方法
             let query: Query;
-            if (isXiongGeminiModel) {
+            if (agentProvider) {
+                query = await this.spawnAgentProvider(
+                    agentProvider,
+                    inputStream,
+                    canUseToolCallback,
+                    model,
+                    cwd
+                );
+            } else if (isXiongGeminiModel) {
                 query = await this.spawnXiongGemini(
                     inputStream,
                     resume,
@@ -554,7 +729,8 @@ export class ClaudeAgentService implements IClaudeAgentService {
                     model,
                     cwd,
                     'default',
-                    maxThinkingTokens
+                    maxThinkingTokens,
+                    resumeSessionAt
                 );
             } else {
                 query = await this.spawnClaude(
@@ -567,7 +743,8 @@ export class ClaudeAgentService implements IClaudeAgentService {
                     // 这样 SDK 会调用 canUseTool 回调，我们可以在回调中实现自定义权限控制
                     // 如果传递 'acceptEdits'，SDK 会内部自动允许，不调用 canUseTool
                     'default',
-                    maxThinkingTokens
+                    maxThinkingTokens,
+                    resumeSessionAt
                 );
             }
             this.logService.info(`  [OK] spawn${providerName}() 完成，Query 对象已创建`);
@@ -577,6 +754,9 @@ export class ClaudeAgentService implements IClaudeAgentService {
             this.logService.info('📝 步骤 3: 注册 Channel');
             let provider: ProviderType = 'claude';
             if (isXiongGeminiModel) provider = 'xionggemini';
+            if (agentProvider) {
+                provider = agentProvider.type;
+            }
             this.channels.set(channelId, {
                 in: inputStream,
                 query: query,
@@ -607,6 +787,12 @@ export class ClaudeAgentService implements IClaudeAgentService {
                             this.channelRetryCount.set(channelId, 0);
                         }
 
+                        // 为文件修改的 tool_result 附加快照信息（用于撤回）
+                        this.attachSnapshotInfo(message);
+
+                        // Claude 更新任务列表时同步到本地 Todo 和任务文件
+                        this.observeTodoWrite(message);
+
                         this.transport!.send({
                             type: "io_message",
                             channelId,
@@ -673,7 +859,8 @@ export class ClaudeAgentService implements IClaudeAgentService {
                                         sessionId,  // resume 当前 session
                                         launchParams.cwd,
                                         launchParams.model,
-                                        launchParams.permissionMode,
+                                        // 使用当前模式（计划模式可能已退出）
+                                        this.channelPermissionModes.get(channelId) ?? launchParams.permissionMode,
                                         launchParams.thinkingLevel
                                     );
                                     this.logService.info(`  ✓ 自动恢复成功`);
@@ -737,6 +924,12 @@ export class ClaudeAgentService implements IClaudeAgentService {
                     this.logService.info(`[ClaudeAgentService] 🛑 中断 XiongGemini 查询`);
                     await this.xiongGeminiService.interrupt(channel.query as Query);
                     break;
+                case 'openai':
+                case 'ollama':
+                case 'glm':
+                    this.logService.info(`[ClaudeAgentService] 🛑 中断 ${channel.provider} 查询`);
+                    await channel.query.interrupt();
+                    break;
                 default:
                     this.logService.info(`[ClaudeAgentService] 🛑 中断 Claude SDK 查询`);
                     await this.sdkService.interrupt(channel.query as Query);
@@ -774,8 +967,9 @@ export class ClaudeAgentService implements IClaudeAgentService {
             this.channels.delete(channelId);
         }
 
-        // 3. 清理权限模式记录
+        // 3. 清理权限模式记录和会话规则
         this.channelPermissionModes.delete(channelId);
+        this.permissionRuleService.clearSessionRules(channelId);
 
         // 4. 清理错误恢复相关记录
         this.channelSessionIds.delete(channelId);
@@ -795,6 +989,7 @@ export class ClaudeAgentService implements IClaudeAgentService {
      * @param cwd 工作目录
      * @param permissionMode 权限模式
      * @param maxThinkingTokens 最大思考 tokens
+     * @param resumeSessionAt 只恢复到该 assistant 消息为止（回退对话）
      * @returns SDK Query 对象
      */
     protected async spawnClaude(
@@ -804,11 +999,13 @@ export class ClaudeAgentService implements IClaudeAgentService {
         model: string | null,
         cwd: string,
         permissionMode: string,
-        maxThinkingTokens: number
+        maxThinkingTokens: number,
+        resumeSessionAt: string | null = null
     ): Promise<Query> {
         return this.sdkService.query({
             inputStream,
             resume,
+            resumeSessionAt,
             canUseTool,
             model,
             cwd,
@@ -827,11 +1024,13 @@ export class ClaudeAgentService implements IClaudeAgentService {
         model: string | null,
         cwd: string,
         permissionMode: string,
-        maxThinkingTokens: number
+        maxThinkingTokens: number,
+        resumeSessionAt: string | null = null
     ): Promise<Query> {
         return this.xiongGeminiService.query({
             inputStream,
             resume,
+            resumeSessionAt,
             canUseTool,
             model,
             cwd,
@@ -840,6 +1039,40 @@ export class ClaudeAgentService implements IClaudeAgentService {
         });
     }
 
+    /**
+     * 获取模型对应的 Agent Provider（openai / ollama / glm），Claude 模型返回 undefined
+     */
+    private getAgentProvider(model: string | null): IAIProvider | undefined {
+        if (!model) {
+            return undefined;
+        }
+        const provider = this.providerFactory.getProviderByModel(model);
+        return provider && provider.type !== 'claude' ? provider : undefined;
+    }
+
+    /**
+     * 启动 Agent Provider 会话（由 AgentCoordinator 执行工具调用循环）
+     */
+    protected async spawnAgentProvider(
+        provider: IAIProvider,
+        inputStream: AsyncStream<SDKUserMessage>,
+        canUseTool: CanUseToolCallback,
+        model: string | null,
+        cwd: string
+    ): Promise<Query> {
+        const query = await provider.query({
+            // SDK 用户消息的内容在 message.content 中，由 AgentProvider 解析
+            inputStream: inputStream as unknown as AsyncStream<AIUserMessage>,
+            resume: null,
+            canUseTool,
+            model,
+            cwd,
+            permissionMode: 'default',
+        });
+        // AgentQuery 输出与 SDK 一致的消息，并实现了 Channel 用到的 Query 方法
+        return query as unknown as Query;
+    }
+
 
     /**
      * 关闭所有会话
@@ -887,6 +1120,45 @@ export class ClaudeAgentService implements IClaudeAgentService {
         }
     }
 
+    /**
+     * 为 tool_result 附加快照信息
+     *
+     * SDK 返回的 tool_result 不包含快照字段，PreToolUse hook 以 tool_use_id 作为快照 ID，
+     * 这里补上 snapshotId / canRevert，WebView 的工具块据此显示撤回和差异按钮。
+     * assistant 消息中的 tool_use 会绑定到以消息 uuid 为键的检查点，用于按轮次回滚
+     */
+    private attachSnapshotInfo(message: SDKMessage): void {
+        if (message.type === 'assistant') {
+            const toolUseIds = message.message.content
+                .flatMap(block => block.type === 'tool_use' && block.id ? [block.id] : []);
+            if (toolUseIds.length > 0 && message.uuid && message.session_id) {
+                this.fileSnapshotService.bindToolUses(message.session_id, message.uuid, toolUseIds);
+            }
+            return;
+        }
+
+        if (message.type === 'user') {
+            attachSnapshotFields(message, this.fileSnapshotService);
+        }
+    }
+
+    /**
+     * 从 assistant 消息的 TodoWrite 调用中取出任务列表并同步
+     */
+    private observeTodoWrite(message: SDKMessage): void {
+        if (message.type !== 'assistant') {
+            return;
+        }
+
+        for (const block of message.message.content) {
+            if (block.type === 'tool_use' && block.name === 'TodoWrite' && isTodoWriteInput(block.input)) {
+                void this.todoSyncService.applyClaudeTodos(block.input.todos, message.session_id).catch(error => {
+                    this.logService.error(`[ClaudeAgentService] 同步 TodoWrite 任务失败: ${error}`);
+                });
+            }
+        }
+    }
+
     /**
      * 处理来自客户端的请求
      */
@@ -1050,6 +1322,24 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "ssh_list_sessions":
                 return handleSSHListSessions(request as any, this.handlerContext);
 
+            case "ssh_list_profiles":
+                return handleSSHListProfiles(request, this.handlerContext);
+
+            case "ssh_save_profile":
+                return handleSSHSaveProfile(request, this.handlerContext);
+
+            case "ssh_remove_profile":
+                return handleSSHRemoveProfile(request, this.handlerContext);
+
+            case "ssh_open_tunnel":
+                return handleSSHOpenTunnel(request, this.handlerContext);
+
+            case "ssh_close_tunnel":
+                return handleSSHCloseTunnel(request, this.handlerContext);
+
+            case "ssh_attach_terminal":
+                return handleSSHAttachTerminal(request, this.handlerContext);
+
             // Claude 配置管理
             case "get_claude_config":
                 return handleGetClaudeConfig(request as any, this.handlerContext);
@@ -1100,6 +1390,12 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "import_claude_todos":
                 return handleImportClaudeTodos(request as any, this.handlerContext);
 
+            case "import_todos":
+                return handleImportTodos(request, this.handlerContext);
+
+            case "export_todos":
+                return handleExportTodos(request, this.handlerContext);
+
             case "read_task_file":
                 return this.handleReadTaskFile();
 
@@ -1119,6 +1415,72 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "check_tasks_now":
                 return this.handleCheckTasksNow();
 
+            // 任务队列
+            case "start_task_queue":
+                return this.handleStartTaskQueue();
+
+            case "stop_task_queue":
+                return this.handleStopTaskQueue();
+
+            case "get_task_queue_state":
+                return this.handleGetTaskQueueState();
+
+            case "run_verify_command":
+                return this.handleRunVerifyCommand(request);
+
+            // 项目记忆
+            case "add_memory_note":
+                return handleAddMemoryNote(request, this.handlerContext);
+
+            case "get_summary_overview":
+                return handleGetSummaryOverview(request, this.handlerContext);
+
+            case "propose_summary_update":
+                return handleProposeSummaryUpdate(request, this.handlerContext);
+
+            // 定时任务
+            case "get_scheduled_tasks":
+                return this.handleGetScheduledTasks();
+
+            case "run_scheduled_task":
+                return this.handleRunScheduledTask(request);
+
+            // 文件撤回
+            case "revert_file_change":
+                return handleRevertFileChange(request, this.handlerContext);
+
+            case "view_snapshot_diff":
+                return handleViewSnapshotDiff(request, this.handlerContext);
+
+            case "revert_checkpoint":
+                return handleRevertCheckpoint(request, this.handlerContext);
+
+            case "list_checkpoints":
+                return handleListCheckpoints(request, this.handlerContext);
+
+            case "rewind_session":
+                return handleRewindSession(request, this.handlerContext);
+
+            // 权限规则
+            case "get_permission_rules":
+                return handleGetPermissionRules(request, this.handlerContext);
+
+            case "add_permission_rule":
+                return handleAddPermissionRule(request, this.handlerContext);
+
+            case "remove_permission_rule":
+                return handleRemovePermissionRule(request, this.handlerContext);
+
+            case "get_permission_decisions":
+                return handleGetPermissionDecisions(request, this.handlerContext);
+
+            // AI Provider
+            case "get_providers":
+                return handleGetProviders(request, this.handlerContext);
+
+            case "get_models":
+                return handleGetModels(request, this.handlerContext);
+
             // case "open_claude_in_terminal":
             //     return handleOpenClaudeInTerminal(request, this.handlerContext);
 
@@ -1154,11 +1516,12 @@ export class ClaudeAgentService implements IClaudeAgentService {
             const taskFilePath = vscode.Uri.joinPath(workspaceFolder.uri, '.tasks', 'current.md');
 
             try {
-                const content = await vscode.workspace.fs.readFile(taskFilePath);
+                const content = Buffer.from(await vscode.workspace.fs.readFile(taskFilePath)).toString('utf-8');
                 return {
                     type: "read_task_file_response",
                     success: true,
-                    content: Buffer.from(content).toString('utf-8')
+                    content,
+                    tasks: toTaskInfos(parseTaskItems(content))
                 };
             } catch {
                 // 文件不存在
@@ -1237,6 +1600,11 @@ export class ClaudeAgentService implements IClaudeAgentService {
      * 处理自动任务发现
      */
     private handleAutoTaskFound(tasks: Task[]): void {
+        if (this.taskQueueRunner.isRunning()) {
+            this.logService.info('[ClaudeAgentService] 任务队列正在执行，跳过自动任务通知');
+            return;
+        }
+
         if (!this.transport) {
             this.logService.warn('[ClaudeAgentService] Transport 未连接，无法发送自动任务通知');
             return;
@@ -1259,6 +1627,237 @@ export class ClaudeAgentService implements IClaudeAgentService {
         this.logService.info(`[ClaudeAgentService] 发送自动任务通知，${tasks.length} 个任务`);
     }
 
+    /**
+     * 开始执行任务队列
+     */
+    private handleStartTaskQueue(): any {
+        if (!this.transport) {
+            return {
+                type: "start_task_queue_response",
+                success: false,
+                error: 'WebView 未连接',
+                state: this.taskQueueRunner.getState()
+            };
+        }
+
+        const started = this.taskQueueRunner.start();
+        return {
+            type: "start_task_queue_response",
+            success: started,
+            error: started ? undefined : '任务队列已在执行',
+            state: this.taskQueueRunner.getState()
+        };
+    }
+
+    /**
+     * 停止任务队列（当前任务结束后生效）
+     */
+    private handleStopTaskQueue(): any {
+        this.taskQueueRunner.stop();
+        return {
+            type: "stop_task_queue_response",
+            state: this.taskQueueRunner.getState()
+        };
+    }
+
+    /**
+     * 获取任务队列状态
+     */
+    private handleGetTaskQueueState(): any {
+        return {
+            type: "get_task_queue_state_response",
+            state: this.taskQueueRunner.getState()
+        };
+    }
+
+    /**
+     * 运行验证命令（无尽模式每轮结束后调用）
+     */
+    private async handleRunVerifyCommand(request: RunVerifyCommandRequest): Promise<RunVerifyCommandResponse> {
+        const result = await this.taskQueueRunner.runVerifyCommand(request.command);
+        return {
+            type: "run_verify_command_response",
+            ...result
+        };
+    }
+
+    /**
+     * 请求 WebView 在新会话中执行一个任务，会话空闲后返回结果
+     */
+    private async runQueuedTask(task: { title: string; prompt: string }): Promise<RunQueuedTaskResponse> {
+        if (!this.transport) {
+            return { type: "run_queued_task_response", success: false, error: 'WebView 未连接' };
+        }
+
+        return this.sendRequest<RunQueuedTaskRequest, RunQueuedTaskResponse>("task-queue", {
+            type: "run_queued_task",
+            title: task.title,
+            prompt: task.prompt
+        });
+    }
+
+    /**
+     * 推送任务队列状态
+     */
+    private notifyTaskQueueStateChanged(state: TaskQueueState): void {
+        if (!this.transport) {
+            return;
+        }
+
+        this.transport.send({
+            type: "request",
+            channelId: "task-queue",
+            requestId: this.generateId(),
+            request: {
+                type: "task_queue_state_changed",
+                state
+            }
+        });
+    }
+
+    /**
+     * 获取定时任务状态
+     */
+    private handleGetScheduledTasks(): GetScheduledTasksResponse {
+        return {
+            type: "get_scheduled_tasks_response",
+            state: this.scheduledTaskService.getState()
+        };
+    }
+
+    /**
+     * 立即运行一个定时任务
+     */
+    private handleRunScheduledTask(request: RunScheduledTaskRequest): RunScheduledTaskResponse {
+        const error = this.scheduledTaskService.runNow(request.name);
+        return {
+            type: "run_scheduled_task_response",
+            success: !error,
+            error,
+            state: this.scheduledTaskService.getState()
+        };
+    }
+
+    /**
+     * 在后台会话中运行定时任务的提示词，直到得到结果
+     *
+     * 会话不注册为 Channel，也不推送消息到 WebView；SDK 会照常保存会话记录，
+     * 提示词前加上「【定时任务】」标记，便于在会话列表中识别。
+     */
+    private async runScheduledPrompt(run: ScheduledRun): Promise<ScheduledRunResult> {
+        const model = run.model || null;
+        if (model && (this.xiongGeminiService.isXiongGeminiModel(model) || this.getAgentProvider(model))) {
+            return { success: false, error: `后台任务只支持 Claude 模型: ${model}` };
+        }
+
+        const cwd = this.getCwd();
+        const reason = run.trigger === 'file' ? `文件变化: ${run.file}` : run.trigger === 'cron' ? '定时触发' : '手动运行';
+        const text = `【定时任务】${run.name}（${reason}）\n\n${run.prompt}`;
+
+        this.logService.info(`[ClaudeAgentService] 后台运行定时任务: ${run.name}, cwd=${cwd}, model=${model || '默认'}, permission=${run.permissionMode}`);
+
+        const inputStream = new AsyncStream<SDKUserMessage>();
+        const query = await this.spawnClaude(
+            inputStream,
+            null,
+            this.createBackgroundCanUseTool(run.name, cwd, run.permissionMode),
+            model,
+            cwd,
+            'default',
+            this.getMaxThinkingTokens(this.thinkingLevel)
+        );
+
+        inputStream.enqueue({
+            type: 'user',
+            session_id: '',
+            parent_tool_use_id: null,
+            message: {
+                role: 'user',
+                content: [{ type: 'text', text }]
+            }
+        });
+
+        let sessionId: string | undefined;
+        try {
+            for await (const message of query) {
+                if ('session_id' in message && message.session_id && message.session_id !== 'unknown') {
+                    sessionId = message.session_id;
+                }
+                if (message.type === 'result') {
+                    const success = message.subtype === 'success' && !message.is_error;
+                    const resultText = message.subtype === 'success' ? message.result : '';
+                    return {
+                        success,
+                        sessionId,
+                        error: success ? undefined : resultText || message.subtype
+                    };
+                }
+            }
+            return { success: false, sessionId, error: '会话在得到结果前结束' };
+        } finally {
+            inputStream.done();
+        }
+    }
+
+    /**
+     * 后台会话的工具权限回调：无法请求用户确认，需要确认的工具一律拒绝
+     */
+    private createBackgroundCanUseTool(name: string, cwd: string, permissionMode: ScheduledRun['permissionMode']): CanUseTool {
+        return async (toolName, input) => {
+            const decision = await this.permissionRuleService.evaluate(toolName, input ?? {}, {
+                sessionId: `schedule:${name}`,
+                cwd
+            });
+
+            const allow = (): PermissionResult => ({ behavior: 'allow', updatedInput: input });
+            const deny = (message: string): PermissionResult => {
+                this.logService.info(`  [SCHEDULE] ${name} 拒绝 ${toolName}: ${message}`);
+                return { behavior: 'deny', message };
+            };
+
+            if (decision.behavior === 'deny') {
+                return deny(`权限规则拒绝了此操作: ${decision.rule?.text ?? toolName}`);
+            }
+            if (permissionMode === 'bypassPermissions') {
+                return allow();
+            }
+            if (permissionMode === 'plan') {
+                return READ_ONLY_TOOLS.includes(toolName)
+                    ? allow()
+                    : deny(`定时任务以只读模式运行，不能执行 ${toolName}`);
+            }
+            if (permissionMode === 'acceptEdits' && FILE_EDIT_TOOLS.includes(toolName)) {
+                const filePath = (input as any)?.file_path ?? (input as any)?.notebook_path;
+                if (typeof filePath === 'string' && this.isInsideWorkspace(filePath, cwd)) {
+                    return allow();
+                }
+            }
+            if (decision.behavior === 'ask') {
+                return deny(`后台任务无法请求确认，已拒绝 ${toolName}。请在权限规则中允许该操作或调整定时任务的 permissionMode`);
+            }
+            return allow();
+        };
+    }
+
+    /**
+     * 推送定时任务状态
+     */
+    private notifyScheduledTasksChanged(state: ScheduledTasksState): void {
+        if (!this.transport) {
+            return;
+        }
+
+        this.transport.send({
+            type: "request",
+            channelId: "scheduled-tasks",
+            requestId: this.generateId(),
+            request: {
+                type: "scheduled_tasks_changed",
+                state
+            }
+        });
+    }
+
     /**
      * 处理任务文件变化（用于实时 UI 更新）
      */
@@ -1279,6 +1878,28 @@ export class ClaudeAgentService implements IClaudeAgentService {
         });
 
         this.logService.info(`[ClaudeAgentService] 发送任务文件变化通知，${tasks.length} 个任务`);
+
+        // 文件中的勾选和增删同步到本地 Todo
+        void this.todoSyncService.sync().catch(() => undefined);
+    }
+
+    /**
+     * 推送同步后的本地 Todo 列表
+     */
+    private notifyLocalTodosChanged(todos: LocalTodo[]): void {
+        if (!this.transport) {
+            return;
+        }
+
+        this.transport.send({
+            type: "request",
+            channelId: "local-todos",
+            requestId: this.generateId(),
+            request: {
+                type: "local_todos_changed",
+                todos
+            }
+        });
     }
 
     /**
@@ -1336,6 +1957,19 @@ export class ClaudeAgentService implements IClaudeAgentService {
         });
     }
 
+    /**
+     * 判断文件是否位于工作区（cwd 或任一工作区文件夹）内
+     */
+    private isInsideWorkspace(filePath: string, cwd: string): boolean {
+        const target = path.resolve(cwd, filePath);
+        const roots = [cwd, ...(this.workspaceService.getWorkspaceFolders() ?? []).map(f => f.uri.fsPath)];
+
+        return roots.some(root => {
+            const relative = path.relative(root, target);
+            return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+        });
+    }
+
     /**
      * 请求工具权限
      */
@@ -1359,7 +1993,21 @@ export class ClaudeAgentService implements IClaudeAgentService {
         );
 
         this.logService.info(`[requestToolPermission] ✅ 收到权限响应: ${JSON.stringify(response.result)}`);
-        return response.result as any;
+
+        // "总是允许"等选择保存为权限规则，由规则引擎统一判断，不再交给 SDK 保存
+        const result = response.result as PermissionResult;
+        if (result.behavior === 'allow' && result.updatedPermissions?.length) {
+            try {
+                const remaining = await this.permissionRuleService.applyPermissionUpdates(
+                    result.updatedPermissions,
+                    channelId
+                );
+                result.updatedPermissions = remaining as typeof result.updatedPermissions;
+            } catch (error) {
+                this.logService.error(`[requestToolPermission] 保存权限规则失败:`, error);
+            }
+        }
+        return result;
     }
 
     /**
@@ -1395,6 +2043,63 @@ export class ClaudeAgentService implements IClaudeAgentService {
         });
     }
 
+    /**
+     * 推送 SSH 命令部分输出
+     */
+    private notifySSHCommandOutput(event: SSHCommandOutputEvent): void {
+        if (!this.transport) {
+            return;
+        }
+
+        this.transport.send({
+            type: "request",
+            requestId: this.generateId(),
+            request: {
+                type: "ssh_command_output",
+                ...event
+            }
+        });
+    }
+
+    /**
+     * 推送 SSH 会话和隧道列表
+     */
+    private notifySSHSessionsChanged(): void {
+        if (!this.transport) {
+            return;
+        }
+
+        this.transport.send({
+            type: "request",
+            requestId: this.generateId(),
+            request: {
+                type: "ssh_sessions_changed",
+                sessions: this.sshService.getSessionInfos(),
+                tunnels: this.sshService.getTunnels()
+            }
+        });
+    }
+
+    /**
+     * 通知模型目录变化
+     */
+    private notifyModelsChanged(): void {
+        if (!this.transport) {
+            return;
+        }
+
+        this.logService.info('[ClaudeAgentService] 模型目录已更新，通知 WebView');
+
+        this.transport.send({
+            type: "request",
+            requestId: this.generateId(),
+            request: {
+                type: "models_changed",
+                models: this.modelRegistry.getModels()
+            }
+        });
+    }
+
     // ========================================================================
     // 工具方法
     // ========================================================================
@@ -1445,7 +2150,7 @@ export class ClaudeAgentService implements IClaudeAgentService {
             throw new Error(`Channel ${channelId} not found`);
         }
 
-        // 更新本地权限模式记录（用于 YOLO 模式判断）
+        // 更新本地权限模式记录（由 canUseTool 回调执行）
         this.channelPermissionModes.set(channelId, mode);
 
         // 重要：始终向 SDK 传递 'default' 模式
@@ -1469,14 +2174,16 @@ export class ClaudeAgentService implements IClaudeAgentService {
         }
 
         // 模型名称映射：将 UI 模型 ID 转换为 API 兼容格式
-        const mappedModel = MODEL_NAME_MAPPING[model] || model;
-        if (MODEL_NAME_MAPPING[model]) {
+        const mappedModel = this.modelRegistry.resolveUpstreamId(model);
+        if (mappedModel !== model) {
             this.logService.info(`[setModel] 模型名称映射: ${model} -> ${mappedModel}`);
         }
 
         // 检测目标模型的 provider 类型
         const isTargetXiongGemini = this.xiongGeminiService.isXiongGeminiModel(model);
-        const targetProvider: ProviderType = isTargetXiongGemini ? 'xionggemini' : 'claude';
+        const targetProvider: ProviderType = isTargetXiongGemini
+            ? 'xionggemini'
+            : this.getAgentProvider(model)?.type ?? 'claude';
 
         // 检查是否需要切换 provider
         const needsProviderSwitch = channel.provider !== targetProvider;
@@ -1496,6 +2203,10 @@ export class ClaudeAgentService implements IClaudeAgentService {
             // Claude SDK 支持动态切换模型
             this.logService.info(`[setModel] 调用 channel.query.setModel(${mappedModel})`);
             await channel.query.setModel(mappedModel);
+        } else if (channel.provider !== 'xionggemini') {
+            // Agent Provider 同一 provider 内可以直接切换模型
+            this.logService.info(`[setModel] ${channel.provider} 切换模型: ${model}`);
+            await channel.query.setModel(model);
         } else {
             // 同一 provider 内切换模型，但 XiongGemini 不支持动态切换
             // 关闭当前 channel，让前端重新创建
@@ -1523,32 +2234,8 @@ export class ClaudeAgentService implements IClaudeAgentService {
             this.autoApproveConfig.confirmEdit = config.confirmEdit;
         }
         this.logService.info(`[setAutoApproveConfig] 更新配置: autoApproveEnabled=${this.autoApproveConfig.autoApproveEnabled}, confirmWrite=${this.autoApproveConfig.confirmWrite}, confirmEdit=${this.autoApproveConfig.confirmEdit}`);
-    }
-
-    /**
-     * 判断工具是否需要用户确认
-     *
-     * @param toolName 工具名称
-     * @returns 是否需要确认
-     */
-    private shouldConfirmTool(toolName: string): boolean {
-        // 如果总开关关闭，所有工具都需要确认
-        if (!this.autoApproveConfig.autoApproveEnabled) {
-            this.logService.info(`[shouldConfirmTool] 总开关关闭，${toolName} 需要确认`);
-            return true;
-        }
-
-        // Write 工具
-        if (toolName === 'Write' && this.autoApproveConfig.confirmWrite) {
-            return true;
-        }
-
-        // Edit 工具
-        if (toolName === 'Edit' && this.autoApproveConfig.confirmEdit) {
-            return true;
-        }
 
-        // 其他工具默认不需要确认
-        return false;
+        // 自动审批开关作为未命中任何规则时的内置规则
+        this.permissionRuleService.setAutoApproveDefaults(this.autoApproveConfig);
     }
 }
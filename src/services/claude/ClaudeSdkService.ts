@@ -10,6 +10,7 @@
  * 依赖：
  * - ILogService: 日志服务
  * - IConfigurationService: 配置服务
+ * - ISSHService: 通过进程内 MCP 服务器向模型提供 SSH 工具
  */
 
 import * as vscode from 'vscode';
@@ -17,6 +18,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { WorkspacePathResolver } from '../workspacePathResolver';
 import { ToolParamsValidator } from './utils/ToolParamsValidator';
+import { IFileSnapshotService } from '../FileSnapshotService';
+import { extractRemovedPaths } from '../removedPaths';
 import {
     generateIdentityPrompt,
     generateVSCodeContextPrompt,
@@ -26,24 +29,14 @@ import {
     generateUserInstructionPriorityPrompt,
 } from '../ai/SystemPrompts';
 
-/**
- * 模型名称映射表
- *
- * 将 UI 中的简短模型 ID 映射为 Anthropic API 兼容的完整模型 ID
- */
-const MODEL_NAME_MAPPING: Record<string, string> = {
-    // UI 模型 ID -> Anthropic API 完整模型 ID
-    'claude-opus-4-5': 'claude-opus-4-5-20251101',
-    'claude-opus-4.6': 'claude-opus-4.6',
-    'claude-sonnet-4-5': 'claude-sonnet-4-5-20250929',
-    'claude-haiku-4-5': 'claude-haiku-4-5-20251001',
-    // Gemini 等其他模型直接使用原模型 ID，无需映射
-};
-
 import { createDecorator } from '../../di/instantiation';
 import { ILogService } from '../logService';
 import { IConfigurationService } from '../configurationService';
+import { IModelRegistryService } from '../modelRegistryService';
+import { ISSHService } from '../sshService';
 import { AsyncStream } from './transport';
+import { createSshMcpServer } from './SshMcpServer';
+import { SSH_MCP_SERVER_NAME } from '../../shared/permissions';
 
 // SDK 类型导入
 import type {
@@ -63,6 +56,7 @@ export const IClaudeSdkService = createDecorator<IClaudeSdkService>('claudeSdkSe
 export interface SdkQueryParams {
     inputStream: AsyncStream<SDKUserMessage>;
     resume: string | null;
+    resumeSessionAt?: string | null;  // ← 只恢复到该 assistant 消息（含）为止
     canUseTool: CanUseTool;
     model: string | null;  // ← 接受 null，内部转换
     cwd: string;
@@ -113,7 +107,10 @@ export class ClaudeSdkService implements IClaudeSdkService {
     constructor(
         private readonly context: vscode.ExtensionContext,
         @ILogService private readonly logService: ILogService,
-        @IConfigurationService private readonly configService: IConfigurationService
+        @IConfigurationService private readonly configService: IConfigurationService,
+        @IFileSnapshotService private readonly fileSnapshotService: IFileSnapshotService,
+        @IModelRegistryService private readonly modelRegistry: IModelRegistryService,
+        @ISSHService private readonly sshService: ISSHService
     ) {
         this.logService.info('[ClaudeSdkService] 已初始化');
     }
@@ -122,7 +119,7 @@ export class ClaudeSdkService implements IClaudeSdkService {
      * 调用 Claude SDK 进行查询
      */
     async query(params: SdkQueryParams): Promise<Query> {
-        const { inputStream, resume, canUseTool, model, cwd, permissionMode, maxThinkingTokens } = params;
+        const { inputStream, resume, resumeSessionAt, canUseTool, model, cwd, permissionMode, maxThinkingTokens } = params;
 
         this.logService.info('========================================');
         this.logService.info('ClaudeSdkService.query() 开始调用');
@@ -132,21 +129,29 @@ export class ClaudeSdkService implements IClaudeSdkService {
         this.logService.info(`  - cwd: ${cwd}`);
         this.logService.info(`  - permissionMode: ${permissionMode}`);
         this.logService.info(`  - resume: ${resume}`);
+        this.logService.info(`  - resumeSessionAt: ${resumeSessionAt ?? 'undefined'}`);
         this.logService.info(`  - maxThinkingTokens: ${maxThinkingTokens ?? 'undefined'}`);
 
         // 参数转换
-        // 模型名称映射：将 UI 模型 ID 转换为 Anthropic API 兼容格式
+        // 模型名称映射：通过模型目录将 UI 模型 ID 转换为上游模型 ID
         let modelParam: string;
         if (model === null) {
             modelParam = "default";
-        } else if (MODEL_NAME_MAPPING[model]) {
-            // 使用映射表转换模型名称
-            modelParam = MODEL_NAME_MAPPING[model];
-            this.logService.info(`  📌 模型名称映射: ${model} -> ${modelParam}`);
         } else {
-            // 未知模型保持原样
-            modelParam = model;
-            this.logService.info(`  📌 使用原始模型名称: ${modelParam}`);
+            modelParam = this.modelRegistry.resolveUpstreamId(model);
+            if (modelParam !== model) {
+                this.logService.info(`  📌 模型名称映射: ${model} -> ${modelParam}`);
+            } else {
+                // 未登记的模型保持原样
+                this.logService.info(`  📌 使用原始模型名称: ${modelParam}`);
+            }
+        }
+
+        // 目录中标记为不支持思考的模型不传 maxThinkingTokens
+        const modelInfo = model ? this.modelRegistry.getModel(model) : undefined;
+        const thinkingTokens = modelInfo && !modelInfo.supportsThinking ? undefined : maxThinkingTokens;
+        if (thinkingTokens !== maxThinkingTokens) {
+            this.logService.info(`  📌 模型 ${model} 不支持思考，忽略 maxThinkingTokens`);
         }
         const permissionModeParam = permissionMode as PermissionMode;
         const cwdParam = cwd;
@@ -161,13 +166,19 @@ export class ClaudeSdkService implements IClaudeSdkService {
             // 基本参数
             cwd: cwdParam,
             resume: resume || undefined,
+            resumeSessionAt: (resume && resumeSessionAt) || undefined,
             model: modelParam,
             permissionMode: permissionModeParam,
-            maxThinkingTokens: maxThinkingTokens,
+            maxThinkingTokens: thinkingTokens,
 
             // CanUseTool 回调
             canUseTool,
 
+            // 进程内 MCP 服务器（工具调用同样经过 canUseTool）
+            mcpServers: {
+                [SSH_MCP_SERVER_NAME]: await createSshMcpServer(this.sshService, this.logService),
+            },
+
             // 日志回调 - 捕获 SDK 进程的所有标准错误输出
             stderr: (data: string) => {
                 const timestamp = new Date().toLocaleTimeString('zh-CN', { hour12: false });
@@ -193,7 +204,7 @@ export class ClaudeSdkService implements IClaudeSdkService {
             },
 
             // 环境变量
-            env: this.getEnvironmentVariables(),
+            env: this.getEnvironmentVariables(model),
 
             // 系统提示追加（包含动态工作目录）
             systemPrompt: {
@@ -813,6 +824,87 @@ export class ClaudeSdkService implements IClaudeSdkService {
                         this.logService.info(`[Hook] TodoWrite 参数验证通过`);
                         return { continue: true };
                     }]
+                }, {
+                    // 文件修改前创建快照，快照 ID 使用 tool_use_id，用于工具块上的撤回和差异查看
+                    matcher: "Write|Edit|MultiEdit",
+                    hooks: [async (input, toolUseID) => {
+                        const hookInput = input as {
+                            tool_name?: string;
+                            tool_use_id?: string;
+                            session_id?: string;
+                            cwd?: string;
+                            tool_input?: { file_path?: string } | unknown;
+                        };
+
+                        const snapshotId = toolUseID || hookInput.tool_use_id;
+                        const toolName = hookInput.tool_name || 'Write';
+                        const rawPath = (hookInput.tool_input as { file_path?: string } | undefined)?.file_path;
+                        if (!snapshotId || !rawPath) {
+                            return { continue: true };
+                        }
+
+                        // 与参数修复 hook 使用相同的路径解析，保证快照对应实际写入的文件
+                        const pathResolver = new WorkspacePathResolver(hookInput.cwd || cwdParam);
+                        const { fixedPath } = pathResolver.fixToolPath(rawPath, toolName);
+
+                        await this.fileSnapshotService.createSnapshot(
+                            snapshotId,
+                            fixedPath || rawPath,
+                            toolName === 'Write' ? 'write' : 'edit',
+                            hookInput.session_id
+                        );
+                        return { continue: true };
+                    }]
+                }, {
+                    // Bash 命令删除文件前创建快照，回滚时可以恢复被删除的文件
+                    matcher: "Bash",
+                    hooks: [async (input, toolUseID) => {
+                        const hookInput = input as {
+                            tool_use_id?: string;
+                            session_id?: string;
+                            cwd?: string;
+                            tool_input?: { command?: string } | unknown;
+                        };
+
+                        const snapshotId = toolUseID || hookInput.tool_use_id;
+                        const command = (hookInput.tool_input as { command?: string } | undefined)?.command;
+                        if (!snapshotId || typeof command !== 'string') {
+                            return { continue: true };
+                        }
+
+                        const cwd = hookInput.cwd || cwdParam;
+                        const removedPaths = extractRemovedPaths(command).map(p => path.resolve(cwd, p));
+                        if (removedPaths.length > 0) {
+                            await this.fileSnapshotService.createDeleteSnapshots(snapshotId, removedPaths, hookInput.session_id);
+                        }
+                        return { continue: true };
+                    }]
+                }, {
+                    // 远程文件修改前通过 SSH 读取原内容创建快照，撤回时写回远程主机
+                    matcher: "mcp__ssh__write_file|mcp__ssh__edit_file",
+                    hooks: [async (input, toolUseID) => {
+                        const hookInput = input as {
+                            tool_name?: string;
+                            tool_use_id?: string;
+                            session_id?: string;
+                            tool_input?: { sessionId?: string; file_path?: string } | unknown;
+                        };
+
+                        const snapshotId = toolUseID || hookInput.tool_use_id;
+                        const toolInput = hookInput.tool_input as { sessionId?: string; file_path?: string } | undefined;
+                        if (!snapshotId || !toolInput?.sessionId || !toolInput.file_path) {
+                            return { continue: true };
+                        }
+
+                        await this.fileSnapshotService.createRemoteSnapshot(
+                            snapshotId,
+                            toolInput.sessionId,
+                            toolInput.file_path,
+                            hookInput.tool_name === 'mcp__ssh__write_file' ? 'write' : 'edit',
+                            hookInput.session_id
+                        );
+                        return { continue: true };
+                    }]
                 }] as HookCallbackMatcher[],
                 // PostToolUse: 工具执行后
                 PostToolUse: [{
@@ -1158,8 +1250,9 @@ Read(file_path="${currentCwd}/your/file/path.ts")
     /**
      * 获取环境变量
      * 如果配置了 xiong.apiKey，则设置为 ANTHROPIC_API_KEY
+     * 模型目录中配置了最大输出时设置 CLAUDE_CODE_MAX_OUTPUT_TOKENS
      */
-    private getEnvironmentVariables(): Record<string, string> {
+    private getEnvironmentVariables(model?: string | null): Record<string, string> {
         const xiongConfig = vscode.workspace.getConfiguration("xiong");
         const customVars = xiongConfig.get<Array<{ name: string; value: string }>>("environmentVariables", []);
 
@@ -1187,13 +1280,20 @@ Read(file_path="${currentCwd}/your/file/path.ts")
         // 读取 xiong.selectedModel 配置并设置 ANTHROPIC_MODEL（仅在未显式设置时）
         const selectedModel = xiongConfig.get<string>("selectedModel");
         if (selectedModel && selectedModel.trim() !== '') {
-            const mappedModel = MODEL_NAME_MAPPING[selectedModel] || selectedModel;
+            const mappedModel = this.modelRegistry.resolveUpstreamId(selectedModel);
             if (!env.ANTHROPIC_MODEL || env.ANTHROPIC_MODEL.trim() === '') {
                 env.ANTHROPIC_MODEL = mappedModel;
                 this.logService.info(`[ClaudeSdkService] 使用 ANTHROPIC_MODEL: ${mappedModel}`);
             }
         }
 
+        // 模型目录中的最大输出（仅在未显式设置时）
+        const maxOutputTokens = this.modelRegistry.getModel(model || selectedModel || '')?.maxOutputTokens;
+        if (maxOutputTokens && !env.CLAUDE_CODE_MAX_OUTPUT_TOKENS) {
+            env.CLAUDE_CODE_MAX_OUTPUT_TOKENS = String(maxOutputTokens);
+            this.logService.info(`[ClaudeSdkService] 使用 CLAUDE_CODE_MAX_OUTPUT_TOKENS: ${maxOutputTokens}`);
+        }
+
         for (const item of customVars) {
             if (item.name) {
                 env[item.name] = item.value || "";
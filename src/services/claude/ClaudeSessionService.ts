@@ -26,7 +26,7 @@ export const IClaudeSessionService = createDecorator<IClaudeSessionService>('cla
 /**
  * 会话消息类型
  */
-interface SessionMessage {
+export interface SessionMessage {
     uuid: string;
     sessionId: string;
     parentUuid?: string;
@@ -71,6 +71,11 @@ export interface IClaudeSessionService {
      * 获取指定会话的所有消息
      */
     getSession(sessionIdOrPath: string, cwd: string): Promise<any[]>;
+
+    /**
+     * 获取指定会话的原始对话链（按 parentUuid 从根到最新消息，未做格式转换）
+     */
+    getTranscriptChain(sessionId: string, cwd: string): Promise<SessionMessage[]>;
 }
 
 // ============================================================================
@@ -94,7 +99,7 @@ function getProjectsDir(): string {
 /**
  * 获取特定项目的历史目录
  */
-function getProjectHistoryDir(cwd: string): string {
+export function getProjectHistoryDir(cwd: string): string {
     return path.join(getProjectsDir(), cwd.replace(/[^a-zA-Z0-9]/g, "-"));
 }
 
@@ -412,25 +417,12 @@ export class ClaudeSessionService implements IClaudeSessionService {
                 return messages;
             }
 
-            const data = await loadProjectData(cwd);
-
-            const messageUuids = data.sessionMessages.get(sessionIdOrPath);
-            if (!messageUuids) {
-                return [];
-            }
-
-            const sessionMessageList = Array.from(data.messages.values())
-                .filter(msg => messageUuids.has(msg.uuid))
-                .sort((a, b) =>
-                    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-                );
-
-            const latestMessage = sessionMessageList[0];
-            if (!latestMessage) {
+            const chain = await this.loadTranscriptChain(sessionIdOrPath, cwd);
+            if (chain.length === 0) {
                 return [];
             }
 
-            const result = getTranscript(latestMessage, data)
+            const result = chain
                 .map(convertMessage)
                 .filter(msg => !!msg);
 
@@ -442,4 +434,40 @@ export class ClaudeSessionService implements IClaudeSessionService {
         }
     }
 
+    /**
+     * 获取指定会话的原始对话链
+     */
+    async getTranscriptChain(sessionId: string, cwd: string): Promise<SessionMessage[]> {
+        try {
+            return await this.loadTranscriptChain(sessionId, cwd);
+        } catch (error) {
+            this.logService.error(`[ClaudeSessionService] 获取对话链失败:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * 从最新消息沿 parentUuid 重建会话的对话链
+     */
+    private async loadTranscriptChain(sessionId: string, cwd: string): Promise<SessionMessage[]> {
+        const data = await loadProjectData(cwd);
+
+        const messageUuids = data.sessionMessages.get(sessionId);
+        if (!messageUuids) {
+            return [];
+        }
+
+        const sessionMessageList = Array.from(data.messages.values())
+            .filter(msg => messageUuids.has(msg.uuid))
+            .sort((a, b) =>
+                new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+            );
+
+        const latestMessage = sessionMessageList[0];
+        if (!latestMessage) {
+            return [];
+        }
+
+        return getTranscript(latestMessage, data);
+    }
 }
@@ -0,0 +1,439 @@
+/**
+ * SshMcpServer - 将 SSHService 暴露为 SDK 进程内 MCP 工具服务器
+ *
+ * 注册到 ClaudeSdkService.query 的 mcpServers 中，模型可以自行：
+ * - list_profiles: 列出已知主机（工作区预设和 ~/.ssh/config）
+ * - connect: 建立 SSH 会话（按主机配置名称或手动参数）
+ * - exec: 在会话中执行命令
+ * - read_output: 读取会话输出缓冲区
+ * - read_file / write_file / edit_file / list_dir: 远程文件操作
+ * - list_sessions: 列出会话和端口转发隧道
+ * - open_tunnel / close_tunnel: 管理端口转发（-L / -R）
+ * - disconnect: 断开会话
+ *
+ * 工具调用与内置工具一样经过 canUseTool 回调（权限规则 + 权限模式）。
+ * write_file / edit_file 执行前由 ClaudeSdkService 的 PreToolUse hook 创建远程快照，
+ * 与本地 Write / Edit 一样可以查看差异和撤回。
+ * SDK 中的完整工具名为 mcp__ssh__<tool>。
+ */
+
+import { z } from 'zod';
+import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ILogService } from '../logService';
+import type { ISSHService, SSHCommandResult, SSHConnectionConfig, SSHTunnelInfo } from '../sshService';
+import { SSH_MCP_SERVER_NAME } from '../../shared/permissions';
+
+/** 单条命令的默认超时（毫秒） */
+const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+/** 单条命令允许的最大超时（毫秒） */
+const MAX_COMMAND_TIMEOUT = 600000;
+
+/** read_file 默认读取的行数 */
+const DEFAULT_READ_LIMIT = 2000;
+
+function textResult(text: string, isError = false): CallToolResult {
+    return {
+        content: [{ type: 'text', text }],
+        isError,
+    };
+}
+
+/**
+ * 格式化命令结果：退出码、stdout、stderr 分段展示
+ */
+function formatCommandResult(result: SSHCommandResult): string {
+    const lines: string[] = [];
+    if (result.exitCode !== null) {
+        lines.push(`退出码: ${result.exitCode}`);
+    } else {
+        lines.push(`错误: ${result.error ?? '命令执行失败'}`);
+    }
+    if (result.timedOut) {
+        lines.push('命令仍在远程执行，可稍后通过 read_output 查看后续输出');
+    }
+    if (result.stdout) {
+        lines.push('', '[stdout]', result.stdout.replace(/\n$/, ''));
+    }
+    if (result.stderr) {
+        lines.push('', '[stderr]', result.stderr.replace(/\n$/, ''));
+    }
+    if (!result.stdout && !result.stderr) {
+        lines.push('', '(无输出)');
+    }
+    return lines.join('\n');
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 带行号输出文件内容（与内置 Read 工具格式一致）
+ */
+function formatFileContent(content: string, offset: number, limit: number): string {
+    const lines = content.split('\n');
+    const start = Math.max(offset - 1, 0);
+    const selected = lines.slice(start, start + limit);
+    const numbered = selected.map((line, i) => `${String(start + i + 1).padStart(6)}\t${line}`).join('\n');
+    const rest = lines.length - (start + selected.length);
+    return rest > 0 ? `${numbered}\n\n（还有 ${rest} 行未显示，可通过 offset 继续读取）` : numbered;
+}
+
+/**
+ * 格式化隧道信息
+ */
+function formatTunnel(tunnel: SSHTunnelInfo): string {
+    const forward = tunnel.type === 'local'
+        ? `本机 ${tunnel.bindAddress}:${tunnel.bindPort} -> ${tunnel.host} 上的 ${tunnel.targetHost}:${tunnel.targetPort}`
+        : `${tunnel.host} 上的 ${tunnel.bindAddress}:${tunnel.bindPort} -> 本机 ${tunnel.targetHost}:${tunnel.targetPort}`;
+    return `- ${tunnel.name} (${tunnel.id}, ${tunnel.type === 'local' ? '-L' : '-R'}): ${forward} [${tunnel.status}]` +
+        (tunnel.error ? ` ${tunnel.error}` : '');
+}
+
+function countOccurrences(content: string, search: string): number {
+    let count = 0;
+    let index = content.indexOf(search);
+    while (index !== -1) {
+        count++;
+        index = content.indexOf(search, index + search.length);
+    }
+    return count;
+}
+
+/**
+ * 创建 SSH MCP 服务器
+ * SDK 为 ESM 模块，与 query() 一样通过动态 import 加载
+ */
+export async function createSshMcpServer(
+    sshService: ISSHService,
+    logService: ILogService
+): Promise<McpSdkServerConfigWithInstance> {
+    const { createSdkMcpServer, tool } = await import('@anthropic-ai/claude-agent-sdk');
+
+    const listProfiles = tool(
+        'list_profiles',
+        '列出可连接的已知主机：工作区预设（xiong.ssh.profiles）和 ~/.ssh/config 中的 Host 别名。',
+        {},
+        async () => {
+            const profiles = await sshService.getProfiles();
+            if (profiles.length === 0) {
+                return textResult('没有已知主机，请在 ~/.ssh/config 或 xiong.ssh.profiles 中配置');
+            }
+            const lines = profiles.map(p => {
+                const target = `${p.username ? `${p.username}@` : ''}${p.hostName ?? p.host}${p.port ? `:${p.port}` : ''}`;
+                const via = p.proxyJump ? `，经由 ${p.proxyJump}` : '';
+                const source = p.source === 'preset' ? '预设' : 'ssh config';
+                return `- ${p.name}: ${target}${via}（${source}）${p.description ? ` ${p.description}` : ''}`;
+            });
+            return textResult(lines.join('\n'));
+        }
+    );
+
+    const connect = tool(
+        'connect',
+        '通过系统 ssh 命令连接远程主机，返回后续 exec / read_output / disconnect 使用的会话 ID。' +
+        '优先使用 list_profiles 中的主机配置名称（profile）；使用本机 ~/.ssh 中的密钥和 known_hosts，不支持交互式输入密码。',
+        {
+            profile: z.string().optional().describe('主机配置名称（list_profiles 返回的 name），提供时忽略其他参数'),
+            host: z.string().optional().describe('主机名或 IP'),
+            port: z.number().int().positive().optional().describe('端口，默认 22'),
+            username: z.string().optional().describe('登录用户名'),
+            identityFile: z.string().optional().describe('私钥文件路径'),
+            proxyJump: z.string().optional().describe('跳板机（ssh -J）'),
+        },
+        async (args) => {
+            try {
+                const { profile, host, ...options } = args;
+                let config: SSHConnectionConfig;
+                if (profile) {
+                    config = await sshService.resolveProfile(profile);
+                } else if (host) {
+                    config = { host, ...options };
+                } else {
+                    return textResult('需要提供 profile 或 host', true);
+                }
+
+                logService.info(`[SshMcpServer] connect: ${profile ?? `${config.username ? `${config.username}@` : ''}${config.host}`}`);
+                const sessionId = await sshService.connect(config);
+                sshService.markUsedByAgent(sessionId);
+                const output = sshService.getOutput(sessionId);
+                return textResult(`已连接 ${profile ?? config.host}，会话 ID: ${sessionId}${output ? `\n\n${output}` : ''}`);
+            } catch (error) {
+                const message = errorMessage(error);
+                logService.error(`[SshMcpServer] connect 失败: ${message}`);
+                return textResult(`SSH 连接失败: ${message}`, true);
+            }
+        }
+    );
+
+    const exec = tool(
+        'exec',
+        '在已建立的 SSH 会话中执行一条 shell 命令，返回退出码以及分开的 stdout / stderr。' +
+        '同一会话的命令依次执行，工作目录和环境变量在命令之间保留。不要执行需要交互输入的命令。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+            command: z.string().describe('要执行的命令'),
+            timeout: z.number().int().positive().max(MAX_COMMAND_TIMEOUT).optional()
+                .describe(`超时毫秒数，默认 ${DEFAULT_COMMAND_TIMEOUT}`),
+        },
+        async (args) => {
+            logService.info(`[SshMcpServer] exec ${args.sessionId}: ${args.command}`);
+            sshService.markUsedByAgent(args.sessionId);
+            const result = await sshService.executeCommand(
+                args.sessionId,
+                args.command,
+                { timeout: args.timeout ?? DEFAULT_COMMAND_TIMEOUT }
+            );
+            return textResult(formatCommandResult(result), !result.success);
+        }
+    );
+
+    const readOutput = tool(
+        'read_output',
+        '读取 SSH 会话的输出缓冲区（包括连接横幅和超时命令的后续输出）。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+            clear: z.boolean().optional().describe('读取后清空缓冲区'),
+        },
+        async (args) => {
+            if (!sshService.hasSession(args.sessionId)) {
+                return textResult(`会话不存在: ${args.sessionId}`, true);
+            }
+            const output = sshService.getOutput(args.sessionId);
+            if (args.clear) {
+                sshService.clearOutput(args.sessionId);
+            }
+            return textResult(output || '(缓冲区为空)');
+        }
+    );
+
+    const readFile = tool(
+        'read_file',
+        '读取远程主机上的文本文件，返回带行号的内容。修改远程文件前应先读取。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+            file_path: z.string().describe('远程文件路径（相对路径基于会话当前目录）'),
+            offset: z.number().int().positive().optional().describe('起始行号（从 1 开始）'),
+            limit: z.number().int().positive().optional().describe(`读取行数，默认 ${DEFAULT_READ_LIMIT}`),
+        },
+        async (args) => {
+            try {
+                logService.info(`[SshMcpServer] read_file ${args.sessionId}: ${args.file_path}`);
+                sshService.markUsedByAgent(args.sessionId);
+                const content = await sshService.readFile(args.sessionId, args.file_path);
+                if (content === undefined) {
+                    return textResult(`文件不存在: ${args.file_path}`, true);
+                }
+                const text = Buffer.from(content).toString('utf-8');
+                if (!text) {
+                    return textResult('(空文件)');
+                }
+                return textResult(formatFileContent(text, args.offset ?? 1, args.limit ?? DEFAULT_READ_LIMIT));
+            } catch (error) {
+                return textResult(errorMessage(error), true);
+            }
+        }
+    );
+
+    const writeFile = tool(
+        'write_file',
+        '在远程主机上创建或覆盖文件（自动创建父目录）。修改已有文件优先使用 edit_file。写入前会创建快照，可在界面中撤回。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+            file_path: z.string().describe('远程文件路径（相对路径基于会话当前目录）'),
+            content: z.string().describe('完整的文件内容'),
+        },
+        async (args) => {
+            try {
+                logService.info(`[SshMcpServer] write_file ${args.sessionId}: ${args.file_path}`);
+                sshService.markUsedByAgent(args.sessionId);
+                await sshService.writeFile(args.sessionId, args.file_path, args.content);
+                return textResult(`已写入远程文件: ${args.file_path}（${Buffer.byteLength(args.content, 'utf-8')} 字节）`);
+            } catch (error) {
+                return textResult(errorMessage(error), true);
+            }
+        }
+    );
+
+    const editFile = tool(
+        'edit_file',
+        '替换远程文件中的一段文本。old_string 必须与文件内容完全一致（包括缩进），且默认必须唯一；' +
+        '需要替换全部出现时设置 replace_all。修改前会创建快照，可在界面中撤回。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+            file_path: z.string().describe('远程文件路径（相对路径基于会话当前目录）'),
+            old_string: z.string().describe('要替换的原文本'),
+            new_string: z.string().describe('替换后的文本'),
+            replace_all: z.boolean().optional().describe('替换所有出现，默认 false'),
+        },
+        async (args) => {
+            try {
+                logService.info(`[SshMcpServer] edit_file ${args.sessionId}: ${args.file_path}`);
+                sshService.markUsedByAgent(args.sessionId);
+                if (!args.old_string || args.old_string === args.new_string) {
+                    return textResult('old_string 不能为空，且必须与 new_string 不同', true);
+                }
+
+                const content = await sshService.readFile(args.sessionId, args.file_path);
+                if (content === undefined) {
+                    return textResult(`文件不存在: ${args.file_path}`, true);
+                }
+
+                const text = Buffer.from(content).toString('utf-8');
+                const count = countOccurrences(text, args.old_string);
+                if (count === 0) {
+                    return textResult('文件中找不到 old_string，请先用 read_file 确认当前内容', true);
+                }
+                if (count > 1 && !args.replace_all) {
+                    return textResult(`old_string 在文件中出现了 ${count} 次，请提供更多上下文使其唯一，或设置 replace_all`, true);
+                }
+
+                const updated = args.replace_all
+                    ? text.split(args.old_string).join(args.new_string)
+                    : text.replace(args.old_string, () => args.new_string);
+                await sshService.writeFile(args.sessionId, args.file_path, updated);
+                return textResult(`已修改远程文件: ${args.file_path}（替换 ${args.replace_all ? count : 1} 处）`);
+            } catch (error) {
+                return textResult(errorMessage(error), true);
+            }
+        }
+    );
+
+    const listDir = tool(
+        'list_dir',
+        '列出远程目录中的文件和子目录。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+            path: z.string().describe('远程目录路径（相对路径基于会话当前目录）'),
+        },
+        async (args) => {
+            try {
+                logService.info(`[SshMcpServer] list_dir ${args.sessionId}: ${args.path}`);
+                sshService.markUsedByAgent(args.sessionId);
+                const entries = await sshService.listDirectory(args.sessionId, args.path);
+                if (entries.length === 0) {
+                    return textResult('(空目录)');
+                }
+                const lines = entries
+                    .sort((a, b) => Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name))
+                    .map(entry => {
+                        if (entry.type === 'directory') {
+                            return `${entry.name}/`;
+                        }
+                        if (entry.type === 'symlink') {
+                            return `${entry.name} (符号链接)`;
+                        }
+                        return entry.size !== undefined ? `${entry.name} (${entry.size} 字节)` : entry.name;
+                    });
+                return textResult(lines.join('\n'));
+            } catch (error) {
+                return textResult(errorMessage(error), true);
+            }
+        }
+    );
+
+    const listSessions = tool(
+        'list_sessions',
+        '列出活跃的 SSH 会话和端口转发隧道及其状态。',
+        {},
+        async () => {
+            const sessions = sshService.getActiveSessions();
+            const tunnels = sshService.getTunnels();
+            const lines = ['会话:'];
+            lines.push(...(sessions.length > 0
+                ? sessions.map(s => `- ${s.id}: ${s.config.username ? `${s.config.username}@` : ''}${s.config.host}${s.config.profile ? ` (${s.config.profile})` : ''}`)
+                : ['(无)']));
+            lines.push('', '隧道:');
+            lines.push(...(tunnels.length > 0 ? tunnels.map(formatTunnel) : ['(无)']));
+            return textResult(lines.join('\n'));
+        }
+    );
+
+    const openTunnel = tool(
+        'open_tunnel',
+        '打开命名的端口转发隧道（独立的 ssh 进程，会定时做健康检查并在断开后重建）。' +
+        'type=local 相当于 ssh -L：本机端口转发到远程主机可访问的地址，之后可以用 WebFetch 访问 http://127.0.0.1:<bindPort>；' +
+        'type=remote 相当于 ssh -R：远程端口转发到本机可访问的地址。',
+        {
+            name: z.string().describe('隧道名称（唯一，close_tunnel 使用）'),
+            type: z.enum(['local', 'remote']).describe('local (-L) 或 remote (-R)'),
+            sessionId: z.string().optional().describe('复用该会话的连接参数'),
+            profile: z.string().optional().describe('主机配置名称（未提供 sessionId 时使用）'),
+            bindPort: z.number().int().min(1).max(65535).describe('监听端口（local 为本机端口，remote 为远程端口）'),
+            bindAddress: z.string().optional().describe('监听地址，local 默认 127.0.0.1'),
+            targetHost: z.string().optional().describe('转发目标主机，默认 localhost'),
+            targetPort: z.number().int().min(1).max(65535).describe('转发目标端口'),
+        },
+        async (args) => {
+            try {
+                let config: SSHConnectionConfig;
+                if (args.sessionId) {
+                    const session = sshService.getActiveSessions().find(s => s.id === args.sessionId);
+                    if (!session) {
+                        return textResult(`会话不存在: ${args.sessionId}`, true);
+                    }
+                    config = session.config;
+                } else if (args.profile) {
+                    config = await sshService.resolveProfile(args.profile);
+                } else {
+                    return textResult('需要提供 sessionId 或 profile', true);
+                }
+
+                logService.info(`[SshMcpServer] open_tunnel ${args.name}: ${args.type} ${args.bindPort} -> ${args.targetHost ?? 'localhost'}:${args.targetPort}`);
+                const tunnel = await sshService.openTunnel({
+                    name: args.name,
+                    type: args.type,
+                    config,
+                    bindPort: args.bindPort,
+                    bindAddress: args.bindAddress,
+                    targetHost: args.targetHost,
+                    targetPort: args.targetPort,
+                });
+                return textResult(`已打开隧道\n${formatTunnel(tunnel)}`);
+            } catch (error) {
+                const message = errorMessage(error);
+                logService.error(`[SshMcpServer] open_tunnel 失败: ${message}`);
+                return textResult(`打开隧道失败: ${message}`, true);
+            }
+        }
+    );
+
+    const closeTunnel = tool(
+        'close_tunnel',
+        '关闭端口转发隧道。',
+        {
+            tunnel: z.string().describe('隧道名称或 ID'),
+        },
+        async (args) => {
+            logService.info(`[SshMcpServer] close_tunnel: ${args.tunnel}`);
+            const closed = await sshService.closeTunnel(args.tunnel);
+            return closed
+                ? textResult(`已关闭隧道 ${args.tunnel}`)
+                : textResult(`隧道不存在: ${args.tunnel}`, true);
+        }
+    );
+
+    const disconnect = tool(
+        'disconnect',
+        '断开 SSH 会话。',
+        {
+            sessionId: z.string().describe('connect 返回的会话 ID'),
+        },
+        async (args) => {
+            if (!sshService.hasSession(args.sessionId)) {
+                return textResult(`会话不存在: ${args.sessionId}`, true);
+            }
+            logService.info(`[SshMcpServer] disconnect: ${args.sessionId}`);
+            await sshService.disconnect(args.sessionId);
+            return textResult(`已断开会话 ${args.sessionId}`);
+        }
+    );
+
+    return createSdkMcpServer({
+        name: SSH_MCP_SERVER_NAME,
+        version: '1.0.0',
+        tools: [listProfiles, connect, exec, readOutput, readFile, writeFile, editFile, listDir, listSessions, openTunnel, closeTunnel, disconnect],
+    });
+}
@@ -62,6 +62,7 @@ import type {
     SetClaudeCliPathResponse,
 } from '../../../shared/messages';
 import type { HandlerContext } from './types';
+import { attachSnapshotFields } from './snapshotHandlers';
 import type { PermissionMode } from '../../../shared/permissions';
 
 /**
@@ -379,12 +380,17 @@ export async function handleGetSession(
     request: GetSessionRequest,
     context: HandlerContext
 ): Promise<GetSessionResponse> {
-    const { logService, sessionService, workspaceService } = context;
+    const { logService, sessionService, workspaceService, fileSnapshotService } = context;
 
     try {
         const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
         const messages = await sessionService.getSession(request.sessionId, cwd);
 
+        // 快照已持久化，历史消息中的文件修改同样可以撤回
+        for (const message of messages) {
+            attachSnapshotFields(message, fileSnapshotService);
+        }
+
         return {
             type: "get_session_response",
             messages
@@ -685,28 +691,26 @@ const DEFAULT_SLASH_COMMANDS = [
     { name: '/init', description: '初始化新项目' },
 ];
 
-/**
- * 默认支持的模型列表
- */
-const DEFAULT_MODELS = [
-    // Claude 模型
-    { value: 'claude-opus-4-5-20251101', label: 'Claude Opus 4.5', description: '最强大的 Claude 4.5 模型' },
-    { value: 'claude-sonnet-4-5-20250929', label: 'Claude Sonnet 4.5', description: '平衡性能与速度的 Claude 4.5 模型' },
-    { value: 'claude-haiku-4-5-20251001', label: 'Claude Haiku 4.5', description: '快速响应的 Claude 4.5 模型' },
-    { value: 'claude-opus-4.6', label: 'Claude Opus 4.6', description: '最新的 Claude Opus 4.6 模型' },
-];
-
 /**
  * 加载配置缓存（硬编码版本）
  */
 async function loadConfig(context: HandlerContext): Promise<any> {
-    const { logService } = context;
+    const { logService, modelRegistry } = context;
+
+    logService.info("[loadConfig] 返回默认配置（模型列表来自模型目录）");
 
-    logService.info("[loadConfig] 返回默认硬编码配置");
+    // Claude 模型列表来自模型目录
+    const models = modelRegistry.getModels()
+        .filter(m => m.provider === 'claude' && !m.hidden)
+        .map(m => ({
+            value: m.upstreamId || m.id,
+            label: `Claude ${m.displayName}`,
+            description: `上下文 ${Math.round(m.contextWindow / 1000)}K tokens`,
+        }));
 
     const config = {
         slashCommands: DEFAULT_SLASH_COMMANDS,
-        models: DEFAULT_MODELS,
+        models,
         accountInfo: null
     };
 
@@ -1011,7 +1015,12 @@ import type {
     ClearCompletedTodosResponse,
     ImportClaudeTodosRequest,
     ImportClaudeTodosResponse,
+    ImportTodosRequest,
+    ImportTodosResponse,
+    ExportTodosRequest,
+    ExportTodosResponse,
 } from '../../../shared/messages';
+import { parseTodos, formatTodos, detectTodoFormat, TODO_FORMAT_EXTENSIONS } from '../../todoExchange';
 
 /**
  * 获取 Claude 配置
@@ -1429,18 +1438,22 @@ export async function handleCheckEnvironment(
  * 获取所有本地 Todo
  */
 export async function handleGetLocalTodos(
-    _request: GetLocalTodosRequest,
+    request: GetLocalTodosRequest,
     context: HandlerContext
 ): Promise<GetLocalTodosResponse> {
     const { localTodoService, logService } = context;
+    const query = request.query ?? {};
 
-    logService.info('[handleGetLocalTodos] 获取本地 Todo 列表');
+    logService.info(`[handleGetLocalTodos] 获取本地 Todo 列表 (范围: ${query.scope ?? 'workspace'})`);
 
-    const todos = await localTodoService.getAll();
+    const todos = await localTodoService.query(query);
+    const tags = await localTodoService.getTags(query);
 
     return {
         type: "get_local_todos_response",
-        todos
+        todos,
+        tags,
+        workspace: localTodoService.getCurrentWorkspace()
     };
 }
 
@@ -1451,11 +1464,15 @@ export async function handleAddLocalTodo(
     request: AddLocalTodoRequest,
     context: HandlerContext
 ): Promise<AddLocalTodoResponse> {
-    const { localTodoService, logService } = context;
+    const { localTodoService, todoSyncService, logService } = context;
 
     logService.info(`[handleAddLocalTodo] 添加 Todo: ${request.todo.content}`);
 
-    const todo = await localTodoService.add(request.todo);
+    const added = await localTodoService.add(request.todo);
+
+    // 同步到任务文件（同步后会带上 taskLink）
+    const synced = await todoSyncService.sync();
+    const todo = synced.find(t => t.id === added.id) ?? added;
 
     return {
         type: "add_local_todo_response",
@@ -1470,16 +1487,19 @@ export async function handleUpdateLocalTodo(
     request: UpdateLocalTodoRequest,
     context: HandlerContext
 ): Promise<UpdateLocalTodoResponse> {
-    const { localTodoService, logService } = context;
+    const { localTodoService, todoSyncService, logService } = context;
 
     logService.info(`[handleUpdateLocalTodo] 更新 Todo: ${request.id}`);
 
-    const todo = await localTodoService.update(request.id, request.updates);
+    const updated = await localTodoService.update(request.id, request.updates);
 
-    if (!todo) {
+    if (!updated) {
         throw new Error(`Todo not found: ${request.id}`);
     }
 
+    const synced = await todoSyncService.sync();
+    const todo = synced.find(t => t.id === updated.id) ?? updated;
+
     return {
         type: "update_local_todo_response",
         todo
@@ -1493,12 +1513,18 @@ export async function handleDeleteLocalTodo(
     request: DeleteLocalTodoRequest,
     context: HandlerContext
 ): Promise<DeleteLocalTodoResponse> {
-    const { localTodoService, logService } = context;
+    const { localTodoService, todoSyncService, logService } = context;
 
     logService.info(`[handleDeleteLocalTodo] 删除 Todo: ${request.id}`);
 
+    const todo = (await localTodoService.getAll()).find(t => t.id === request.id);
     const success = await localTodoService.delete(request.id);
 
+    // 一并删除任务文件中关联的任务
+    if (success && todo) {
+        await todoSyncService.removeTodos([todo]);
+    }
+
     return {
         type: "delete_local_todo_response",
         success
@@ -1512,12 +1538,17 @@ export async function handleClearCompletedTodos(
     _request: ClearCompletedTodosRequest,
     context: HandlerContext
 ): Promise<ClearCompletedTodosResponse> {
-    const { localTodoService, logService } = context;
+    const { localTodoService, todoSyncService, logService } = context;
 
     logService.info('[handleClearCompletedTodos] 清除已完成的 Todo');
 
+    const completed = await localTodoService.getByStatus('completed');
     const deletedCount = await localTodoService.clearCompleted();
 
+    if (deletedCount > 0) {
+        await todoSyncService.removeTodos(completed);
+    }
+
     return {
         type: "clear_completed_todos_response",
         deletedCount
@@ -1531,14 +1562,92 @@ export async function handleImportClaudeTodos(
     request: ImportClaudeTodosRequest,
     context: HandlerContext
 ): Promise<ImportClaudeTodosResponse> {
-    const { localTodoService, logService } = context;
+    const { localTodoService, todoSyncService, logService } = context;
 
     logService.info(`[handleImportClaudeTodos] 导入 ${request.todos.length} 个 Todo`);
 
-    const todos = await localTodoService.importFromClaude(request.todos, request.sessionId);
+    await todoSyncService.applyClaudeTodos(request.todos, request.sessionId);
+    const todos = await localTodoService.query();
 
     return {
         type: "import_claude_todos_response",
         todos
     };
 }
+
+/**
+ * 从 issue 导出 / CSV / Markdown 导入 Todo
+ */
+export async function handleImportTodos(
+    request: ImportTodosRequest,
+    context: HandlerContext
+): Promise<ImportTodosResponse> {
+    const { localTodoService, todoSyncService, dialogService, logService } = context;
+
+    let content = request.content;
+    let fileName = request.fileName ?? '';
+    if (content === undefined) {
+        const uris = await dialogService.showOpenDialog({
+            canSelectMany: false,
+            openLabel: '导入',
+            filters: { '任务列表': ['json', 'csv', 'md', 'markdown'] }
+        });
+        if (!uris || uris.length === 0) {
+            return { type: "import_todos_response", cancelled: true, added: 0, updated: 0, skipped: 0 };
+        }
+        fileName = uris[0].fsPath;
+        content = await fs.promises.readFile(fileName, 'utf8');
+    }
+
+    const format = request.format ?? detectTodoFormat(fileName, content);
+    if (!format) {
+        throw new Error(`无法识别文件格式: ${fileName || '（未命名）'}`);
+    }
+
+    const items = parseTodos(format, content);
+    const result = await localTodoService.importTodos(items, request.linkExternal ?? false);
+    logService.info(`[handleImportTodos] 导入 ${format}: 新增 ${result.added}，更新 ${result.updated}，跳过 ${result.skipped}`);
+
+    if (result.added > 0 || result.updated > 0) {
+        await todoSyncService.sync();
+    }
+
+    return {
+        type: "import_todos_response",
+        format,
+        ...result
+    };
+}
+
+/**
+ * 导出 Todo 到文件
+ */
+export async function handleExportTodos(
+    request: ExportTodosRequest,
+    context: HandlerContext
+): Promise<ExportTodosResponse> {
+    const { localTodoService, dialogService, logService } = context;
+
+    const todos = await localTodoService.query(request.query ?? {});
+    const extension = TODO_FORMAT_EXTENSIONS[request.format];
+    const workspace = localTodoService.getCurrentWorkspace();
+    const defaultName = `todos-${request.format}.${extension}`;
+
+    const uri = await dialogService.showSaveDialog({
+        defaultUri: vscode.Uri.file(workspace ? path.join(workspace, defaultName) : defaultName),
+        saveLabel: '导出',
+        filters: { [request.format.toUpperCase()]: [extension] }
+    });
+    if (!uri) {
+        return { type: "export_todos_response", cancelled: true, count: 0 };
+    }
+
+    await fs.promises.writeFile(uri.fsPath, formatTodos(request.format, todos), 'utf8');
+    logService.info(`[handleExportTodos] 导出 ${todos.length} 个 Todo 到 ${uri.fsPath}`);
+
+    return {
+        type: "export_todos_response",
+        path: uri.fsPath,
+        count: todos.length
+    };
+}
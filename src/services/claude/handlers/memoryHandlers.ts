@@ -0,0 +1,99 @@
+/**
+ * Memory Handlers
+ *
+ * 处理项目记忆相关的请求（快速记忆、项目概述更新提案）
+ */
+
+import * as path from 'path';
+import type {
+    AddMemoryNoteRequest,
+    AddMemoryNoteResponse,
+    GetSummaryOverviewRequest,
+    GetSummaryOverviewResponse,
+    ProposeSummaryUpdateRequest,
+    ProposeSummaryUpdateResponse,
+} from '../../../shared/messages';
+import { parseMemoryNote } from '../../../shared/memory';
+import type { HandlerContext } from './types';
+
+/**
+ * 添加快速记忆（聊天输入中以 `#` 开头的内容）
+ */
+export async function handleAddMemoryNote(
+    request: AddMemoryNoteRequest,
+    context: HandlerContext
+): Promise<AddMemoryNoteResponse> {
+    const { projectMemoryService, logService } = context;
+
+    const parsed = parseMemoryNote(request.text);
+    if (!parsed) {
+        return {
+            type: "add_memory_note_response",
+            success: false,
+            error: '不是有效的快速记忆（格式：# 内容，或 #local / #user / #summary 内容）'
+        };
+    }
+
+    try {
+        const filePath = await projectMemoryService.addNote(parsed.target, parsed.note);
+        return {
+            type: "add_memory_note_response",
+            success: true,
+            target: parsed.target,
+            fileName: path.basename(filePath)
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[MemoryHandler] 添加记忆失败: ${message}`);
+        return {
+            type: "add_memory_note_response",
+            success: false,
+            error: message
+        };
+    }
+}
+
+/**
+ * 获取当前的项目概述（不含工作日志）
+ */
+export async function handleGetSummaryOverview(
+    _request: GetSummaryOverviewRequest,
+    context: HandlerContext
+): Promise<GetSummaryOverviewResponse> {
+    const { exists, overview } = await context.projectMemoryService.getSummaryOverview();
+    return {
+        type: "get_summary_overview_response",
+        exists,
+        overview
+    };
+}
+
+/**
+ * 根据会话总结提出 .claude-summary.md 的更新，展示 Diff 并等待用户确认
+ */
+export async function handleProposeSummaryUpdate(
+    request: ProposeSummaryUpdateRequest,
+    context: HandlerContext
+): Promise<ProposeSummaryUpdateResponse> {
+    const { projectMemoryService, logService } = context;
+
+    try {
+        const status = await projectMemoryService.proposeSummaryUpdate(request.reply, {
+            sessionTitle: request.sessionTitle,
+            recordedAt: new Date(),
+            messageCount: request.messageCount,
+            modifiedFiles: request.modifiedFiles
+        });
+        return {
+            type: "propose_summary_update_response",
+            status
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[MemoryHandler] 更新项目概述失败: ${message}`);
+        return {
+            type: "propose_summary_update_response",
+            error: message
+        };
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Permission Handlers
+ *
+ * 处理权限规则相关的请求（规则列表、添加/删除规则、决策日志）
+ */
+
+import type {
+    GetPermissionRulesRequest,
+    GetPermissionRulesResponse,
+    AddPermissionRuleRequest,
+    AddPermissionRuleResponse,
+    RemovePermissionRuleRequest,
+    RemovePermissionRuleResponse,
+    GetPermissionDecisionsRequest,
+    GetPermissionDecisionsResponse,
+} from '../../../shared/messages';
+import type { HandlerContext } from './types';
+
+/**
+ * 获取当前生效的权限规则
+ */
+export async function handleGetPermissionRules(
+    request: GetPermissionRulesRequest,
+    context: HandlerContext
+): Promise<GetPermissionRulesResponse> {
+    const rules = await context.permissionRuleService.listRules(request.channelId);
+    return {
+        type: "get_permission_rules_response",
+        rules
+    };
+}
+
+/**
+ * 添加权限规则
+ */
+export async function handleAddPermissionRule(
+    request: AddPermissionRuleRequest,
+    context: HandlerContext
+): Promise<AddPermissionRuleResponse> {
+    const { permissionRuleService, logService } = context;
+
+    try {
+        const rule = await permissionRuleService.addRule(request.rule, request.scope, request.channelId);
+        return {
+            type: "add_permission_rule_response",
+            success: true,
+            rule
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[PermissionHandler] 添加权限规则失败: ${message}`);
+        return {
+            type: "add_permission_rule_response",
+            success: false,
+            error: message
+        };
+    }
+}
+
+/**
+ * 删除权限规则
+ */
+export async function handleRemovePermissionRule(
+    request: RemovePermissionRuleRequest,
+    context: HandlerContext
+): Promise<RemovePermissionRuleResponse> {
+    const success = await context.permissionRuleService.removeRule(request.id);
+    return {
+        type: "remove_permission_rule_response",
+        success
+    };
+}
+
+/**
+ * 获取权限决策日志
+ */
+export async function handleGetPermissionDecisions(
+    request: GetPermissionDecisionsRequest,
+    context: HandlerContext
+): Promise<GetPermissionDecisionsResponse> {
+    return {
+        type: "get_permission_decisions_response",
+        decisions: context.permissionRuleService.getDecisionLog(request.limit)
+    };
+}
@@ -0,0 +1,50 @@
+/**
+ * Provider Handlers
+ *
+ * 处理 AI Provider 相关的请求（Provider 列表、可用模型、模型目录）
+ */
+
+import type {
+    GetProvidersRequest,
+    GetProvidersResponse,
+    GetModelsRequest,
+    GetModelsResponse,
+} from '../../../shared/messages';
+import type { HandlerContext } from './types';
+
+/**
+ * 获取 Claude 以外的 AI Provider 及其模型（Claude 模型来自模型目录）
+ */
+export async function handleGetProviders(
+    _request: GetProvidersRequest,
+    context: HandlerContext
+): Promise<GetProvidersResponse> {
+    const { providerFactory, logService } = context;
+
+    try {
+        const providers = await providerFactory.getAvailableProviders();
+        return {
+            type: "get_providers_response",
+            providers: providers.filter(p => p.type !== 'claude')
+        };
+    } catch (error) {
+        logService.error(`[ProviderHandler] 获取 Provider 列表失败: ${error}`);
+        return {
+            type: "get_providers_response",
+            providers: []
+        };
+    }
+}
+
+/**
+ * 获取模型目录
+ */
+export async function handleGetModels(
+    _request: GetModelsRequest,
+    context: HandlerContext
+): Promise<GetModelsResponse> {
+    return {
+        type: "get_models_response",
+        models: context.modelRegistry.getModels()
+    };
+}
@@ -0,0 +1,323 @@
+/**
+ * Snapshot Handlers
+ *
+ * 处理文件快照相关的请求（撤回修改、查看快照差异、按检查点回滚、回退对话）
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type {
+    RevertFileChangeRequest,
+    RevertFileChangeResponse,
+    ViewSnapshotDiffRequest,
+    ViewSnapshotDiffResponse,
+    RevertCheckpointRequest,
+    RevertCheckpointResponse,
+    ListCheckpointsRequest,
+    ListCheckpointsResponse,
+    RewindSessionRequest,
+    RewindSessionResponse,
+} from '../../../shared/messages';
+import type { HandlerContext } from './types';
+import type { IFileSnapshotService } from '../../FileSnapshotService';
+import type { SessionMessage } from '../ClaudeSessionService';
+
+/**
+ * 消息中的内容块（只列出快照相关的字段）
+ */
+export interface SnapshotContentBlock {
+    type?: string;
+    id?: string;
+    text?: string;
+    tool_use_id?: string;
+    is_error?: boolean;
+    snapshotId?: string;
+    canRevert?: boolean;
+}
+
+/**
+ * SDK 消息或会话记录中的消息（只列出快照相关的字段）
+ */
+export interface SnapshotMessage {
+    type?: string;
+    uuid?: string;
+    session_id?: string;
+    message?: { content?: unknown };
+}
+
+/**
+ * 取出消息的内容块，内容为字符串或不存在时返回 undefined
+ */
+export function getContentBlocks(message: SnapshotMessage): SnapshotContentBlock[] | undefined {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) {
+        return undefined;
+    }
+    return content.filter((block): block is SnapshotContentBlock => typeof block === 'object' && block !== null);
+}
+
+/**
+ * 为 user 消息中的 tool_result 附加 snapshotId / canRevert
+ *
+ * 快照 ID 即 tool_use_id；快照已持久化，因此历史会话中的工具块同样可以撤回
+ */
+export function attachSnapshotFields(message: SnapshotMessage, fileSnapshotService: IFileSnapshotService): void {
+    const blocks = message.type === 'user' ? getContentBlocks(message) : undefined;
+    if (!blocks) {
+        return;
+    }
+
+    for (const block of blocks) {
+        if (block.type !== 'tool_result' || block.is_error || !block.tool_use_id) {
+            continue;
+        }
+        if (fileSnapshotService.getSnapshot(block.tool_use_id)) {
+            block.snapshotId = block.tool_use_id;
+            block.canRevert = fileSnapshotService.canRevert(block.tool_use_id);
+        }
+    }
+}
+
+/**
+ * 撤回文件修改
+ */
+export async function handleRevertFileChange(
+    request: RevertFileChangeRequest,
+    context: HandlerContext
+): Promise<RevertFileChangeResponse> {
+    const { fileSnapshotService, logService } = context;
+
+    logService.info(`[SnapshotHandler] 撤回文件修改: ${request.snapshotId}`);
+
+    const snapshot = fileSnapshotService.getSnapshot(request.snapshotId);
+    const result = await fileSnapshotService.revert(request.snapshotId);
+
+    if (!result.success) {
+        logService.warn(`[SnapshotHandler] 撤回失败: ${result.message}`);
+        return {
+            type: "revert_file_change_response",
+            success: false,
+            filePath: snapshot?.filePath,
+            error: result.message
+        };
+    }
+
+    return {
+        type: "revert_file_change_response",
+        success: true,
+        filePath: snapshot?.filePath
+    };
+}
+
+/**
+ * 查看快照差异（左侧为快照内容，右侧为当前文件；远程文件的当前内容通过 SSH 读取）
+ */
+export async function handleViewSnapshotDiff(
+    request: ViewSnapshotDiffRequest,
+    context: HandlerContext
+): Promise<ViewSnapshotDiffResponse> {
+    const { fileSnapshotService, fileSystemService, logService } = context;
+
+    const snapshot = fileSnapshotService.getSnapshot(request.snapshotId);
+    if (!snapshot) {
+        return {
+            type: "view_snapshot_diff_response",
+            success: false,
+            error: `快照不存在: ${request.snapshotId}`
+        };
+    }
+
+    try {
+        const fileName = path.basename(snapshot.filePath);
+        logService.info(`[SnapshotHandler] 打开快照差异: ${snapshot.filePath}`);
+
+        // 左侧：快照内容（新建文件的快照为空）
+        const originalContent = await fileSnapshotService.readSnapshotContent(request.snapshotId);
+        if (originalContent === undefined) {
+            return {
+                type: "view_snapshot_diff_response",
+                success: false,
+                error: `快照内容已丢失: ${request.snapshotId}`
+            };
+        }
+        const leftPath = await fileSystemService.createTempFile(fileName, originalContent);
+
+        // 右侧：当前文件；文件已被删除时使用空文件
+        let rightPath: string;
+        if (snapshot.remote) {
+            rightPath = await fileSystemService.createTempFile(fileName, await fileSnapshotService.readRemoteContent(request.snapshotId));
+        } else {
+            rightPath = await fileSystemService.pathExists(snapshot.filePath)
+                ? snapshot.filePath
+                : await fileSystemService.createTempFile(fileName, "");
+        }
+
+        await vscode.commands.executeCommand(
+            "vscode.diff",
+            vscode.Uri.file(leftPath),
+            vscode.Uri.file(rightPath),
+            snapshot.remote ? `${fileName} @ ${snapshot.remote.host} (快照 ↔ 当前)` : `${fileName} (快照 ↔ 当前)`,
+            { preview: true }
+        );
+
+        return {
+            type: "view_snapshot_diff_response",
+            success: true
+        };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[SnapshotHandler] 打开快照差异失败: ${message}`);
+        return {
+            type: "view_snapshot_diff_response",
+            success: false,
+            error: message
+        };
+    }
+}
+
+/**
+ * 回滚检查点（一轮 assistant 回复中的所有文件修改）
+ */
+export async function handleRevertCheckpoint(
+    request: RevertCheckpointRequest,
+    context: HandlerContext
+): Promise<RevertCheckpointResponse> {
+    const { fileSnapshotService, logService } = context;
+
+    logService.info(`[SnapshotHandler] 回滚检查点: session=${request.sessionId}, message=${request.messageId}, includeLater=${!!request.includeLater}`);
+
+    const result = await fileSnapshotService.revertCheckpoint(
+        request.sessionId,
+        request.messageId,
+        request.includeLater
+    );
+
+    if (!result.success) {
+        logService.warn(`[SnapshotHandler] 回滚检查点失败: ${result.message}`);
+    }
+
+    return {
+        type: "revert_checkpoint_response",
+        success: result.success,
+        revertedFiles: result.revertedFiles,
+        error: result.success ? undefined : result.message
+    };
+}
+
+/**
+ * 列出会话的检查点
+ */
+export async function handleListCheckpoints(
+    request: ListCheckpointsRequest,
+    context: HandlerContext
+): Promise<ListCheckpointsResponse> {
+    const { fileSnapshotService } = context;
+
+    const checkpoints = fileSnapshotService.listCheckpoints(request.sessionId).map(cp => {
+        const snapshots = cp.snapshotIds
+            .map(id => fileSnapshotService.getSnapshot(id))
+            .filter(s => !!s);
+        return {
+            messageId: cp.messageId,
+            timestamp: cp.timestamp,
+            files: Array.from(new Set(snapshots.map(s => s!.filePath))),
+            reverted: snapshots.every(s => s!.reverted)
+        };
+    });
+
+    return {
+        type: "list_checkpoints_response",
+        checkpoints
+    };
+}
+
+/**
+ * 判断会话记录中的消息是否为用户输入的提示词（排除 tool_result 和元消息）
+ */
+function isUserPrompt(msg: SessionMessage): boolean {
+    if (msg.type !== 'user' || msg.isMeta || msg.isSidechain) {
+        return false;
+    }
+
+    if (typeof msg.message?.content === 'string') {
+        return true;
+    }
+    const blocks = getContentBlocks(msg);
+    return !!blocks
+        && blocks.some(block => block.type === 'text')
+        && !blocks.some(block => block.type === 'tool_result');
+}
+
+/**
+ * 提取提示词文本（与 WebView 一致：取最后一个 text 块，前面的通常是选区等附加上下文）
+ */
+function getPromptText(msg: SessionMessage): string {
+    const content = msg.message?.content;
+    if (typeof content === 'string') {
+        return content.trim();
+    }
+    const textBlocks = (getContentBlocks(msg) ?? []).filter(block => block.type === 'text');
+    return (textBlocks[textBlocks.length - 1]?.text ?? '').trim();
+}
+
+/**
+ * 回退对话到某条用户消息之前
+ *
+ * 1. 在会话记录的对话链中定位该用户消息
+ * 2. 撤回该消息之后产生的所有文件快照
+ * 3. 返回其之前最近的 assistant 消息 uuid，WebView 以此 resumeSessionAt 重新启动会话
+ */
+export async function handleRewindSession(
+    request: RewindSessionRequest,
+    context: HandlerContext
+): Promise<RewindSessionResponse> {
+    const { sessionService, workspaceService, fileSnapshotService, logService } = context;
+
+    logService.info(`[SnapshotHandler] 回退对话: session=${request.sessionId}, index=${request.promptIndex}`);
+
+    const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const chain = await sessionService.getTranscriptChain(request.sessionId, cwd);
+    const prompts = chain.filter(isUserPrompt);
+
+    const promptText = request.promptText.trim();
+    const sameText = prompts.filter(msg => getPromptText(msg) === promptText);
+    const target = sameText[request.occurrence] ?? prompts[request.promptIndex];
+
+    if (!target) {
+        logService.warn(`[SnapshotHandler] 会话记录中找不到目标消息: ${request.sessionId}`);
+        return {
+            type: "rewind_session_response",
+            success: false,
+            revertedFiles: [],
+            error: '在会话记录中找不到该消息，可能属于已结束的旧会话'
+        };
+    }
+
+    // 撤回该消息之后的所有文件修改
+    const result = await fileSnapshotService.revertSince(request.sessionId, new Date(target.timestamp).getTime());
+    if (!result.success) {
+        logService.warn(`[SnapshotHandler] 回退时撤回文件失败: ${result.message}`);
+        return {
+            type: "rewind_session_response",
+            success: false,
+            revertedFiles: result.revertedFiles,
+            error: result.message
+        };
+    }
+
+    // resumeSessionAt 需要 assistant 消息 uuid，沿 parentUuid 向上查找
+    const byUuid = new Map(chain.map(msg => [msg.uuid, msg]));
+    let parent = target.parentUuid ? byUuid.get(target.parentUuid) : undefined;
+    while (parent && parent.type !== 'assistant') {
+        parent = parent.parentUuid ? byUuid.get(parent.parentUuid) : undefined;
+    }
+
+    logService.info(`[SnapshotHandler] 回退完成: resumeAt=${parent?.uuid ?? 'null'}, 撤回 ${result.revertedFiles.length} 个文件`);
+
+    return {
+        type: "rewind_session_response",
+        success: true,
+        resumeAt: parent?.uuid ?? null,
+        revertedFiles: result.revertedFiles
+    };
+}
@@ -4,51 +4,22 @@
  * 处理 SSH 相关的请求
  */
 
+import type {
+    SSHConnectRequest,
+    SSHCommandRequest,
+    SSHDisconnectRequest,
+    SSHGetOutputRequest,
+    SSHListSessionsRequest,
+    SSHListProfilesRequest,
+    SSHSaveProfileRequest,
+    SSHRemoveProfileRequest,
+    SSHOpenTunnelRequest,
+    SSHCloseTunnelRequest,
+    SSHAttachTerminalRequest,
+} from '../../../shared/messages';
+import type { SSHSessionInfo } from '../../../shared/ssh';
 import type { HandlerContext } from './types';
-
-/**
- * SSH 连接请求
- */
-export interface SSHConnectRequest {
-    type: 'ssh_connect';
-    host: string;
-    port?: number;
-    username?: string;
-    identityFile?: string;
-}
-
-/**
- * SSH 命令请求
- */
-export interface SSHCommandRequest {
-    type: 'ssh_command';
-    sessionId: string;
-    command: string;
-    timeout?: number;
-}
-
-/**
- * SSH 断开请求
- */
-export interface SSHDisconnectRequest {
-    type: 'ssh_disconnect';
-    sessionId: string;
-}
-
-/**
- * SSH 获取输出请求
- */
-export interface SSHGetOutputRequest {
-    type: 'ssh_get_output';
-    sessionId: string;
-}
-
-/**
- * SSH 列出会话请求
- */
-export interface SSHListSessionsRequest {
-    type: 'ssh_list_sessions';
-}
+import type { SSHCommandResult, SSHConnectionConfig, SSHProfile, SSHTunnelInfo } from '../../sshService';
 
 /**
  * 处理 SSH 连接
@@ -60,14 +31,24 @@ export async function handleSSHConnect(
     const { sshService, logService } = context;
 
     try {
-        logService.info(`[SSHHandler] 连接到 ${request.username || ''}@${request.host}`);
-
-        const sessionId = await sshService.connect({
-            host: request.host,
-            port: request.port,
-            username: request.username,
-            identityFile: request.identityFile
-        });
+        let config: SSHConnectionConfig;
+        if (request.profile) {
+            logService.info(`[SSHHandler] 连接到主机配置 ${request.profile}`);
+            config = await sshService.resolveProfile(request.profile);
+        } else if (request.host) {
+            logService.info(`[SSHHandler] 连接到 ${request.username || ''}@${request.host}`);
+            config = {
+                host: request.host,
+                port: request.port,
+                username: request.username,
+                identityFile: request.identityFile,
+                proxyJump: request.proxyJump
+            };
+        } else {
+            return { error: '需要提供 profile 或 host' };
+        }
+
+        const sessionId = await sshService.connect(config);
 
         return { sessionId };
     } catch (error) {
@@ -83,23 +64,24 @@ export async function handleSSHConnect(
 export async function handleSSHCommand(
     request: SSHCommandRequest,
     context: HandlerContext
-): Promise<{ success: boolean; output: string; error?: string }> {
+): Promise<SSHCommandResult> {
     const { sshService, logService } = context;
 
     try {
         logService.info(`[SSHHandler] 执行命令: ${request.command}`);
 
+        // 部分输出通过 ssh_command_output 推送给 WebView
         const result = await sshService.executeCommand(
             request.sessionId,
             request.command,
-            request.timeout
+            { timeout: request.timeout }
         );
 
         return result;
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         logService.error(`[SSHHandler] 命令执行失败: ${message}`);
-        return { success: false, output: '', error: message };
+        return { success: false, exitCode: null, stdout: '', stderr: '', output: '', error: message, durationMs: 0 };
     }
 }
 
@@ -139,19 +121,131 @@ export function handleSSHGetOutput(
 }
 
 /**
- * 处理列出 SSH 会话
+ * 处理列出 SSH 会话（包括端口转发隧道）
  */
 export function handleSSHListSessions(
     _request: SSHListSessionsRequest,
     context: HandlerContext
-): { sessions: Array<{ id: string; host: string; isConnected: boolean }> } {
+): { sessions: SSHSessionInfo[]; tunnels: SSHTunnelInfo[] } {
+    const { sshService } = context;
+
+    return { sessions: sshService.getSessionInfos(), tunnels: sshService.getTunnels() };
+}
+
+/**
+ * 处理列出 SSH 主机配置
+ */
+export async function handleSSHListProfiles(
+    _request: SSHListProfilesRequest,
+    context: HandlerContext
+): Promise<{ profiles: SSHProfile[] }> {
+    const { sshService } = context;
+
+    return { profiles: await sshService.getProfiles() };
+}
+
+/**
+ * 处理保存 SSH 工作区预设
+ */
+export async function handleSSHSaveProfile(
+    request: SSHSaveProfileRequest,
+    context: HandlerContext
+): Promise<{ success: boolean; error?: string }> {
+    const { sshService, logService } = context;
+
+    try {
+        await sshService.saveProfile(request.profile);
+        return { success: true };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[SSHHandler] 保存预设失败: ${message}`);
+        return { success: false, error: message };
+    }
+}
+
+/**
+ * 处理删除 SSH 工作区预设
+ */
+export async function handleSSHRemoveProfile(
+    request: SSHRemoveProfileRequest,
+    context: HandlerContext
+): Promise<{ success: boolean }> {
     const { sshService } = context;
 
-    const sessions = sshService.getActiveSessions().map(s => ({
-        id: s.id,
-        host: s.config.host,
-        isConnected: s.isConnected
-    }));
+    return { success: await sshService.removeProfile(request.name) };
+}
 
-    return { sessions };
+/**
+ * 处理打开端口转发隧道
+ */
+export async function handleSSHOpenTunnel(
+    request: SSHOpenTunnelRequest,
+    context: HandlerContext
+): Promise<{ tunnel: SSHTunnelInfo } | { error: string }> {
+    const { sshService, logService } = context;
+
+    try {
+        let config: SSHConnectionConfig;
+        if (request.sessionId) {
+            const session = sshService.getActiveSessions().find(s => s.id === request.sessionId);
+            if (!session) {
+                return { error: `会话不存在: ${request.sessionId}` };
+            }
+            config = session.config;
+        } else if (request.profile) {
+            config = await sshService.resolveProfile(request.profile);
+        } else if (request.host) {
+            config = { host: request.host, port: request.port, username: request.username };
+        } else {
+            return { error: '需要提供 sessionId、profile 或 host' };
+        }
+
+        logService.info(`[SSHHandler] 打开隧道 ${request.name}: ${request.tunnelType} ${request.bindPort} -> ${request.targetHost || 'localhost'}:${request.targetPort}`);
+        const tunnel = await sshService.openTunnel({
+            name: request.name,
+            type: request.tunnelType,
+            config,
+            bindPort: request.bindPort,
+            bindAddress: request.bindAddress,
+            targetHost: request.targetHost,
+            targetPort: request.targetPort
+        });
+
+        return { tunnel };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[SSHHandler] 打开隧道失败: ${message}`);
+        return { error: message };
+    }
+}
+
+/**
+ * 处理关闭端口转发隧道
+ */
+export async function handleSSHCloseTunnel(
+    request: SSHCloseTunnelRequest,
+    context: HandlerContext
+): Promise<{ success: boolean }> {
+    const { sshService } = context;
+
+    return { success: await sshService.closeTunnel(request.tunnel) };
+}
+
+/**
+ * 处理将 SSH 会话挂载到 VS Code 终端
+ */
+export function handleSSHAttachTerminal(
+    request: SSHAttachTerminalRequest,
+    context: HandlerContext
+): { success: boolean; error?: string } {
+    const { sshService, logService } = context;
+
+    try {
+        sshService.attachTerminal(request.sessionId);
+        return { success: true };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logService.error(`[SSHHandler] 挂载终端失败: ${message}`);
+        return { success: false, error: message };
+    }
 }
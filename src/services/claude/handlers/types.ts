@@ -18,6 +18,13 @@ import { IClaudeAgentService } from '../ClaudeAgentService';
 import { IWebViewService } from '../../webViewService';
 import { IClaudeConfigService } from '../../claudeConfigService';
 import { LocalTodoService } from '../../LocalTodoService';
+import { TodoSyncService } from '../../TodoSyncService';
+import { ProjectMemoryService } from '../../ProjectMemoryService';
+import { IFileSnapshotService } from '../../FileSnapshotService';
+import { IPermissionRuleService } from '../../permissionRuleService';
+import { IAIProviderFactory } from '../../ai/AIProviderFactory';
+import { IModelRegistryService } from '../../modelRegistryService';
+import { IDialogService } from '../../dialogService';
 
 /**
  * Handler 上下文
@@ -38,6 +45,13 @@ export interface HandlerContext {
     webViewService: IWebViewService;
     claudeConfigService: IClaudeConfigService;
     localTodoService: LocalTodoService;
+    todoSyncService: TodoSyncService;
+    projectMemoryService: ProjectMemoryService;
+    fileSnapshotService: IFileSnapshotService;
+    permissionRuleService: IPermissionRuleService;
+    providerFactory: IAIProviderFactory;
+    modelRegistry: IModelRegistryService;
+    dialogService: IDialogService;
 }
 
 /**
@@ -26,6 +26,12 @@ export interface IConfigurationService {
 	 */
 	updateValue(section: string, value: any, target?: vscode.ConfigurationTarget): Thenable<void>;
 
+	/**
+	 * 查看配置在各个作用域（用户、工作区）中的取值
+	 * @param section 配置路径，支持 "scope.key" 格式
+	 */
+	inspect<T>(section: string): { globalValue?: T; workspaceValue?: T; workspaceFolderValue?: T } | undefined;
+
 	/**
 	 * 配置变更事件
 	 */
@@ -68,4 +74,15 @@ export class ConfigurationService implements IConfigurationService {
 		const config = vscode.workspace.getConfiguration();
 		return config.update(section, value, target);
 	}
+
+	inspect<T>(section: string): { globalValue?: T; workspaceValue?: T; workspaceFolderValue?: T } | undefined {
+		const parts = section.split('.');
+		if (parts.length > 1) {
+			const scope = parts[0];
+			const key = parts.slice(1).join('.');
+			return vscode.workspace.getConfiguration(scope).inspect<T>(key);
+		}
+
+		return vscode.workspace.getConfiguration().inspect<T>(section);
+	}
 }
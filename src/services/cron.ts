@@ -0,0 +1,149 @@
+/**
+ * Cron 表达式解析 / Cron Expressions
+ *
+ * 标准 5 段格式：分 时 日 月 周（本地时间）
+ * - 支持 `*`、列表 `1,15`、范围 `1-5`、步长 `*\/15`、`10-50/10`
+ * - 月份和星期可用英文缩写（jan、mon），星期 0 和 7 都表示周日
+ * - 支持 @hourly、@daily（@midnight）、@weekly、@monthly、@yearly（@annually）
+ * - 日和周都不是 `*` 时，满足其一即可（与 crontab 一致）
+ */
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** 日字段是否为 `*` */
+    anyDayOfMonth: boolean;
+    /** 周字段是否为 `*` */
+    anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** 向后查找下一次触发时间的上限（分钟），覆盖 2 月 29 日这类四年一次的表达式 */
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * 解析 cron 表达式，格式错误时抛出异常
+ */
+export function parseCron(expression: string): CronSchedule {
+    const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = normalized.split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`cron 表达式应为 5 段（分 时 日 月 周）: ${expression}`);
+    }
+
+    const daysOfWeek = parseField(fields[4], 0, 7, DAY_NAMES);
+    // 7 也表示周日
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes: parseField(fields[0], 0, 59),
+        hours: parseField(fields[1], 0, 23),
+        daysOfMonth: parseField(fields[2], 1, 31),
+        months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*'
+    };
+}
+
+/**
+ * 严格晚于 after 的下一次触发时间；找不到（如 2 月 30 日）时返回 undefined
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | undefined {
+    const time = new Date(after.getTime());
+    time.setSeconds(0, 0);
+    time.setMinutes(time.getMinutes() + 1);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+        if (!schedule.months.has(time.getMonth() + 1)) {
+            // 跳到下个月 1 日 0 点
+            time.setMonth(time.getMonth() + 1, 1);
+            time.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(schedule, time)) {
+            time.setDate(time.getDate() + 1);
+            time.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(time.getHours())) {
+            time.setHours(time.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(time.getMinutes())) {
+            time.setMinutes(time.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return time;
+    }
+    return undefined;
+}
+
+// ===== 内部工具 =====
+
+function matchesDay(schedule: CronSchedule, time: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(time.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(time.getDay());
+    if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+        return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.toLowerCase().split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`无效的步长: ${part}`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else {
+            const [from, to] = range.split('-');
+            start = parseValue(from, names, nameOffset);
+            // `5/15` 表示从 5 开始到最大值
+            end = to !== undefined ? parseValue(to, names, nameOffset) : (stepText !== undefined ? max : start);
+        }
+
+        if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
+            throw new Error(`超出范围 ${min}-${max}: ${part}`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+function parseValue(text: string, names: string[] | undefined, nameOffset: number): number {
+    const index = names ? names.indexOf(text) : -1;
+    if (index !== -1) {
+        return index + nameOffset;
+    }
+    return /^\d+$/.test(text) ? Number(text) : NaN;
+}
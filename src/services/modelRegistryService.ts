@@ -0,0 +1,175 @@
+/**
+ * 模型目录服务 / Model Registry Service
+ *
+ * 统一维护模型 ID、显示名称、上游模型 ID、上下文窗口等信息，
+ * 取代分散在 ClaudeAgentService、ClaudeSdkService 和 ModelSelect 中的硬编码映射。
+ *
+ * 目录来源：
+ * - 内置默认目录（DEFAULT_MODEL_CATALOG）
+ * - VSCode 设置 xiong.models（相同 id 覆盖内置条目，新 id 追加到末尾）
+ */
+
+import * as vscode from 'vscode';
+import { createDecorator } from '../di/instantiation';
+import { ILogService } from './logService';
+import { IConfigurationService } from './configurationService';
+import {
+    DEFAULT_CONTEXT_WINDOW,
+    DEFAULT_MODEL_CATALOG,
+    type ModelDefinition,
+    type ModelProvider,
+} from '../shared/models';
+
+export const IModelRegistryService = createDecorator<IModelRegistryService>('modelRegistryService');
+
+/**
+ * 模型目录服务接口
+ */
+export interface IModelRegistryService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 获取完整模型目录（包含隐藏条目）
+     */
+    getModels(): ModelDefinition[];
+
+    /**
+     * 按 UI 模型 ID 或上游模型 ID 查找模型
+     */
+    getModel(modelId: string): ModelDefinition | undefined;
+
+    /**
+     * 将 UI 模型 ID 转换为上游 API 模型 ID（未登记的模型保持原样）
+     */
+    resolveUpstreamId(modelId: string): string;
+
+    /**
+     * 获取模型的上下文窗口，未登记时返回默认值
+     */
+    getContextWindow(modelId: string | null | undefined): number;
+
+    /**
+     * 目录变化事件（xiong.models 设置修改时触发）
+     */
+    readonly onDidChangeModels: vscode.Event<void>;
+}
+
+const SETTINGS_KEY = 'xiong.models';
+
+const MODEL_PROVIDERS: readonly ModelProvider[] = ['claude', 'xionggemini', 'openai', 'ollama', 'glm'];
+
+/**
+ * 模型目录服务实现
+ */
+export class ModelRegistryService implements IModelRegistryService {
+    readonly _serviceBrand: undefined;
+
+    private models: ModelDefinition[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly onDidChangeModelsEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeModels = this.onDidChangeModelsEmitter.event;
+
+    constructor(
+        @ILogService private readonly logService: ILogService,
+        @IConfigurationService private readonly configService: IConfigurationService
+    ) {
+        this.reload();
+
+        this.disposables.push(this.configService.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(SETTINGS_KEY)) {
+                this.reload();
+                this.onDidChangeModelsEmitter.fire();
+            }
+        }));
+    }
+
+    getModels(): ModelDefinition[] {
+        return [...this.models];
+    }
+
+    getModel(modelId: string): ModelDefinition | undefined {
+        return this.models.find(m => m.id === modelId)
+            ?? this.models.find(m => m.upstreamId === modelId);
+    }
+
+    resolveUpstreamId(modelId: string): string {
+        const model = this.models.find(m => m.id === modelId);
+        return model?.upstreamId || modelId;
+    }
+
+    getContextWindow(modelId: string | null | undefined): number {
+        if (!modelId) {
+            return DEFAULT_CONTEXT_WINDOW;
+        }
+        return this.getModel(modelId)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+    }
+
+    dispose(): void {
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables.length = 0;
+        this.onDidChangeModelsEmitter.dispose();
+    }
+
+    /**
+     * 合并内置目录与 xiong.models 设置
+     */
+    private reload(): void {
+        const merged = new Map<string, ModelDefinition>();
+        for (const model of DEFAULT_MODEL_CATALOG) {
+            merged.set(model.id, { ...model });
+        }
+
+        const configured = this.configService.getValue<unknown[]>(SETTINGS_KEY, []) ?? [];
+        let customCount = 0;
+        for (const entry of Array.isArray(configured) ? configured : []) {
+            const model = this.parseEntry(entry, merged);
+            if (model) {
+                merged.set(model.id, model);
+                customCount++;
+            }
+        }
+
+        this.models = Array.from(merged.values());
+        this.logService.info(`[ModelRegistry] 已加载 ${this.models.length} 个模型（自定义 ${customCount} 个）`);
+    }
+
+    /**
+     * 校验单个设置条目，缺省字段从同 id 的内置条目继承
+     */
+    private parseEntry(entry: unknown, existing: Map<string, ModelDefinition>): ModelDefinition | undefined {
+        if (!entry || typeof entry !== 'object') {
+            this.logService.warn(`[ModelRegistry] 忽略无效的模型配置: ${JSON.stringify(entry)}`);
+            return undefined;
+        }
+
+        const raw = entry as Partial<ModelDefinition>;
+        if (typeof raw.id !== 'string' || raw.id.trim() === '') {
+            this.logService.warn(`[ModelRegistry] 模型配置缺少 id: ${JSON.stringify(entry)}`);
+            return undefined;
+        }
+
+        const id = raw.id.trim();
+        const base = existing.get(id);
+        const provider = raw.provider ?? base?.provider ?? 'claude';
+        if (!MODEL_PROVIDERS.includes(provider)) {
+            this.logService.warn(`[ModelRegistry] 模型 ${id} 的 provider 无效: ${provider}`);
+            return undefined;
+        }
+
+        const positive = (value: unknown): number | undefined =>
+            typeof value === 'number' && value > 0 ? value : undefined;
+
+        return {
+            id,
+            displayName: raw.displayName?.trim() || base?.displayName || id,
+            upstreamId: raw.upstreamId?.trim() || base?.upstreamId,
+            provider,
+            contextWindow: positive(raw.contextWindow) ?? base?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+            maxOutputTokens: positive(raw.maxOutputTokens) ?? base?.maxOutputTokens,
+            supportsThinking: raw.supportsThinking ?? base?.supportsThinking ?? false,
+            hidden: raw.hidden ?? base?.hidden,
+        };
+    }
+}
@@ -0,0 +1,673 @@
+/**
+ * 权限规则服务 / Permission Rule Service
+ *
+ * 按规则决定工具调用是自动允许、直接拒绝还是弹出确认。
+ *
+ * 规则来源：
+ * - VSCode 设置 xiong.permissionRules（用户设置 → user，工作区设置 → workspace）
+ * - ~/.claude/settings.json 的 permissions（user）
+ * - <workspace>/.claude/settings.json、settings.local.json 的 permissions（workspace）
+ * - 会话内添加的规则（session，仅内存）
+ *
+ * 匹配优先级：deny > ask > allow；同一行为内 session > workspace > user。
+ * 未命中任何规则时，使用自动审批开关生成的内置规则，仍未命中则允许。
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { createDecorator } from '../di/instantiation';
+import { ILogService } from './logService';
+import { IConfigurationService } from './configurationService';
+import { IWorkspaceService } from './workspaceService';
+import type {
+    PermissionRule,
+    PermissionRuleConfig,
+    PermissionRuleBehavior,
+    PermissionRuleScope,
+    PermissionRuleSource,
+    PermissionDecisionLogEntry,
+    PermissionUpdate,
+    PermissionRulesUpdate,
+} from '../shared/permissions';
+
+export const IPermissionRuleService = createDecorator<IPermissionRuleService>('permissionRuleService');
+
+/**
+ * 权限决策
+ */
+export interface PermissionDecision {
+    behavior: PermissionRuleBehavior;
+    /** 命中的规则；未命中时为空（默认允许） */
+    rule?: PermissionRule;
+}
+
+/**
+ * 评估上下文
+ */
+export interface PermissionEvaluateOptions {
+    /** 会话（channel）ID，用于匹配 session 规则 */
+    sessionId?: string;
+    /** 工作目录，相对路径规则基于此解析 */
+    cwd: string;
+}
+
+/**
+ * 权限规则服务接口
+ */
+export interface IPermissionRuleService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 评估工具调用，返回命中的规则和行为，并写入决策日志
+     */
+    evaluate(toolName: string, input: Record<string, unknown>, options: PermissionEvaluateOptions): Promise<PermissionDecision>;
+
+    /**
+     * 添加规则
+     * @param scope user / workspace 写入 VSCode 设置，session 仅保存在内存
+     * @param sessionId scope 为 session 时必填
+     */
+    addRule(config: PermissionRuleConfig, scope: PermissionRuleScope, sessionId?: string): Promise<PermissionRule>;
+
+    /**
+     * 将用户在权限确认中选择的 addRules 更新保存为规则
+     * @returns 未处理的更新（非 addRules 类型）
+     */
+    applyPermissionUpdates(updates: PermissionUpdate[], sessionId: string): Promise<PermissionUpdate[]>;
+
+    /**
+     * 删除规则（仅支持 VSCode 设置和会话规则）
+     */
+    removeRule(id: string): Promise<boolean>;
+
+    /**
+     * 列出当前生效的所有规则（包含指定会话的 session 规则）
+     */
+    listRules(sessionId?: string): Promise<PermissionRule[]>;
+
+    /**
+     * 清除会话规则
+     */
+    clearSessionRules(sessionId: string): void;
+
+    /**
+     * 根据自动审批开关生成内置规则（未命中任何配置规则时使用）
+     */
+    setAutoApproveDefaults(config: { autoApproveEnabled: boolean; confirmWrite: boolean; confirmEdit: boolean }): void;
+
+    /**
+     * 获取决策日志（最新的在前）
+     */
+    getDecisionLog(limit?: number): PermissionDecisionLogEntry[];
+
+    /**
+     * 重新加载规则
+     */
+    reload(): Promise<void>;
+}
+
+// ============================================================================
+// 规则解析和匹配
+// ============================================================================
+
+const SETTINGS_KEY = 'xiong.permissionRules';
+
+/** 行为优先级（越小越优先） */
+const BEHAVIOR_ORDER: Record<PermissionRuleBehavior, number> = { deny: 0, ask: 1, allow: 2 };
+
+/** 作用域优先级（越小越优先） */
+const SCOPE_ORDER: Record<PermissionRuleScope, number> = { session: 0, workspace: 1, user: 2 };
+
+/** 组合命令分隔符（&&、||、;、|、换行、命令替换） */
+const CHAINED_COMMAND = /&&|\|\||;|\||\n|`|\$\(/;
+
+/** 决策日志最大条数 */
+const MAX_DECISION_LOG = 200;
+
+/**
+ * 将规则配置格式化为文本形式，如 "Bash(npm run test:*)"
+ */
+export function formatPermissionRule(config: Omit<PermissionRuleConfig, 'behavior'>): string {
+    const specifier = config.commandPrefix !== undefined ? `${config.commandPrefix}:*`
+        : config.commandRegex !== undefined ? `/${config.commandRegex}/`
+        : config.command ?? config.path ?? (config.domain !== undefined ? `domain:${config.domain}` : undefined);
+
+    return specifier !== undefined ? `${config.tool}(${specifier})` : config.tool;
+}
+
+/**
+ * 解析 Claude Code 格式的规则文本
+ *
+ * - "Read"、"mcp__ssh__*"：仅匹配工具名
+ * - "Bash(npm run test:*)"：命令前缀
+ * - "Bash(/^git (status|diff)/)"：命令正则
+ * - "Bash(npm install)"：命令完全匹配
+ * - "WebFetch(domain:example.com)"：URL 域名
+ * - "Edit(src/**)"：文件路径 glob
+ */
+export function parsePermissionRule(text: string, behavior: PermissionRuleBehavior): PermissionRuleConfig | undefined {
+    const match = /^([^(]+?)(?:\((.*)\))?$/s.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const tool = match[1].trim();
+    const specifier = match[2]?.trim();
+    const config: PermissionRuleConfig = { behavior, tool };
+
+    if (!specifier || specifier === '*') {
+        return config;
+    }
+
+    if (specifier.startsWith('domain:')) {
+        config.domain = specifier.slice('domain:'.length);
+    } else if (specifier.length > 1 && specifier.startsWith('/') && specifier.endsWith('/') && isCommandTool(tool)) {
+        config.commandRegex = specifier.slice(1, -1);
+    } else if (specifier.endsWith(':*')) {
+        config.commandPrefix = specifier.slice(0, -2);
+    } else if (isCommandTool(tool)) {
+        config.command = specifier;
+    } else {
+        config.path = specifier;
+    }
+
+    return config;
+}
+
+/**
+ * 是否为执行命令的工具（规则说明符按命令解析，而不是路径）
+ */
+function isCommandTool(tool: string): boolean {
+    return /bash|command|exec|shell/i.test(tool);
+}
+
+/**
+ * glob 转正则（支持 **、*、?）
+ */
+function globToRegExp(glob: string, separator = true): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" 匹配零或多级目录，"**" 匹配任意内容
+                if (glob[i + 2] === '/') {
+                    pattern += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    pattern += '.*';
+                    i += 1;
+                }
+            } else {
+                pattern += separator ? '[^/]*' : '.*';
+            }
+        } else if (ch === '?') {
+            pattern += separator ? '[^/]' : '.';
+        } else {
+            pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+function toPosix(p: string): string {
+    return p.replace(/\\/g, '/');
+}
+
+/**
+ * 将规则中的路径解析为绝对路径 glob
+ */
+function resolveRulePath(rulePath: string, cwd: string): string {
+    let resolved = rulePath;
+    if (resolved.startsWith('~/')) {
+        resolved = path.join(os.homedir(), resolved.slice(2));
+    } else if (resolved.startsWith('//')) {
+        // Claude Code 约定："//path" 表示文件系统绝对路径
+        resolved = resolved.slice(1);
+    } else if (!path.isAbsolute(resolved)) {
+        resolved = path.join(cwd, resolved);
+    }
+    return toPosix(resolved);
+}
+
+/**
+ * 提取工具输入中的命令、路径和 URL
+ */
+function extractTargets(input: Record<string, unknown>): { command?: string; filePath?: string; url?: string } {
+    const str = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    return {
+        command: str(input.command),
+        filePath: str(input.file_path) ?? str(input.notebook_path) ?? str(input.path),
+        url: str(input.url),
+    };
+}
+
+/**
+ * 判断规则是否匹配工具调用
+ */
+function matchesRule(rule: PermissionRule, toolName: string, input: Record<string, unknown>, cwd: string): boolean {
+    if (!globToRegExp(rule.toolName, false).test(toolName)) {
+        return false;
+    }
+
+    const { command, filePath, url } = extractTargets(input);
+
+    if (rule.command !== undefined || rule.commandPrefix !== undefined) {
+        if (command === undefined) {
+            return false;
+        }
+        // allow 规则只匹配单条命令，避免 "npm test && rm -rf ~" 借前缀绕过；
+        // deny/ask 规则只要组合命令中任意一段匹配即可
+        const segments = rule.behavior === 'allow'
+            ? (CHAINED_COMMAND.test(command) ? [] : [command.trim()])
+            : command.split(CHAINED_COMMAND).map(seg => seg.trim());
+        const matchesSegment = (seg: string) => rule.command !== undefined
+            ? seg === rule.command
+            : seg.startsWith(rule.commandPrefix!);
+        if (!segments.some(matchesSegment)) {
+            return false;
+        }
+    }
+
+    if (rule.commandRegex !== undefined) {
+        try {
+            if (command === undefined || !new RegExp(rule.commandRegex).test(command)) {
+                return false;
+            }
+        } catch {
+            return false;
+        }
+    }
+
+    if (rule.domain !== undefined) {
+        let hostname: string | undefined;
+        try {
+            hostname = url ? new URL(url).hostname : undefined;
+        } catch {
+            hostname = undefined;
+        }
+        if (!hostname || !globToRegExp(rule.domain, false).test(hostname)) {
+            return false;
+        }
+    }
+
+    if (rule.path !== undefined) {
+        if (filePath === undefined) {
+            return false;
+        }
+        const target = toPosix(path.resolve(cwd, filePath));
+        const pattern = resolveRulePath(rule.path, cwd).replace(/\/$/, '');
+        const hasGlob = /[*?]/.test(pattern);
+        if (hasGlob ? !globToRegExp(pattern).test(target) : (target !== pattern && !target.startsWith(pattern + '/'))) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * 生成工具输入摘要（用于决策日志）
+ */
+function describeTarget(input: Record<string, unknown>): string | undefined {
+    const { command, filePath, url } = extractTargets(input);
+    const target = command ?? filePath ?? url;
+    return target && target.length > 200 ? target.slice(0, 200) + '...' : target;
+}
+
+// ============================================================================
+// PermissionRuleService 实现
+// ============================================================================
+
+export class PermissionRuleService implements IPermissionRuleService {
+    readonly _serviceBrand: undefined;
+
+    /** 配置文件和设置中加载的规则 */
+    private configuredRules: PermissionRule[] = [];
+
+    /** 会话规则（Map<sessionId, rules>） */
+    private sessionRules = new Map<string, PermissionRule[]>();
+
+    /** 自动审批开关生成的内置规则 */
+    private builtinRules: PermissionRule[] = [];
+
+    private decisionLog: PermissionDecisionLogEntry[] = [];
+
+    private loading: Promise<void>;
+    private nextSessionRuleId = 0;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        @ILogService private readonly logService: ILogService,
+        @IConfigurationService private readonly configService: IConfigurationService,
+        @IWorkspaceService private readonly workspaceService: IWorkspaceService
+    ) {
+        this.setAutoApproveDefaults({ autoApproveEnabled: true, confirmWrite: true, confirmEdit: true });
+        this.loading = this.loadRules();
+        this.watchSources();
+    }
+
+    async evaluate(
+        toolName: string,
+        input: Record<string, unknown>,
+        options: PermissionEvaluateOptions
+    ): Promise<PermissionDecision> {
+        await this.loading;
+
+        const configured = [
+            ...(options.sessionId ? this.sessionRules.get(options.sessionId) ?? [] : []),
+            ...this.configuredRules,
+        ];
+
+        const rule = this.findRule(configured, toolName, input, options.cwd)
+            ?? this.findRule(this.builtinRules, toolName, input, options.cwd);
+
+        const decision: PermissionDecision = { behavior: rule?.behavior ?? 'allow', rule };
+        this.recordDecision(toolName, input, decision, options.sessionId);
+        return decision;
+    }
+
+    async addRule(config: PermissionRuleConfig, scope: PermissionRuleScope, sessionId?: string): Promise<PermissionRule> {
+        if (scope === 'session') {
+            if (!sessionId) {
+                throw new Error('会话规则需要提供 sessionId');
+            }
+            const rule = this.createRule(config, 'session', 'session', `session-${this.nextSessionRuleId++}`);
+            const rules = this.sessionRules.get(sessionId) ?? [];
+            rules.push(rule);
+            this.sessionRules.set(sessionId, rules);
+            this.logService.info(`[PermissionRuleService] 添加会话规则: ${rule.behavior} ${rule.text} (session=${sessionId})`);
+            return rule;
+        }
+
+        const target = scope === 'workspace' ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        const inspected = this.configService.inspect<PermissionRuleConfig[]>(SETTINGS_KEY);
+        const existing = (scope === 'workspace' ? inspected?.workspaceValue : inspected?.globalValue) ?? [];
+
+        const text = formatPermissionRule(config);
+        const duplicate = existing.some(c => c.behavior === config.behavior && formatPermissionRule(c) === text);
+        if (!duplicate) {
+            await this.configService.updateValue(SETTINGS_KEY, [...existing, config], target);
+        }
+
+        await this.reload();
+        this.logService.info(`[PermissionRuleService] 添加${scope === 'workspace' ? '工作区' : '用户'}规则: ${config.behavior} ${text}`);
+
+        return this.configuredRules.find(r => r.source === 'settings' && r.scope === scope && r.behavior === config.behavior && r.text === text)
+            ?? this.createRule(config, scope, 'settings', `settings-${scope}-${existing.length}`);
+    }
+
+    async applyPermissionUpdates(updates: PermissionUpdate[], sessionId: string): Promise<PermissionUpdate[]> {
+        const remaining: PermissionUpdate[] = [];
+
+        for (const update of updates) {
+            if (update.type !== 'addRules' || !Array.isArray(update.rules)) {
+                remaining.push(update);
+                continue;
+            }
+
+            const { rules, behavior, destination } = update as PermissionRulesUpdate;
+            const scope: PermissionRuleScope = destination === 'session' || destination === 'cliArg' ? 'session'
+                : destination === 'userSettings' ? 'user'
+                : 'workspace';
+
+            for (const value of rules) {
+                const text = value.ruleContent ? `${value.toolName}(${value.ruleContent})` : value.toolName;
+                const config = parsePermissionRule(text, behavior ?? 'allow');
+                if (config) {
+                    await this.addRule(config, scope, sessionId);
+                }
+            }
+        }
+
+        return remaining;
+    }
+
+    async removeRule(id: string): Promise<boolean> {
+        for (const [sessionId, rules] of this.sessionRules) {
+            const index = rules.findIndex(r => r.id === id);
+            if (index >= 0) {
+                rules.splice(index, 1);
+                this.sessionRules.set(sessionId, rules);
+                return true;
+            }
+        }
+
+        const match = /^settings-(user|workspace)-(\d+)$/.exec(id);
+        if (!match) {
+            return false;
+        }
+
+        const scope = match[1] as PermissionRuleScope;
+        const index = Number(match[2]);
+        const inspected = this.configService.inspect<PermissionRuleConfig[]>(SETTINGS_KEY);
+        const existing = (scope === 'workspace' ? inspected?.workspaceValue : inspected?.globalValue) ?? [];
+        if (index >= existing.length) {
+            return false;
+        }
+
+        const updated = existing.filter((_, i) => i !== index);
+        const target = scope === 'workspace' ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        await this.configService.updateValue(SETTINGS_KEY, updated, target);
+        await this.reload();
+        return true;
+    }
+
+    async listRules(sessionId?: string): Promise<PermissionRule[]> {
+        await this.loading;
+        return [
+            ...(sessionId ? this.sessionRules.get(sessionId) ?? [] : []),
+            ...this.configuredRules,
+            ...this.builtinRules,
+        ];
+    }
+
+    clearSessionRules(sessionId: string): void {
+        this.sessionRules.delete(sessionId);
+    }
+
+    setAutoApproveDefaults(config: { autoApproveEnabled: boolean; confirmWrite: boolean; confirmEdit: boolean }): void {
+        const rules: PermissionRule[] = [];
+
+        if (!config.autoApproveEnabled) {
+            // 总开关关闭：所有工具都需要确认
+            rules.push(this.createRule({ behavior: 'ask', tool: '*' }, 'user', 'builtin', 'builtin-all'));
+        } else {
+            if (config.confirmWrite) {
+                rules.push(this.createRule({ behavior: 'ask', tool: 'Write' }, 'user', 'builtin', 'builtin-write'));
+            }
+            if (config.confirmEdit) {
+                rules.push(this.createRule({ behavior: 'ask', tool: 'Edit' }, 'user', 'builtin', 'builtin-edit'));
+            }
+        }
+
+        this.builtinRules = rules;
+        this.logService.info(`[PermissionRuleService] 内置规则: ${rules.map(r => `${r.behavior} ${r.text}`).join(', ') || '(无)'}`);
+    }
+
+    getDecisionLog(limit = MAX_DECISION_LOG): PermissionDecisionLogEntry[] {
+        return this.decisionLog.slice(-limit).reverse();
+    }
+
+    async reload(): Promise<void> {
+        this.loading = this.loadRules();
+        await this.loading;
+    }
+
+    dispose(): void {
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables.length = 0;
+    }
+
+    /**
+     * 按优先级查找第一条匹配的规则
+     */
+    private findRule(
+        rules: PermissionRule[],
+        toolName: string,
+        input: Record<string, unknown>,
+        cwd: string
+    ): PermissionRule | undefined {
+        return rules
+            .filter(rule => matchesRule(rule, toolName, input, cwd))
+            .sort((a, b) =>
+                BEHAVIOR_ORDER[a.behavior] - BEHAVIOR_ORDER[b.behavior] ||
+                SCOPE_ORDER[a.scope] - SCOPE_ORDER[b.scope]
+            )[0];
+    }
+
+    private recordDecision(
+        toolName: string,
+        input: Record<string, unknown>,
+        decision: PermissionDecision,
+        sessionId?: string
+    ): void {
+        const entry: PermissionDecisionLogEntry = {
+            timestamp: Date.now(),
+            sessionId,
+            toolName,
+            target: describeTarget(input),
+            behavior: decision.behavior,
+            rule: decision.rule && {
+                id: decision.rule.id,
+                text: decision.rule.text,
+                scope: decision.rule.scope,
+                source: decision.rule.source,
+            },
+        };
+
+        this.decisionLog.push(entry);
+        if (this.decisionLog.length > MAX_DECISION_LOG) {
+            this.decisionLog.splice(0, this.decisionLog.length - MAX_DECISION_LOG);
+        }
+
+        const ruleDesc = decision.rule
+            ? `${decision.rule.text} [${decision.rule.scope}/${decision.rule.source}]`
+            : '未命中规则（默认允许）';
+        this.logService.info(`[PermissionRuleService] ${toolName}${entry.target ? ` (${entry.target})` : ''} → ${decision.behavior}，规则: ${ruleDesc}`);
+    }
+
+    private createRule(
+        config: PermissionRuleConfig,
+        scope: PermissionRuleScope,
+        source: PermissionRuleSource,
+        id: string
+    ): PermissionRule {
+        return {
+            id,
+            behavior: config.behavior,
+            toolName: config.tool,
+            path: config.path,
+            command: config.command,
+            commandPrefix: config.commandPrefix,
+            commandRegex: config.commandRegex,
+            domain: config.domain,
+            scope,
+            source,
+            text: formatPermissionRule(config),
+        };
+    }
+
+    /**
+     * 从所有来源加载规则
+     */
+    private async loadRules(): Promise<void> {
+        const rules: PermissionRule[] = [];
+
+        // 1. VSCode 设置
+        const inspected = this.configService.inspect<PermissionRuleConfig[]>(SETTINGS_KEY);
+        const fromSettings = (configs: PermissionRuleConfig[] | undefined, scope: PermissionRuleScope) => {
+            (configs ?? []).forEach((config, index) => {
+                if (config && config.tool && BEHAVIOR_ORDER[config.behavior] !== undefined) {
+                    rules.push(this.createRule(config, scope, 'settings', `settings-${scope}-${index}`));
+                }
+            });
+        };
+        fromSettings(inspected?.globalValue, 'user');
+        fromSettings(inspected?.workspaceValue, 'workspace');
+
+        // 2. Claude 配置文件
+        const userSettings = path.join(os.homedir(), '.claude', 'settings.json');
+        rules.push(...await this.loadClaudeSettings(userSettings, 'user'));
+
+        const workspaceRoot = this.workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath;
+        if (workspaceRoot) {
+            for (const file of ['settings.json', 'settings.local.json']) {
+                rules.push(...await this.loadClaudeSettings(path.join(workspaceRoot, '.claude', file), 'workspace'));
+            }
+        }
+
+        this.configuredRules = rules;
+        this.logService.info(`[PermissionRuleService] 已加载 ${rules.length} 条权限规则`);
+    }
+
+    /**
+     * 读取 Claude Code 格式的 permissions 配置
+     */
+    private async loadClaudeSettings(filePath: string, scope: PermissionRuleScope): Promise<PermissionRule[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf-8');
+        } catch {
+            return [];
+        }
+
+        try {
+            const permissions = JSON.parse(content)?.permissions ?? {};
+            const rules: PermissionRule[] = [];
+            for (const behavior of ['deny', 'ask', 'allow'] as PermissionRuleBehavior[]) {
+                const entries: unknown = permissions[behavior];
+                if (!Array.isArray(entries)) {
+                    continue;
+                }
+                entries.forEach((text, index) => {
+                    const config = typeof text === 'string' ? parsePermissionRule(text, behavior) : undefined;
+                    if (config) {
+                        rules.push(this.createRule(config, scope, 'claudeSettings', `claude-${scope}-${path.basename(filePath)}-${behavior}-${index}`));
+                    }
+                });
+            }
+            return rules;
+        } catch (error) {
+            this.logService.warn(`[PermissionRuleService] 解析权限配置失败: ${filePath}, ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * 监听设置和配置文件变化，自动重新加载
+     */
+    private watchSources(): void {
+        const scheduleReload = () => {
+            this.reload().catch(error => {
+                this.logService.error(`[PermissionRuleService] 重新加载规则失败: ${error}`);
+            });
+        };
+
+        this.disposables.push(this.configService.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(SETTINGS_KEY)) {
+                scheduleReload();
+            }
+        }));
+
+        const patterns: vscode.GlobPattern[] = [
+            new vscode.RelativePattern(vscode.Uri.file(path.join(os.homedir(), '.claude')), 'settings.json'),
+        ];
+        const workspaceFolder = this.workspaceService.getDefaultWorkspaceFolder();
+        if (workspaceFolder) {
+            patterns.push(new vscode.RelativePattern(workspaceFolder, '.claude/settings*.json'));
+        }
+
+        for (const pattern of patterns) {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            watcher.onDidChange(scheduleReload);
+            watcher.onDidCreate(scheduleReload);
+            watcher.onDidDelete(scheduleReload);
+            this.disposables.push(watcher);
+        }
+    }
+}
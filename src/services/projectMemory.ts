@@ -0,0 +1,155 @@
+/**
+ * 项目记忆文件的纯文本处理 / Project Memory
+ *
+ * - 快速记忆追加到记忆文件的「## 记忆」节（没有时新建）
+ * - .claude-summary.md 分为两部分：开头的项目概述，和之后按会话追加的「## 工作日志」。
+ *   会话结束时 Claude 给出更新后的概述和本次工作日志，概述整体替换，日志追加到末尾。
+ */
+
+/** 快速记忆所在的节 */
+export const MEMORY_HEADING = '## 记忆';
+
+/** 工作日志标题（每个会话一节） */
+const WORKLOG_HEADING_PATTERN = /^##\s+工作日志/m;
+
+/** 新建 .claude-summary.md 时的开头 */
+export const SUMMARY_HEADER = `# Claude 会话摘要
+
+*此文件由 Claudix 自动生成，记录会话历史。*
+`;
+
+/**
+ * 一次会话的信息（写入工作日志）
+ */
+export interface WorklogMeta {
+    sessionTitle: string;
+    recordedAt: Date;
+    messageCount: number;
+    modifiedFiles: string[];
+}
+
+/**
+ * 把一条记忆追加到「## 记忆」节末尾，已存在相同条目时原样返回
+ */
+export function appendMemoryNote(content: string, note: string): string {
+    const item = `- ${note.trim()}`;
+    const lines = content.split('\n');
+    if (lines.some(line => line.trim() === item)) {
+        return content;
+    }
+
+    const headingIndex = lines.findIndex(line => line.trim() === MEMORY_HEADING);
+    if (headingIndex === -1) {
+        const body = content.trimEnd();
+        return `${body}${body ? '\n\n' : ''}${MEMORY_HEADING}\n\n${item}\n`;
+    }
+
+    // 节结束于下一个一级或二级标题
+    let end = lines.findIndex((line, index) => index > headingIndex && /^#{1,2}\s/.test(line));
+    if (end === -1) {
+        end = lines.length;
+    }
+
+    let insertAt = end;
+    while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') {
+        insertAt--;
+    }
+
+    if (insertAt === headingIndex + 1) {
+        lines.splice(insertAt, 0, '', item);
+    } else {
+        lines.splice(insertAt, 0, item);
+    }
+
+    // 紧跟下一个标题时补一个空行
+    const next = insertAt + (insertAt === headingIndex + 1 ? 2 : 1);
+    if (next < lines.length && /^#/.test(lines[next])) {
+        lines.splice(next, 0, '');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * 拆分 .claude-summary.md 为概述和工作日志（日志从第一个「## 工作日志」前的分隔线开始）
+ */
+export function splitSummary(content: string): { overview: string; worklog: string } {
+    const match = WORKLOG_HEADING_PATTERN.exec(content);
+    if (!match) {
+        return { overview: content, worklog: '' };
+    }
+
+    let start = match.index;
+    const before = content.slice(0, start).replace(/\s+$/, '');
+    if (before.endsWith('---')) {
+        start = before.length - 3;
+    }
+    return { overview: content.slice(0, start), worklog: content.slice(start) };
+}
+
+/**
+ * 把快速记忆追加到 .claude-summary.md 的概述部分（不混入工作日志）
+ */
+export function appendSummaryNote(content: string, note: string): string {
+    const { overview, worklog } = splitSummary(content || SUMMARY_HEADER);
+    const updated = appendMemoryNote(overview, note);
+    return worklog ? `${updated.trimEnd()}\n\n${worklog}` : updated;
+}
+
+/**
+ * 解析 Claude 的回复：`<overview>` 中是更新后的完整概述，`<worklog>` 中是本次工作日志。
+ * 没有标签时整段回复作为工作日志。
+ */
+export function parseSummaryReply(reply: string): { overview?: string; worklog: string } {
+    const overview = /<overview>([\s\S]*?)<\/overview>/i.exec(reply)?.[1].trim();
+    const worklog = /<worklog>([\s\S]*?)<\/worklog>/i.exec(reply)?.[1].trim();
+
+    if (overview === undefined && worklog === undefined) {
+        return { worklog: reply.trim() };
+    }
+    return { overview: overview || undefined, worklog: worklog ?? '' };
+}
+
+/**
+ * 生成一次会话的工作日志
+ */
+export function formatWorklogEntry(meta: WorklogMeta, summary: string): string {
+    const readableTime = meta.recordedAt.toLocaleString('zh-CN', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    });
+
+    const filesSection = meta.modifiedFiles.length > 0
+        ? `\n### 修改的文件\n\n${meta.modifiedFiles.map(f => `- \`${f}\``).join('\n')}\n`
+        : '';
+
+    return `---
+
+## 工作日志 - ${readableTime.split(' ')[0]}
+
+> **会话标题**: ${meta.sessionTitle}
+> **记录时间**: ${readableTime}
+> **消息数量**: ${meta.messageCount}
+
+### 工作摘要
+
+${summary || '（摘要生成失败）'}
+${filesSection}`;
+}
+
+/**
+ * 根据 Claude 的回复生成更新后的 .claude-summary.md（current 为 undefined 表示文件不存在）
+ */
+export function buildSummaryUpdate(current: string | undefined, reply: string, meta: WorklogMeta): string {
+    const { overview, worklog } = splitSummary(current ?? SUMMARY_HEADER);
+    const parsed = parseSummaryReply(reply);
+
+    const nextOverview = (parsed.overview ?? overview).trimEnd();
+    const previousLog = worklog.trim();
+    const entry = formatWorklogEntry(meta, parsed.worklog);
+
+    return `${nextOverview}\n\n${previousLog ? `${previousLog}\n\n` : ''}${entry}`;
+}
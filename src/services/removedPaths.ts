@@ -0,0 +1,176 @@
+/**
+ * 从 Shell 命令中找出将被删除的文件 / Removed Paths
+ *
+ * 在 Bash 命令执行前为这些文件创建快照，使回滚可以恢复被删除的文件。
+ * 只识别常见的删除方式（rm、unlink、git rm、mv 的源路径）；
+ * 含通配符、变量或命令替换的参数无法静态确定，直接跳过。
+ */
+
+/** 无法静态确定的参数 */
+const DYNAMIC_ARG_PATTERN = /[*?[\]{}$`~]/;
+
+/** 重定向运算符（由 splitShellWords 单独拆出） */
+const REDIRECTION_PATTERN = /^\d*[<>][<>&|]*$/;
+
+/** 命令前缀（不影响实际执行的命令） */
+const COMMAND_PREFIXES = new Set(['sudo', 'command', 'builtin', 'nohup', 'time']);
+
+/**
+ * 按 Shell 规则拆分命令：返回每条简单命令的参数列表（处理引号和转义，
+ * 在 ;、&&、||、|、& 和换行处分隔，重定向运算符单独作为一个参数）
+ */
+export function splitShellWords(command: string): string[][] {
+    const commands: string[][] = [];
+    let words: string[] = [];
+    let word = '';
+    let inWord = false;
+    let quote: '"' | "'" | null = null;
+
+    const endWord = () => {
+        if (inWord) {
+            words.push(word);
+        }
+        word = '';
+        inWord = false;
+    };
+    const endCommand = () => {
+        endWord();
+        if (words.length > 0) {
+            commands.push(words);
+        }
+        words = [];
+    };
+
+    for (let i = 0; i < command.length; i++) {
+        const ch = command[i];
+
+        if (quote === "'") {
+            if (ch === "'") {
+                quote = null;
+            } else {
+                word += ch;
+            }
+            continue;
+        }
+        if (quote === '"') {
+            if (ch === '"') {
+                quote = null;
+            } else if (ch === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+                word += command[++i];
+            } else {
+                word += ch;
+            }
+            continue;
+        }
+
+        if (ch === "'" || ch === '"') {
+            quote = ch;
+            inWord = true;
+        } else if (ch === '\\' && i + 1 < command.length) {
+            if (command[i + 1] !== '\n') {
+                word += command[i + 1];
+                inWord = true;
+            }
+            i++;
+        } else if (ch === '<' || ch === '>') {
+            // 重定向单独作为一个参数（包括前面的文件描述符，如 2>）
+            let op = inWord && /^\d+$/.test(word) ? word : '';
+            if (!op) {
+                endWord();
+            }
+            op += ch;
+            while (i + 1 < command.length && '<>&|'.includes(command[i + 1]) && op.length < 4) {
+                op += command[++i];
+            }
+            words.push(op);
+            word = '';
+            inWord = false;
+        } else if (ch === ';' || ch === '&' || ch === '|' || ch === '\n') {
+            endCommand();
+        } else if (ch === ' ' || ch === '\t') {
+            endWord();
+        } else {
+            word += ch;
+            inWord = true;
+        }
+    }
+    endCommand();
+
+    return commands;
+}
+
+/**
+ * 找出命令将删除的路径（相对路径保持原样，由调用方基于 cwd 解析）
+ */
+export function extractRemovedPaths(command: string): string[] {
+    const removed = new Set<string>();
+
+    for (let words of splitShellWords(command)) {
+        // 跳过环境变量赋值和命令前缀
+        let start = 0;
+        while (start < words.length && (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[start]) || COMMAND_PREFIXES.has(words[start]))) {
+            start++;
+        }
+        words = words.slice(start);
+        if (words.length === 0) {
+            continue;
+        }
+
+        let targets: string[] = [];
+        const [name, ...args] = stripRedirections(words);
+        if (name === 'rm' || name === 'unlink') {
+            targets = operands(args);
+        } else if (name === 'git' && args[0] === 'rm') {
+            // --cached 只从索引中移除，不删除工作区文件
+            targets = args.includes('--cached') ? [] : operands(args.slice(1));
+        } else if (name === 'mv') {
+            const targetDir = args.findIndex(arg => arg === '-t' || arg.startsWith('--target-directory'));
+            if (targetDir !== -1) {
+                const rest = [...args];
+                rest.splice(targetDir, args[targetDir] === '-t' ? 2 : 1);
+                targets = operands(rest);
+            } else {
+                targets = operands(args).slice(0, -1);
+            }
+        }
+
+        for (const target of targets) {
+            if (target && !DYNAMIC_ARG_PATTERN.test(target)) {
+                removed.add(target);
+            }
+        }
+    }
+
+    return Array.from(removed);
+}
+
+/**
+ * 去掉重定向及其目标
+ */
+function stripRedirections(words: string[]): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < words.length; i++) {
+        if (REDIRECTION_PATTERN.test(words[i])) {
+            i++;
+        } else {
+            result.push(words[i]);
+        }
+    }
+    return result;
+}
+
+/**
+ * 去掉选项后的操作数（`--` 之后的参数都是操作数）
+ */
+function operands(args: string[]): string[] {
+    const result: string[] = [];
+    let optionsEnded = false;
+    for (const arg of args) {
+        if (!optionsEnded && arg === '--') {
+            optionsEnded = true;
+        } else if (optionsEnded || !arg.startsWith('-')) {
+            result.push(arg);
+        }
+    }
+    return result;
+}
@@ -18,6 +18,8 @@ import { ISSHService, SSHService } from './sshService';
 import { ITelemetryService, TelemetryService, NullTelemetryService } from './telemetryService';
 import { INotificationService, NotificationService } from './notificationService';
 import { IDialogService, DialogService } from './dialogService';
+import { IPermissionRuleService, PermissionRuleService } from './permissionRuleService';
+import { IModelRegistryService, ModelRegistryService } from './modelRegistryService';
 import { IWebViewService, WebViewService } from './webViewService';
 
 // Claude services
@@ -26,6 +28,7 @@ import { IClaudeAgentService, ClaudeAgentService } from './claude/ClaudeAgentSer
 import { IClaudeSdkService, ClaudeSdkService } from './claude/ClaudeSdkService';
 import { IClaudeConfigService, ClaudeConfigService } from './claudeConfigService';
 import { LocalTodoService } from './LocalTodoService';
+import { IFileSnapshotService, FileSnapshotService } from './FileSnapshotService';
 
 // AI Provider services
 import { IAIProviderFactory, AIProviderFactory } from './ai/AIProviderFactory';
@@ -69,6 +72,8 @@ export function registerServices(
 	);
 	builder.define(INotificationService, new SyncDescriptor(NotificationService));
 	builder.define(IDialogService, new SyncDescriptor(DialogService));
+	builder.define(IPermissionRuleService, new SyncDescriptor(PermissionRuleService));
+	builder.define(IModelRegistryService, new SyncDescriptor(ModelRegistryService));
 
 	// WebView service
 	builder.define(IWebViewService, new SyncDescriptor(WebViewService, [context]));
@@ -76,6 +81,8 @@ export function registerServices(
 	// Claude services
 	builder.define(IClaudeSessionService, new SyncDescriptor(ClaudeSessionService));
 	builder.define(IClaudeConfigService, new SyncDescriptor(ClaudeConfigService));
+	// 文件快照服务（持久化到 globalStorage）
+	builder.define(IFileSnapshotService, new SyncDescriptor(FileSnapshotService, [context]));
 	// Claude SDK service
 	builder.define(IClaudeSdkService, new SyncDescriptor(ClaudeSdkService, [context]));
 
@@ -88,6 +95,9 @@ export function registerServices(
 	builder.define(IAgentCoordinator, new SyncDescriptor(AgentCoordinator));
 	builder.define(IImagePreprocessingService, new SyncDescriptor(ImagePreprocessingService));
 
+	// AI Provider services（OpenAI 兼容 / Ollama / GLM，依赖 AgentCoordinator）
+	builder.define(IAIProviderFactory, new SyncDescriptor(AIProviderFactory));
+
 	// LocalTodoService - 需要手动创建实例并初始化
 	const localTodoService = new LocalTodoService(context);
 	localTodoService.initialize().catch(err => {
@@ -96,9 +106,6 @@ export function registerServices(
 
 	// ClaudeAgentService - main agent service
 	builder.define(IClaudeAgentService, new SyncDescriptor(ClaudeAgentService, [localTodoService]));
-
-	// AI Provider services
-	builder.define(IAIProviderFactory, new SyncDescriptor(AIProviderFactory));
 }
 
 // Export all service interfaces for convenience
@@ -113,11 +120,14 @@ export {
 	ITelemetryService,
 	INotificationService,
 	IDialogService,
+	IPermissionRuleService,
+	IModelRegistryService,
 	IWebViewService,
 	IClaudeSessionService,
 	IClaudeAgentService,
 	IClaudeSdkService,
 	IClaudeConfigService,
+	IFileSnapshotService,
 	IAIProviderFactory,
 	// New services
 	IClaudeApiClient,
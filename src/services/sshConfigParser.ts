@@ -0,0 +1,211 @@
+/**
+ * SSH 配置解析 / SSH Config Parser
+ *
+ * 解析 ~/.ssh/config 中列出主机所需的字段：Host、HostName、User、Port、IdentityFile、ProxyJump。
+ * 实际连接时仍把别名交给 ssh，由 ssh 按完整配置处理。
+ *
+ * 解析规则（与 ssh 保持一致的部分）：
+ * - 关键字不区分大小写，支持 "Key Value" 和 "Key=Value"
+ * - 每个字段取第一个匹配块中的值，Host * 等通配块同样参与匹配
+ * - 含通配符或取反的 Host 模式不作为可连接的主机列出
+ * - Match 块整体跳过；Include 相对路径基于 ~/.ssh，文件名支持 * 和 ?
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * ~/.ssh/config 中的一个主机别名
+ */
+export interface SSHConfigHost {
+    alias: string;
+    hostName?: string;
+    user?: string;
+    port?: number;
+    identityFile?: string;
+    proxyJump?: string;
+}
+
+/**
+ * Host / Match 块
+ */
+interface ConfigBlock {
+    /** Host 模式；Match 块为 undefined（不参与匹配） */
+    patterns?: string[];
+    options: Map<string, string>;
+}
+
+/** 只关心的字段（小写关键字） */
+const SUPPORTED_KEYWORDS = new Set(['hostname', 'user', 'port', 'identityfile', 'proxyjump']);
+
+/** Include 最大嵌套深度（与 ssh 相同） */
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * 展开路径开头的 ~
+ */
+export function expandHome(filePath: string, homeDir = os.homedir()): string {
+    if (filePath === '~') {
+        return homeDir;
+    }
+    if (filePath.startsWith('~/')) {
+        return path.join(homeDir, filePath.slice(2));
+    }
+    return filePath;
+}
+
+function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function isWildcard(pattern: string): boolean {
+    return pattern.startsWith('!') || /[*?]/.test(pattern);
+}
+
+/**
+ * Host 模式列表是否匹配别名（任一正向模式匹配，且没有取反模式匹配）
+ */
+function matchesHost(patterns: string[], alias: string): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+        if (pattern.startsWith('!')) {
+            if (globToRegExp(pattern.slice(1)).test(alias)) {
+                return false;
+            }
+        } else if (globToRegExp(pattern).test(alias)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+        return trimmed.slice(1, -1);
+    }
+    return trimmed;
+}
+
+/**
+ * 解析 ssh 配置内容
+ * @param content 配置文本
+ * @param readInclude 读取 Include 指令引用的文件内容（未提供时忽略 Include）
+ */
+export function parseSSHConfig(
+    content: string,
+    readInclude?: (pattern: string) => string[]
+): SSHConfigHost[] {
+    // 第一个 Host 之前的配置对所有主机生效
+    const blocks: ConfigBlock[] = [{ patterns: ['*'], options: new Map() }];
+
+    const parseLines = (text: string, depth: number): void => {
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const match = /^(\S+?)(?:\s*=\s*|\s+)(.*)$/.exec(line);
+            if (!match) {
+                continue;
+            }
+
+            const keyword = match[1].toLowerCase();
+            const value = unquote(match[2]);
+
+            if (keyword === 'host') {
+                blocks.push({ patterns: value.split(/\s+/).filter(Boolean), options: new Map() });
+            } else if (keyword === 'match') {
+                blocks.push({ patterns: undefined, options: new Map() });
+            } else if (keyword === 'include') {
+                if (readInclude && depth < MAX_INCLUDE_DEPTH) {
+                    for (const pattern of value.split(/\s+/).filter(Boolean)) {
+                        for (const included of readInclude(pattern)) {
+                            parseLines(included, depth + 1);
+                        }
+                    }
+                }
+            } else if (SUPPORTED_KEYWORDS.has(keyword)) {
+                const options = blocks[blocks.length - 1].options;
+                if (!options.has(keyword)) {
+                    options.set(keyword, value);
+                }
+            }
+        }
+    };
+
+    parseLines(content, 0);
+
+    // 收集可连接的别名（按出现顺序去重）
+    const aliases: string[] = [];
+    for (const block of blocks.slice(1)) {
+        for (const pattern of block.patterns ?? []) {
+            if (!isWildcard(pattern) && !aliases.includes(pattern)) {
+                aliases.push(pattern);
+            }
+        }
+    }
+
+    return aliases.map(alias => {
+        const resolved = new Map<string, string>();
+        for (const block of blocks) {
+            if (!block.patterns || !matchesHost(block.patterns, alias)) {
+                continue;
+            }
+            for (const [key, value] of block.options) {
+                if (!resolved.has(key)) {
+                    resolved.set(key, value);
+                }
+            }
+        }
+
+        const port = Number(resolved.get('port'));
+        const identityFile = resolved.get('identityfile');
+        const proxyJump = resolved.get('proxyjump');
+        return {
+            alias,
+            hostName: resolved.get('hostname'),
+            user: resolved.get('user'),
+            port: Number.isInteger(port) && port > 0 ? port : undefined,
+            identityFile: identityFile ? expandHome(identityFile) : undefined,
+            proxyJump: proxyJump && proxyJump.toLowerCase() !== 'none' ? proxyJump : undefined,
+        };
+    });
+}
+
+/**
+ * 读取并解析 ~/.ssh/config（文件不存在时返回空列表）
+ */
+export function readSSHConfig(configPath = path.join(os.homedir(), '.ssh', 'config')): SSHConfigHost[] {
+    if (!fs.existsSync(configPath)) {
+        return [];
+    }
+
+    const sshDir = path.join(os.homedir(), '.ssh');
+    const readInclude = (pattern: string): string[] => {
+        const expanded = expandHome(pattern);
+        const fullPath = path.isAbsolute(expanded) ? expanded : path.join(sshDir, expanded);
+        const dir = path.dirname(fullPath);
+        const base = path.basename(fullPath);
+
+        try {
+            const files = isWildcard(base)
+                ? fs.readdirSync(dir).filter(name => globToRegExp(base).test(name)).sort()
+                : [base];
+            return files
+                .map(name => path.join(dir, name))
+                .filter(file => fs.existsSync(file) && fs.statSync(file).isFile())
+                .map(file => fs.readFileSync(file, 'utf-8'));
+        } catch {
+            return [];
+        }
+    };
+
+    return parseSSHConfig(fs.readFileSync(configPath, 'utf-8'), readInclude);
+}
@@ -3,12 +3,44 @@
  *
  * 提供 SSH 连接管理和命令执行功能
  * 支持 AI 通过 SSH 与远程服务器交互
+ *
+ * 命令执行协议：
+ * - ssh 不分配伪终端（-T），远程登录 shell 从 stdin 逐行读取命令，stdout / stderr 分开传输
+ * - 每条命令通过 command eval 执行（语法错误不会使远程 shell 退出），结束后分别在 stdout / stderr 输出带命令 ID 的结束标记（stdout 标记携带退出码）
+ * - 同一会话的命令排队依次执行，避免并发调用互相污染输出
+ *
+ * 主机配置：合并工作区预设（xiong.ssh.profiles）与 ~/.ssh/config 中的 Host 别名，
+ * 可通过 connect({ profile }) 按名称连接。
+ *
+ * 远程文件操作：在已有会话中执行 shell 命令，文件内容以 base64 传输（不依赖远程 sftp 子系统），
+ * 这类内部命令不写入会话输出缓冲区，也不推送部分输出。
+ *
+ * 终端挂载：会话可以挂载到 VS Code 伪终端（SSHPseudoterminal），终端中输入的命令与 agent 共用同一命令队列，
+ * 终端实时显示会话中执行的所有命令及输出。
+ *
+ * 端口转发：每条隧道是独立的 ssh -N -L / -R 进程（不占用命令会话），按名称管理；
+ * 定时健康检查本地端口是否可连接，ssh 进程意外退出的隧道在下次检查时重建。
+ *
+ * 连接保持：keep-alive 参数来自 xiong.ssh.keepAliveInterval / keepAliveCountMax；
+ * ssh 进程意外退出后按 xiong.ssh.autoReconnect 以相同会话 ID 自动重连（远程 shell 状态不保留），
+ * 重连期间提交的命令等待重连结果；重连失败或未启用时会话从列表中移除。
+ * agent 使用过的会话断开时通过通知提示用户。
+ * 超过 xiong.ssh.idleTimeout 分钟没有活动的会话自动断开（执行中或已挂载终端的会话除外）。
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as net from 'net';
 import { spawn, ChildProcess } from 'child_process';
 import { createDecorator } from '../di/instantiation';
 import { ILogService } from './logService';
+import { IConfigurationService } from './configurationService';
+import { INotificationService } from './notificationService';
+import { readSSHConfig, expandHome } from './sshConfigParser';
+import { SSHPseudoterminal } from './sshTerminal';
+import type { SSHProfile, SSHProfilePreset, SSHSessionInfo, SSHTunnelInfo, SSHTunnelType } from '../shared/ssh';
+
+export type { SSHProfile, SSHProfilePreset, SSHSessionInfo, SSHTunnelInfo, SSHTunnelType } from '../shared/ssh';
 
 export const ISSHService = createDecorator<ISSHService>('sshService');
 
@@ -20,6 +52,34 @@ export interface SSHConnectionConfig {
     port?: number;
     username?: string;
     identityFile?: string;  // SSH 私钥路径
+    proxyJump?: string;     // 跳板机（ssh -J）
+    profile?: string;       // 来源主机配置名称
+}
+
+/**
+ * 命令输出流
+ */
+export type SSHOutputStream = 'stdout' | 'stderr';
+
+/**
+ * 正在执行的命令
+ */
+interface SSHRunningCommand {
+    id: string;
+    command: string;
+    marker: string;
+    startedAt: number;
+    stdout: string;
+    stderr: string;
+    /** 已转发的输出长度（不含结束标记） */
+    emitted: Record<SSHOutputStream, number>;
+    /** 结束标记在缓冲区中的位置 */
+    end: Partial<Record<SSHOutputStream, number>>;
+    exitCode?: number;
+    timedOut: boolean;
+    onOutput?: (stream: SSHOutputStream, data: string) => void;
+    quiet?: boolean;
+    finish: (result: SSHCommandResult) => void;
 }
 
 /**
@@ -33,34 +93,225 @@ export interface SSHSession {
     outputBuffer: string;
     isConnected: boolean;
     lastActivity: number;
+    /** 当前正在执行的命令 */
+    running?: SSHRunningCommand;
+    /** 命令队列尾部（上一条命令真正结束后才执行下一条） */
+    queue: Promise<void>;
+    /** 正在主动断开，进程退出不触发重连 */
+    closing: boolean;
+    /** 正在自动重连（结果为是否重连成功） */
+    reconnecting?: Promise<boolean>;
+    /** agent 使用过该会话（断开时通知用户） */
+    usedByAgent: boolean;
 }
 
 /**
  * SSH 命令执行结果
  */
 export interface SSHCommandResult {
+    /** 命令执行完成且退出码为 0 */
     success: boolean;
+    /** 退出码（超时或连接断开时为 null） */
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    /** stdout 与 stderr 合并后的输出（stderr 行带 [stderr] 前缀） */
     output: string;
     error?: string;
+    /** 是否超时（命令仍在远程继续执行，后续输出进入会话输出缓冲区） */
+    timedOut?: boolean;
+    durationMs: number;
+}
+
+/**
+ * 命令执行选项
+ */
+export interface SSHCommandOptions {
+    /** 超时（毫秒），默认 30000 */
+    timeout?: number;
+    /** 部分输出回调 */
+    onOutput?: (stream: SSHOutputStream, data: string) => void;
+    /** 内部命令：输出不写入会话缓冲区、不推送，日志中以 label 代替命令内容 */
+    quiet?: boolean;
+    label?: string;
+}
+
+/**
+ * 远程目录条目
+ */
+export interface SSHFileEntry {
+    name: string;
+    type: 'file' | 'directory' | 'symlink' | 'other';
+    /** 字节数（仅普通文件） */
+    size?: number;
+}
+
+/**
+ * 命令开始 / 结束事件（不包括内部命令）
+ */
+export interface SSHCommandLifecycleEvent {
+    sessionId: string;
+    commandId: string;
+    command: string;
+    state: 'started' | 'finished';
+    /** 结束时的退出码（连接断开时为 null） */
+    exitCode?: number | null;
+}
+
+/**
+ * 打开隧道的参数
+ */
+export interface SSHTunnelOptions {
+    /** 隧道名称（唯一） */
+    name: string;
+    type: SSHTunnelType;
+    config: SSHConnectionConfig;
+    bindPort: number;
+    /** 监听地址，local 默认 127.0.0.1，remote 默认远程 localhost */
+    bindAddress?: string;
+    /** 转发目标主机，默认 localhost */
+    targetHost?: string;
+    targetPort: number;
+}
+
+/**
+ * 隧道进程状态
+ */
+interface SSHTunnel {
+    info: SSHTunnelInfo;
+    config: SSHConnectionConfig;
+    /** ssh 进程（已退出时为空） */
+    process?: ChildProcess;
+    /** 最近的 stderr 输出（用于错误信息） */
+    stderr: string;
+    /** 正在主动关闭，进程退出不视为失败 */
+    closing: boolean;
+}
+
+/**
+ * 命令部分输出事件
+ */
+export interface SSHCommandOutputEvent {
+    sessionId: string;
+    commandId: string;
+    command: string;
+    stream: SSHOutputStream;
+    data: string;
 }
 
 export interface ISSHService {
     readonly _serviceBrand: undefined;
 
+    /**
+     * 命令部分输出事件（用于向 UI 流式展示）
+     */
+    readonly onDidCommandOutput: vscode.Event<SSHCommandOutputEvent>;
+
+    /**
+     * 命令开始 / 结束事件（用于终端显示命令和退出码）
+     */
+    readonly onDidExecuteCommand: vscode.Event<SSHCommandLifecycleEvent>;
+
+    /**
+     * 会话列表或会话状态变化事件（连接、断开、终端挂载、命令开始 / 结束）
+     */
+    readonly onDidChangeSessions: vscode.Event<void>;
+
+    /**
+     * 隧道列表或状态变化事件
+     */
+    readonly onDidChangeTunnels: vscode.Event<SSHTunnelInfo[]>;
+
+    /**
+     * 获取可连接的主机配置（工作区预设在前，~/.ssh/config 在后，同名时预设优先）
+     */
+    getProfiles(): Promise<SSHProfile[]>;
+
+    /**
+     * 按名称解析主机配置为连接参数
+     */
+    resolveProfile(name: string): Promise<SSHConnectionConfig>;
+
+    /**
+     * 保存工作区预设（同名覆盖）
+     */
+    saveProfile(preset: SSHProfilePreset): Promise<void>;
+
+    /**
+     * 删除工作区预设
+     */
+    removeProfile(name: string): Promise<boolean>;
+
     /**
      * 创建 SSH 连接
      */
     connect(config: SSHConnectionConfig): Promise<string>;
 
+    /**
+     * 标记会话被 agent 使用（意外断开时通知用户）
+     */
+    markUsedByAgent(sessionId: string): void;
+
     /**
      * 断开 SSH 连接
      */
     disconnect(sessionId: string): Promise<void>;
 
     /**
-     * 执行 SSH 命令
+     * 执行 SSH 命令（同一会话内排队执行）
+     */
+    executeCommand(sessionId: string, command: string, options?: SSHCommandOptions): Promise<SSHCommandResult>;
+
+    /**
+     * 获取与连接参数相同的已连接会话，没有时新建连接（用于撤回远程修改等场景）
+     */
+    acquireSession(config: SSHConnectionConfig): Promise<string>;
+
+    /**
+     * 将远程路径解析为绝对路径（相对路径基于会话当前目录，支持 ~）
+     */
+    resolveRemotePath(sessionId: string, filePath: string): Promise<string>;
+
+    /**
+     * 读取远程文件，文件不存在时返回 undefined
+     */
+    readFile(sessionId: string, filePath: string): Promise<Uint8Array | undefined>;
+
+    /**
+     * 写入远程文件（自动创建父目录）
+     */
+    writeFile(sessionId: string, filePath: string, content: Uint8Array | string): Promise<void>;
+
+    /**
+     * 删除远程文件（不存在时视为成功）
+     */
+    deleteFile(sessionId: string, filePath: string): Promise<void>;
+
+    /**
+     * 列出远程目录
+     */
+    listDirectory(sessionId: string, dirPath: string): Promise<SSHFileEntry[]>;
+
+    /**
+     * 打开端口转发隧道（本地端口可连接或 ssh 进程稳定运行后返回）
+     */
+    openTunnel(options: SSHTunnelOptions): Promise<SSHTunnelInfo>;
+
+    /**
+     * 关闭隧道
+     * @param idOrName 隧道 ID 或名称
      */
-    executeCommand(sessionId: string, command: string, timeout?: number): Promise<SSHCommandResult>;
+    closeTunnel(idOrName: string): Promise<boolean>;
+
+    /**
+     * 获取所有隧道
+     */
+    getTunnels(): SSHTunnelInfo[];
+
+    /**
+     * 立即执行一次健康检查（重建已退出的隧道）
+     */
+    checkTunnels(): Promise<SSHTunnelInfo[]>;
 
     /**
      * 获取会话输出缓冲区
@@ -77,92 +328,286 @@ export interface ISSHService {
      */
     getActiveSessions(): SSHSession[];
 
+    /**
+     * 获取会话摘要（包括意外断开但未移除的会话，用于 WebView 会话面板）
+     */
+    getSessionInfos(): SSHSessionInfo[];
+
+    /**
+     * 将会话挂载到 VS Code 伪终端（已挂载时直接显示）
+     */
+    attachTerminal(sessionId: string): vscode.Terminal;
+
     /**
      * 检查会话是否存在
      */
     hasSession(sessionId: string): boolean;
 
     /**
-     * 关闭所有会话
+     * 关闭所有会话和隧道
      */
     closeAll(): Promise<void>;
 }
 
+const PROFILES_SETTINGS_KEY = 'xiong.ssh.profiles';
+
+/** 连接建立超时（毫秒） */
+const CONNECT_TIMEOUT = 10000;
+
+/** keep-alive 间隔（秒）与最大无响应次数的默认值 */
+const DEFAULT_KEEP_ALIVE_INTERVAL = 60;
+const DEFAULT_KEEP_ALIVE_COUNT_MAX = 3;
+
+/** 空闲超时默认值（分钟，0 表示不自动断开） */
+const DEFAULT_IDLE_TIMEOUT = 30;
+
+/** 空闲检查间隔（毫秒） */
+const IDLE_CHECK_INTERVAL = 60000;
+
+/** 自动重连的默认尝试次数 */
+const DEFAULT_RECONNECT_ATTEMPTS = 3;
+
+/** 重连退避：首次等待时长与上限（毫秒） */
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 15000;
+
+/** 命令默认超时（毫秒） */
+const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+/** 远程文件操作超时（毫秒） */
+const FILE_COMMAND_TIMEOUT = 60000;
+
+/** 可读写的远程文件大小上限（字节） */
+const MAX_REMOTE_FILE_SIZE = 10 * 1024 * 1024;
+
+/** 远程文件不存在时 readFile 输出的标记（不会出现在 base64 输出中） */
+const MISSING_FILE_TOKEN = '__XIONG_ENOENT__';
+
+/** 隧道健康检查间隔（毫秒） */
+const TUNNEL_HEALTH_INTERVAL = 30000;
+
+/** 远程转发无法从本机探测，ssh 进程稳定运行该时长后视为建立成功（毫秒） */
+const REMOTE_TUNNEL_SETTLE_TIME = 3000;
+
+/** 端口探测超时（毫秒） */
+const PORT_PROBE_TIMEOUT = 2000;
+
+/** 结束标记前缀（残留标记从输出缓冲区中移除） */
+const MARKER_PREFIX = '__CMD_END_';
+const STRAY_MARKER_PATTERN = new RegExp(`\\n?${MARKER_PREFIX}\\w+__(:\\d+)?\\n`, 'g');
+
+/**
+ * 单引号转义，使命令可作为 eval 的单个参数
+ */
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * 缓冲区末尾与 token 前缀重叠的长度（这部分可能是未到齐的结束标记，暂不转发）
+ */
+function partialSuffixLength(buffer: string, token: string): number {
+    for (let length = Math.min(buffer.length, token.length - 1); length > 0; length--) {
+        if (buffer.endsWith(token.slice(0, length))) {
+            return length;
+        }
+    }
+    return 0;
+}
+
+/**
+ * 探测 TCP 端口是否可连接
+ */
+function probePort(host: string, port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+        const socket = net.connect({ host, port });
+        const done = (ok: boolean) => {
+            socket.destroy();
+            resolve(ok);
+        };
+        socket.setTimeout(PORT_PROBE_TIMEOUT, () => done(false));
+        socket.once('connect', () => done(true));
+        socket.once('error', () => done(false));
+    });
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 合并 stdout / stderr（stderr 行带 [stderr] 前缀）
+ */
+function combineOutput(stdout: string, stderr: string): string {
+    const stderrLines = stderr
+        ? stderr.replace(/\n$/, '').split('\n').map(line => `[stderr] ${line}`).join('\n')
+        : '';
+    return [stdout.replace(/\n$/, ''), stderrLines].filter(Boolean).join('\n');
+}
+
 export class SSHService implements ISSHService {
     readonly _serviceBrand: undefined;
 
     private sessions = new Map<string, SSHSession>();
     private sessionCounter = 0;
+    private commandCounter = 0;
+
+    private tunnels = new Map<string, SSHTunnel>();
+    private tunnelCounter = 0;
+    private healthTimer: ReturnType<typeof setInterval> | undefined;
+    private checkingTunnels = false;
+    private idleTimer: ReturnType<typeof setInterval> | undefined;
+
+    private readonly onDidCommandOutputEmitter = new vscode.EventEmitter<SSHCommandOutputEvent>();
+    readonly onDidCommandOutput = this.onDidCommandOutputEmitter.event;
+
+    private readonly onDidExecuteCommandEmitter = new vscode.EventEmitter<SSHCommandLifecycleEvent>();
+    readonly onDidExecuteCommand = this.onDidExecuteCommandEmitter.event;
+
+    private readonly onDidChangeSessionsEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeSessions = this.onDidChangeSessionsEmitter.event;
+
+    private readonly onDidChangeTunnelsEmitter = new vscode.EventEmitter<SSHTunnelInfo[]>();
+    readonly onDidChangeTunnels = this.onDidChangeTunnelsEmitter.event;
 
     constructor(
-        @ILogService private readonly logService: ILogService
+        @ILogService private readonly logService: ILogService,
+        @IConfigurationService private readonly configService: IConfigurationService,
+        @INotificationService private readonly notificationService: INotificationService
     ) {}
 
+    /**
+     * 获取可连接的主机配置
+     */
+    async getProfiles(): Promise<SSHProfile[]> {
+        const profiles: SSHProfile[] = this.getPresets().map(preset => ({ ...preset, source: 'preset' }));
+
+        try {
+            for (const host of readSSHConfig()) {
+                if (profiles.some(p => p.name === host.alias)) {
+                    continue;
+                }
+                profiles.push({
+                    name: host.alias,
+                    host: host.alias,
+                    hostName: host.hostName,
+                    port: host.port,
+                    username: host.user,
+                    identityFile: host.identityFile,
+                    proxyJump: host.proxyJump,
+                    source: 'sshConfig'
+                });
+            }
+        } catch (error) {
+            this.logService.warn(`[SSHService] 读取 ~/.ssh/config 失败: ${error}`);
+        }
+
+        return profiles;
+    }
+
+    /**
+     * 按名称解析主机配置
+     * ~/.ssh/config 中的别名直接交给 ssh，由 ssh 应用完整配置
+     */
+    async resolveProfile(name: string): Promise<SSHConnectionConfig> {
+        const profile = (await this.getProfiles()).find(p => p.name === name);
+        if (!profile) {
+            throw new Error(`未找到 SSH 主机配置: ${name}`);
+        }
+
+        if (profile.source === 'sshConfig') {
+            return { host: profile.host, profile: name };
+        }
+
+        return {
+            host: profile.host,
+            port: profile.port,
+            username: profile.username,
+            identityFile: profile.identityFile,
+            proxyJump: profile.proxyJump,
+            profile: name
+        };
+    }
+
+    /**
+     * 保存工作区预设
+     */
+    async saveProfile(preset: SSHProfilePreset): Promise<void> {
+        const name = preset.name?.trim();
+        if (!name || !preset.host?.trim()) {
+            throw new Error('SSH 预设需要 name 和 host');
+        }
+
+        const inspected = this.configService.inspect<SSHProfilePreset[]>(PROFILES_SETTINGS_KEY);
+        const existing = inspected?.workspaceValue ?? [];
+        const updated = [...existing.filter(p => p.name !== name), { ...preset, name, host: preset.host.trim() }];
+
+        await this.configService.updateValue(PROFILES_SETTINGS_KEY, updated, vscode.ConfigurationTarget.Workspace);
+        this.logService.info(`[SSHService] 已保存工作区预设: ${name}`);
+    }
+
+    /**
+     * 删除工作区预设
+     */
+    async removeProfile(name: string): Promise<boolean> {
+        const inspected = this.configService.inspect<SSHProfilePreset[]>(PROFILES_SETTINGS_KEY);
+        const existing = inspected?.workspaceValue ?? [];
+        const updated = existing.filter(p => p.name !== name);
+        if (updated.length === existing.length) {
+            return false;
+        }
+
+        await this.configService.updateValue(PROFILES_SETTINGS_KEY, updated, vscode.ConfigurationTarget.Workspace);
+        this.logService.info(`[SSHService] 已删除工作区预设: ${name}`);
+        return true;
+    }
+
     /**
      * 创建 SSH 连接
      */
     async connect(config: SSHConnectionConfig): Promise<string> {
         const sessionId = `ssh-${++this.sessionCounter}`;
 
-        this.logService.info(`[SSHService] 创建 SSH 连接: ${config.username || 'default'}@${config.host}`);
-
-        // 构建 SSH 命令参数
-        const args = this.buildSSHArgs(config);
-
-        // 启动 SSH 进程
-        const sshProcess = spawn('ssh', args, {
-            stdio: ['pipe', 'pipe', 'pipe'],
-            env: {
-                ...process.env,
-                // 禁用 SSH 的严格主机密钥检查（可选，生产环境应该移除）
-                // SSH_ASKPASS: '',
-            }
-        });
+        this.logService.info(`[SSHService] 创建 SSH 连接: ${config.username || 'default'}@${config.host}${config.profile ? ` (${config.profile})` : ''}`);
 
         const session: SSHSession = {
             id: sessionId,
             config,
-            process: sshProcess,
+            process: this.spawnProcess(config),
             outputBuffer: '',
             isConnected: false,
-            lastActivity: Date.now()
+            lastActivity: Date.now(),
+            queue: Promise.resolve(),
+            closing: false,
+            usedByAgent: false
         };
 
-        // 监听输出
-        sshProcess.stdout?.on('data', (data: Buffer) => {
-            const text = data.toString();
-            session.outputBuffer += text;
-            session.lastActivity = Date.now();
-            session.isConnected = true;
-            this.logService.info(`[SSH ${sessionId}] stdout: ${text.substring(0, 100)}...`);
-        });
-
-        sshProcess.stderr?.on('data', (data: Buffer) => {
-            const text = data.toString();
-            session.outputBuffer += `[stderr] ${text}`;
-            session.lastActivity = Date.now();
-            this.logService.warn(`[SSH ${sessionId}] stderr: ${text}`);
-        });
-
-        sshProcess.on('close', (code) => {
-            session.isConnected = false;
-            this.logService.info(`[SSH ${sessionId}] 连接关闭，退出码: ${code}`);
-        });
-
-        sshProcess.on('error', (err) => {
-            session.isConnected = false;
-            session.outputBuffer += `[error] ${err.message}\n`;
-            this.logService.error(`[SSH ${sessionId}] 错误: ${err.message}`);
-        });
-
         this.sessions.set(sessionId, session);
 
-        // 等待连接建立（检测到输出或超时）
-        await this.waitForConnection(session, 10000);
+        try {
+            await this.startSession(session);
+        } catch (error) {
+            this.sessions.delete(sessionId);
+            throw error;
+        }
+
+        this.logService.info(`[SSHService] 连接已建立: ${sessionId}`);
+        this.ensureIdleTimer();
+        this.onDidChangeSessionsEmitter.fire();
 
         return sessionId;
     }
 
+    /**
+     * 标记会话被 agent 使用
+     */
+    markUsedByAgent(sessionId: string): void {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+            session.usedByAgent = true;
+        }
+    }
+
     /**
      * 断开 SSH 连接
      */
@@ -174,63 +619,284 @@ export class SSHService implements ISSHService {
         }
 
         this.logService.info(`[SSHService] 断开连接: ${sessionId}`);
+        session.closing = true;
 
-        // 发送 exit 命令
-        session.process.stdin?.write('exit\n');
+        if (session.process.exitCode === null) {
+            // 发送 exit 命令
+            session.process.stdin?.write('exit\n');
 
-        // 等待进程退出
-        await new Promise<void>((resolve) => {
-            const timeout = setTimeout(() => {
-                session.process.kill('SIGTERM');
-                resolve();
-            }, 3000);
+            // 等待进程退出（有命令仍在执行时 exit 不会被读取，超时后直接结束进程）
+            await new Promise<void>((resolve) => {
+                const timeout = setTimeout(() => {
+                    session.process.kill('SIGTERM');
+                    resolve();
+                }, 3000);
 
-            session.process.on('close', () => {
-                clearTimeout(timeout);
-                resolve();
+                session.process.on('close', () => {
+                    clearTimeout(timeout);
+                    resolve();
+                });
             });
-        });
+        }
 
         this.sessions.delete(sessionId);
+        this.onDidChangeSessionsEmitter.fire();
     }
 
     /**
      * 执行 SSH 命令
+     * 同一会话的命令排队执行：超时的命令仍占用远程 shell，直到它真正结束后才执行下一条
      */
-    async executeCommand(sessionId: string, command: string, timeout = 30000): Promise<SSHCommandResult> {
+    async executeCommand(sessionId: string, command: string, options: SSHCommandOptions = {}): Promise<SSHCommandResult> {
         const session = this.sessions.get(sessionId);
         if (!session) {
-            return {
-                success: false,
-                output: '',
-                error: `会话不存在: ${sessionId}`
-            };
+            return this.failedResult(`会话不存在: ${sessionId}`);
+        }
+
+        if (!session.isConnected && !session.reconnecting) {
+            return this.failedResult('连接已断开');
+        }
+
+        let result: Promise<SSHCommandResult> | undefined;
+        const completion = new Promise<void>((resolveCompletion) => {
+            result = session.queue.then(async () => {
+                // 重连期间排队的命令等待重连结果
+                if (!session.isConnected && !(await session.reconnecting)) {
+                    resolveCompletion();
+                    return this.failedResult('连接已断开');
+                }
+                return this.runCommand(session, command, options, resolveCompletion);
+            });
+        });
+        session.queue = completion;
+
+        return result!;
+    }
+
+    /**
+     * 获取与连接参数相同的已连接会话，没有时新建连接
+     */
+    async acquireSession(config: SSHConnectionConfig): Promise<string> {
+        const existing = this.getActiveSessions().find(s =>
+            s.config.host === config.host &&
+            (s.config.port ?? 22) === (config.port ?? 22) &&
+            s.config.username === config.username &&
+            s.config.proxyJump === config.proxyJump
+        );
+        if (existing) {
+            return existing.id;
         }
 
-        if (!session.isConnected) {
+        this.logService.info(`[SSHService] 没有可复用的会话，重新连接: ${config.host}`);
+        return this.connect(config);
+    }
+
+    /**
+     * 将远程路径解析为绝对路径
+     */
+    async resolveRemotePath(sessionId: string, filePath: string): Promise<string> {
+        if (filePath.startsWith('/')) {
+            return path.posix.normalize(filePath);
+        }
+
+        const output = await this.runFileCommand(sessionId, `printf '%s\\n%s\\n' "$PWD" "$HOME"`, '解析路径');
+        const [cwd, home] = output.split('\n');
+        if (filePath === '~' || filePath.startsWith('~/')) {
+            return path.posix.join(home, filePath.slice(1));
+        }
+        return path.posix.resolve(cwd, filePath);
+    }
+
+    /**
+     * 读取远程文件（base64 传输）
+     */
+    async readFile(sessionId: string, filePath: string): Promise<Uint8Array | undefined> {
+        const target = shellQuote(filePath);
+        const output = await this.runFileCommand(
+            sessionId,
+            `if [ ! -e ${target} ]; then printf '%s' '${MISSING_FILE_TOKEN}'; ` +
+            `elif [ -d ${target} ]; then echo '是目录，不能作为文件读取' >&2; false; ` +
+            `elif [ "$(wc -c < ${target})" -gt ${MAX_REMOTE_FILE_SIZE} ]; then echo '文件超过 ${MAX_REMOTE_FILE_SIZE / 1024 / 1024}MB' >&2; false; ` +
+            `else base64 < ${target}; fi`,
+            `读取文件 ${filePath}`
+        );
+
+        if (output === MISSING_FILE_TOKEN) {
+            return undefined;
+        }
+        return Buffer.from(output.replace(/\s+/g, ''), 'base64');
+    }
+
+    /**
+     * 写入远程文件（base64 传输，保留已有文件的权限）
+     */
+    async writeFile(sessionId: string, filePath: string, content: Uint8Array | string): Promise<void> {
+        const data = typeof content === 'string' ? Buffer.from(content, 'utf-8') : Buffer.from(content);
+        if (data.length > MAX_REMOTE_FILE_SIZE) {
+            throw new Error(`文件超过 ${MAX_REMOTE_FILE_SIZE / 1024 / 1024}MB，无法写入`);
+        }
+
+        const target = shellQuote(filePath);
+        const dir = shellQuote(path.posix.dirname(filePath));
+        await this.runFileCommand(
+            sessionId,
+            `mkdir -p ${dir} && printf '%s' '${data.toString('base64')}' | base64 -d > ${target}`,
+            `写入文件 ${filePath} (${data.length} 字节)`
+        );
+    }
+
+    /**
+     * 删除远程文件
+     */
+    async deleteFile(sessionId: string, filePath: string): Promise<void> {
+        await this.runFileCommand(sessionId, `rm -f ${shellQuote(filePath)}`, `删除文件 ${filePath}`);
+    }
+
+    /**
+     * 列出远程目录（在子 shell 中执行，不改变会话当前目录）
+     */
+    async listDirectory(sessionId: string, dirPath: string): Promise<SSHFileEntry[]> {
+        const output = await this.runFileCommand(
+            sessionId,
+            `( cd ${shellQuote(dirPath)} && for f in .* *; do ` +
+            `case "$f" in .|..) continue;; esac; ` +
+            `[ -e "$f" ] || [ -L "$f" ] || continue; ` +
+            `if [ -L "$f" ]; then t=symlink; elif [ -d "$f" ]; then t=directory; elif [ -f "$f" ]; then t=file; else t=other; fi; ` +
+            `s=; [ "$t" = file ] && s=$(wc -c < "$f"); ` +
+            `printf '%s\\t%s\\t%s\\n' "$t" "$s" "$f"; done )`,
+            `列出目录 ${dirPath}`
+        );
+
+        return output.split('\n').filter(Boolean).map(line => {
+            const [type, size, ...name] = line.split('\t');
+            const bytes = parseInt(size.trim(), 10);
             return {
-                success: false,
-                output: '',
-                error: '连接已断开'
+                name: name.join('\t'),
+                type: type as SSHFileEntry['type'],
+                size: Number.isNaN(bytes) ? undefined : bytes
             };
+        });
+    }
+
+    /**
+     * 打开端口转发隧道
+     */
+    async openTunnel(options: SSHTunnelOptions): Promise<SSHTunnelInfo> {
+        const name = options.name.trim();
+        if (!name) {
+            throw new Error('隧道名称不能为空');
+        }
+        if (this.findTunnel(name)) {
+            throw new Error(`隧道名称已存在: ${name}`);
+        }
+        for (const port of [options.bindPort, options.targetPort]) {
+            if (!Number.isInteger(port) || port < 1 || port > 65535) {
+                throw new Error(`无效的端口: ${port}`);
+            }
         }
 
-        this.logService.info(`[SSH ${sessionId}] 执行命令: ${command}`);
+        const tunnel: SSHTunnel = {
+            info: {
+                id: `tunnel-${++this.tunnelCounter}`,
+                name,
+                type: options.type,
+                host: options.config.host,
+                profile: options.config.profile,
+                bindAddress: options.bindAddress || (options.type === 'local' ? '127.0.0.1' : 'localhost'),
+                bindPort: options.bindPort,
+                targetHost: options.targetHost || 'localhost',
+                targetPort: options.targetPort,
+                status: 'starting',
+                createdAt: Date.now()
+            },
+            config: options.config,
+            stderr: '',
+            closing: false
+        };
 
-        // 清空之前的输出
-        const outputBefore = session.outputBuffer.length;
+        this.tunnels.set(tunnel.info.id, tunnel);
+        this.fireTunnelsChanged();
 
-        // 添加命令结束标记，方便检测命令完成
-        const endMarker = `__CMD_END_${Date.now()}__`;
-        const fullCommand = `${command}; echo "${endMarker}"\n`;
+        try {
+            await this.startTunnel(tunnel);
+        } catch (error) {
+            this.tunnels.delete(tunnel.info.id);
+            this.fireTunnelsChanged();
+            throw error;
+        }
 
-        // 发送命令
-        session.process.stdin?.write(fullCommand);
+        this.ensureHealthTimer();
+        return { ...tunnel.info };
+    }
 
-        // 等待命令完成
-        const result = await this.waitForCommandComplete(session, endMarker, timeout, outputBefore);
+    /**
+     * 关闭隧道
+     */
+    async closeTunnel(idOrName: string): Promise<boolean> {
+        const tunnel = this.findTunnel(idOrName);
+        if (!tunnel) {
+            this.logService.warn(`[SSHService] 隧道不存在: ${idOrName}`);
+            return false;
+        }
 
-        return result;
+        this.logService.info(`[SSHService] 关闭隧道: ${tunnel.info.name} (${tunnel.info.id})`);
+        tunnel.closing = true;
+        tunnel.process?.kill('SIGTERM');
+        this.tunnels.delete(tunnel.info.id);
+
+        if (this.tunnels.size === 0 && this.healthTimer) {
+            clearInterval(this.healthTimer);
+            this.healthTimer = undefined;
+        }
+
+        this.fireTunnelsChanged();
+        return true;
+    }
+
+    /**
+     * 获取所有隧道
+     */
+    getTunnels(): SSHTunnelInfo[] {
+        return Array.from(this.tunnels.values()).map(t => ({ ...t.info }));
+    }
+
+    /**
+     * 健康检查：探测本地转发端口，重建 ssh 进程已退出的隧道
+     */
+    async checkTunnels(): Promise<SSHTunnelInfo[]> {
+        if (this.checkingTunnels) {
+            return this.getTunnels();
+        }
+
+        this.checkingTunnels = true;
+        try {
+            for (const tunnel of Array.from(this.tunnels.values())) {
+                const { info } = tunnel;
+
+                if (!tunnel.process) {
+                    this.logService.info(`[SSHService] 隧道 ${info.name} 的 ssh 进程已退出，尝试重建`);
+                    try {
+                        await this.startTunnel(tunnel);
+                    } catch (error) {
+                        info.status = 'failed';
+                        info.error = error instanceof Error ? error.message : String(error);
+                    }
+                } else if (info.type === 'local') {
+                    const healthy = await probePort(info.bindAddress, info.bindPort);
+                    info.status = healthy ? 'active' : 'unhealthy';
+                    info.error = healthy ? undefined : `本地端口 ${info.bindAddress}:${info.bindPort} 无法连接`;
+                } else {
+                    info.status = 'active';
+                }
+
+                info.lastCheckedAt = Date.now();
+            }
+        } finally {
+            this.checkingTunnels = false;
+        }
+
+        this.fireTunnelsChanged();
+        return this.getTunnels();
     }
 
     /**
@@ -258,6 +924,59 @@ export class SSHService implements ISSHService {
         return Array.from(this.sessions.values()).filter(s => s.isConnected);
     }
 
+    /**
+     * 获取活跃会话摘要
+     */
+    getSessionInfos(): SSHSessionInfo[] {
+        return Array.from(this.sessions.values()).map(s => ({
+            id: s.id,
+            host: s.config.host,
+            username: s.config.username,
+            profile: s.config.profile,
+            isConnected: s.isConnected,
+            lastActivity: s.lastActivity,
+            reconnecting: !!s.reconnecting,
+            terminalAttached: !!s.terminal && s.terminal.exitStatus === undefined,
+            runningCommand: s.running && !s.running.quiet ? s.running.command : undefined
+        }));
+    }
+
+    /**
+     * 将会话挂载到 VS Code 伪终端
+     */
+    attachTerminal(sessionId: string): vscode.Terminal {
+        const session = this.sessions.get(sessionId);
+        if (!session || !session.isConnected) {
+            throw new Error(`会话不存在或已断开: ${sessionId}`);
+        }
+
+        if (session.terminal && session.terminal.exitStatus === undefined) {
+            session.terminal.show();
+            return session.terminal;
+        }
+
+        const label = this.getSessionLabel(session);
+        this.logService.info(`[SSHService] 挂载终端: ${sessionId} (${label})`);
+
+        const pty = new SSHPseudoterminal(sessionId, label, this, () => {
+            if (session.terminal === terminal) {
+                session.terminal = undefined;
+                this.logService.info(`[SSHService] 终端已关闭: ${sessionId}`);
+                this.onDidChangeSessionsEmitter.fire();
+            }
+        });
+        const terminal = vscode.window.createTerminal({
+            name: `SSH: ${label}`,
+            pty,
+            iconPath: new vscode.ThemeIcon('remote')
+        });
+
+        session.terminal = terminal;
+        terminal.show();
+        this.onDidChangeSessionsEmitter.fire();
+        return terminal;
+    }
+
     /**
      * 检查会话是否存在
      */
@@ -269,16 +988,40 @@ export class SSHService implements ISSHService {
      * 关闭所有会话
      */
     async closeAll(): Promise<void> {
+        for (const tunnel of Array.from(this.tunnels.values())) {
+            await this.closeTunnel(tunnel.info.id);
+        }
+
+        if (this.idleTimer) {
+            clearInterval(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+
         const promises = Array.from(this.sessions.keys()).map(id => this.disconnect(id));
         await Promise.all(promises);
     }
 
     // ===== 私有方法 =====
 
+    /**
+     * 读取 xiong.ssh.profiles（忽略缺少 name / host 的条目）
+     */
+    private getPresets(): SSHProfilePreset[] {
+        const configured = this.configService.getValue<SSHProfilePreset[]>(PROFILES_SETTINGS_KEY, []) ?? [];
+        return (Array.isArray(configured) ? configured : []).filter(preset => {
+            const valid = typeof preset?.name === 'string' && preset.name.trim() !== ''
+                && typeof preset.host === 'string' && preset.host.trim() !== '';
+            if (!valid) {
+                this.logService.warn(`[SSHService] 忽略无效的 SSH 预设: ${JSON.stringify(preset)}`);
+            }
+            return valid;
+        });
+    }
+
     /**
      * 构建 SSH 命令参数
      */
-    private buildSSHArgs(config: SSHConnectionConfig): string[] {
+    private buildSSHArgs(config: SSHConnectionConfig, extraArgs: string[] = []): string[] {
         const args: string[] = [];
 
         // 端口
@@ -288,19 +1031,29 @@ export class SSHService implements ISSHService {
 
         // 私钥
         if (config.identityFile) {
-            args.push('-i', config.identityFile);
+            args.push('-i', expandHome(config.identityFile));
+        }
+
+        // 跳板机
+        if (config.proxyJump) {
+            args.push('-J', config.proxyJump);
         }
 
         // 禁用伪终端分配的严格检查
         args.push('-o', 'StrictHostKeyChecking=accept-new');
-        args.push('-o', 'BatchMode=no');
+        // 没有终端无法输入密码，认证失败时立即退出而不是挂起
+        args.push('-o', 'BatchMode=yes');
+        args.push('-o', `ConnectTimeout=${Math.ceil(CONNECT_TIMEOUT / 1000)}`);
 
-        // 保持连接
-        args.push('-o', 'ServerAliveInterval=60');
-        args.push('-o', 'ServerAliveCountMax=3');
+        // 保持连接（连续 ServerAliveCountMax 次无响应后 ssh 退出，触发自动重连）
+        const keepAliveInterval = this.getNumberSetting('xiong.ssh.keepAliveInterval', DEFAULT_KEEP_ALIVE_INTERVAL, 0);
+        const keepAliveCountMax = this.getNumberSetting('xiong.ssh.keepAliveCountMax', DEFAULT_KEEP_ALIVE_COUNT_MAX, 1);
+        args.push('-o', `ServerAliveInterval=${keepAliveInterval}`);
+        args.push('-o', `ServerAliveCountMax=${keepAliveCountMax}`);
 
-        // 强制分配伪终端（交互式）
-        args.push('-tt');
+        // 不分配伪终端：stdout / stderr 分开传输，且不会回显命令
+        args.push('-T');
+        args.push(...extraArgs);
 
         // 目标
         const target = config.username
@@ -312,88 +1065,490 @@ export class SSHService implements ISSHService {
     }
 
     /**
-     * 等待连接建立
+     * 读取数值设置（非数值或小于 min 时使用默认值）
      */
-    private waitForConnection(session: SSHSession, timeout: number): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const startTime = Date.now();
+    private getNumberSetting(key: string, defaultValue: number, min: number): number {
+        const value = this.configService.getValue<number>(key, defaultValue);
+        return typeof value === 'number' && Number.isFinite(value) && value >= min ? Math.floor(value) : defaultValue;
+    }
 
-            const checkConnection = () => {
-                // 检查是否有输出（表示连接成功）
-                if (session.outputBuffer.length > 0 || session.isConnected) {
-                    resolve();
-                    return;
-                }
+    private getSessionLabel(session: SSHSession): string {
+        return session.config.profile
+            ?? `${session.config.username ? `${session.config.username}@` : ''}${session.config.host}`;
+    }
+
+    /**
+     * 启动会话的 ssh 进程
+     */
+    private spawnProcess(config: SSHConnectionConfig): ChildProcess {
+        // 构建 SSH 命令参数
+        const args = this.buildSSHArgs(config);
+
+        return spawn('ssh', args, {
+            stdio: ['pipe', 'pipe', 'pipe'],
+            env: {
+                ...process.env,
+                // 禁用 SSH 的严格主机密钥检查（可选，生产环境应该移除）
+                // SSH_ASKPASS: '',
+            }
+        });
+    }
+
+    /**
+     * 监听会话 ssh 进程并执行探测命令确认连接建立（新建连接和重连共用）
+     */
+    private async startSession(session: SSHSession): Promise<void> {
+        const sessionId = session.id;
+        const sshProcess = session.process;
+
+        // 监听输出
+        sshProcess.stdout?.on('data', (data: Buffer) => {
+            this.handleData(session, 'stdout', data.toString());
+        });
+
+        sshProcess.stderr?.on('data', (data: Buffer) => {
+            const text = data.toString();
+            if (!session.running) {
+                this.logService.warn(`[SSH ${sessionId}] stderr: ${text}`);
+            }
+            this.handleData(session, 'stderr', text);
+        });
+
+        // 进程已退出时写入 stdin 会触发 EPIPE，由 close 事件结束当前命令
+        sshProcess.stdin?.on('error', (err) => {
+            this.logService.warn(`[SSH ${sessionId}] stdin 写入失败: ${err.message}`);
+        });
+
+        sshProcess.on('close', (code) => {
+            // 重连后旧进程的退出事件不再影响会话
+            if (session.process !== sshProcess) {
+                return;
+            }
+            const lost = session.isConnected && !session.closing;
+            session.isConnected = false;
+            this.logService.info(`[SSH ${sessionId}] 连接关闭，退出码: ${code}`);
+            this.abortRunning(session, lost && this.isAutoReconnectEnabled()
+                ? '连接已断开，正在自动重连（重连后远程工作目录和环境变量会重置）'
+                : '连接已断开');
+            if (lost) {
+                this.handleConnectionLost(session);
+            }
+            this.onDidChangeSessionsEmitter.fire();
+        });
+
+        sshProcess.on('error', (err) => {
+            if (session.process !== sshProcess) {
+                return;
+            }
+            session.isConnected = false;
+            session.outputBuffer += `[error] ${err.message}\n`;
+            this.logService.error(`[SSH ${sessionId}] 错误: ${err.message}`);
+            this.abortRunning(session, err.message);
+        });
+
+        // 执行探测命令确认连接建立（远程 shell 可以执行命令）
+        const probe = await this.runCommand(session, 'true', { timeout: CONNECT_TIMEOUT });
+        if (!probe.success) {
+            const detail = (probe.stderr || session.outputBuffer).trim();
+            sshProcess.kill('SIGTERM');
+            throw new Error(probe.timedOut ? 'SSH 连接超时' : `SSH 连接失败${detail ? `: ${detail}` : ''}`);
+        }
+
+        session.isConnected = true;
+    }
+
+    private isAutoReconnectEnabled(): boolean {
+        return this.configService.getValue<boolean>('xiong.ssh.autoReconnect', true) !== false;
+    }
+
+    /**
+     * 处理意外断开：自动重连或移除会话
+     */
+    private handleConnectionLost(session: SSHSession): void {
+        const label = this.getSessionLabel(session);
+        this.logService.warn(`[SSHService] 会话 ${session.id} (${label}) 意外断开`);
+
+        if (!this.isAutoReconnectEnabled()) {
+            this.removeSession(session);
+            if (session.usedByAgent) {
+                void this.notificationService.showWarning(`SSH 会话 ${session.id}（${label}）连接已断开`);
+            }
+            return;
+        }
 
-                // 检查超时
-                if (Date.now() - startTime > timeout) {
-                    reject(new Error('SSH 连接超时'));
-                    return;
+        if (session.usedByAgent) {
+            void this.notificationService.showWarning(`SSH 会话 ${session.id}（${label}）连接已断开，正在自动重连…`);
+        }
+
+        session.reconnecting = this.reconnect(session).then((success) => {
+            session.reconnecting = undefined;
+            if (success) {
+                session.outputBuffer += '[reconnected] 连接已恢复，远程工作目录和环境变量已重置\n';
+                this.logService.info(`[SSHService] 会话 ${session.id} 已重连`);
+                if (session.usedByAgent) {
+                    void this.notificationService.showInformation(`SSH 会话 ${session.id}（${label}）已重新连接`);
+                }
+            } else if (!session.closing) {
+                this.removeSession(session);
+                if (session.usedByAgent) {
+                    void this.notificationService.showError(`SSH 会话 ${session.id}（${label}）重连失败，会话已关闭`);
                 }
+            }
+            this.onDidChangeSessionsEmitter.fire();
+            return success;
+        });
+    }
 
-                // 继续等待
-                setTimeout(checkConnection, 100);
-            };
+    /**
+     * 以相同会话 ID 重连，按指数退避重试
+     */
+    private async reconnect(session: SSHSession): Promise<boolean> {
+        const attempts = this.getNumberSetting('xiong.ssh.reconnectAttempts', DEFAULT_RECONNECT_ATTEMPTS, 1);
+
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            await delay(Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), RECONNECT_MAX_DELAY));
+
+            // 等待期间会话被主动断开
+            if (session.closing || this.sessions.get(session.id) !== session) {
+                return false;
+            }
+
+            this.logService.info(`[SSHService] 重连会话 ${session.id}（第 ${attempt}/${attempts} 次）`);
+            try {
+                session.process = this.spawnProcess(session.config);
+                await this.startSession(session);
+                session.lastActivity = Date.now();
+                return true;
+            } catch (error) {
+                this.logService.warn(`[SSHService] 重连会话 ${session.id} 失败: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return false;
+    }
+
+    private removeSession(session: SSHSession): void {
+        if (this.sessions.get(session.id) === session) {
+            this.sessions.delete(session.id);
+            this.logService.info(`[SSHService] 移除会话: ${session.id}`);
+        }
+    }
+
+    private ensureIdleTimer(): void {
+        if (this.idleTimer) {
+            return;
+        }
+        this.idleTimer = setInterval(() => {
+            void this.reapIdleSessions();
+        }, IDLE_CHECK_INTERVAL);
+    }
+
+    /**
+     * 断开空闲超时的会话（执行中、重连中或已挂载终端的会话除外）
+     */
+    private async reapIdleSessions(): Promise<void> {
+        if (this.sessions.size === 0) {
+            if (this.idleTimer) {
+                clearInterval(this.idleTimer);
+                this.idleTimer = undefined;
+            }
+            return;
+        }
+
+        const idleMinutes = this.getNumberSetting('xiong.ssh.idleTimeout', DEFAULT_IDLE_TIMEOUT, 0);
+        if (idleMinutes === 0) {
+            return;
+        }
+
+        const deadline = Date.now() - idleMinutes * 60 * 1000;
+        for (const session of Array.from(this.sessions.values())) {
+            const attached = !!session.terminal && session.terminal.exitStatus === undefined;
+            if (!session.isConnected || session.running || attached || session.lastActivity > deadline) {
+                continue;
+            }
+            this.logService.info(`[SSHService] 会话 ${session.id} 空闲超过 ${idleMinutes} 分钟，自动断开`);
+            await this.disconnect(session.id);
+        }
+    }
+
+    private findTunnel(idOrName: string): SSHTunnel | undefined {
+        return this.tunnels.get(idOrName)
+            ?? Array.from(this.tunnels.values()).find(t => t.info.name === idOrName);
+    }
+
+    /**
+     * 启动隧道的 ssh 进程并等待转发可用
+     * 本地转发以监听端口可连接为准；远程转发依赖 ExitOnForwardFailure，进程稳定运行即视为成功
+     */
+    private async startTunnel(tunnel: SSHTunnel): Promise<void> {
+        const { info } = tunnel;
+
+        // 端口已被其他程序监听时探测会误判为隧道可用
+        if (info.type === 'local' && await probePort(info.bindAddress, info.bindPort)) {
+            throw new Error(`本地端口已被占用: ${info.bindAddress}:${info.bindPort}`);
+        }
+
+        const forward =`${info.bindAddress}:${info.bindPort}:${info.targetHost}:${info.targetPort}`;
+        const args = this.buildSSHArgs(tunnel.config, [
+            '-N',
+            '-o', 'ExitOnForwardFailure=yes',
+            info.type === 'local' ? '-L' : '-R', forward
+        ]);
+
+        this.logService.info(`[SSHService] 启动隧道 ${info.name}: ${info.type === 'local' ? '-L' : '-R'} ${forward} via ${info.host}`);
 
-            checkConnection();
+        info.status = 'starting';
+        info.error = undefined;
+        tunnel.stderr = '';
+
+        const sshProcess = spawn('ssh', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        tunnel.process = sshProcess;
+
+        sshProcess.stderr?.on('data', (data: Buffer) => {
+            tunnel.stderr = (tunnel.stderr + data.toString()).slice(-2000);
         });
+
+        const onExit = (reason: string) => {
+            if (tunnel.process !== sshProcess) {
+                return;
+            }
+            tunnel.process = undefined;
+            if (tunnel.closing) {
+                return;
+            }
+            const detail = tunnel.stderr.trim().split('\n').pop();
+            info.status = 'failed';
+            info.error = detail || reason;
+            this.logService.warn(`[SSHService] 隧道 ${info.name} 已退出: ${info.error}`);
+            this.fireTunnelsChanged();
+        };
+        sshProcess.on('close', (code) => onExit(`ssh 退出码: ${code}`));
+        sshProcess.on('error', (err) => onExit(err.message));
+
+        const startedAt = Date.now();
+        while (tunnel.process === sshProcess) {
+            const ready = info.type === 'local'
+                ? await probePort(info.bindAddress, info.bindPort)
+                : Date.now() - startedAt >= REMOTE_TUNNEL_SETTLE_TIME;
+
+            // 探测期间进程可能已退出（例如端口被占用）
+            if (ready && tunnel.process === sshProcess) {
+                info.status = 'active';
+                info.lastCheckedAt = Date.now();
+                this.logService.info(`[SSHService] 隧道已建立: ${info.name}`);
+                this.fireTunnelsChanged();
+                return;
+            }
+
+            if (Date.now() - startedAt > CONNECT_TIMEOUT + REMOTE_TUNNEL_SETTLE_TIME) {
+                // 先解除关联，进程退出时不再触发失败处理
+                tunnel.process = undefined;
+                sshProcess.kill('SIGTERM');
+                throw new Error('隧道建立超时');
+            }
+
+            await delay(300);
+        }
+
+        throw new Error(`隧道建立失败: ${info.error ?? '未知错误'}`);
+    }
+
+    private ensureHealthTimer(): void {
+        if (this.healthTimer) {
+            return;
+        }
+        this.healthTimer = setInterval(() => {
+            void this.checkTunnels();
+        }, TUNNEL_HEALTH_INTERVAL);
+    }
+
+    private fireTunnelsChanged(): void {
+        this.onDidChangeTunnelsEmitter.fire(this.getTunnels());
     }
 
     /**
-     * 等待命令完成
+     * 执行远程文件操作命令，失败时抛出包含 stderr 的错误
      */
-    private waitForCommandComplete(
+    private async runFileCommand(sessionId: string, command: string, label: string): Promise<string> {
+        const result = await this.executeCommand(sessionId, command, {
+            timeout: FILE_COMMAND_TIMEOUT,
+            quiet: true,
+            label
+        });
+        if (!result.success) {
+            const detail = result.stderr.trim() || result.error || '未知错误';
+            throw new Error(`${label} 失败: ${detail}`);
+        }
+        return result.stdout;
+    }
+
+    /**
+     * 在会话中执行一条命令（调用方保证同一时间只有一条命令）
+     * @param onComplete 命令真正结束（收到结束标记或连接断开）时调用，可能晚于超时返回
+     */
+    private runCommand(
         session: SSHSession,
-        endMarker: string,
-        timeout: number,
-        outputBefore: number
+        command: string,
+        options: SSHCommandOptions,
+        onComplete?: () => void
     ): Promise<SSHCommandResult> {
-        return new Promise((resolve) => {
-            const startTime = Date.now();
-
-            const checkComplete = () => {
-                const newOutput = session.outputBuffer.substring(outputBefore);
-
-                // 检查是否包含结束标记
-                if (newOutput.includes(endMarker)) {
-                    // 移除结束标记
-                    const cleanOutput = newOutput
-                        .replace(new RegExp(`echo "${endMarker}"\\n?`, 'g'), '')
-                        .replace(new RegExp(`${endMarker}\\n?`, 'g'), '')
-                        .trim();
-
-                    resolve({
-                        success: true,
-                        output: cleanOutput
-                    });
-                    return;
+        const id = `${++this.commandCounter}`;
+        const marker = `${MARKER_PREFIX}${id}_${Date.now()}__`;
+        const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+
+        this.logService.info(`[SSH ${session.id}] 执行命令 #${id}: ${options.label ?? command}`);
+
+        // 连接探测和内部命令不通知终端 / 会话面板
+        const notify = session.isConnected && !options.quiet;
+        const lifecycle = { sessionId: session.id, commandId: id, command };
+
+        return new Promise<SSHCommandResult>((resolve) => {
+            const running: SSHRunningCommand = {
+                id,
+                command,
+                marker,
+                startedAt: Date.now(),
+                stdout: '',
+                stderr: '',
+                emitted: { stdout: 0, stderr: 0 },
+                end: {},
+                timedOut: false,
+                onOutput: options.onOutput,
+                quiet: options.quiet,
+                finish: (result) => {
+                    clearTimeout(timer);
+                    resolve(result);
+                    onComplete?.();
+                    if (notify) {
+                        this.onDidExecuteCommandEmitter.fire({ ...lifecycle, state: 'finished', exitCode: result.exitCode });
+                        this.onDidChangeSessionsEmitter.fire();
+                    }
                 }
+            };
 
-                // 检查连接是否断开
-                if (!session.isConnected) {
-                    resolve({
-                        success: false,
-                        output: newOutput,
-                        error: '连接已断开'
-                    });
-                    return;
-                }
+            const timer = setTimeout(() => {
+                running.timedOut = true;
+                running.onOutput = undefined;
+                this.logService.warn(`[SSH ${session.id}] 命令 #${id} 超时（${timeout}ms），继续在远程执行`);
+                resolve(this.buildResult(running, '命令执行超时'));
+            }, timeout);
+
+            session.running = running;
+            session.lastActivity = running.startedAt;
+            if (notify) {
+                this.onDidExecuteCommandEmitter.fire({ ...lifecycle, state: 'started' });
+                this.onDidChangeSessionsEmitter.fire();
+            }
 
-                // 检查超时
-                if (Date.now() - startTime > timeout) {
-                    resolve({
-                        success: false,
-                        output: newOutput,
-                        error: '命令执行超时'
-                    });
-                    return;
-                }
+            // 命令从 /dev/null 读取输入，避免读取后续命令；结束后在两个流上输出结束标记
+            const script = [
+                `command eval ${shellQuote(command)} < /dev/null`,
+                `__xiong_status=$?`,
+                `printf '\\n%s:%s\\n' '${marker}' "$__xiong_status"`,
+                `printf '\\n%s\\n' '${marker}' >&2`,
+            ].join('; ');
+            session.process.stdin?.write(`${script}\n`);
+        });
+    }
 
-                // 继续等待
-                setTimeout(checkComplete, 100);
-            };
+    /**
+     * 处理 ssh 进程输出：归入当前命令并转发部分输出
+     */
+    private handleData(session: SSHSession, stream: SSHOutputStream, text: string): void {
+        session.lastActivity = Date.now();
 
-            checkComplete();
-        });
+        const running = session.running;
+        if (!running) {
+            this.appendOutput(session, stream, text);
+            return;
+        }
+
+        running[stream] += text;
+        const buffer = running[stream];
+
+        // stdout 标记携带退出码，stderr 标记仅表示 stderr 已输出完毕
+        const endPattern = stream === 'stdout'
+            ? new RegExp(`\\n${running.marker}:(\\d+)\\n`)
+            : new RegExp(`\\n${running.marker}\\n`);
+        const match = running.end[stream] === undefined ? endPattern.exec(buffer) : null;
+        if (match) {
+            running.end[stream] = match.index;
+            if (stream === 'stdout') {
+                running.exitCode = parseInt(match[1], 10);
+            }
+        }
+
+        const end = running.end[stream] ?? buffer.length - partialSuffixLength(buffer, `\n${running.marker}`);
+        if (end > running.emitted[stream]) {
+            const chunk = buffer.slice(running.emitted[stream], end);
+            running.emitted[stream] = end;
+            running.onOutput?.(stream, chunk);
+            if (!running.quiet) {
+                this.appendOutput(session, stream, chunk);
+                this.onDidCommandOutputEmitter.fire({
+                    sessionId: session.id,
+                    commandId: running.id,
+                    command: running.command,
+                    stream,
+                    data: chunk
+                });
+            }
+        }
+
+        if (running.end.stdout !== undefined && running.end.stderr !== undefined) {
+            session.running = undefined;
+            const result = this.buildResult(running);
+            this.logService.info(`[SSH ${session.id}] 命令 #${running.id} 完成，退出码: ${result.exitCode}（${result.durationMs}ms）`);
+            running.finish(result);
+        }
+    }
+
+    /**
+     * 连接断开时结束当前命令
+     */
+    private abortRunning(session: SSHSession, error: string): void {
+        const running = session.running;
+        if (!running) {
+            return;
+        }
+        session.running = undefined;
+        running.finish(this.buildResult(running, error));
+    }
+
+    /**
+     * 追加到会话输出缓冲区（供 read_output 读取，移除残留的结束标记）
+     */
+    private appendOutput(session: SSHSession, stream: SSHOutputStream, text: string): void {
+        const clean = text.replace(STRAY_MARKER_PATTERN, '\n');
+        session.outputBuffer += stream === 'stderr' ? `[stderr] ${clean}` : clean;
+    }
+
+    private buildResult(running: SSHRunningCommand, error?: string): SSHCommandResult {
+        const stdout = running.stdout.slice(0, running.end.stdout ?? running.emitted.stdout);
+        const stderr = running.stderr.slice(0, running.end.stderr ?? running.emitted.stderr);
+        const exitCode = error ? null : running.exitCode ?? null;
+
+        return {
+            success: exitCode === 0,
+            exitCode,
+            stdout,
+            stderr,
+            output: combineOutput(stdout, stderr),
+            error: error ?? (exitCode !== 0 ? `命令退出码: ${exitCode}` : undefined),
+            timedOut: running.timedOut || undefined,
+            durationMs: Date.now() - running.startedAt
+        };
+    }
+
+    private failedResult(error: string): SSHCommandResult {
+        return {
+            success: false,
+            exitCode: null,
+            stdout: '',
+            stderr: '',
+            output: '',
+            error,
+            durationMs: 0
+        };
     }
 }
@@ -0,0 +1,256 @@
+/**
+ * SSH 伪终端 / SSH Pseudoterminal
+ *
+ * 将 SSH 会话挂载到 VS Code 终端，供用户接管或旁观 agent 在远程主机上的操作：
+ * - 打开时回放会话输出缓冲区，之后实时显示会话中执行的所有命令（包括 agent 执行的）及其输出
+ * - 用户输入按行提交，与 agent 的命令进入同一会话队列，输出缓冲区共享
+ *
+ * 会话不分配远程伪终端（-T），因此不支持 vim、top 等交互式程序。
+ */
+
+import * as vscode from 'vscode';
+import type { ISSHService } from './sshService';
+
+/** 终端中输入的命令超时（毫秒），超时后命令仍在远程执行 */
+const TERMINAL_COMMAND_TIMEOUT = 10 * 60 * 1000;
+
+const COLOR_RESET = '\x1b[0m';
+const COLOR_RED = '\x1b[31m';
+const COLOR_GREEN = '\x1b[32m';
+const COLOR_YELLOW = '\x1b[33m';
+const COLOR_DIM = '\x1b[2m';
+
+/**
+ * 终端换行需要 \r\n
+ */
+function toTerminalText(text: string): string {
+    return text.replace(/\r?\n/g, '\r\n');
+}
+
+export class SSHPseudoterminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite = this.writeEmitter.event;
+
+    private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+    readonly onDidClose = this.closeEmitter.event;
+
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** 当前输入行 */
+    private line = '';
+    /** 提示符是否显示在最后一行 */
+    private promptVisible = false;
+    /** 最后输出的内容是否以换行结尾 */
+    private atLineStart = true;
+    /** 本终端提交、尚未开始执行的命令（按提交顺序，开始时不再重复显示命令行） */
+    private readonly submitted: string[] = [];
+    private disconnected = false;
+    /** 会话正在自动重连 */
+    private reconnecting = false;
+
+    /**
+     * @param onDispose 终端关闭时调用（会话本身不会断开）
+     */
+    constructor(
+        private readonly sessionId: string,
+        private readonly label: string,
+        private readonly sshService: ISSHService,
+        private readonly onDispose: () => void
+    ) {}
+
+    open(): void {
+        this.write(`${COLOR_DIM}已挂载 SSH 会话 ${this.sessionId}（${this.label}）。` +
+            `输入的命令与 agent 共用同一会话，不支持交互式程序；关闭终端不会断开会话。${COLOR_RESET}\r\n`);
+
+        const history = this.sshService.getOutput(this.sessionId);
+        if (history) {
+            this.writeOutput(history);
+            this.ensureLineStart();
+        }
+
+        this.disposables.push(
+            this.sshService.onDidExecuteCommand(e => {
+                if (e.sessionId !== this.sessionId) {
+                    return;
+                }
+                if (e.state === 'started') {
+                    this.hidePrompt();
+                    if (this.submitted[0] === e.command) {
+                        this.submitted.shift();
+                    } else {
+                        this.write(`${COLOR_YELLOW}$ ${toTerminalText(e.command)}${COLOR_RESET}\r\n`);
+                    }
+                } else {
+                    this.ensureLineStart();
+                    if (e.exitCode !== 0) {
+                        this.write(`${COLOR_RED}[退出码: ${e.exitCode ?? '无'}]${COLOR_RESET}\r\n`);
+                    }
+                    this.showPrompt();
+                }
+            }),
+            this.sshService.onDidCommandOutput(e => {
+                if (e.sessionId !== this.sessionId) {
+                    return;
+                }
+                this.hidePrompt();
+                this.writeOutput(e.data, e.stream === 'stderr');
+            }),
+            this.sshService.onDidChangeSessions(() => this.updateConnectionState())
+        );
+
+        this.showPrompt();
+    }
+
+    close(): void {
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables.length = 0;
+        this.onDispose();
+    }
+
+    handleInput(data: string): void {
+        if (this.disconnected) {
+            return;
+        }
+
+        // 方向键等转义序列不支持行内编辑，直接忽略
+        if (data.startsWith('\x1b')) {
+            return;
+        }
+
+        for (const ch of data) {
+            switch (ch) {
+                case '\r':
+                    this.submit();
+                    break;
+                case '\x7f':
+                case '\b':
+                    if (this.line.length > 0) {
+                        this.line = this.line.slice(0, -1);
+                        this.write('\b \b');
+                    }
+                    break;
+                case '\x03':
+                    // Ctrl+C 只清除当前输入（无法中断远程 eval 中的命令）
+                    this.line = '';
+                    this.write('^C\r\n');
+                    this.promptVisible = false;
+                    this.atLineStart = true;
+                    this.showPrompt();
+                    break;
+                case '\x04':
+                    // Ctrl+D 关闭终端（不断开会话）
+                    this.closeEmitter.fire();
+                    break;
+                default:
+                    if (ch >= ' ') {
+                        this.line += ch;
+                        this.write(ch);
+                    }
+            }
+        }
+    }
+
+    /**
+     * 提交当前行：输出通过会话事件显示，这里只处理提交失败
+     */
+    private submit(): void {
+        const command = this.line.trim();
+        this.line = '';
+        this.write('\r\n');
+        this.promptVisible = false;
+        this.atLineStart = true;
+
+        if (!command) {
+            this.showPrompt();
+            return;
+        }
+
+        this.submitted.push(command);
+        void this.sshService.executeCommand(this.sessionId, command, { timeout: TERMINAL_COMMAND_TIMEOUT }).then(result => {
+            const index = this.submitted.indexOf(command);
+            if (index !== -1) {
+                // 命令没有开始执行（例如会话已断开）
+                this.submitted.splice(index, 1);
+                this.write(`${COLOR_RED}${result.error ?? '命令执行失败'}${COLOR_RESET}\r\n`);
+                this.showPrompt();
+            } else if (result.timedOut) {
+                this.ensureLineStart();
+                this.write(`${COLOR_DIM}[命令仍在远程执行]${COLOR_RESET}\r\n`);
+            }
+        });
+    }
+
+    /**
+     * 根据会话状态显示断开 / 重连提示（会话移除后终端不再接受输入）
+     */
+    private updateConnectionState(): void {
+        if (this.disconnected) {
+            return;
+        }
+
+        const info = this.sshService.getSessionInfos().find(s => s.id === this.sessionId);
+        if (info?.reconnecting) {
+            if (!this.reconnecting) {
+                this.reconnecting = true;
+                this.hidePrompt();
+                this.ensureLineStart();
+                this.write(`${COLOR_YELLOW}连接已断开，正在自动重连…${COLOR_RESET}\r\n`);
+            }
+        } else if (info?.isConnected) {
+            if (this.reconnecting) {
+                this.reconnecting = false;
+                this.ensureLineStart();
+                this.write(`${COLOR_DIM}已重新连接（远程工作目录和环境变量已重置）${COLOR_RESET}\r\n`);
+                this.showPrompt();
+            }
+        } else {
+            this.disconnected = true;
+            this.hidePrompt();
+            this.ensureLineStart();
+            this.write(`${COLOR_RED}SSH 会话已断开${COLOR_RESET}\r\n`);
+        }
+    }
+
+    private showPrompt(): void {
+        if (this.promptVisible || this.disconnected) {
+            return;
+        }
+        this.ensureLineStart();
+        this.write(`${COLOR_GREEN}${this.label}${COLOR_RESET}$ ${this.line}`);
+        this.promptVisible = true;
+        this.atLineStart = false;
+    }
+
+    /**
+     * 清除提示符所在行，为外部输出让出位置（输入中的内容在下次显示提示符时恢复）
+     */
+    private hidePrompt(): void {
+        if (!this.promptVisible) {
+            return;
+        }
+        this.write('\r\x1b[K');
+        this.promptVisible = false;
+        this.atLineStart = true;
+    }
+
+    private writeOutput(text: string, isError = false): void {
+        if (!text) {
+            return;
+        }
+        this.write(isError ? `${COLOR_RED}${toTerminalText(text)}${COLOR_RESET}` : toTerminalText(text));
+        this.atLineStart = text.endsWith('\n');
+    }
+
+    private ensureLineStart(): void {
+        if (!this.atLineStart) {
+            this.write('\r\n');
+            this.atLineStart = true;
+        }
+    }
+
+    private write(text: string): void {
+        this.writeEmitter.fire(text);
+    }
+}
@@ -0,0 +1,486 @@
+/**
+ * 任务文件解析与修改 / Task File Helpers
+ *
+ * .tasks/current.md 按二级标题分为「进行中」「待办」「已完成」三节，
+ * 每个任务是一行顶格的 `- [ ] 标题`，其后缩进的行（子项、备注、失败记录）属于该任务。
+ *
+ * 扩展格式（均可省略，纯复选框照常工作）：
+ * - 任务行末尾的 `#id` 为稳定 ID，`@high` / `@medium` / `@low` 为优先级
+ * - 缩进的 `- [ ] ...` 为子任务
+ * - 缩进的 `- depends-on: id1, id2`、`- acceptance: ...`、`- verify: 命令`
+ *   （也可写作 `依赖：`、`验收：`、`验证：`）
+ *
+ * 这里只做纯文本处理，不访问文件系统；修改函数返回新的文件内容。
+ */
+
+import type { TaskInfo, TaskPriority, TaskSection, TaskSubtask } from '../shared/tasks';
+
+export type { TaskPriority, TaskSection, TaskSubtask } from '../shared/tasks';
+
+/**
+ * 任务文件中的一个任务
+ */
+export interface TaskFileItem {
+    /** 标题（不含 `#id` 和 `@优先级`） */
+    title: string;
+    checked: boolean;
+    section: TaskSection;
+    id?: string;
+    priority?: TaskPriority;
+    /** 依赖的任务 ID */
+    dependsOn: string[];
+    subtasks: TaskSubtask[];
+    /** 验收标准 */
+    acceptance: string[];
+    /** 该任务专用的验证命令 */
+    verify?: string;
+    /** 任务行的行号（从 0 开始） */
+    line: number;
+    /** 任务块结束行号（不含），包括其后缩进的行 */
+    endLine: number;
+    /** 任务下方缩进的内容（去掉公共缩进） */
+    body: string[];
+}
+
+/** 新建节时使用的标题 */
+const SECTION_HEADINGS: Record<TaskSection, string> = {
+    'in-progress': '## 进行中',
+    'pending': '## 待办',
+    'completed': '## 已完成'
+};
+
+/** 节在文件中的默认顺序 */
+const SECTION_ORDER: TaskSection[] = ['in-progress', 'pending', 'completed'];
+
+const TASK_LINE_PATTERN = /^- \[([ xX])\] (.+)$/;
+const CHECKBOX_PATTERN = /^- \[[ xX]\]/;
+const METADATA_PATTERN = /^(?:- )?([^:：]+)[:：]\s*(.*)$/;
+const ID_TOKEN_PATTERN = /^#([A-Za-z0-9][\w.-]*)$/;
+const PRIORITY_TOKEN_PATTERN = /^@(\S+)$/;
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+    'high': 'high', 'p0': 'high', 'p1': 'high', '高': 'high',
+    'medium': 'medium', 'p2': 'medium', '中': 'medium',
+    'low': 'low', 'p3': 'low', '低': 'low'
+};
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+type MetadataKey = 'dependsOn' | 'acceptance' | 'verify';
+
+const METADATA_KEYS: Record<string, MetadataKey> = {
+    'depends-on': 'dependsOn',
+    'depends on': 'dependsOn',
+    'depends': 'dependsOn',
+    '依赖': 'dependsOn',
+    'acceptance': 'acceptance',
+    '验收': 'acceptance',
+    '验收标准': 'acceptance',
+    'verify': 'verify',
+    '验证': 'verify'
+};
+
+/**
+ * 根据二级标题识别任务节
+ */
+export function detectSection(heading: string): TaskSection | null {
+    const title = heading.toLowerCase();
+    if (title.includes('进行中') || title.includes('in progress') || title.includes('in-progress')) {
+        return 'in-progress';
+    }
+    if (title.includes('待办') || title.includes('todo') || title.includes('pending')) {
+        return 'pending';
+    }
+    if (title.includes('已完成') || title.includes('completed') || title.includes('done')) {
+        return 'completed';
+    }
+    return null;
+}
+
+/**
+ * 解析顶层任务（缩进的复选框视为所属任务的内容）
+ */
+export function parseTaskItems(content: string): TaskFileItem[] {
+    const lines = content.split('\n');
+    const items: TaskFileItem[] = [];
+    let section: TaskSection | null = null;
+    let current: TaskFileItem | null = null;
+
+    const closeCurrent = (endLine: number) => {
+        if (current) {
+            current.endLine = trimTrailingBlank(lines, current.line + 1, endLine);
+            current.body = dedent(lines.slice(current.line + 1, current.endLine));
+            applyTaskMetadata(current);
+            items.push(current);
+            current = null;
+        }
+    };
+
+    lines.forEach((rawLine, index) => {
+        const line = rawLine.replace(/\r$/, '');
+
+        if (line.startsWith('#')) {
+            closeCurrent(index);
+            section = line.startsWith('## ') ? detectSection(line.slice(3)) : section;
+            return;
+        }
+
+        // 缩进行和空行属于当前任务
+        if (current && (line.trim() === '' || /^\s/.test(line))) {
+            return;
+        }
+
+        closeCurrent(index);
+
+        const match = section ? TASK_LINE_PATTERN.exec(line) : null;
+        const heading = match ? parseTaskHeading(match[2]) : undefined;
+        if (match && heading?.title) {
+            current = {
+                ...heading,
+                checked: match[1].toLowerCase() === 'x',
+                section: section!,
+                dependsOn: [],
+                subtasks: [],
+                acceptance: [],
+                line: index,
+                endLine: index + 1,
+                body: []
+            };
+        }
+    });
+    closeCurrent(lines.length);
+
+    return items;
+}
+
+/**
+ * 未完成（或不存在）的依赖 ID；没有依赖或依赖都已勾选时返回空数组
+ */
+export function getBlockingDependencies(items: TaskFileItem[], item: TaskFileItem): string[] {
+    return item.dependsOn.filter(id => {
+        const dependency = items.find(other => other.id === id);
+        return !dependency || !dependency.checked;
+    });
+}
+
+/**
+ * 下一个待执行的任务：先「进行中」后「待办」，各节内按优先级、再按文件顺序；跳过依赖未完成的任务
+ */
+export function findNextTask(
+    items: TaskFileItem[],
+    skip: (item: TaskFileItem) => boolean = () => false
+): TaskFileItem | undefined {
+    const candidates = items
+        .filter(item => !item.checked && item.section !== 'completed' && !skip(item))
+        .filter(item => getBlockingDependencies(items, item).length === 0)
+        .sort((a, b) => priorityRank(a) - priorityRank(b));
+    return candidates.find(item => item.section === 'in-progress')
+        ?? candidates.find(item => item.section === 'pending');
+}
+
+/**
+ * 转换为推送给 WebView 的任务信息（附带阻塞状态）
+ */
+export function toTaskInfos(items: TaskFileItem[]): TaskInfo[] {
+    return items.map(item => {
+        const blockedBy = item.checked ? [] : getBlockingDependencies(items, item);
+        const info: TaskInfo = {
+            title: item.title,
+            status: item.checked ? 'completed' : 'pending',
+            section: item.section
+        };
+        if (item.id) {
+            info.id = item.id;
+        }
+        if (item.priority) {
+            info.priority = item.priority;
+        }
+        if (item.dependsOn.length > 0) {
+            info.dependsOn = item.dependsOn;
+        }
+        if (item.subtasks.length > 0) {
+            info.subtasks = item.subtasks;
+        }
+        if (item.acceptance.length > 0) {
+            info.acceptance = item.acceptance;
+        }
+        if (item.verify) {
+            info.verify = item.verify;
+        }
+        if (blockedBy.length > 0) {
+            info.blocked = true;
+            info.blockedBy = blockedBy;
+        }
+        return info;
+    });
+}
+
+/**
+ * 将任务移到指定节末尾并设置勾选状态（任务下方的内容一起移动）
+ * 找不到任务时返回原内容
+ */
+export function moveTask(content: string, title: string, target: TaskSection, checked: boolean): string {
+    const item = findTaskByTitle(parseTaskItems(content), title);
+    if (!item) {
+        return content;
+    }
+
+    const lines = content.split('\n');
+    const block = lines.slice(item.line, item.endLine);
+    block[0] = block[0].replace(CHECKBOX_PATTERN, `- [${checked ? 'x' : ' '}]`);
+    lines.splice(item.line, item.endLine - item.line);
+
+    return insertIntoSection(lines, target, block).join('\n');
+}
+
+/**
+ * 标记为进行中（移到「进行中」，不勾选）
+ */
+export function markTaskInProgress(content: string, title: string): string {
+    return moveTask(content, title, 'in-progress', false);
+}
+
+/**
+ * 标记为已完成（勾选并移到「已完成」）
+ */
+export function markTaskCompleted(content: string, title: string): string {
+    return moveTask(content, title, 'completed', true);
+}
+
+/**
+ * 在任务下方追加一条缩进的备注（多行备注的后续行缩进到备注之下）
+ */
+export function appendTaskNote(content: string, title: string, note: string): string {
+    const item = findTaskByTitle(parseTaskItems(content), title);
+    if (!item) {
+        return content;
+    }
+
+    const [first, ...rest] = note.split('\n');
+    const noteLines = [`  - ${first}`, ...rest.map(line => `    ${line}`)];
+    const lines = content.split('\n');
+    lines.splice(item.endLine, 0, ...noteLines);
+    return lines.join('\n');
+}
+
+/**
+ * 在指定节末尾添加任务（`text` 可带 `#id` / `@优先级` 标记）
+ */
+export function appendTask(content: string, section: TaskSection, text: string, checked: boolean): string {
+    const lines = content.split('\n');
+    return insertIntoSection(lines, section, [`- [${checked ? 'x' : ' '}] ${text}`]).join('\n');
+}
+
+/**
+ * 删除任务及其下方的内容；找不到任务时返回原内容
+ */
+export function removeTask(content: string, title: string): string {
+    const item = findTaskByTitle(parseTaskItems(content), title);
+    if (!item) {
+        return content;
+    }
+
+    const lines = content.split('\n');
+    lines.splice(item.line, item.endLine - item.line);
+    return lines.join('\n');
+}
+
+/**
+ * 修改任务标题，保留行末的 `#id` / `@优先级` 标记
+ */
+export function setTaskTitle(content: string, title: string, newTitle: string): string {
+    const item = findTaskByTitle(parseTaskItems(content), title);
+    if (!item) {
+        return content;
+    }
+
+    const lines = content.split('\n');
+    const markers = [
+        item.id ? `#${item.id}` : '',
+        item.priority ? `@${item.priority}` : ''
+    ].filter(Boolean).join(' ');
+    lines[item.line] = `- [${item.checked ? 'x' : ' '}] ${newTitle}${markers ? ` ${markers}` : ''}`;
+    return lines.join('\n');
+}
+
+/**
+ * 为所有没有 ID 的任务在行末添加 `#id`
+ */
+export function assignMissingTaskIds(content: string, createId: () => string): string {
+    const lines = content.split('\n');
+    for (const item of parseTaskItems(content)) {
+        if (!item.id) {
+            lines[item.line] = `${lines[item.line].replace(/\s+$/, '')} #${createId()}`;
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * 按标题（或 ID）查找任务（同名时优先未勾选的）
+ */
+export function findTaskByTitle(items: TaskFileItem[], title: string): TaskFileItem | undefined {
+    const matches = (item: TaskFileItem) => item.title === title || (!!item.id && item.id === title);
+    return items.find(item => matches(item) && !item.checked)
+        ?? items.find(matches);
+}
+
+// ===== 内部工具 =====
+
+/**
+ * 从任务行末尾取出 `#id` 和 `@优先级`（只识别末尾连续的标记，标题中间的 # 保持原样）
+ */
+function parseTaskHeading(text: string): { title: string; id?: string; priority?: TaskPriority } {
+    const tokens = text.trim().split(/\s+/);
+    let id: string | undefined;
+    let priority: TaskPriority | undefined;
+
+    while (tokens.length > 1) {
+        const token = tokens[tokens.length - 1];
+        const idMatch = ID_TOKEN_PATTERN.exec(token);
+        const priorityMatch = PRIORITY_TOKEN_PATTERN.exec(token);
+        const alias = priorityMatch ? PRIORITY_ALIASES[priorityMatch[1].toLowerCase()] : undefined;
+
+        if (idMatch && !id) {
+            id = idMatch[1];
+        } else if (alias && !priority) {
+            priority = alias;
+        } else {
+            break;
+        }
+        tokens.pop();
+    }
+
+    return { title: tokens.join(' '), id, priority };
+}
+
+/**
+ * 从任务下方的内容中解析子任务、依赖、验收标准和验证命令
+ * 值为空的 `acceptance:` 之后更深缩进的列表项都算作验收标准
+ */
+function applyTaskMetadata(item: TaskFileItem): void {
+    let listKey: MetadataKey | undefined;
+    let listIndent = 0;
+
+    for (const line of item.body) {
+        const indent = line.length - line.trimStart().length;
+        const trimmed = line.trim();
+        if (!trimmed) {
+            continue;
+        }
+
+        if (listKey && indent > listIndent && trimmed.startsWith('- ')) {
+            addMetadata(item, listKey, trimmed.slice(2));
+            continue;
+        }
+        listKey = undefined;
+
+        // 只识别第一层缩进，更深的内容属于子任务或备注
+        if (indent > 0) {
+            continue;
+        }
+
+        const subtask = TASK_LINE_PATTERN.exec(trimmed);
+        if (subtask) {
+            item.subtasks.push({ title: subtask[2].trim(), checked: subtask[1].toLowerCase() === 'x' });
+            continue;
+        }
+
+        const metadata = METADATA_PATTERN.exec(trimmed);
+        const key = metadata ? METADATA_KEYS[metadata[1].trim().toLowerCase()] : undefined;
+        if (!metadata || !key) {
+            continue;
+        }
+
+        const value = metadata[2].trim();
+        if (value) {
+            addMetadata(item, key, value);
+        } else {
+            listKey = key;
+            listIndent = indent;
+        }
+    }
+}
+
+function addMetadata(item: TaskFileItem, key: MetadataKey, value: string): void {
+    switch (key) {
+        case 'dependsOn':
+            item.dependsOn.push(...value.split(/[,，\s]+/).map(id => id.replace(/^#/, '')).filter(Boolean));
+            break;
+        case 'acceptance':
+            item.acceptance.push(value);
+            break;
+        case 'verify':
+            item.verify = value.replace(/^`+|`+$/g, '').trim() || undefined;
+            break;
+    }
+}
+
+function priorityRank(item: TaskFileItem): number {
+    return PRIORITY_RANK[item.priority ?? 'medium'];
+}
+
+/**
+ * 插入到节末尾（节内最后一个非空行之后）；节不存在时按默认顺序新建
+ */
+function insertIntoSection(lines: string[], section: TaskSection, block: string[]): string[] {
+    const headings = findSectionHeadings(lines);
+    const start = headings.get(section);
+
+    if (start !== undefined) {
+        let end = lines.length;
+        for (let i = start + 1; i < lines.length; i++) {
+            if (lines[i].startsWith('#') || lines[i].trim() === '---') {
+                end = i;
+                break;
+            }
+        }
+        const insertAt = trimTrailingBlank(lines, start + 1, end);
+        lines.splice(insertAt, 0, ...block);
+        return lines;
+    }
+
+    // 插入到顺序在其后的第一个已有节之前，否则追加到文件末尾
+    const following = SECTION_ORDER.slice(SECTION_ORDER.indexOf(section) + 1)
+        .map(s => headings.get(s))
+        .find((line): line is number => line !== undefined);
+    const newSection = [SECTION_HEADINGS[section], ...block, ''];
+
+    if (following !== undefined) {
+        lines.splice(following, 0, ...newSection);
+        return lines;
+    }
+
+    const end = trimTrailingBlank(lines, 0, lines.length);
+    lines.splice(end, lines.length - end, ...(end > 0 ? [''] : []), ...newSection);
+    return lines;
+}
+
+function findSectionHeadings(lines: string[]): Map<TaskSection, number> {
+    const headings = new Map<TaskSection, number>();
+    lines.forEach((line, index) => {
+        if (line.startsWith('## ')) {
+            const section = detectSection(line.slice(3));
+            if (section && !headings.has(section)) {
+                headings.set(section, index);
+            }
+        }
+    });
+    return headings;
+}
+
+/**
+ * 去掉 [start, end) 末尾的空行，返回新的 end
+ */
+function trimTrailingBlank(lines: string[], start: number, end: number): number {
+    while (end > start && lines[end - 1].trim() === '') {
+        end--;
+    }
+    return end;
+}
+
+function dedent(lines: string[]): string[] {
+    const indents = lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length);
+    const common = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(line => line.slice(common).replace(/\r$/, ''));
+}
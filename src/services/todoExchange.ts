@@ -0,0 +1,358 @@
+/**
+ * Todo 导入导出格式转换 / Todo Import & Export
+ *
+ * 支持的格式：
+ * - github：GitHub issue JSON（REST API 或 `gh issue list --json number,title,state,labels,url` 的输出）
+ * - gitlab：GitLab issue JSON（REST API 导出）
+ * - csv：表头包含 title（或 content）列，可选 id、status、priority、tags、url 列
+ * - markdown：复选框清单 `- [ ] 内容 @high #标签 <!-- id: 123 -->`，`[/]` 表示进行中
+ *
+ * 优先级和状态在 issue 中以标签表示（`priority: high`、`priority::high`、`P1`、`status: in progress`、
+ * `workflow::doing` 等），其余标签作为 Todo 标签。
+ *
+ * 这里只做纯文本处理，不访问文件系统。
+ */
+
+import type { LocalTodo, TodoExchangeFormat, TodoExternalRef } from '../shared/todos';
+
+export type { TodoExchangeFormat, TodoExternalRef } from '../shared/todos';
+
+type TodoStatus = LocalTodo['status'];
+type TodoPriority = NonNullable<LocalTodo['priority']>;
+
+/**
+ * 从外部格式解析出的 Todo
+ */
+export interface ImportedTodo {
+    content: string;
+    status: TodoStatus;
+    priority?: TodoPriority;
+    tags?: string[];
+    external?: TodoExternalRef;
+}
+
+/** 各格式导出文件的扩展名 */
+export const TODO_FORMAT_EXTENSIONS: Record<TodoExchangeFormat, string> = {
+    github: 'json',
+    gitlab: 'json',
+    csv: 'csv',
+    markdown: 'md'
+};
+
+const PRIORITY_ALIASES: Record<string, TodoPriority> = {
+    'high': 'high', 'urgent': 'high', 'critical': 'high', 'p0': 'high', 'p1': 'high', '高': 'high',
+    'medium': 'medium', 'normal': 'medium', 'p2': 'medium', '中': 'medium',
+    'low': 'low', 'minor': 'low', 'p3': 'low', 'p4': 'low', '低': 'low'
+};
+
+const STATUS_ALIASES: Record<string, TodoStatus> = {
+    'pending': 'pending', 'todo': 'pending', 'to do': 'pending', 'open': 'pending', 'opened': 'pending', '待办': 'pending',
+    'in_progress': 'in_progress', 'in progress': 'in_progress', 'in-progress': 'in_progress', 'doing': 'in_progress',
+    'wip': 'in_progress', '进行中': 'in_progress',
+    'completed': 'completed', 'done': 'completed', 'closed': 'completed', 'x': 'completed', '已完成': 'completed'
+};
+
+const PRIORITY_LABEL_PREFIX = /^(?:priority|prio)\s*(?:::|:|\/|-|\s)\s*/;
+const STATUS_LABEL_PREFIX = /^(?:status|state|workflow)\s*(?:::|:|\/|-|\s)\s*/;
+const CHECKLIST_PATTERN = /^\s*[-*+] \[([ xX/~-])\] (.+)$/;
+const MARKDOWN_ID_PATTERN = /\s*<!--\s*id:\s*(.+?)\s*-->\s*$/;
+
+/**
+ * 根据文件名和内容猜测格式
+ */
+export function detectTodoFormat(fileName: string, text: string): TodoExchangeFormat | undefined {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.csv')) {
+        return 'csv';
+    }
+    if (lower.endsWith('.md') || lower.endsWith('.markdown')) {
+        return 'markdown';
+    }
+
+    const trimmed = text.trimStart();
+    if (lower.endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        // GitLab issue 带 iid / web_url，GitHub 带 number / html_url
+        return /"(?:iid|web_url)"\s*:/.test(text) ? 'gitlab' : 'github';
+    }
+    return undefined;
+}
+
+/**
+ * 解析外部格式
+ */
+export function parseTodos(format: TodoExchangeFormat, text: string): ImportedTodo[] {
+    switch (format) {
+        case 'github':
+        case 'gitlab':
+            return parseIssueJson(format, text);
+        case 'csv':
+            return parseCsv(text);
+        case 'markdown':
+            return parseMarkdown(text);
+    }
+}
+
+/**
+ * 导出为外部格式；来源相同的外部 ID 会写回，便于再次导入时对应
+ */
+export function formatTodos(format: TodoExchangeFormat, todos: LocalTodo[]): string {
+    switch (format) {
+        case 'github':
+            return JSON.stringify(todos.map(todo => ({
+                ...(todo.external?.source === 'github' ? { number: toNumber(todo.external.id), html_url: todo.external.url } : {}),
+                title: todo.content,
+                state: todo.status === 'completed' ? 'closed' : 'open',
+                labels: issueLabels(todo, ': ').map(name => ({ name }))
+            })), null, 2) + '\n';
+        case 'gitlab':
+            return JSON.stringify(todos.map(todo => ({
+                ...(todo.external?.source === 'gitlab' ? { iid: toNumber(todo.external.id), web_url: todo.external.url } : {}),
+                title: todo.content,
+                state: todo.status === 'completed' ? 'closed' : 'opened',
+                labels: issueLabels(todo, '::')
+            })), null, 2) + '\n';
+        case 'csv':
+            return [
+                ['id', 'title', 'status', 'priority', 'tags', 'url'],
+                ...todos.map(todo => [
+                    todo.external?.id ?? todo.id,
+                    todo.content,
+                    todo.status,
+                    todo.priority ?? '',
+                    (todo.tags ?? []).join(';'),
+                    todo.external?.url ?? ''
+                ])
+            ].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+        case 'markdown':
+            return todos.map(todo => {
+                const mark = todo.status === 'completed' ? 'x' : (todo.status === 'in_progress' ? '/' : ' ');
+                const tokens = [
+                    todo.content,
+                    todo.priority ? `@${todo.priority}` : '',
+                    ...(todo.tags ?? []).map(tag => `#${tag}`),
+                    `<!-- id: ${todo.external?.id ?? todo.id} -->`
+                ].filter(Boolean);
+                return `- [${mark}] ${tokens.join(' ')}`;
+            }).join('\n') + '\n';
+    }
+}
+
+// ===== 内部工具 =====
+
+function parseIssueJson(format: 'github' | 'gitlab', text: string): ImportedTodo[] {
+    const data = JSON.parse(text);
+    const issues: any[] = Array.isArray(data) ? data : (Array.isArray(data?.items) ? data.items : [data]);
+
+    return issues
+        // GitHub 的 issue 列表中包含 PR
+        .filter(issue => issue && typeof issue.title === 'string' && issue.title.trim() && !issue.pull_request)
+        .map(issue => {
+            const labels: string[] = (Array.isArray(issue.labels) ? issue.labels : [])
+                .map((label: any) => typeof label === 'string' ? label : label?.name)
+                .filter((label: unknown): label is string => typeof label === 'string' && !!label.trim());
+            const closed = String(issue.state ?? '').toLowerCase() === 'closed';
+            const { priority, status, tags } = classifyLabels(labels);
+
+            const rawId = format === 'gitlab' ? (issue.iid ?? issue.id) : (issue.number ?? issue.id);
+            const url = format === 'gitlab' ? issue.web_url : (issue.html_url ?? issue.url);
+            const item: ImportedTodo = {
+                content: issue.title.trim(),
+                status: closed ? 'completed' : (status ?? 'pending')
+            };
+            applyOptional(item, priority, tags);
+            if (rawId !== undefined && rawId !== null) {
+                item.external = { source: format, id: String(rawId) };
+                if (typeof url === 'string' && url) {
+                    item.external.url = url;
+                }
+            }
+            return item;
+        });
+}
+
+function parseCsv(text: string): ImportedTodo[] {
+    const rows = parseCsvRows(text).filter(row => row.some(cell => cell.trim()));
+    if (rows.length === 0) {
+        return [];
+    }
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+    const idCol = column('id', 'number', 'iid', 'key', 'issue');
+    const titleCol = column('title', 'content', 'summary', 'name', '标题', '任务');
+    const statusCol = column('status', 'state', '状态');
+    const priorityCol = column('priority', '优先级');
+    const tagsCol = column('tags', 'labels', 'label', '标签');
+    const urlCol = column('url', 'link', 'web_url', 'html_url');
+    if (titleCol === -1) {
+        throw new Error('CSV 缺少 title 或 content 列');
+    }
+
+    const items: ImportedTodo[] = [];
+    for (const row of rows.slice(1)) {
+        const cell = (index: number) => index === -1 ? '' : (row[index] ?? '').trim();
+        const content = cell(titleCol);
+        if (!content) {
+            continue;
+        }
+
+        const labels = cell(tagsCol).split(/[;,]/).map(tag => tag.trim()).filter(Boolean);
+        const classified = classifyLabels(labels);
+        const item: ImportedTodo = {
+            content,
+            status: STATUS_ALIASES[cell(statusCol).toLowerCase()] ?? classified.status ?? 'pending'
+        };
+        applyOptional(item, PRIORITY_ALIASES[cell(priorityCol).toLowerCase()] ?? classified.priority, classified.tags);
+        if (cell(idCol)) {
+            item.external = { source: 'csv', id: cell(idCol) };
+            if (cell(urlCol)) {
+                item.external.url = cell(urlCol);
+            }
+        }
+        items.push(item);
+    }
+    return items;
+}
+
+function parseMarkdown(text: string): ImportedTodo[] {
+    const items: ImportedTodo[] = [];
+    for (const line of text.split('\n')) {
+        const match = CHECKLIST_PATTERN.exec(line.replace(/\r$/, ''));
+        if (!match) {
+            continue;
+        }
+
+        let rest = match[2];
+        const idMatch = MARKDOWN_ID_PATTERN.exec(rest);
+        if (idMatch) {
+            rest = rest.slice(0, idMatch.index);
+        }
+
+        // 末尾连续的 `@优先级` 和 `#标签`
+        const tokens = rest.trim().split(/\s+/);
+        const tags: string[] = [];
+        let priority: TodoPriority | undefined;
+        while (tokens.length > 1) {
+            const token = tokens[tokens.length - 1];
+            const alias = token.startsWith('@') ? PRIORITY_ALIASES[token.slice(1).toLowerCase()] : undefined;
+            if (alias && !priority) {
+                priority = alias;
+            } else if (/^#[^\s#]+$/.test(token)) {
+                tags.unshift(token.slice(1));
+            } else {
+                break;
+            }
+            tokens.pop();
+        }
+
+        const mark = match[1].toLowerCase();
+        const item: ImportedTodo = {
+            content: tokens.join(' '),
+            status: mark === 'x' ? 'completed' : (mark === ' ' ? 'pending' : 'in_progress')
+        };
+        applyOptional(item, priority, tags);
+        if (idMatch) {
+            item.external = { source: 'markdown', id: idMatch[1] };
+        }
+        items.push(item);
+    }
+    return items;
+}
+
+/**
+ * 把标签分为优先级、状态和普通标签
+ */
+function classifyLabels(labels: string[]): { priority?: TodoPriority; status?: TodoStatus; tags: string[] } {
+    let priority: TodoPriority | undefined;
+    let status: TodoStatus | undefined;
+    const tags: string[] = [];
+
+    for (const label of labels) {
+        const lower = label.trim().toLowerCase();
+        const priorityValue = lower.replace(PRIORITY_LABEL_PREFIX, '').replace(/\s+priority$/, '');
+        const statusValue = lower.replace(STATUS_LABEL_PREFIX, '');
+        const isPriorityLabel = PRIORITY_LABEL_PREFIX.test(lower) || /\s+priority$/.test(lower) || /^p\d$/.test(lower);
+
+        if (isPriorityLabel && PRIORITY_ALIASES[priorityValue]) {
+            priority = priority ?? PRIORITY_ALIASES[priorityValue];
+        } else if ((STATUS_LABEL_PREFIX.test(lower) || STATUS_ALIASES[lower] === 'in_progress') && STATUS_ALIASES[statusValue]) {
+            status = status ?? STATUS_ALIASES[statusValue];
+        } else {
+            tags.push(label.trim());
+        }
+    }
+    return { priority, status, tags };
+}
+
+function issueLabels(todo: LocalTodo, separator: string): string[] {
+    const labels = [...(todo.tags ?? [])];
+    if (todo.priority) {
+        labels.push(`priority${separator}${todo.priority}`);
+    }
+    if (todo.status === 'in_progress') {
+        labels.push(separator === '::' ? 'workflow::in progress' : 'status: in progress');
+    }
+    return labels;
+}
+
+function applyOptional(item: ImportedTodo, priority: TodoPriority | undefined, tags: string[]): void {
+    if (priority) {
+        item.priority = priority;
+    }
+    if (tags.length > 0) {
+        item.tags = tags;
+    }
+}
+
+function toNumber(id: string): number | string {
+    return /^\d+$/.test(id) ? Number(id) : id;
+}
+
+function csvCell(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * RFC 4180 CSV 解析（支持引号内的逗号、换行和转义引号）
+ */
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const source = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
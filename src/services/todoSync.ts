@@ -0,0 +1,250 @@
+/**
+ * Todo 与任务文件的双向同步规则 / Todo ↔ Task File Reconciliation
+ *
+ * 本地 Todo（包括 Claude TodoWrite 导入的）与 .tasks/current.md 中的任务通过任务 ID 一一关联，
+ * 关联上记录上次同步时两边一致的状态和内容，据此判断哪一边发生了变化：
+ * - 只有一边变化：以变化的一边为准
+ * - 两边都改了状态：已完成优先，否则以本地为准；两边都改了内容：以本地为准
+ * - 任务从文件中删除：Todo 自上次同步后未改动则一并删除，否则把任务补回文件
+ * - 未关联的 Todo 先按标题认领文件中未关联的任务，找不到时追加到文件
+ * - 文件中未被认领的任务生成新的 Todo
+ *
+ * 这里只做纯数据处理，不访问文件系统。
+ */
+
+import type { LocalTodo, TodoTaskLink } from '../shared/todos';
+import {
+    parseTaskItems,
+    appendTask,
+    moveTask,
+    setTaskTitle,
+    assignMissingTaskIds,
+    TaskFileItem,
+    TaskSection
+} from './taskFile';
+
+type TodoStatus = LocalTodo['status'];
+
+export interface ReconcileOptions {
+    /** 当前时间戳 */
+    now: number;
+    /** 生成任务 ID（重复时会重新生成） */
+    createTaskId: () => string;
+    /** 生成新 Todo 的 ID */
+    createTodoId: () => string;
+}
+
+export interface ReconcileResult {
+    /** 同步后的任务文件内容 */
+    content: string;
+    /** 同步后的 Todo 列表 */
+    todos: LocalTodo[];
+    /** Todo 列表是否有变化 */
+    todosChanged: boolean;
+}
+
+const SECTION_BY_STATUS: Record<TodoStatus, TaskSection> = {
+    'pending': 'pending',
+    'in_progress': 'in-progress',
+    'completed': 'completed'
+};
+
+/**
+ * 文件中任务对应的 Todo 状态
+ */
+export function taskStatusOf(item: TaskFileItem): TodoStatus {
+    if (item.checked) {
+        return 'completed';
+    }
+    return item.section === 'in-progress' ? 'in_progress' : 'pending';
+}
+
+/**
+ * 同步一个任务文件与 Todo 列表
+ */
+export function reconcileTaskFile(
+    todos: LocalTodo[],
+    content: string,
+    file: string,
+    options: ReconcileOptions
+): ReconcileResult {
+    const usedIds = new Set(parseTaskItems(content).map(item => item.id).filter(Boolean));
+    const nextTaskId = () => {
+        let id = options.createTaskId();
+        while (usedIds.has(id)) {
+            id = options.createTaskId();
+        }
+        usedIds.add(id);
+        return id;
+    };
+
+    // 先给没有 ID 的任务补上 ID，后续只按 ID 定位
+    content = assignMissingTaskIds(content, nextTaskId);
+
+    const items = parseTaskItems(content);
+    const claimed = new Set<string>();
+    const result: LocalTodo[] = [];
+    let todosChanged = false;
+
+    const link = (todo: LocalTodo, taskId: string): LocalTodo => {
+        const taskLink: TodoTaskLink = { file, taskId, status: todo.status, content: todo.content };
+        return { ...todo, taskLink };
+    };
+
+    for (const todo of todos) {
+        if (todo.taskLink && todo.taskLink.file !== file) {
+            result.push(todo);
+            continue;
+        }
+
+        if (todo.taskLink) {
+            const { taskId } = todo.taskLink;
+            const item = claimed.has(taskId) ? undefined : items.find(i => i.id === taskId);
+
+            if (!item) {
+                const unchanged = todo.status === todo.taskLink.status && todo.content === todo.taskLink.content;
+                if (unchanged) {
+                    // 任务已从文件中删除
+                    todosChanged = true;
+                    continue;
+                }
+                content = appendTask(content, SECTION_BY_STATUS[todo.status], taskText(todo, taskId), todo.status === 'completed');
+                claimed.add(taskId);
+                result.push(link(todo, taskId));
+                todosChanged = true;
+                continue;
+            }
+
+            claimed.add(taskId);
+            const merged = mergeLinked(todo, todo.taskLink, item);
+            content = applyToFile(content, item, merged);
+
+            const updated = applyToTodo(todo, merged, options.now);
+            const linked = link(updated, taskId);
+            if (updated !== todo || !sameLink(todo.taskLink, linked.taskLink!)) {
+                todosChanged = true;
+            }
+            result.push(linked);
+            continue;
+        }
+
+        const text = todo.content.trim();
+        if (!text) {
+            result.push(todo);
+            continue;
+        }
+
+        // 认领同名且未关联的任务
+        const item = items.find(i => i.id && !claimed.has(i.id) && i.title === text && !isLinkedElsewhere(todos, file, i.id));
+        if (item) {
+            claimed.add(item.id!);
+            const fileStatus = taskStatusOf(item);
+            const merged = { status: resolveStatus(todo.status, fileStatus), content: todo.content };
+            content = applyToFile(content, item, merged);
+            result.push(link(applyToTodo(todo, merged, options.now), item.id!));
+        } else {
+            const taskId = nextTaskId();
+            content = appendTask(content, SECTION_BY_STATUS[todo.status], taskText(todo, taskId), todo.status === 'completed');
+            claimed.add(taskId);
+            result.push(link(todo, taskId));
+        }
+        todosChanged = true;
+    }
+
+    // 文件中新增的任务
+    const created: LocalTodo[] = [];
+    for (const item of items) {
+        if (!item.id || claimed.has(item.id)) {
+            continue;
+        }
+        const status = taskStatusOf(item);
+        const todo: LocalTodo = {
+            id: options.createTodoId(),
+            content: item.title,
+            status,
+            createdAt: options.now,
+            updatedAt: options.now,
+            source: 'task-file'
+        };
+        if (item.priority) {
+            todo.priority = item.priority;
+        }
+        if (status === 'completed') {
+            todo.completedAt = options.now;
+        }
+        created.push(link(todo, item.id));
+        todosChanged = true;
+    }
+
+    return { content, todos: [...created, ...result], todosChanged };
+}
+
+// ===== 内部工具 =====
+
+interface MergedTask {
+    status: TodoStatus;
+    content: string;
+}
+
+function mergeLinked(todo: LocalTodo, taskLink: TodoTaskLink, item: TaskFileItem): MergedTask {
+    const fileStatus = taskStatusOf(item);
+    const localStatusChanged = todo.status !== taskLink.status;
+    const fileStatusChanged = fileStatus !== taskLink.status;
+    const status = localStatusChanged && fileStatusChanged
+        ? resolveStatus(todo.status, fileStatus)
+        : (fileStatusChanged ? fileStatus : todo.status);
+
+    const localContentChanged = todo.content !== taskLink.content;
+    const fileContentChanged = item.title !== taskLink.content;
+    const content = fileContentChanged && !localContentChanged ? item.title : todo.content;
+
+    return { status, content };
+}
+
+/**
+ * 两边状态冲突时：已完成优先，否则以本地为准
+ */
+function resolveStatus(local: TodoStatus, file: TodoStatus): TodoStatus {
+    return file === 'completed' ? file : local;
+}
+
+function applyToFile(content: string, item: TaskFileItem, merged: MergedTask): string {
+    const taskId = item.id!;
+    if (item.title !== merged.content) {
+        content = setTaskTitle(content, taskId, merged.content);
+    }
+    if (taskStatusOf(item) !== merged.status) {
+        content = moveTask(content, taskId, SECTION_BY_STATUS[merged.status], merged.status === 'completed');
+    }
+    return content;
+}
+
+/**
+ * 把合并结果写回 Todo；没有变化时返回原对象
+ */
+function applyToTodo(todo: LocalTodo, merged: MergedTask, now: number): LocalTodo {
+    if (todo.status === merged.status && todo.content === merged.content) {
+        return todo;
+    }
+
+    const updated: LocalTodo = { ...todo, status: merged.status, content: merged.content, updatedAt: now };
+    if (merged.status === 'completed' && todo.status !== 'completed') {
+        updated.completedAt = now;
+    }
+    if (merged.status !== 'completed') {
+        updated.completedAt = undefined;
+    }
+    return updated;
+}
+
+function taskText(todo: LocalTodo, taskId: string): string {
+    return `${todo.content.trim()} #${taskId}${todo.priority ? ` @${todo.priority}` : ''}`;
+}
+
+function isLinkedElsewhere(todos: LocalTodo[], file: string, taskId: string): boolean {
+    return todos.some(todo => todo.taskLink?.file === file && todo.taskLink.taskId === taskId);
+}
+
+function sameLink(a: TodoTaskLink, b: TodoTaskLink): boolean {
+    return a.file === b.file && a.taskId === b.taskId && a.status === b.status && a.content === b.content;
+}
@@ -0,0 +1,45 @@
+/**
+ * 项目记忆类型定义（CLAUDE.md / .claude-summary.md）
+ */
+
+/**
+ * 记忆文件
+ * - project: 工作区的 CLAUDE.md（团队共享）
+ * - local: 工作区的 CLAUDE.local.md（个人，不提交）
+ * - user: ~/.claude/CLAUDE.md（所有项目）
+ * - summary: 工作区的 .claude-summary.md（项目概述和工作日志）
+ */
+export type MemoryTarget = 'project' | 'local' | 'user' | 'summary';
+
+/**
+ * 聊天输入中的快速记忆：
+ * - `# 内容` 写入 CLAUDE.md
+ * - `#local 内容`、`#user 内容`、`#summary 内容` 写入对应的记忆文件
+ */
+const MEMORY_NOTE_PATTERN = /^#(local|user|summary)?[ \t]+(\S[\s\S]*)$/;
+
+export interface MemoryNote {
+    target: MemoryTarget;
+    note: string;
+}
+
+/**
+ * 解析快速记忆，不是快速记忆时返回 undefined（例如 `#123 问题` 或 `#标签`）
+ */
+export function parseMemoryNote(text: string): MemoryNote | undefined {
+    const match = MEMORY_NOTE_PATTERN.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+    // 多行内容合并为一条
+    const note = match[2].split('\n').map(line => line.trim()).filter(Boolean).join(' ');
+    return { target: (match[1] as MemoryTarget | undefined) ?? 'project', note };
+}
+
+/**
+ * 项目概述更新提案的处理结果
+ * - applied: 用户确认后已写入
+ * - rejected: 用户放弃
+ * - unchanged: 与现有内容相同，无需更新
+ */
+export type MemoryUpdateStatus = 'applied' | 'rejected' | 'unchanged';
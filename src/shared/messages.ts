@@ -10,9 +10,18 @@ import type {
     SDKUserMessage,
     PermissionResult,
     PermissionUpdate,
-    PermissionMode
+    PermissionMode,
+    PermissionRule,
+    PermissionRuleConfig,
+    PermissionRuleScope,
+    PermissionDecisionLogEntry
 } from './permissions';
-import type { LocalTodo, CreateTodoInput, UpdateTodoInput } from './todos';
+import type { LocalTodo, CreateTodoInput, UpdateTodoInput, TodoQuery, TodoExchangeFormat } from './todos';
+import type { ModelDefinition } from './models';
+import type { SSHProfilePreset, SSHSessionInfo, SSHTunnelInfo, SSHTunnelType } from './ssh';
+import type { TaskInfo, TaskQueueState } from './tasks';
+import type { ScheduledTasksState } from './schedules';
+import type { MemoryTarget, MemoryUpdateStatus } from './memory';
 
 // ============================================================================
 // 基础消息类型
@@ -40,6 +49,7 @@ export interface LaunchClaudeMessage extends BaseMessage {
     model?: string | null;         // 模型名称
     permissionMode?: PermissionMode; // 权限模式
     thinkingLevel?: string | null; // Thinking 等级（off | default_on）
+    resumeSessionAt?: string | null; // 只恢复到该 assistant 消息（含）为止，用于回退对话
 }
 
 /**
@@ -651,6 +661,8 @@ export type WebViewRequest =
     | DeleteLocalTodoRequest
     | ClearCompletedTodosRequest
     | ImportClaudeTodosRequest
+    | ImportTodosRequest
+    | ExportTodosRequest
     | ReadTaskFileRequest
     // Auto Task
     | EnableAutoTaskRequest
@@ -658,9 +670,40 @@ export type WebViewRequest =
     | GetAutoTaskConfigRequest
     | SetAutoTaskIntervalRequest
     | CheckTasksNowRequest
+    // 任务队列
+    | StartTaskQueueRequest
+    | StopTaskQueueRequest
+    | GetTaskQueueStateRequest
+    | RunVerifyCommandRequest
+    | GetScheduledTasksRequest
+    | AddMemoryNoteRequest
+    | GetSummaryOverviewRequest
+    | ProposeSummaryUpdateRequest
+    | RunScheduledTaskRequest
     // 文件撤回
     | RevertFileChangeRequest
-    | ViewSnapshotDiffRequest;
+    | ViewSnapshotDiffRequest
+    | RevertCheckpointRequest
+    | ListCheckpointsRequest
+    | RewindSessionRequest
+    | GetPermissionRulesRequest
+    | AddPermissionRuleRequest
+    | RemovePermissionRuleRequest
+    | GetPermissionDecisionsRequest
+    | GetProvidersRequest
+    | GetModelsRequest
+    // SSH
+    | SSHConnectRequest
+    | SSHCommandRequest
+    | SSHDisconnectRequest
+    | SSHGetOutputRequest
+    | SSHListSessionsRequest
+    | SSHListProfilesRequest
+    | SSHSaveProfileRequest
+    | SSHRemoveProfileRequest
+    | SSHOpenTunnelRequest
+    | SSHCloseTunnelRequest
+    | SSHAttachTerminalRequest;
 
 /**
  * Extension → WebView 的所有响应类型
@@ -707,6 +750,8 @@ export type WebViewRequestResponse =
     | DeleteLocalTodoResponse
     | ClearCompletedTodosResponse
     | ImportClaudeTodosResponse
+    | ImportTodosResponse
+    | ExportTodosResponse
     | ReadTaskFileResponse
     // Auto Task
     | EnableAutoTaskResponse
@@ -714,9 +759,28 @@ export type WebViewRequestResponse =
     | GetAutoTaskConfigResponse
     | SetAutoTaskIntervalResponse
     | CheckTasksNowResponse
+    // 任务队列
+    | StartTaskQueueResponse
+    | StopTaskQueueResponse
+    | GetTaskQueueStateResponse
+    | RunVerifyCommandResponse
+    | GetScheduledTasksResponse
+    | AddMemoryNoteResponse
+    | GetSummaryOverviewResponse
+    | ProposeSummaryUpdateResponse
+    | RunScheduledTaskResponse
     // 文件撤回
     | RevertFileChangeResponse
-    | ViewSnapshotDiffResponse;
+    | ViewSnapshotDiffResponse
+    | RevertCheckpointResponse
+    | ListCheckpointsResponse
+    | RewindSessionResponse
+    | GetPermissionRulesResponse
+    | AddPermissionRuleResponse
+    | RemovePermissionRuleResponse
+    | GetPermissionDecisionsResponse
+    | GetProvidersResponse
+    | GetModelsResponse;
 
 /**
  * Extension → WebView 的所有请求类型
@@ -728,8 +792,15 @@ export type ExtensionRequest =
     | UpdateStateRequest
     | VisibilityChangedRequest
     | WorkspaceChangedRequest
+    | ModelsChangedRequest
     | AutoTaskFoundNotification
-    | TaskFileChangedNotification;
+    | TaskFileChangedNotification
+    | RunQueuedTaskRequest
+    | TaskQueueStateChangedRequest
+    | ScheduledTasksChangedRequest
+    | LocalTodosChangedRequest
+    | SSHCommandOutputRequest
+    | SSHSessionsChangedRequest;
 // | AuthURLRequest;
 
 /**
@@ -762,7 +833,8 @@ export interface WorkspaceChangedRequest {
  * WebView → Extension 的所有响应类型
  */
 export type ExtensionRequestResponse =
-    | ToolPermissionResponse;
+    | ToolPermissionResponse
+    | RunQueuedTaskResponse;
 
 // ============================================================================
 // Claude 配置管理（API Key / 订阅 / 使用量）
@@ -913,15 +985,20 @@ export interface CheckEnvironmentResponse {
 // ============================================================================
 
 /**
- * 获取所有本地 Todo
+ * 获取本地 Todo（默认为当前工作区）
  */
 export interface GetLocalTodosRequest {
     type: "get_local_todos";
+    query?: TodoQuery;
 }
 
 export interface GetLocalTodosResponse {
     type: "get_local_todos_response";
     todos: LocalTodo[];
+    /** 当前范围内（不含搜索和标签过滤）出现过的标签 */
+    tags: string[];
+    /** 当前工作区目录 */
+    workspace?: string;
 }
 
 /**
@@ -990,6 +1067,46 @@ export interface ImportClaudeTodosResponse {
     todos: LocalTodo[];
 }
 
+/**
+ * 从 issue 导出 / CSV / Markdown 导入 Todo
+ * 不提供 content 时弹出文件选择框；不指定 format 时按文件名和内容识别
+ */
+export interface ImportTodosRequest {
+    type: "import_todos";
+    format?: TodoExchangeFormat;
+    content?: string;
+    fileName?: string;
+    /** 记录外部 ID，已导入过的按外部 ID 更新（双向模式） */
+    linkExternal?: boolean;
+}
+
+export interface ImportTodosResponse {
+    type: "import_todos_response";
+    /** 用户取消了文件选择 */
+    cancelled?: boolean;
+    format?: TodoExchangeFormat;
+    added: number;
+    updated: number;
+    skipped: number;
+}
+
+/**
+ * 导出 Todo（弹出保存对话框）
+ */
+export interface ExportTodosRequest {
+    type: "export_todos";
+    format: TodoExchangeFormat;
+    /** 导出范围，默认为当前工作区 */
+    query?: TodoQuery;
+}
+
+export interface ExportTodosResponse {
+    type: "export_todos_response";
+    cancelled?: boolean;
+    path?: string;
+    count: number;
+}
+
 // ============================================================================
 // 任务文件读取
 // ============================================================================
@@ -1005,6 +1122,8 @@ export interface ReadTaskFileResponse {
     type: "read_task_file_response";
     success: boolean;
     content?: string;
+    /** 解析后的任务（含 ID、依赖和阻塞状态） */
+    tasks?: TaskInfo[];
     error?: string;
 }
 
@@ -1081,11 +1200,7 @@ export interface CheckTasksNowRequest {
 
 export interface CheckTasksNowResponse {
     type: "check_tasks_now_response";
-    tasks: Array<{
-        title: string;
-        status: 'pending' | 'in-progress' | 'completed';
-        section: 'in-progress' | 'pending' | 'completed';
-    }>;
+    tasks: TaskInfo[];
 }
 
 /**
@@ -1093,11 +1208,7 @@ export interface CheckTasksNowResponse {
  */
 export interface AutoTaskFoundNotification {
     type: "auto_task_found";
-    tasks: Array<{
-        title: string;
-        status: 'pending' | 'in-progress' | 'completed';
-        section: 'in-progress' | 'pending' | 'completed';
-    }>;
+    tasks: TaskInfo[];
     prompt: string;  // 生成的任务执行提示词
 }
 
@@ -1107,11 +1218,190 @@ export interface AutoTaskFoundNotification {
  */
 export interface TaskFileChangedNotification {
     type: "task_file_changed";
-    tasks: Array<{
-        title: string;
-        status: 'pending' | 'in-progress' | 'completed';
-        section: 'in-progress' | 'pending' | 'completed';
-    }>;
+    tasks: TaskInfo[];
+}
+
+// ============================================================================
+// 任务队列（逐条执行 .tasks/current.md）
+// ============================================================================
+
+/**
+ * 开始执行任务队列
+ */
+export interface StartTaskQueueRequest {
+    type: "start_task_queue";
+}
+
+export interface StartTaskQueueResponse {
+    type: "start_task_queue_response";
+    success: boolean;
+    error?: string;
+    state: TaskQueueState;
+}
+
+/**
+ * 停止任务队列（当前任务结束后生效）
+ */
+export interface StopTaskQueueRequest {
+    type: "stop_task_queue";
+}
+
+export interface StopTaskQueueResponse {
+    type: "stop_task_queue_response";
+    state: TaskQueueState;
+}
+
+/**
+ * 获取任务队列状态
+ */
+export interface GetTaskQueueStateRequest {
+    type: "get_task_queue_state";
+}
+
+export interface GetTaskQueueStateResponse {
+    type: "get_task_queue_state_response";
+    state: TaskQueueState;
+}
+
+/**
+ * 在工作区根目录运行验证命令（无尽模式每轮结束后使用，超时同 xiong.tasks.verifyTimeout）
+ */
+export interface RunVerifyCommandRequest {
+    type: "run_verify_command";
+    command: string;
+}
+
+export interface RunVerifyCommandResponse {
+    type: "run_verify_command_response";
+    passed: boolean;
+    /** 超时或无法执行时为 null */
+    exitCode: number | null;
+    output: string;
+}
+
+/**
+ * 在新会话中执行队列中的一个任务（Extension → WebView）
+ *
+ * WebView 创建会话、发送提示词并在会话空闲后响应
+ */
+export interface RunQueuedTaskRequest {
+    type: "run_queued_task";
+    title: string;
+    prompt: string;
+}
+
+export interface RunQueuedTaskResponse {
+    type: "run_queued_task_response";
+    success: boolean;
+    error?: string;
+    sessionId?: string;
+}
+
+/**
+ * 任务队列状态变化（Extension → WebView）
+ */
+export interface TaskQueueStateChangedRequest {
+    type: "task_queue_state_changed";
+    state: TaskQueueState;
+}
+
+// ============================================================================
+// 定时任务（xiong.schedules，cron / 文件变化触发的后台会话）
+// ============================================================================
+
+/**
+ * 获取定时任务状态
+ */
+export interface GetScheduledTasksRequest {
+    type: "get_scheduled_tasks";
+}
+
+export interface GetScheduledTasksResponse {
+    type: "get_scheduled_tasks_response";
+    state: ScheduledTasksState;
+}
+
+/**
+ * 立即运行一个定时任务
+ */
+export interface RunScheduledTaskRequest {
+    type: "run_scheduled_task";
+    name: string;
+}
+
+export interface RunScheduledTaskResponse {
+    type: "run_scheduled_task_response";
+    success: boolean;
+    error?: string;
+    state: ScheduledTasksState;
+}
+
+/**
+ * 定时任务状态变化（Extension → WebView）
+ */
+export interface ScheduledTasksChangedRequest {
+    type: "scheduled_tasks_changed";
+    state: ScheduledTasksState;
+}
+
+// ============================================================================
+// 项目记忆（CLAUDE.md / .claude-summary.md）
+// ============================================================================
+
+/**
+ * 添加快速记忆（聊天输入中的 `# 内容`，由扩展解析目标文件）
+ */
+export interface AddMemoryNoteRequest {
+    type: "add_memory_note";
+    text: string;
+}
+
+export interface AddMemoryNoteResponse {
+    type: "add_memory_note_response";
+    success: boolean;
+    target?: MemoryTarget;
+    /** 写入的文件名 */
+    fileName?: string;
+    error?: string;
+}
+
+/**
+ * 获取当前的项目概述（.claude-summary.md 中工作日志之前的部分）
+ */
+export interface GetSummaryOverviewRequest {
+    type: "get_summary_overview";
+}
+
+export interface GetSummaryOverviewResponse {
+    type: "get_summary_overview_response";
+    exists: boolean;
+    overview: string;
+}
+
+/**
+ * 会话结束时提出项目概述的更新（扩展展示 Diff，用户确认后写入）
+ */
+export interface ProposeSummaryUpdateRequest {
+    type: "propose_summary_update";
+    /** Claude 的回复（<overview> 更新后的概述，<worklog> 本次工作日志） */
+    reply: string;
+    sessionTitle: string;
+    messageCount: number;
+    modifiedFiles: string[];
+}
+
+export interface ProposeSummaryUpdateResponse {
+    type: "propose_summary_update_response";
+    status?: MemoryUpdateStatus;
+    error?: string;
+}
+
+/**
+ * 本地 Todo 与 TodoWrite / 任务文件同步后的完整列表（Extension → WebView）
+ */
+export interface LocalTodosChangedRequest {
+    type: "local_todos_changed";
+    todos: LocalTodo[];
 }
 
 // ============================================================================
@@ -1146,3 +1436,326 @@ export interface ViewSnapshotDiffResponse {
     success: boolean;
     error?: string;
 }
+
+/**
+ * 回滚检查点请求（撤回一轮 assistant 回复中的所有文件修改）
+ */
+export interface RevertCheckpointRequest {
+    type: "revert_checkpoint";
+    sessionId: string;
+    messageId: string;  // assistant 消息 uuid
+    includeLater?: boolean;  // 同时回滚该消息之后的所有检查点
+}
+
+export interface RevertCheckpointResponse {
+    type: "revert_checkpoint_response";
+    success: boolean;
+    revertedFiles: string[];
+    error?: string;
+}
+
+/**
+ * 检查点摘要
+ */
+export interface CheckpointInfo {
+    messageId: string;
+    timestamp: number;
+    files: string[];
+    reverted: boolean;
+}
+
+/**
+ * 列出会话检查点请求
+ */
+export interface ListCheckpointsRequest {
+    type: "list_checkpoints";
+    sessionId: string;
+}
+
+export interface ListCheckpointsResponse {
+    type: "list_checkpoints_response";
+    checkpoints: CheckpointInfo[];
+}
+
+/**
+ * 回退对话请求（回到某条用户消息之前，并撤回之后的所有文件修改）
+ *
+ * WebView 不持有消息 uuid，通过提示词文本及其出现次数在会话记录中定位，
+ * 找不到时退回按序号定位
+ */
+export interface RewindSessionRequest {
+    type: "rewind_session";
+    sessionId: string;
+    promptText: string;
+    occurrence: number;   // 相同文本的用户消息中的第几条（从 0 开始）
+    promptIndex: number;  // 所有用户消息中的第几条（从 0 开始）
+}
+
+export interface RewindSessionResponse {
+    type: "rewind_session_response";
+    success: boolean;
+    resumeAt?: string | null;  // 恢复会话的 assistant 消息 uuid；null 表示从头开始新会话
+    revertedFiles: string[];
+    error?: string;
+}
+
+// ============================================================================
+// 权限规则
+// ============================================================================
+
+/**
+ * 获取当前生效的权限规则
+ */
+export interface GetPermissionRulesRequest {
+    type: "get_permission_rules";
+    channelId?: string;  // 提供时包含该会话的 session 规则
+}
+
+export interface GetPermissionRulesResponse {
+    type: "get_permission_rules_response";
+    rules: PermissionRule[];
+}
+
+/**
+ * 添加权限规则
+ */
+export interface AddPermissionRuleRequest {
+    type: "add_permission_rule";
+    rule: PermissionRuleConfig;
+    scope: PermissionRuleScope;
+    channelId?: string;  // scope 为 session 时必填
+}
+
+export interface AddPermissionRuleResponse {
+    type: "add_permission_rule_response";
+    success: boolean;
+    rule?: PermissionRule;
+    error?: string;
+}
+
+/**
+ * 删除权限规则
+ */
+export interface RemovePermissionRuleRequest {
+    type: "remove_permission_rule";
+    id: string;
+}
+
+export interface RemovePermissionRuleResponse {
+    type: "remove_permission_rule_response";
+    success: boolean;
+}
+
+/**
+ * 获取权限决策日志
+ */
+export interface GetPermissionDecisionsRequest {
+    type: "get_permission_decisions";
+    limit?: number;
+}
+
+export interface GetPermissionDecisionsResponse {
+    type: "get_permission_decisions_response";
+    decisions: PermissionDecisionLogEntry[];
+}
+
+// ============================================================================
+// AI Provider
+// ============================================================================
+
+/**
+ * Provider 能力（与 ProviderCapabilities 一致）
+ */
+export interface ProviderCapabilitiesInfo {
+    streaming: boolean;
+    toolUse: boolean;
+    thinking: boolean;
+    resume: boolean;
+    interrupt: boolean;
+    models: string[];
+}
+
+/**
+ * Provider 信息（用于模型选择）
+ */
+export interface ProviderInfoItem {
+    type: string;
+    displayName: string;
+    available: boolean;
+    models: Array<{ id: string; name: string }>;
+    capabilities: ProviderCapabilitiesInfo;
+}
+
+/**
+ * 获取 Claude 以外的 AI Provider 及其模型
+ */
+export interface GetProvidersRequest {
+    type: "get_providers";
+}
+
+export interface GetProvidersResponse {
+    type: "get_providers_response";
+    providers: ProviderInfoItem[];
+}
+
+// ============================================================================
+// 模型目录
+// ============================================================================
+
+/**
+ * 获取模型目录（内置目录 + xiong.models 设置）
+ */
+export interface GetModelsRequest {
+    type: "get_models";
+}
+
+export interface GetModelsResponse {
+    type: "get_models_response";
+    models: ModelDefinition[];
+}
+
+/**
+ * 模型目录变化（Extension → WebView）
+ *
+ * xiong.models 设置修改后推送最新目录
+ */
+export interface ModelsChangedRequest {
+    type: "models_changed";
+    models: ModelDefinition[];
+}
+
+// ============================================================================
+// SSH
+// ============================================================================
+
+/**
+ * SSH 连接请求
+ */
+export interface SSHConnectRequest {
+    type: "ssh_connect";
+    /** 主机配置名称（工作区预设或 ~/.ssh/config 别名），提供时忽略其他连接参数 */
+    profile?: string;
+    host?: string;
+    port?: number;
+    username?: string;
+    identityFile?: string;
+    proxyJump?: string;
+}
+
+/**
+ * SSH 命令请求
+ */
+export interface SSHCommandRequest {
+    type: "ssh_command";
+    sessionId: string;
+    command: string;
+    timeout?: number;
+}
+
+/**
+ * SSH 断开请求
+ */
+export interface SSHDisconnectRequest {
+    type: "ssh_disconnect";
+    sessionId: string;
+}
+
+/**
+ * SSH 获取输出请求
+ */
+export interface SSHGetOutputRequest {
+    type: "ssh_get_output";
+    sessionId: string;
+}
+
+/**
+ * SSH 列出会话请求
+ */
+export interface SSHListSessionsRequest {
+    type: "ssh_list_sessions";
+}
+
+/**
+ * SSH 主机配置列表请求
+ */
+export interface SSHListProfilesRequest {
+    type: "ssh_list_profiles";
+}
+
+/**
+ * 保存 SSH 工作区预设请求
+ */
+export interface SSHSaveProfileRequest {
+    type: "ssh_save_profile";
+    profile: SSHProfilePreset;
+}
+
+/**
+ * 删除 SSH 工作区预设请求
+ */
+export interface SSHRemoveProfileRequest {
+    type: "ssh_remove_profile";
+    name: string;
+}
+
+/**
+ * 打开端口转发隧道请求
+ *
+ * 连接参数按 sessionId（复用会话的连接参数）、profile、host 的顺序取第一个提供的
+ */
+export interface SSHOpenTunnelRequest {
+    type: "ssh_open_tunnel";
+    name: string;
+    tunnelType: SSHTunnelType;
+    sessionId?: string;
+    profile?: string;
+    host?: string;
+    port?: number;
+    username?: string;
+    bindPort: number;
+    bindAddress?: string;
+    targetHost?: string;
+    targetPort: number;
+}
+
+/**
+ * 关闭端口转发隧道请求
+ */
+export interface SSHCloseTunnelRequest {
+    type: "ssh_close_tunnel";
+    /** 隧道 ID 或名称 */
+    tunnel: string;
+}
+
+/**
+ * 将 SSH 会话挂载到 VS Code 终端请求
+ */
+export interface SSHAttachTerminalRequest {
+    type: "ssh_attach_terminal";
+    sessionId: string;
+}
+
+/**
+ * SSH 命令部分输出（Extension → WebView）
+ *
+ * 命令执行过程中分别推送 stdout / stderr 片段
+ */
+export interface SSHCommandOutputRequest {
+    type: "ssh_command_output";
+    sessionId: string;
+    commandId: string;
+    command: string;
+    stream: "stdout" | "stderr";
+    data: string;
+}
+
+/**
+ * SSH 会话和隧道变化（Extension → WebView）
+ *
+ * 连接、断开、终端挂载、命令开始 / 结束以及隧道状态变化时推送完整列表
+ */
+export interface SSHSessionsChangedRequest {
+    type: "ssh_sessions_changed";
+    sessions: SSHSessionInfo[];
+    tunnels: SSHTunnelInfo[];
+}
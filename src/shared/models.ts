@@ -0,0 +1,112 @@
+/**
+ * 模型目录类型定义
+ *
+ * 扩展端与 WebView 共享的模型描述，实际目录由 ModelRegistryService
+ * 合并内置默认值与 xiong.models 设置后下发。
+ */
+
+/**
+ * 模型所属 Provider
+ */
+export type ModelProvider = 'claude' | 'xionggemini' | 'openai' | 'ollama' | 'glm';
+
+/**
+ * 模型定义
+ */
+export interface ModelDefinition {
+    /** UI 使用的模型 ID（也是 xiong.selectedModel 保存的值） */
+    id: string;
+    /** 下拉框中显示的名称 */
+    displayName: string;
+    /** 发送给上游 API 的模型 ID（缺省时与 id 相同） */
+    upstreamId?: string;
+    /** 所属 Provider */
+    provider: ModelProvider;
+    /** 上下文窗口大小（tokens） */
+    contextWindow: number;
+    /** 最大输出 tokens */
+    maxOutputTokens?: number;
+    /** 是否支持扩展思考 */
+    supportsThinking?: boolean;
+    /** 是否在模型下拉框中隐藏（仅用于 ID 映射） */
+    hidden?: boolean;
+}
+
+/**
+ * 未在目录中登记的模型使用的上下文窗口
+ */
+export const DEFAULT_CONTEXT_WINDOW = 200000;
+
+/**
+ * 内置模型目录（可被 xiong.models 中相同 id 的条目覆盖）
+ */
+export const DEFAULT_MODEL_CATALOG: readonly ModelDefinition[] = [
+    {
+        id: 'claude-opus-4-5',
+        displayName: 'Opus 4.5',
+        upstreamId: 'claude-opus-4-5-20251101',
+        provider: 'claude',
+        contextWindow: 200000,
+        maxOutputTokens: 64000,
+        supportsThinking: true,
+    },
+    {
+        id: 'claude-sonnet-4-5',
+        displayName: 'Sonnet 4.5',
+        upstreamId: 'claude-sonnet-4-5-20250929',
+        provider: 'claude',
+        contextWindow: 200000,
+        maxOutputTokens: 64000,
+        supportsThinking: true,
+    },
+    {
+        id: 'claude-haiku-4-5',
+        displayName: 'Haiku 4.5',
+        upstreamId: 'claude-haiku-4-5-20251001',
+        provider: 'claude',
+        contextWindow: 200000,
+        maxOutputTokens: 64000,
+        supportsThinking: true,
+    },
+    {
+        id: 'claude-opus-4.6',
+        displayName: 'Opus 4.6',
+        provider: 'claude',
+        contextWindow: 200000,
+        maxOutputTokens: 128000,
+        supportsThinking: true,
+    },
+    // XiongGemini 模型 -> Claude 模型（通过 Opus 代理）
+    {
+        id: 'xionggemini-opus',
+        displayName: 'XiongGemini Opus',
+        upstreamId: 'claude-opus-4-5-20251101',
+        provider: 'xionggemini',
+        contextWindow: 200000,
+        hidden: true,
+    },
+    {
+        id: 'xionggemini-sonnet',
+        displayName: 'XiongGemini Sonnet',
+        upstreamId: 'claude-sonnet-4-5-20250929',
+        provider: 'xionggemini',
+        contextWindow: 200000,
+        hidden: true,
+    },
+    {
+        id: 'xionggemini-haiku',
+        displayName: 'XiongGemini Haiku',
+        upstreamId: 'claude-haiku-4-5-20251001',
+        provider: 'xionggemini',
+        contextWindow: 200000,
+        hidden: true,
+    },
+    {
+        id: 'xionggemini-pro',
+        displayName: 'XiongGemini Pro',
+        upstreamId: 'claude-sonnet-4-5-20250929',
+        provider: 'xionggemini',
+        contextWindow: 200000,
+        hidden: true,
+    },
+];
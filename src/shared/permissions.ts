@@ -12,6 +12,47 @@
  */
 export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
 
+/**
+ * 只读工具：计划模式下允许使用，其余工具在退出计划模式前一律拒绝
+ */
+export const READ_ONLY_TOOLS: readonly string[] = [
+    'Read',
+    'Glob',
+    'Grep',
+    'LS',
+    'NotebookRead',
+    'WebFetch',
+    'WebSearch',
+    'TodoRead',
+    'TodoWrite',
+    'Task',
+    'BashOutput',
+    'ListMcpResourcesTool',
+    'ReadMcpResourceTool',
+    'AskUserQuestion',
+    'ExitPlanMode',
+    'mcp__ssh__read_output',
+    'mcp__ssh__list_profiles',
+    'mcp__ssh__read_file',
+    'mcp__ssh__list_dir',
+    'mcp__ssh__list_sessions',
+];
+
+/**
+ * 文件编辑工具：acceptEdits 模式下对工作区内的文件自动允许
+ */
+export const FILE_EDIT_TOOLS: readonly string[] = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+/**
+ * SSH 进程内 MCP 服务器名称（工具名为 mcp__ssh__<tool>）
+ */
+export const SSH_MCP_SERVER_NAME = 'ssh';
+
+/**
+ * 执行命令的工具：acceptEdits 模式下仍需确认（除非有显式 allow 规则）
+ */
+export const SHELL_TOOLS: readonly string[] = ['Bash', 'mcp__ssh__exec'];
+
 /**
  * 权限更新
  */
@@ -26,6 +67,24 @@ export interface PermissionUpdate {
     [key: string]: unknown;
 }
 
+/**
+ * 权限更新的保存位置（与 SDK 一致）
+ * - userSettings: 用户级
+ * - projectSettings / localSettings: 工作区级
+ * - session: 当前会话
+ */
+export type PermissionUpdateDestination = 'userSettings' | 'projectSettings' | 'localSettings' | 'session' | 'cliArg';
+
+/**
+ * 添加规则的权限更新（SDK 格式：type 为 addRules）
+ */
+export interface PermissionRulesUpdate extends PermissionUpdate {
+    type: 'addRules';
+    rules: Array<{ toolName: string; ruleContent?: string }>;
+    behavior: 'allow' | 'deny' | 'ask';
+    destination: PermissionUpdateDestination;
+}
+
 /**
  * 允许权限结果
  */
@@ -49,6 +108,86 @@ export interface PermissionResultDeny {
  */
 export type PermissionResult = PermissionResultAllow | PermissionResultDeny;
 
+/**
+ * 权限规则行为
+ * - allow: 自动允许
+ * - deny: 直接拒绝
+ * - ask: 弹出确认
+ */
+export type PermissionRuleBehavior = 'allow' | 'deny' | 'ask';
+
+/**
+ * 权限规则作用域
+ * - user: 用户级（VSCode 用户设置、~/.claude/settings.json）
+ * - workspace: 工作区级（VSCode 工作区设置、.claude/settings.json）
+ * - session: 当前会话（仅内存）
+ */
+export type PermissionRuleScope = 'user' | 'workspace' | 'session';
+
+/**
+ * 权限规则来源
+ */
+export type PermissionRuleSource = 'settings' | 'claudeSettings' | 'session' | 'builtin';
+
+/**
+ * 工具权限规则
+ *
+ * 所有匹配条件需同时满足；未设置的条件视为匹配
+ */
+export interface PermissionRule {
+    /** 规则 ID */
+    id: string;
+    /** 行为 */
+    behavior: PermissionRuleBehavior;
+    /** 工具名称，支持 * 通配（如 "mcp__*"） */
+    toolName: string;
+    /** 文件路径 glob（相对路径基于工作区根目录） */
+    path?: string;
+    /** 命令完全匹配 */
+    command?: string;
+    /** 命令前缀 */
+    commandPrefix?: string;
+    /** 命令正则 */
+    commandRegex?: string;
+    /** URL 域名（WebFetch 等） */
+    domain?: string;
+    /** 作用域 */
+    scope: PermissionRuleScope;
+    /** 来源 */
+    source: PermissionRuleSource;
+    /** 规则的文本形式（如 "Bash(npm run test:*)"），用于显示 */
+    text: string;
+}
+
+/**
+ * 权限规则配置（VSCode 设置 xiong.permissionRules 的条目格式）
+ */
+export interface PermissionRuleConfig {
+    behavior: PermissionRuleBehavior;
+    /** 工具名称，支持 * 通配 */
+    tool: string;
+    path?: string;
+    command?: string;
+    commandPrefix?: string;
+    commandRegex?: string;
+    domain?: string;
+}
+
+/**
+ * 权限决策日志
+ */
+export interface PermissionDecisionLogEntry {
+    timestamp: number;
+    /** 会话（channel）ID */
+    sessionId?: string;
+    toolName: string;
+    /** 工具输入摘要（命令、路径或 URL） */
+    target?: string;
+    behavior: PermissionRuleBehavior;
+    /** 命中的规则；未命中任何规则时为空 */
+    rule?: Pick<PermissionRule, 'id' | 'text' | 'scope' | 'source'>;
+}
+
 /**
  * SDK 用户消息内容块
  */
@@ -0,0 +1,88 @@
+/**
+ * 定时任务类型定义（xiong.schedules）
+ */
+
+/**
+ * 定时任务配置（settings.json 中 xiong.schedules 的一项）
+ *
+ * ```json
+ * {
+ *   "name": "nightly-review",
+ *   "prompt": "检查今天的提交，列出潜在问题",
+ *   "cron": "0 22 * * 1-5",
+ *   "watch": "src/**\/*.ts",
+ *   "permissionMode": "plan"
+ * }
+ * ```
+ */
+export interface ScheduleConfig {
+    /** 名称（唯一，用于手动运行和会话标题） */
+    name: string;
+    /** 发送给 Claude 的提示词 */
+    prompt: string;
+    /** cron 表达式（分 时 日 月 周，本地时间） */
+    cron?: string;
+    /** 工作区内的文件 glob，匹配的文件创建、修改或删除时触发 */
+    watch?: string;
+    /** 权限模式，默认 plan（只读）；后台任务无法请求确认，需要确认的工具一律拒绝 */
+    permissionMode?: 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions';
+    /** 模型，默认使用当前选择的模型 */
+    model?: string;
+    /** 是否启用，默认 true */
+    enabled?: boolean;
+    /** 文件变化触发的防抖时间（秒），默认 5 */
+    debounce?: number;
+}
+
+/**
+ * 触发原因
+ */
+export type ScheduleTrigger = 'cron' | 'file' | 'manual';
+
+/**
+ * 单次运行的状态
+ */
+export type ScheduleRunStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * 单次运行记录
+ */
+export interface ScheduleRunRecord {
+    name: string;
+    trigger: ScheduleTrigger;
+    status: ScheduleRunStatus;
+    startedAt: number;
+    finishedAt?: number;
+    /** 运行结果所在的会话 ID（可在会话列表中查看） */
+    sessionId?: string;
+    /** 文件触发时变化的文件（相对路径） */
+    file?: string;
+    error?: string;
+}
+
+/**
+ * 单个定时任务的状态
+ */
+export interface ScheduleInfo {
+    name: string;
+    prompt: string;
+    cron?: string;
+    watch?: string;
+    permissionMode: NonNullable<ScheduleConfig['permissionMode']>;
+    enabled: boolean;
+    /** 下一次 cron 触发时间 */
+    nextRunAt?: number;
+    /** 配置错误（如 cron 表达式无效） */
+    error?: string;
+    running: boolean;
+    lastRun?: ScheduleRunRecord;
+}
+
+/**
+ * 定时任务整体状态
+ */
+export interface ScheduledTasksState {
+    schedules: ScheduleInfo[];
+    /** 最近的运行记录（新的在前） */
+    history: ScheduleRunRecord[];
+}
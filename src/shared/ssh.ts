@@ -0,0 +1,95 @@
+/**
+ * SSH 主机配置类型定义
+ *
+ * 扩展端与 WebView 共享，主机列表由 SSHService 合并
+ * 工作区预设（xiong.ssh.profiles）与 ~/.ssh/config 后下发。
+ */
+
+/**
+ * 工作区连接预设（xiong.ssh.profiles 中的条目）
+ */
+export interface SSHProfilePreset {
+    /** 预设名称（ssh_connect { profile } 使用） */
+    name: string;
+    /** 主机名、IP 或 ~/.ssh/config 中的 Host 别名 */
+    host: string;
+    port?: number;
+    username?: string;
+    /** 私钥路径（支持 ~） */
+    identityFile?: string;
+    /** 跳板机（ssh -J） */
+    proxyJump?: string;
+    /** 说明 */
+    description?: string;
+}
+
+/**
+ * 可连接的主机配置
+ */
+export interface SSHProfile extends SSHProfilePreset {
+    /** 来源：工作区预设或 ~/.ssh/config */
+    source: 'preset' | 'sshConfig';
+    /** ~/.ssh/config 中的 HostName（与别名不同时） */
+    hostName?: string;
+}
+
+/**
+ * SSH 会话摘要
+ */
+export interface SSHSessionInfo {
+    id: string;
+    host: string;
+    username?: string;
+    profile?: string;
+    isConnected: boolean;
+    /** 意外断开后正在自动重连 */
+    reconnecting: boolean;
+    /** 最近一次收到输出的时间（用于显示空闲时长） */
+    lastActivity: number;
+    /** 是否已挂载到 VS Code 终端 */
+    terminalAttached: boolean;
+    /** 正在执行的命令 */
+    runningCommand?: string;
+}
+
+/**
+ * 端口转发类型
+ * - local: ssh -L，本机端口转发到远程可访问的地址
+ * - remote: ssh -R，远程端口转发到本机可访问的地址
+ */
+export type SSHTunnelType = 'local' | 'remote';
+
+/**
+ * 隧道状态
+ * - starting: 正在建立
+ * - active: 可用（最近一次健康检查通过）
+ * - unhealthy: ssh 进程仍在运行但健康检查失败
+ * - failed: ssh 进程已退出（下次健康检查时尝试重建）
+ */
+export type SSHTunnelStatus = 'starting' | 'active' | 'unhealthy' | 'failed';
+
+/**
+ * 端口转发隧道信息
+ */
+export interface SSHTunnelInfo {
+    /** 隧道 ID */
+    id: string;
+    /** 隧道名称（唯一，可代替 ID 关闭隧道） */
+    name: string;
+    type: SSHTunnelType;
+    /** SSH 主机 */
+    host: string;
+    /** 来源主机配置名称 */
+    profile?: string;
+    /** 监听地址（local 为本机地址，remote 为远程地址） */
+    bindAddress: string;
+    bindPort: number;
+    /** 转发目标（local 从远程访问，remote 从本机访问） */
+    targetHost: string;
+    targetPort: number;
+    status: SSHTunnelStatus;
+    /** 最近一次错误 */
+    error?: string;
+    createdAt: number;
+    lastCheckedAt?: number;
+}
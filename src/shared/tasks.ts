@@ -0,0 +1,88 @@
+/**
+ * 任务文件与任务队列类型定义（.tasks/current.md）
+ */
+
+export type TaskSection = 'in-progress' | 'pending' | 'completed';
+
+/**
+ * 任务优先级（任务行末尾的 `@high` / `@medium` / `@low`，也可写 `@p0`–`@p3` 或 `@高` / `@中` / `@低`）
+ */
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+/**
+ * 子任务（任务下方缩进的复选框）
+ */
+export interface TaskSubtask {
+    title: string;
+    checked: boolean;
+}
+
+/**
+ * 任务文件中的任务（推送给 WebView 展示）
+ *
+ * 纯复选框任务只有 title / status / section，其余字段来自扩展格式：
+ * ```
+ * - [ ] 实现登录接口 #auth-2 @high
+ *   - depends-on: auth-1
+ *   - [ ] 子任务
+ *   - acceptance: 错误密码返回 401
+ *   - verify: `npm test -- login`
+ * ```
+ */
+export interface TaskInfo {
+    title: string;
+    status: 'pending' | 'in-progress' | 'completed';
+    section: TaskSection;
+    /** 稳定 ID（任务行末尾的 `#id`） */
+    id?: string;
+    priority?: TaskPriority;
+    /** 依赖的任务 ID */
+    dependsOn?: string[];
+    subtasks?: TaskSubtask[];
+    /** 验收标准 */
+    acceptance?: string[];
+    /** 该任务专用的验证命令（覆盖 xiong.tasks.verifyCommand） */
+    verify?: string;
+    /** 依赖尚未完成（或找不到）时为 true */
+    blocked?: boolean;
+    /** 阻塞该任务的依赖 ID */
+    blockedBy?: string[];
+}
+
+/**
+ * 单个任务的执行状态
+ * - running: 正在会话中执行
+ * - verifying: 执行完成，正在运行验证命令
+ * - passed: 验证通过（已勾选）
+ * - failed: 执行或验证失败（原因已记录在任务下方）
+ */
+export type TaskRunStatus = 'running' | 'verifying' | 'passed' | 'failed';
+
+/**
+ * 单个任务的执行记录
+ */
+export interface TaskRunRecord {
+    title: string;
+    status: TaskRunStatus;
+    startedAt: number;
+    finishedAt?: number;
+    /** 失败原因 */
+    error?: string;
+    /** 执行该任务的会话 ID */
+    sessionId?: string;
+}
+
+/**
+ * 任务队列状态
+ */
+export interface TaskQueueState {
+    running: boolean;
+    /** 已请求停止，当前任务结束后停止 */
+    stopping: boolean;
+    /** 默认验证命令（任务的 `verify:` 优先；都为空时任务执行成功即视为通过） */
+    verifyCommand?: string;
+    /** 正在执行的任务 */
+    current?: TaskRunRecord;
+    /** 本次运行已结束的任务（按执行顺序） */
+    history: TaskRunRecord[];
+}
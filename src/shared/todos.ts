@@ -22,10 +22,67 @@ export interface LocalTodo {
   completedAt?: number;
   /** 关联的会话 ID（可选） */
   sessionId?: string;
+  /** 所属工作区目录；为空表示未归属任何工作区（迁移前的旧数据），在所有工作区显示 */
+  workspace?: string;
   /** 优先级（可选） */
   priority?: 'low' | 'medium' | 'high';
   /** 标签（可选） */
   tags?: string[];
+  /** 来源：Todos 页面 / Claude TodoWrite / 任务文件 */
+  source?: 'local' | 'claude' | 'task-file';
+  /** 与任务文件 (.tasks/current.md) 的关联 */
+  taskLink?: TodoTaskLink;
+  /** 导入来源中的外部 ID（如 issue 编号），再次导入时据此更新 */
+  external?: TodoExternalRef;
+}
+
+/**
+ * Todo 导入导出格式
+ */
+export type TodoExchangeFormat = 'github' | 'gitlab' | 'csv' | 'markdown';
+
+/**
+ * Todo 在外部来源中的标识
+ */
+export interface TodoExternalRef {
+  source: TodoExchangeFormat;
+  id: string;
+  url?: string;
+}
+
+/**
+ * Todo 与任务文件中任务的关联
+ */
+export interface TodoTaskLink {
+  /** 任务文件路径 */
+  file: string;
+  /** 任务 ID（任务行末尾的 `#id`） */
+  taskId: string;
+  /** 上次同步时两边一致的状态，用于判断哪一边发生了变化 */
+  status: LocalTodo['status'];
+  /** 上次同步时两边一致的内容 */
+  content: string;
+}
+
+/**
+ * Todo 查看范围
+ * - workspace: 当前工作区（含未归属的 Todo）
+ * - session: 当前工作区中关联到指定会话的 Todo
+ * - all: 所有工作区
+ */
+export type TodoScope = 'workspace' | 'session' | 'all';
+
+/**
+ * Todo 查询条件
+ */
+export interface TodoQuery {
+  scope?: TodoScope;
+  /** scope 为 session 时的会话 ID */
+  sessionId?: string;
+  /** 按内容和标签搜索（不区分大小写） */
+  search?: string;
+  /** 只显示带该标签的 Todo */
+  tag?: string;
 }
 
 /**
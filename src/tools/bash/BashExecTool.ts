@@ -19,6 +19,7 @@ import {
     errorResult,
     errorResultFromError,
 } from '../types';
+import { extractRemovedPaths } from '../../services/removedPaths';
 
 /**
  * Bash 执行输入参数
@@ -209,6 +210,13 @@ export class BashExecTool implements ITool<BashExecInput, BashExecOutput> {
         logService.info(`[BashExecTool] ${logPrefix} 执行命令: ${command.slice(0, 200)}${command.length > 200 ? '...' : ''}`);
         logService.info(`[BashExecTool] 工作目录: ${workingDir}`);
 
+        // 为命令将删除的文件创建快照（用于撤回）
+        const toolUseId = context.metadata?.toolUseId as string | undefined;
+        const removedPaths = extractRemovedPaths(command).map(p => path.resolve(workingDir, p));
+        if (toolUseId && context.snapshotService && removedPaths.length > 0) {
+            await context.snapshotService.createDeleteSnapshots(toolUseId, removedPaths, context.sessionId);
+        }
+
         if (run_in_background) {
             return this.executeBackground(command, workingDir, logService);
         }
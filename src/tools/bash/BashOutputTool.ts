@@ -46,6 +46,8 @@ export interface BashOutputOutput {
 export class BashOutputTool implements ITool<BashOutputInput, BashOutputOutput> {
     readonly name = 'bash_output';
 
+    readonly isReadOnly = true;
+
     readonly description = `Get the output from a background shell command. Use the bash_id returned by bash_exec with run_in_background=true.`;
 
     readonly inputSchema: JSONSchema = {
@@ -300,13 +300,18 @@ async function waitForShellIntegration(
 
 /**
  * 使用 Shell Integration 执行命令并读取输出
+ *
+ * @param onOutput 部分输出回调（已去除 ANSI 转义序列）
+ * @param abortSignal 取消信号，取消时向终端发送 Ctrl+C
  */
 async function executeWithShellIntegration(
     terminal: vscode.Terminal,
     shellIntegration: vscode.TerminalShellIntegration,
     command: string,
     timeout: number,
-    logService: any
+    logService: any,
+    onOutput?: (data: string) => void,
+    abortSignal?: AbortSignal
 ): Promise<{ output: string; exitCode: number; timedOut: boolean }> {
     return new Promise((resolve) => {
         let output = '';
@@ -316,6 +321,22 @@ async function executeWithShellIntegration(
         // 执行命令
         const execution = shellIntegration.executeCommand(command);
 
+        // 取消时中断终端中的命令
+        const onAbort = () => {
+            if (!resolved) {
+                resolved = true;
+                cleanup();
+                terminal.sendText('\x03', false);
+                logService.info(`[BashTerminalTool] 命令已取消`);
+                resolve({
+                    output: stripAnsiCodes(output) + '\n[命令已取消]',
+                    exitCode: -1,
+                    timedOut: false,
+                });
+            }
+        };
+        abortSignal?.addEventListener('abort', onAbort);
+
         // 设置超时
         const timeoutId = setTimeout(() => {
             if (!resolved) {
@@ -353,6 +374,7 @@ async function executeWithShellIntegration(
         function cleanup() {
             clearTimeout(timeoutId);
             endListener.dispose();
+            abortSignal?.removeEventListener('abort', onAbort);
         }
 
         // 异步读取输出（不阻塞）
@@ -365,6 +387,7 @@ async function executeWithShellIntegration(
                     // 累积输出，但限制大小
                     if (output.length + data.length <= MAX_OUTPUT_SIZE) {
                         output += data;
+                        onOutput?.(stripAnsiCodes(data));
                     } else if (output.length < MAX_OUTPUT_SIZE) {
                         output += data.slice(0, MAX_OUTPUT_SIZE - output.length);
                         output += '\n... [输出已截断]';
@@ -557,7 +580,15 @@ export class BashTerminalTool implements ITool<BashTerminalInput, BashTerminalOu
                 }
 
                 // 执行实际命令
-                result = await executeWithShellIntegration(terminal, shellIntegration, command, timeout, logService);
+                result = await executeWithShellIntegration(
+                    terminal,
+                    shellIntegration,
+                    command,
+                    timeout,
+                    logService,
+                    context.onProgress,
+                    context.abortSignal
+                );
             } else {
                 // 回退方案：传统方式执行
                 logService.warn(`[BashTerminalTool] Shell Integration 不可用，使用回退方案`);
@@ -19,7 +19,6 @@ import {
     errorResult,
     errorResultFromError,
 } from '../types';
-import { FileSnapshotService } from '../../services/FileSnapshotService';
 
 /**
  * 文件编辑输入参数
@@ -98,7 +97,7 @@ export class FileEditTool implements ITool<FileEditInput, FileEditOutput> {
     async execute(input: FileEditInput, context: ToolContext): Promise<ToolResult<FileEditOutput>> {
         const startTime = Date.now();
         const { file_path, old_string, new_string } = input;
-        const { cwd, logService, metadata } = context;
+        const { cwd, logService, metadata, sessionId, snapshotService } = context;
         const toolUseId = metadata?.toolUseId as string | undefined;
 
         try {
@@ -146,9 +145,8 @@ export class FileEditTool implements ITool<FileEditInput, FileEditOutput> {
 
             // 5. 创建快照（用于撤回）- 在确认要修改后再创建
             let snapshotCreated = false;
-            if (toolUseId) {
-                const snapshotService = FileSnapshotService.getInstance(logService);
-                snapshotCreated = await snapshotService.createSnapshot(toolUseId, absolutePath, 'edit');
+            if (toolUseId && snapshotService) {
+                snapshotCreated = await snapshotService.createSnapshot(toolUseId, absolutePath, 'edit', sessionId);
                 logService.info(`[FileEditTool] 快照创建${snapshotCreated ? '成功' : '失败'}: ${toolUseId}`);
             }
 
@@ -66,6 +66,8 @@ const MAX_FILE_SIZE = 10 * 1024 * 1024;
 export class FileReadTool implements ITool<FileReadInput, FileReadOutput> {
     readonly name = 'file_read';
 
+    readonly isReadOnly = true;
+
     readonly description = `Read the contents of a file. Line numbers are 1-indexed. Returns file content with line information. Use offset and limit for large files.`;
 
     readonly inputSchema: JSONSchema = {
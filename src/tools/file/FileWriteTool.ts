@@ -19,7 +19,6 @@ import {
     errorResult,
     errorResultFromError,
 } from '../types';
-import { FileSnapshotService } from '../../services/FileSnapshotService';
 
 /**
  * 文件写入输入参数
@@ -93,7 +92,7 @@ export class FileWriteTool implements ITool<FileWriteInput, FileWriteOutput> {
     async execute(input: FileWriteInput, context: ToolContext): Promise<ToolResult<FileWriteOutput>> {
         const startTime = Date.now();
         const { file_path, content, create_dirs = true } = input;
-        const { cwd, logService, metadata } = context;
+        const { cwd, logService, metadata, sessionId, snapshotService } = context;
         const toolUseId = metadata?.toolUseId as string | undefined;
 
         try {
@@ -103,9 +102,8 @@ export class FileWriteTool implements ITool<FileWriteInput, FileWriteOutput> {
 
             // 2. 创建快照（用于撤回）
             let snapshotCreated = false;
-            if (toolUseId) {
-                const snapshotService = FileSnapshotService.getInstance(logService);
-                snapshotCreated = await snapshotService.createSnapshot(toolUseId, absolutePath, 'write');
+            if (toolUseId && snapshotService) {
+                snapshotCreated = await snapshotService.createSnapshot(toolUseId, absolutePath, 'write', sessionId);
                 logService.info(`[FileWriteTool] 快照创建${snapshotCreated ? '成功' : '失败'}: ${toolUseId}`);
             }
 
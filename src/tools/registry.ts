@@ -60,7 +60,12 @@ export interface IToolRegistry {
     execute(request: ToolUseRequest, context: ToolContext): Promise<ToolUseResponse>;
 
     /**
-     * 批量执行工具（按顺序）
+     * 检查工具是否只读（未注册的工具视为非只读）
+     */
+    isReadOnly(name: string): boolean;
+
+    /**
+     * 批量执行工具（连续的只读工具并行执行，其余按顺序执行，结果顺序与请求一致）
      */
     executeAll(requests: ToolUseRequest[], context: ToolContext): Promise<ToolUseResponse[]>;
 }
@@ -103,6 +108,10 @@ export class ToolRegistry implements IToolRegistry {
         return Array.from(this.tools.keys());
     }
 
+    isReadOnly(name: string): boolean {
+        return this.tools.get(name)?.isReadOnly === true;
+    }
+
     getToolDefinitions(): ToolDefinition[] {
         return Array.from(this.tools.values()).map(tool => ({
             name: tool.name,
@@ -196,20 +205,35 @@ export class ToolRegistry implements IToolRegistry {
     async executeAll(requests: ToolUseRequest[], context: ToolContext): Promise<ToolUseResponse[]> {
         const results: ToolUseResponse[] = [];
 
-        for (const request of requests) {
-            // 检查是否已取消
-            if (context.abortSignal?.aborted) {
-                results.push({
-                    tool_use_id: request.id,
-                    type: 'tool_result',
-                    content: '操作已取消',
-                    is_error: true,
-                });
-                continue;
+        let index = 0;
+        while (index < requests.length) {
+            // 连续的只读工具组成一批并行执行
+            let end = index + 1;
+            if (this.isReadOnly(requests[index].name)) {
+                while (end < requests.length && this.isReadOnly(requests[end].name)) {
+                    end++;
+                }
             }
 
-            const result = await this.execute(request, context);
-            results.push(result);
+            const batch = requests.slice(index, end);
+            if (batch.length > 1) {
+                this.logService.info(`[ToolRegistry] 并行执行 ${batch.length} 个只读工具: ${batch.map(r => r.name).join(', ')}`);
+            }
+
+            const batchResults = await Promise.all(batch.map(request => {
+                // 检查是否已取消
+                if (context.abortSignal?.aborted) {
+                    return Promise.resolve<ToolUseResponse>({
+                        tool_use_id: request.id,
+                        type: 'tool_result',
+                        content: '操作已取消',
+                        is_error: true,
+                    });
+                }
+                return this.execute(request, context);
+            }));
+            results.push(...batchResults);
+            index = end;
         }
 
         return results;
@@ -64,6 +64,8 @@ const MAX_RESULTS = 100;
 export class GlobSearchTool implements ITool<GlobSearchInput, GlobSearchOutput> {
     readonly name = 'glob_search';
 
+    readonly isReadOnly = true;
+
     readonly description = `Search for files and directories by name pattern. Supports glob patterns (e.g., "**/*.ts") and fuzzy matching. Returns paths relative to workspace.`;
 
     readonly inputSchema: JSONSchema = {
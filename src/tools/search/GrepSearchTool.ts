@@ -80,6 +80,8 @@ const MAX_MATCHES = 100;
 export class GrepSearchTool implements ITool<GrepSearchInput, GrepSearchOutput> {
     readonly name = 'grep_search';
 
+    readonly isReadOnly = true;
+
     readonly description = `Search for text or regex pattern in file contents. Returns matching lines with file paths and line numbers. Supports context lines.`;
 
     readonly inputSchema: JSONSchema = {
@@ -10,6 +10,7 @@
  */
 
 import type { ILogService } from '../services/logService';
+import type { IFileSnapshotService } from '../services/FileSnapshotService';
 
 /**
  * JSON Schema 类型（简化版）
@@ -36,6 +37,10 @@ export interface ToolContext {
     logService: ILogService;
     /** 会话 ID（可选，用于跟踪） */
     sessionId?: string;
+    /** 文件快照服务（可选，用于撤回文件修改） */
+    snapshotService?: IFileSnapshotService;
+    /** 部分输出回调（可选，工具执行过程中流式上报输出） */
+    onProgress?: (output: string) => void;
     /** 额外元数据 */
     metadata?: Record<string, any>;
 }
@@ -83,6 +88,9 @@ export interface ITool<TInput = any, TOutput = any> {
     /** 输入参数 JSON Schema */
     readonly inputSchema: JSONSchema;
 
+    /** 是否只读（只读工具不修改文件和系统状态，可与其他只读工具并行执行） */
+    readonly isReadOnly?: boolean;
+
     /**
      * 执行工具
      *
@@ -67,6 +67,8 @@ const DEFAULT_TIMEOUT = 30000;
 export class WebFetchTool implements ITool<WebFetchInput, WebFetchOutput> {
     readonly name = 'web_fetch';
 
+    readonly isReadOnly = true;
+
     readonly description = `Fetch content from a URL. Supports extracting main text content from HTML pages. Useful for reading documentation, API responses, or web page content.`;
 
     readonly inputSchema: JSONSchema = {
@@ -6,6 +6,7 @@ import { VSCodeTransport } from '../transport/VSCodeTransport';
 import { AppContext } from '../core/AppContext';
 import { SessionStore } from '../core/SessionStore';
 import type { SelectionRange } from '../core/Session';
+import { localTodoStore } from '../stores/localTodoStore';
 
 export interface RuntimeInstance {
   connectionManager: ConnectionManager;
@@ -93,6 +94,10 @@ export function useRuntime(): RuntimeInstance {
 
   // 工作区变化监听器清理函数
   let workspaceChangeCleanup: (() => void) | null = null;
+  // 任务队列执行请求监听器清理函数
+  let queuedTaskCleanup: (() => void) | null = null;
+  // 本地 Todo 同步监听器清理函数
+  let localTodosCleanup: (() => void) | null = null;
 
   onMounted(() => {
     let disposed = false;
@@ -144,6 +149,19 @@ export function useRuntime(): RuntimeInstance {
         }
       });
 
+      // 任务队列的每个任务在新会话中执行
+      queuedTaskCleanup = connection.queuedTaskRequested.add(({ title, prompt, resolve }) => {
+        sessionStore.runQueuedTask(title, prompt)
+          .then(resolve)
+          .catch((error) => resolve({ success: false, error: String(error) }));
+      });
+
+      // 本地 Todo 与 TodoWrite / 任务文件同步后更新 Todos 页面和会话任务列表
+      localTodosCleanup = connection.localTodosChanged.add((todos) => {
+        void localTodoStore.refresh();
+        sessionStore.applyLocalTodos(todos);
+      });
+
       // sessions 已在上面并行加载，这里只需检查是否需要创建新会话
       if (!disposed && !sessionStore.activeSession()) {
         await sessionStore.createSession({ isExplicit: false });
@@ -159,6 +177,18 @@ export function useRuntime(): RuntimeInstance {
         workspaceChangeCleanup = null;
       }
 
+      // 清理任务队列监听
+      if (queuedTaskCleanup) {
+        queuedTaskCleanup();
+        queuedTaskCleanup = null;
+      }
+
+      // 清理本地 Todo 同步监听
+      if (localTodosCleanup) {
+        localTodosCleanup();
+        localTodosCleanup = null;
+      }
+
       // 清理命令注册
       slashCommandDisposers.forEach(dispose => dispose());
       cleanupSlashCommands();
@@ -9,6 +9,21 @@ import { Message as MessageModel } from '../models/Message';
 import type { Message } from '../models/Message';
 import { ContentBlockWrapper } from '../models/ContentBlockWrapper';
 import type { WorkspaceChangedBlock } from '../models/ContentBlock';
+import {
+  DEFAULT_ENDLESS_CONDITIONS,
+  DEFAULT_ENDLESS_TEMPLATE,
+  evaluateEndlessStop,
+  hasDoneMarker,
+  renderEndlessPrompt,
+  summarizeReply,
+  tailOutput,
+  type EndlessRoundReport,
+  type EndlessStopConditions,
+  type EndlessStopReason
+} from './endlessMode';
+
+/** 模型目录未加载或未登记当前模型时使用的上下文窗口 */
+const DEFAULT_CONTEXT_WINDOW = 200000;
 
 export interface SelectionRange {
   filePath: string;
@@ -31,6 +46,18 @@ export interface UsageData {
   lastSyncTime: number;
 }
 
+/**
+ * 无尽模式一轮开始时的状态（结束时与之比较生成报告）
+ */
+interface EndlessRoundStart {
+  round: number;
+  startedAt: number;
+  /** 本轮第一条消息的下标 */
+  messageIndex: number;
+  /** 开始时的会话累计 tokens（输入 + 输出） */
+  tokens: number;
+}
+
 export interface AttachmentPayload {
   fileName: string;
   mediaType: string;
@@ -49,6 +76,19 @@ export interface TodoItem {
 
 const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
 
+/**
+ * 提取用户消息的提示词文本（最后一个 text 块，前面的通常是选区等附加上下文）
+ */
+function getPromptText(message: Message): string {
+  const content = message.message.content;
+  if (typeof content === 'string') {
+    return content.trim();
+  }
+  const textBlocks = content.filter(wrapper => wrapper.content.type === 'text');
+  const last = textBlocks[textBlocks.length - 1]?.content as { text?: string } | undefined;
+  return (last?.text ?? '').trim();
+}
+
 export interface SessionOptions {
   isExplicit?: boolean;
   existingWorktree?: { name: string; path: string };
@@ -82,6 +122,13 @@ export class Session {
   private currentConnectionPromise?: Promise<BaseTransport>;
   private lastSentSelection?: SelectionRange;
   private effectCleanup?: () => void;
+  // 回退对话后，下次启动时只恢复到该 assistant 消息为止
+  private pendingResumeAt?: string;
+
+  // 无尽模式当前轮次的起点（用于生成本轮报告）
+  private endlessRoundStart?: EndlessRoundStart;
+  // 上一个 result 事件的累计费用（SDK 在同一个会话进程内累计）
+  private lastResultCost = 0;
 
   // 消息活动超时检测
   private lastMessageTime: number = 0;
@@ -118,11 +165,16 @@ export class Session {
   readonly endlessMaxRounds = signal(10); // 最大执行次数（默认10，最大1000）
   readonly endlessCurrentRound = signal(0); // 当前执行次数
   readonly endlessPrompt = signal('检查前后端数据连接是否一致，前端是否有未完善的功能，检查美工是否精致好看'); // 无尽模式提示词
+  readonly endlessTemplate = signal(DEFAULT_ENDLESS_TEMPLATE); // 每轮提示词模板（见 endlessMode.ts）
+  readonly endlessConditions = signal<EndlessStopConditions>({ ...DEFAULT_ENDLESS_CONDITIONS }); // 停止条件
+  readonly endlessReports = signal<EndlessRoundReport[]>([]); // 本次运行每轮的报告
+  readonly endlessStopReason = signal<EndlessStopReason | undefined>(undefined); // 上次停止的原因
+  readonly endlessVerifying = signal(false); // 正在运行验证命令
 
   readonly usageData = signal<UsageData>({
     totalTokens: 0,
     totalCost: 0,
-    contextWindow: 200000,
+    contextWindow: DEFAULT_CONTEXT_WINDOW,
     sessionInputTokens: 0,
     sessionOutputTokens: 0,
     sessionCacheReadTokens: 0,
@@ -142,6 +194,16 @@ export class Session {
     return conn?.config?.();
   });
 
+  /**
+   * 当前模型的上下文窗口（来自模型目录，未登记时使用默认值）
+   */
+  readonly contextWindow = computed(() => {
+    const model = this.modelSelection();
+    const models = this.connection()?.models() ?? [];
+    const entry = models.find(m => m.id === model) ?? models.find(m => m.upstreamId === model);
+    return entry?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  });
+
   readonly permissionRequests = computed<PermissionRequest[]>(() => {
     const conn = this.connection();
     const channelId = this.claudeChannelId();
@@ -316,6 +378,7 @@ export class Session {
     if (!this.modelSelection()) {
       this.modelSelection(connection.config()?.modelSetting);
     }
+    this.refreshContextWindow();
 
     if (!this.thinkingLevel()) {
       this.thinkingLevel(connection.config()?.thinkingLevel || 'off');
@@ -324,9 +387,12 @@ export class Session {
     // 根据 disableResume 选项决定是否传递 sessionId
     // 禁用 resume 可以避免重放旧的工具调用导致的 InputValidationError
     // 任务状态已持久化到 .tasks/current.md，不需要依赖 session resume
-    const resumeId = this.disableResume() ? undefined : (this.sessionId() ?? undefined);
+    // 回退对话时必须 resume，否则会丢失回退点之前的上下文
+    const resumeAt = this.pendingResumeAt;
+    this.pendingResumeAt = undefined;
+    const resumeId = this.disableResume() && !resumeAt ? undefined : (this.sessionId() ?? undefined);
 
-    if (this.disableResume() && this.sessionId()) {
+    if (this.disableResume() && this.sessionId() && !resumeAt) {
       console.log('[Session] disableResume=true, 跳过 session resume，启动全新会话');
     }
 
@@ -336,7 +402,8 @@ export class Session {
       this.cwd() ?? undefined,
       this.modelSelection() ?? undefined,
       this.permissionMode(),
-      this.thinkingLevel()
+      this.thinkingLevel(),
+      resumeAt
     );
 
     // 只在启动会话时同步一次 usage（不再使用定时器自动同步）
@@ -363,6 +430,61 @@ export class Session {
     this.busy(false);
   }
 
+  /**
+   * 回退对话到指定用户消息之前
+   *
+   * 撤回该消息之后的所有文件修改并截断消息列表，
+   * 下次发送时从该消息之前的 assistant 消息恢复 SDK 会话
+   */
+  async rewindTo(message: Message): Promise<boolean> {
+    const sessionId = this.sessionId();
+    const messages = this.messages();
+    const index = messages.indexOf(message);
+    if (!sessionId || index < 0 || message.type !== 'user') {
+      return false;
+    }
+
+    const connection = await this.getConnection();
+
+    // 正在执行时先结束 channel，避免回退过程中继续修改文件
+    const runningChannel = this.claudeChannelId();
+    if (this.busy() && runningChannel) {
+      connection.closeChannel(runningChannel);
+      this.claudeChannelId(undefined);
+      this.stopActivityCheck();
+      this.busy(false);
+    }
+
+    const promptText = getPromptText(message);
+    const previousPrompts = messages.slice(0, index).filter(m => m.type === 'user' && !m.isEmpty);
+    const occurrence = previousPrompts.filter(m => getPromptText(m) === promptText).length;
+
+    const result = await connection.rewindSession(sessionId, promptText, occurrence, previousPrompts.length);
+    if (!result.success) {
+      this.error(result.error || '回退对话失败');
+      return false;
+    }
+
+    const channelId = this.claudeChannelId();
+    if (channelId) {
+      connection.closeChannel(channelId);
+      this.claudeChannelId(undefined);
+    }
+
+    if (result.resumeAt) {
+      this.pendingResumeAt = result.resumeAt;
+    } else {
+      // 回退到第一条消息之前：开始全新会话
+      this.sessionId(undefined);
+    }
+
+    this.messages(messages.slice(0, index));
+    this.error(undefined);
+    this.taskJustCompleted(false);
+    this.lastModifiedTime(Date.now());
+    return true;
+  }
+
   async restartClaude(): Promise<void> {
     await this.interrupt();
     // interrupt() 已清除 claudeChannelId 和设置 busy(false)
@@ -397,6 +519,7 @@ export class Session {
     console.log(`[Session.setModel] 切换模型: ${previous} -> ${newModel}`);
 
     this.modelSelection(newModel);
+    this.refreshContextWindow();
 
     const channelId = this.claudeChannelId();
     if (!channelId) {
@@ -412,6 +535,7 @@ export class Session {
     if (!response?.success) {
       console.error(`[Session.setModel] setModel 失败，回滚到: ${previous}`);
       this.modelSelection(previous);
+      this.refreshContextWindow();
       return false;
     }
 
@@ -702,6 +826,9 @@ ${errorMsg}
       } else if (event.subtype === 'status' && event.status === 'compacting') {
         // 上下文压缩中：显示提示并自动发送继续消息
         this.handleCompacting();
+      } else if (event.subtype === 'compact_boundary') {
+        // 上下文压缩完成：用压缩后的 tokens 更新上下文占用
+        this.handleCompactBoundary(event.compact_metadata);
       }
     } else if (event?.type === 'result') {
       console.log('[Session] 收到 result 事件，触发 handleEndlessMode');
@@ -711,58 +838,163 @@ ${errorMsg}
       // 显示任务完成提示（保持显示直到用户发送新消息）
       this.taskJustCompleted(true);
 
-      // 无尽模式：自动发送下一轮
-      this.handleEndlessMode();
+      // 无尽模式：生成本轮报告，判断是否继续
+      void this.handleEndlessMode(event);
     }
   }
 
   /**
-   * 处理无尽模式：任务完成后自动发送下一轮
+   * 开始无尽模式（当前空闲时立即发送第一轮，否则等当前任务结束后开始）
    */
-  private handleEndlessMode(): void {
-    console.log('[Session] handleEndlessMode 被调用, endlessMode =', this.endlessMode());
+  startEndlessMode(): void {
+    if (!this.endlessPrompt().trim()) {
+      this.endlessStopReason('empty_prompt');
+      return;
+    }
+
+    this.endlessReports([]);
+    this.endlessStopReason(undefined);
+    this.endlessCurrentRound(0);
+    this.endlessRoundStart = undefined;
+    this.endlessMode(true);
+
+    if (!this.busy()) {
+      void this.sendEndlessRound();
+    }
+  }
 
+  /**
+   * 停止无尽模式（正在执行的一轮不会中断）
+   */
+  stopEndlessMode(reason: EndlessStopReason = 'manual'): void {
     if (!this.endlessMode()) {
-      console.log('[Session] 无尽模式未开启，跳过');
       return;
     }
+    console.log(`[Session] 无尽模式停止: ${reason}，共执行 ${this.endlessCurrentRound()} 轮`);
+    this.endlessMode(false);
+    this.endlessStopReason(reason);
+    this.endlessRoundStart = undefined;
+  }
+
+  /**
+   * 用模板生成并发送下一轮提示词
+   */
+  private async sendEndlessRound(): Promise<void> {
+    const round = this.endlessCurrentRound() + 1;
+    const reports = this.endlessReports();
+    const prompt = renderEndlessPrompt(this.endlessTemplate(), {
+      prompt: this.endlessPrompt(),
+      round,
+      maxRounds: this.endlessMaxRounds(),
+      previous: reports[reports.length - 1]
+    });
+
+    const usage = this.usageData();
+    this.endlessRoundStart = {
+      round,
+      startedAt: Date.now(),
+      messageIndex: this.messages().length,
+      tokens: usage.sessionInputTokens + usage.sessionOutputTokens
+    };
+    this.endlessCurrentRound(round);
+    console.log(`[Session] 无尽模式第 ${round}/${this.endlessMaxRounds()} 轮，发送提示词`);
 
-    const currentRound = this.endlessCurrentRound();
-    const maxRounds = this.endlessMaxRounds();
-    const prompt = this.endlessPrompt();
+    await this.send(prompt);
+  }
 
-    console.log(`[Session] 无尽模式状态: currentRound=${currentRound}, maxRounds=${maxRounds}, prompt="${prompt.substring(0, 50)}..."`);
+  /**
+   * 处理无尽模式：一轮结束后生成报告，按停止条件决定是否发送下一轮
+   */
+  private async handleEndlessMode(result: any): Promise<void> {
+    // SDK 的 total_cost_usd 在会话进程内累计，变小说明进程重启过
+    const resultCost = typeof result?.total_cost_usd === 'number' ? result.total_cost_usd : this.lastResultCost;
+    const roundCost = resultCost >= this.lastResultCost ? resultCost - this.lastResultCost : resultCost;
+    this.lastResultCost = resultCost;
 
-    if (currentRound >= maxRounds) {
-      // 已达到最大次数，关闭无尽模式
-      console.log(`[Session] 无尽模式完成，共执行 ${currentRound} 次`);
-      this.endlessMode(false);
-      this.endlessCurrentRound(0);
+    if (!this.endlessMode()) {
       return;
     }
 
-    if (!prompt.trim()) {
-      console.warn('[Session] 无尽模式提示词为空，停止执行');
-      this.endlessMode(false);
-      return;
+    const start = this.endlessRoundStart;
+    this.endlessRoundStart = undefined;
+
+    if (start) {
+      const report = this.buildEndlessReport(start, result, roundCost);
+      this.endlessReports([...this.endlessReports(), report]);
+
+      const verifyCommand = this.endlessConditions().verifyCommand.trim();
+      if (verifyCommand && !report.error) {
+        report.verify = await this.runEndlessVerify(verifyCommand);
+        this.endlessReports([...this.endlessReports()]);
+      }
+
+      if (!this.endlessMode()) {
+        return;
+      }
+
+      const reason = evaluateEndlessStop(this.endlessReports(), this.endlessConditions(), this.endlessMaxRounds());
+      if (reason) {
+        this.stopEndlessMode(reason);
+        return;
+      }
     }
 
-    // 增加计数
-    this.endlessCurrentRound(currentRound + 1);
-    console.log(`[Session] 无尽模式第 ${currentRound + 1}/${maxRounds} 轮，准备发送`);
+    if (!this.endlessPrompt().trim()) {
+      this.stopEndlessMode('empty_prompt');
+      return;
+    }
 
     // 延迟 1 秒后自动发送（给用户一点缓冲时间）
     setTimeout(() => {
-      console.log(`[Session] setTimeout 回调: endlessMode=${this.endlessMode()}, busy=${this.busy()}`);
       if (this.endlessMode() && !this.busy()) {
-        console.log('[Session] 发送无尽模式消息');
-        this.send(prompt);
+        void this.sendEndlessRound();
       } else {
-        console.log('[Session] 条件不满足，未发送消息');
+        console.log('[Session] 无尽模式已停止或会话忙碌，未发送下一轮');
       }
     }, 1000);
   }
 
+  /**
+   * 生成一轮的报告
+   */
+  private buildEndlessReport(
+    start: EndlessRoundStart,
+    result: any,
+    cost: number
+  ): EndlessRoundReport {
+    const reply = typeof result?.result === 'string' ? result.result : '';
+    const usage = this.usageData();
+    const isError = !!result?.is_error || (result?.subtype && result.subtype !== 'success');
+
+    return {
+      round: start.round,
+      startedAt: start.startedAt,
+      finishedAt: Date.now(),
+      summary: summarizeReply(reply),
+      changedFiles: this.extractModifiedFiles(this.messages().slice(start.messageIndex)),
+      tokens: Math.max(0, usage.sessionInputTokens + usage.sessionOutputTokens - start.tokens),
+      cost,
+      error: isError ? (reply || result?.subtype || '执行出错') : undefined,
+      done: hasDoneMarker(reply)
+    };
+  }
+
+  /**
+   * 在工作区运行验证命令
+   */
+  private async runEndlessVerify(command: string): Promise<EndlessRoundReport['verify']> {
+    this.endlessVerifying(true);
+    try {
+      const connection = await this.getConnection();
+      const response = await connection.runVerifyCommand(command);
+      return { passed: response.passed, exitCode: response.exitCode, output: tailOutput(response.output) };
+    } catch (error) {
+      return { passed: false, exitCode: null, output: String(error) };
+    } finally {
+      this.endlessVerifying(false);
+    }
+  }
+
   /**
    * 处理特殊消息（TodoWrite, usage 统计）
    */
@@ -811,7 +1043,7 @@ ${errorMsg}
     this.usageData({
       totalTokens: contextTokens,  // 使用当前上下文大小
       totalCost: current.totalCost,
-      contextWindow: current.contextWindow,
+      contextWindow: this.contextWindow(),
       // 累计会话消耗
       sessionInputTokens: current.sessionInputTokens + (usage.input_tokens ?? 0),
       sessionOutputTokens: current.sessionOutputTokens + (usage.output_tokens ?? 0),
@@ -823,6 +1055,17 @@ ${errorMsg}
     // 已移除自动同步逻辑，usage 只在启动/结束会话时同步一次
   }
 
+  /**
+   * 模型切换后同步上下文窗口到 usageData
+   */
+  private refreshContextWindow(): void {
+    const contextWindow = this.contextWindow();
+    const current = this.usageData();
+    if (current.contextWindow !== contextWindow) {
+      this.usageData({ ...current, contextWindow });
+    }
+  }
+
   /**
    * 同步 usage 数据到后端
    * 调用后端 API 刷新总使用量
@@ -903,6 +1146,19 @@ ${errorMsg}
     }
   }
 
+  /**
+   * 处理上下文压缩完成标记
+   */
+  private handleCompactBoundary(metadata: { pre_tokens?: number; post_tokens?: number } | undefined): void {
+    this.isCompacting(false);
+
+    if (typeof metadata?.post_tokens === 'number') {
+      const current = this.usageData();
+      this.usageData({ ...current, totalTokens: metadata.post_tokens });
+      console.log('[Session] Context compacted:', metadata.pre_tokens, '->', metadata.post_tokens);
+    }
+  }
+
   /**
    * 手动压缩对话历史（真正的 token 节约）
    *
@@ -1095,7 +1351,7 @@ ${errorMsg}
           const toolName = blockData.name;
           const input = blockData.input as Record<string, unknown> | undefined;
 
-          if ((toolName === 'Write' || toolName === 'Edit') && input?.file_path) {
+          if ((toolName === 'Write' || toolName === 'Edit' || toolName === 'MultiEdit') && input?.file_path) {
             // 提取文件路径，去掉工作目录前缀
             let filePath = String(input.file_path);
             // 简化路径显示（去掉绝对路径前缀）
@@ -1117,11 +1373,12 @@ ${errorMsg}
   }
 
   /**
-   * 导出当前会话事件总结到 Markdown 文件
+   * 导出当前会话事件总结到项目记忆 .claude-summary.md
    *
-   * 提取会话关键内容，调用 AI 生成摘要，然后追加到固定的 Markdown 文件。
+   * 提取会话关键内容和修改的文件，让 AI 生成更新后的项目概述和本次工作日志，
+   * 由扩展以 Diff 展示更新提案，用户确认后才写入。
    *
-   * @returns 是否成功导出（用于后续创建新会话）
+   * @returns 是否已写入（用于后续创建新会话）
    */
   async exportSummaryToMarkdown(): Promise<boolean> {
     const currentMessages = this.messages();
@@ -1160,17 +1417,35 @@ ${errorMsg}
         throw new Error('No active channel');
       }
 
-      // 2.5 提取修改的文件列表
+      // 2.5 提取修改的文件列表和当前的项目概述
       const modifiedFiles = this.extractModifiedFiles(currentMessages);
+      const { exists, overview } = await connection.getSummaryOverview();
+
+      // 3. 构建摘要请求 prompt：更新后的项目概述 + 本次工作日志
+      const filesText = modifiedFiles.length > 0
+        ? modifiedFiles.map(f => `- ${f}`).join('\n')
+        : '（无）';
+      const summaryPrompt = `请根据以下对话更新项目记忆文件 .claude-summary.md。按下面的格式输出，不要有多余的开场白：
 
-      // 3. 构建摘要请求 prompt
-      const summaryPrompt = `请为以下对话生成一个详细的工作日志摘要。要求：
+<overview>
+更新后的完整项目概述（Markdown，以一级标题开头）：在现有概述的基础上，补充或修正本次对话中确定的项目结构、关键约定和技术决策，删除已经过时的内容，保持简洁
+</overview>
+
+<worklog>
+本次会话的工作日志：
 1. 用 3-6 个要点概括主要工作内容
 2. 突出用户的核心需求和最终解决方案
 3. 列出关键的技术决策和实现方式
 4. 如果有遇到的问题和解决方法，也要记录
-5. 使用中文，保持专业但详细
-6. 直接输出摘要内容，不要有多余的开场白
+</worklog>
+
+使用中文，保持专业但详细。
+
+现有的项目概述：
+${exists && overview ? overview.slice(0, 8000) : '（尚无）'}
+
+本次修改的文件：
+${filesText}
 
 对话内容：
 ${keyConversation.slice(0, 15000)}`;
@@ -1235,75 +1510,39 @@ ${keyConversation.slice(0, 15000)}`;
         setTimeout(checkResponse, 500);
       });
 
-      // 6. 生成时间戳和元信息
-      const now = new Date();
-      const readableTime = now.toLocaleString('zh-CN', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      });
-
-      const sessionId = this.sessionId() || 'unknown';
-      const sessionSummary = this.summary() || '无标题会话';
-      const fileName = `.claude-summary.md`;
-
-      // 7. 构建 Markdown 内容（更详细的工作日志）
-      const filesSection = modifiedFiles.length > 0
-        ? `\n### 修改的文件\n\n${modifiedFiles.map(f => `- \`${f}\``).join('\n')}\n`
-        : '';
-
-      const newContent = `
----
-
-## 工作日志 - ${readableTime.split(' ')[0]}
-
-> **会话标题**: ${sessionSummary}
-> **记录时间**: ${readableTime}
-> **消息数量**: ${currentMessages.length}
-
-### 工作摘要
-
-${aiSummary || '（摘要生成失败）'}
-${filesSection}
-`;
-
-      // 8. 尝试读取现有文件内容
-      let existingContent = '';
-      try {
-        const readResult = await connection.readFile(fileName);
-        if (readResult.success && readResult.content) {
-          existingContent = readResult.content;
-        }
-      } catch {
-        // 文件不存在，创建新文件
-        existingContent = `# Claude 会话摘要
-
-*此文件由 Claudix 自动生成，记录会话历史。*
-`;
+      if (!aiSummary) {
+        throw new Error('摘要生成失败');
       }
 
-      // 9. 追加新内容
-      const finalContent = existingContent + newContent;
+      // 6. 由扩展展示 Diff，用户确认后写入 .claude-summary.md
+      const fileName = '.claude-summary.md';
+      const result = await connection.proposeSummaryUpdate({
+        reply: aiSummary,
+        sessionTitle: this.summary() || '无标题会话',
+        messageCount: currentMessages.length,
+        modifiedFiles
+      });
 
-      // 10. 写入 MD 文件到工作目录
-      const writeResult = await connection.writeFile(fileName, finalContent);
-      if (writeResult.success) {
-        console.log(`[Session] AI summary appended to ${fileName}`);
+      if (result.error) {
+        throw new Error(result.error);
+      }
 
-        // 显示通知
+      if (result.status === 'applied') {
+        console.log(`[Session] Project summary updated in ${fileName}`);
         if (this.context.showNotification) {
-          this.context.showNotification(
-            `AI 摘要已生成并追加到 ${fileName}`,
-            'info'
-          );
+          this.context.showNotification(`已更新项目记忆 ${fileName}`, 'info');
         }
         return true;
-      } else {
-        throw new Error('Failed to write file');
       }
+
+      console.log(`[Session] Project summary update ${result.status}`);
+      if (this.context.showNotification) {
+        this.context.showNotification(
+          result.status === 'unchanged' ? `${fileName} 没有需要更新的内容` : `已放弃更新 ${fileName}`,
+          'info'
+        );
+      }
+      return false;
     } catch (error) {
       console.error('[Session] Failed to export summary:', error);
       if (this.context.showNotification) {
@@ -4,6 +4,7 @@ import type { ConnectionManager } from './ConnectionManager';
 import { Session, type SessionContext, type SessionOptions } from './Session';
 import type { PermissionRequest } from './PermissionRequest';
 import type { SessionSummary } from './types';
+import type { LocalTodo } from '../../../shared/todos';
 
 export interface PermissionEvent {
   session: Session;
@@ -138,6 +139,63 @@ export class SessionStore {
     return session;
   }
 
+  /**
+   * 在新会话中执行任务队列的一个任务，会话空闲（或被关闭）后返回结果
+   */
+  async runQueuedTask(title: string, prompt: string): Promise<{ success: boolean; error?: string; sessionId?: string }> {
+    console.log('[SessionStore] 执行队列任务:', title);
+    const session = await this.createSession({ isExplicit: true });
+
+    try {
+      await session.send(prompt);
+    } catch (error) {
+      return { success: false, error: String(error), sessionId: session.sessionId() };
+    }
+
+    const closed = await new Promise<boolean>((resolve) => {
+      let done = false;
+      const stop = effect(() => {
+        const removed = !this.sessions().includes(session);
+        if (done || (session.busy() && !removed)) {
+          return;
+        }
+        done = true;
+        // effect 首次运行时 stop 尚未赋值，延后清理
+        queueMicrotask(() => stop());
+        resolve(removed);
+      });
+    });
+
+    const error = closed ? '会话已被关闭' : session.error();
+    return { success: !error, error, sessionId: session.sessionId() };
+  }
+
+  /**
+   * 把本地 Todo 的状态同步到各会话的任务列表（按会话 ID 和内容匹配）
+   */
+  applyLocalTodos(todos: LocalTodo[]): void {
+    for (const session of this.sessions()) {
+      const sessionId = session.sessionId();
+      const current = session.todos();
+      if (!sessionId || current.length === 0) {
+        continue;
+      }
+
+      let changed = false;
+      const next = current.map((item) => {
+        const local = todos.find(t => t.sessionId === sessionId && t.content === item.content);
+        if (!local || local.status === item.status) {
+          return item;
+        }
+        changed = true;
+        return { ...item, status: local.status };
+      });
+      if (changed) {
+        session.todos(next);
+      }
+    }
+  }
+
   async listSessions(): Promise<void> {
     if (this.currentConnectionPromise) {
       return this.currentConnectionPromise;
@@ -260,6 +318,15 @@ export class SessionStore {
       if (this.activeSession() !== session) {
         this.activeSession(session);
       }
+
+      // 计划获批后扩展端会退出计划模式，这里同步界面上的模式
+      if (request.toolName === 'ExitPlanMode') {
+        request.onResolved((result) => {
+          if (result.behavior === 'allow' && session.permissionMode() === 'plan') {
+            session.setPermissionMode('default', false);
+          }
+        });
+      }
     });
   }
 
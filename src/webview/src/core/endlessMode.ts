@@ -0,0 +1,249 @@
+/**
+ * 无尽模式：每轮提示词模板与停止条件
+ *
+ * 每轮结束后根据本轮报告判断是否继续：
+ * - 助手表示已全部完成（回复中单独一行 ENDLESS_DONE）
+ * - 本轮没有修改任何文件
+ * - 验证命令通过
+ * - 累计 tokens 或费用超出预算
+ * - 连续多轮出错
+ * 继续时用模板生成下一轮提示词，模板中可以引用上一轮的总结。
+ */
+
+/** 助手表示工作已全部完成时输出的标记 */
+export const ENDLESS_DONE_MARKER = 'ENDLESS_DONE';
+
+/** 报告中保留的总结长度 */
+const SUMMARY_MAX_LENGTH = 600;
+
+/** 报告中保留的验证输出行数 */
+const VERIFY_OUTPUT_LINES = 20;
+
+/**
+ * 默认提示词模板
+ *
+ * 可用变量：{{prompt}} {{round}} {{maxRounds}} {{previous}}
+ * {{previous}} 在第一轮为空，之后是上一轮的总结、修改的文件和验证结果
+ */
+export const DEFAULT_ENDLESS_TEMPLATE = `{{prompt}}
+
+（无尽模式第 {{round}}/{{maxRounds}} 轮）
+{{previous}}
+
+如果已经没有需要继续改进的地方，请在回复最后单独一行输出 ${ENDLESS_DONE_MARKER}。`;
+
+/**
+ * 停止条件（数值为 0 表示不限制）
+ */
+export interface EndlessStopConditions {
+  /** 助手输出 ENDLESS_DONE 时停止 */
+  stopOnDone: boolean;
+  /** 本轮没有修改文件时停止 */
+  stopOnNoChanges: boolean;
+  /** 每轮结束后在工作区运行的验证命令，留空不运行 */
+  verifyCommand: string;
+  /** 验证命令通过时停止 */
+  stopOnVerifyPass: boolean;
+  /** 累计 tokens 上限（输入 + 输出） */
+  maxTokens: number;
+  /** 累计费用上限（美元） */
+  maxCost: number;
+  /** 连续出错多少轮后停止 */
+  maxConsecutiveErrors: number;
+}
+
+export const DEFAULT_ENDLESS_CONDITIONS: EndlessStopConditions = {
+  stopOnDone: true,
+  stopOnNoChanges: false,
+  verifyCommand: '',
+  stopOnVerifyPass: true,
+  maxTokens: 0,
+  maxCost: 0,
+  maxConsecutiveErrors: 2
+};
+
+/**
+ * 停止原因
+ */
+export type EndlessStopReason =
+  | 'max_rounds'
+  | 'done'
+  | 'no_changes'
+  | 'verify_passed'
+  | 'token_budget'
+  | 'cost_budget'
+  | 'errors'
+  | 'empty_prompt'
+  | 'manual';
+
+export const ENDLESS_STOP_REASON_LABELS: Record<EndlessStopReason, string> = {
+  max_rounds: '已达到最大轮数',
+  done: '助手表示已全部完成',
+  no_changes: '本轮没有修改文件',
+  verify_passed: '验证命令通过',
+  token_budget: '超出 tokens 预算',
+  cost_budget: '超出费用预算',
+  errors: '连续多轮出错',
+  empty_prompt: '提示词为空',
+  manual: '手动停止'
+};
+
+/**
+ * 验证命令结果
+ */
+export interface EndlessVerifyResult {
+  passed: boolean;
+  exitCode: number | null;
+  /** 输出的最后几行 */
+  output: string;
+}
+
+/**
+ * 单轮报告
+ */
+export interface EndlessRoundReport {
+  round: number;
+  startedAt: number;
+  finishedAt: number;
+  /** 助手最终回复（截断） */
+  summary: string;
+  changedFiles: string[];
+  /** 本轮 tokens（输入 + 输出） */
+  tokens: number;
+  /** 本轮费用（美元） */
+  cost: number;
+  /** 本轮出错时的错误信息 */
+  error?: string;
+  /** 助手输出了 ENDLESS_DONE */
+  done: boolean;
+  verify?: EndlessVerifyResult;
+}
+
+/**
+ * 用模板生成一轮的提示词
+ */
+export function renderEndlessPrompt(
+  template: string,
+  vars: { prompt: string; round: number; maxRounds: number; previous?: EndlessRoundReport }
+): string {
+  const values: Record<string, string> = {
+    prompt: vars.prompt.trim(),
+    round: String(vars.round),
+    maxRounds: String(vars.maxRounds),
+    previous: vars.previous ? describeRound(vars.previous) : ''
+  };
+
+  const text = (template.trim() || DEFAULT_ENDLESS_TEMPLATE).replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (match, name: string) => values[name] ?? match
+  );
+  // 变量为空时去掉多余的空行
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * 上一轮的文字描述（用于下一轮提示词）
+ */
+export function describeRound(report: EndlessRoundReport): string {
+  const lines = [`上一轮（第 ${report.round} 轮）总结：`, report.summary || '（无回复）'];
+
+  lines.push(
+    report.changedFiles.length > 0
+      ? `修改的文件：${report.changedFiles.join('、')}`
+      : '上一轮没有修改文件。'
+  );
+
+  if (report.error) {
+    lines.push(`上一轮出错：${report.error}`);
+  }
+
+  if (report.verify) {
+    if (report.verify.passed) {
+      lines.push('验证命令通过。');
+    } else {
+      const exit = report.verify.exitCode === null ? '超时或无法执行' : `退出码 ${report.verify.exitCode}`;
+      lines.push(`验证命令失败（${exit}），请优先修复：`);
+      if (report.verify.output) {
+        lines.push('```', report.verify.output, '```');
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 助手回复中是否有单独一行的完成标记
+ */
+export function hasDoneMarker(text: string): boolean {
+  return text.split('\n').some(line => line.trim().replace(/[`*]/g, '') === ENDLESS_DONE_MARKER);
+}
+
+/**
+ * 截断助手回复作为本轮总结（去掉完成标记）
+ */
+export function summarizeReply(text: string): string {
+  const cleaned = text
+    .split('\n')
+    .filter(line => line.trim().replace(/[`*]/g, '') !== ENDLESS_DONE_MARKER)
+    .join('\n')
+    .trim();
+  return cleaned.length > SUMMARY_MAX_LENGTH ? `${cleaned.slice(0, SUMMARY_MAX_LENGTH)}…` : cleaned;
+}
+
+/**
+ * 保留验证输出的最后几行
+ */
+export function tailOutput(output: string): string {
+  return output.trim().split('\n').slice(-VERIFY_OUTPUT_LINES).join('\n');
+}
+
+/**
+ * 根据所有已完成轮次的报告判断是否停止，继续时返回 undefined
+ */
+export function evaluateEndlessStop(
+  reports: EndlessRoundReport[],
+  conditions: EndlessStopConditions,
+  maxRounds: number
+): EndlessStopReason | undefined {
+  const last = reports[reports.length - 1];
+  if (!last) {
+    return undefined;
+  }
+
+  if (conditions.maxConsecutiveErrors > 0) {
+    const recent = reports.slice(-conditions.maxConsecutiveErrors);
+    if (recent.length === conditions.maxConsecutiveErrors && recent.every(report => report.error)) {
+      return 'errors';
+    }
+  }
+
+  const totalTokens = reports.reduce((sum, report) => sum + report.tokens, 0);
+  if (conditions.maxTokens > 0 && totalTokens >= conditions.maxTokens) {
+    return 'token_budget';
+  }
+
+  const totalCost = reports.reduce((sum, report) => sum + report.cost, 0);
+  if (conditions.maxCost > 0 && totalCost >= conditions.maxCost) {
+    return 'cost_budget';
+  }
+
+  // 出错的轮次不按完成 / 无修改 / 验证判断，交给下一轮重试
+  if (!last.error) {
+    if (conditions.stopOnVerifyPass && last.verify?.passed) {
+      return 'verify_passed';
+    }
+    // 验证失败时即使助手表示完成也继续，让下一轮修复
+    if (conditions.stopOnDone && last.done && last.verify?.passed !== false) {
+      return 'done';
+    }
+    if (conditions.stopOnNoChanges && last.changedFiles.length === 0) {
+      return 'no_changes';
+    }
+  }
+
+  if (last.round >= maxRounds) {
+    return 'max_rounds';
+  }
+  return undefined;
+}
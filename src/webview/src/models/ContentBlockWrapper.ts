@@ -29,6 +29,11 @@ export class ContentBlockWrapper {
    */
   private readonly toolResultSignal = signal<ToolResultBlock | undefined>(undefined);
 
+  /**
+   * 工具执行中的部分输出（tool_progress 消息携带的 output 累积）
+   */
+  private readonly toolProgressSignal = signal<string>('');
+
   /**
    * Tool Use Result（普通属性）
    * 用于会话加载时的 toolUseResult（不需要响应式）
@@ -59,6 +64,22 @@ export class ContentBlockWrapper {
     this.toolResultSignal(result);
   }
 
+  /**
+   * 获取部分输出 signal
+   */
+  get toolProgress() {
+    return this.toolProgressSignal;
+  }
+
+  /**
+   * 追加部分输出
+   *
+   * @param output 新的输出片段
+   */
+  appendToolProgress(output: string): void {
+    this.toolProgressSignal(this.toolProgressSignal() + output);
+  }
+
   /**
    * 检查是否有 tool_result
    */
@@ -5,7 +5,8 @@
  */
 
 import { signal, computed } from 'alien-signals';
-import type { LocalTodo } from '../../../shared/todos';
+import type { LocalTodo, TodoQuery, TodoScope, TodoExchangeFormat } from '../../../shared/todos';
+import type { ImportTodosResponse, ExportTodosResponse } from '../../../shared/messages';
 import type { BaseTransport } from '../transport/BaseTransport';
 
 class LocalTodoStore {
@@ -16,6 +17,16 @@ class LocalTodoStore {
   readonly isLoading = signal(false);
   readonly error = signal<string | null>(null);
 
+  // 查看范围与过滤条件
+  readonly scope = signal<TodoScope>('workspace');
+  readonly sessionId = signal<string | undefined>(undefined);
+  readonly search = signal('');
+  readonly tag = signal<string | undefined>(undefined);
+  /** 当前范围内的所有标签 */
+  readonly tags = signal<string[]>([]);
+  /** 当前工作区目录 */
+  readonly workspace = signal<string | undefined>(undefined);
+
   // 计算属性
   readonly pendingTodos = computed(() =>
     this.todos().filter(t => t.status === 'pending')
@@ -46,7 +57,7 @@ class LocalTodoStore {
   }
 
   /**
-   * 加载所有 Todo
+   * 按当前范围和过滤条件加载 Todo
    */
   async load(): Promise<void> {
     if (!this.transport) {
@@ -58,10 +69,7 @@ class LocalTodoStore {
     this.error(null);
 
     try {
-      const response = await (this.transport as any).sendRequest({
-        type: 'get_local_todos'
-      });
-      this.todos(response.todos || []);
+      await this.fetch();
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : String(err);
       this.error(errorMsg);
@@ -71,11 +79,67 @@ class LocalTodoStore {
     }
   }
 
+  /**
+   * 静默刷新（不显示加载状态，用于扩展端推送的同步结果）
+   */
+  async refresh(): Promise<void> {
+    if (!this.transport) {
+      return;
+    }
+
+    try {
+      await this.fetch();
+    } catch (err) {
+      console.error('[LocalTodoStore] Failed to refresh todos:', err);
+    }
+  }
+
+  /**
+   * 修改范围或过滤条件并重新加载
+   */
+  async setQuery(query: TodoQuery): Promise<void> {
+    if (query.scope !== undefined) {
+      this.scope(query.scope);
+    }
+    if ('sessionId' in query) {
+      this.sessionId(query.sessionId);
+    }
+    if (query.search !== undefined) {
+      this.search(query.search);
+    }
+    if ('tag' in query) {
+      this.tag(query.tag);
+    }
+    await this.refresh();
+  }
+
+  private currentQuery(): TodoQuery {
+    return {
+      scope: this.scope(),
+      sessionId: this.sessionId(),
+      search: this.search() || undefined,
+      tag: this.tag()
+    };
+  }
+
+  private async fetch(): Promise<void> {
+    const response = await (this.transport as any).sendRequest({
+      type: 'get_local_todos',
+      query: this.currentQuery()
+    });
+    this.todos(response.todos || []);
+    this.tags(response.tags || []);
+    this.workspace(response.workspace);
+  }
+
   /**
    * 添加 Todo
    */
   async add(content: string, priority?: LocalTodo['priority']): Promise<LocalTodo | null> {
-    if (!this.transport || !content.trim()) {
+    // 内容中的 `#标签` 提取为标签
+    const tags = [...content.matchAll(/(?:^|\s)#([^\s#]+)/g)].map(match => match[1]);
+    const text = content.replace(/(?:^|\s)#[^\s#]+/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!this.transport || !text) {
       return null;
     }
 
@@ -83,14 +147,17 @@ class LocalTodoStore {
       const response = await (this.transport as any).sendRequest({
         type: 'add_local_todo',
         todo: {
-          content: content.trim(),
+          content: text,
           status: 'pending',
-          priority
+          priority,
+          tags: tags.length > 0 ? [...new Set(tags)] : undefined,
+          // 在「当前会话」视图中添加的任务关联到该会话
+          sessionId: this.scope() === 'session' ? this.sessionId() : undefined
         }
       });
 
       const newTodo = response.todo;
-      this.todos([newTodo, ...this.todos()]);
+      await this.refresh();
       return newTodo;
     } catch (err) {
       console.error('[LocalTodoStore] Failed to add todo:', err);
@@ -201,18 +268,69 @@ class LocalTodoStore {
     }
 
     try {
-      const response = await (this.transport as any).sendRequest({
+      await (this.transport as any).sendRequest({
         type: 'import_claude_todos',
         todos: claudeTodos,
         sessionId
       });
 
-      this.todos(response.todos || []);
+      await this.refresh();
     } catch (err) {
       console.error('[LocalTodoStore] Failed to sync from Claude:', err);
     }
   }
 
+  /**
+   * 从文件导入（扩展端弹出文件选择框；format 为空时自动识别）
+   */
+  async importFromFile(
+    format: TodoExchangeFormat | undefined,
+    linkExternal: boolean
+  ): Promise<ImportTodosResponse | null> {
+    if (!this.transport) {
+      return null;
+    }
+
+    try {
+      const response: ImportTodosResponse = await (this.transport as any).sendRequest({
+        type: 'import_todos',
+        format,
+        linkExternal
+      });
+      if (!response.cancelled) {
+        await this.refresh();
+      }
+      return response;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this.error(errorMsg);
+      console.error('[LocalTodoStore] Failed to import todos:', err);
+      return null;
+    }
+  }
+
+  /**
+   * 按当前范围和过滤条件导出到文件
+   */
+  async exportToFile(format: TodoExchangeFormat): Promise<ExportTodosResponse | null> {
+    if (!this.transport) {
+      return null;
+    }
+
+    try {
+      return await (this.transport as any).sendRequest({
+        type: 'export_todos',
+        format,
+        query: this.currentQuery()
+      });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      this.error(errorMsg);
+      console.error('[LocalTodoStore] Failed to export todos:', err);
+      return null;
+    }
+  }
+
   /**
    * 切换 Todo 状态（循环：pending -> in_progress -> completed -> pending）
    */
@@ -236,6 +354,7 @@ class LocalTodoStore {
    */
   reset(): void {
     this.todos([]);
+    this.tags([]);
     this.isLoading(false);
     this.error(null);
   }
@@ -2,7 +2,20 @@ import { signal } from "alien-signals";
 import { AsyncQueue } from "./AsyncQueue";
 import { EventEmitter } from "../utils/events";
 import { PermissionRequest } from "../core/PermissionRequest";
-import type { PermissionResult, PermissionMode } from "../../../shared/permissions";
+import type {
+  PermissionResult,
+  PermissionMode,
+  PermissionRule,
+  PermissionRuleConfig,
+  PermissionRuleScope,
+  PermissionDecisionLogEntry,
+} from "../../../shared/permissions";
+import type { ModelDefinition } from "../../../shared/models";
+import type { SSHProfile, SSHProfilePreset, SSHSessionInfo, SSHTunnelInfo } from "../../../shared/ssh";
+import type { TaskInfo, TaskQueueState } from "../../../shared/tasks";
+import type { ScheduledTasksState } from "../../../shared/schedules";
+import type { LocalTodo } from "../../../shared/todos";
+import type { MemoryTarget, MemoryUpdateStatus } from "../../../shared/memory";
 import type {
   ExtensionRequestResponse,
   ExtensionToWebViewMessage,
@@ -10,10 +23,19 @@ import type {
   InitResponse,
   RequestMessage,
   ToolPermissionRequest,
+  ProviderInfoItem,
   WebViewToExtensionMessage,
   WebViewRequest,
   ShowNotificationRequest,
   WorkspaceChangedRequest,
+  ModelsChangedRequest,
+  SSHCommandOutputRequest,
+  SSHSessionsChangedRequest,
+  RunQueuedTaskRequest,
+  RunQueuedTaskResponse,
+  TaskQueueStateChangedRequest,
+  ScheduledTasksChangedRequest,
+  LocalTodosChangedRequest,
 } from "../../../shared/messages";
 
 export interface WorkspaceInfo {
@@ -39,6 +61,8 @@ export abstract class BaseTransport {
   readonly config = signal<InitResponse["state"] | undefined>(undefined);
   readonly claudeConfig = signal<GetClaudeStateResponse["config"] | undefined>(undefined);
   readonly workspaceInfo = signal<WorkspaceInfo | undefined>(undefined);
+  /** 模型目录（内置目录 + xiong.models 设置） */
+  readonly models = signal<ModelDefinition[]>([]);
 
   get opened(): Promise<void> {
     return Promise.resolve();
@@ -56,18 +80,42 @@ export abstract class BaseTransport {
 
   /** 自动任务发现事件 */
   readonly autoTaskFound: EventEmitter<{
-    tasks: Array<{ title: string; status: string; section: string }>;
+    tasks: TaskInfo[];
     prompt: string;
   }> = new EventEmitter();
 
   /** 任务文件变化事件（用于实时 UI 更新） */
   readonly taskFileChanged: EventEmitter<{
-    tasks: Array<{ title: string; status: string; section: string }>;
+    tasks: TaskInfo[];
   }> = new EventEmitter();
 
   /** 自动任务禁用事件 */
   readonly autoTaskDisabled: EventEmitter<void> = new EventEmitter();
 
+  /** 任务队列状态变化事件 */
+  readonly taskQueueStateChanged: EventEmitter<TaskQueueState> = new EventEmitter();
+
+  /** 定时任务状态变化事件 */
+  readonly scheduledTasksChanged: EventEmitter<ScheduledTasksState> = new EventEmitter();
+
+  /** 本地 Todo 同步后的完整列表 */
+  readonly localTodosChanged: EventEmitter<LocalTodo[]> = new EventEmitter();
+
+  /** 任务队列请求在新会话中执行任务（监听方执行完成后调用 resolve） */
+  readonly queuedTaskRequested: EventEmitter<{
+    title: string;
+    prompt: string;
+    resolve: (result: Omit<RunQueuedTaskResponse, "type">) => void;
+  }> = new EventEmitter();
+
+  /** SSH 命令部分输出事件 */
+  readonly sshCommandOutput: EventEmitter<Omit<SSHCommandOutputRequest, "type">> =
+    new EventEmitter();
+
+  /** SSH 会话 / 隧道列表变化事件 */
+  readonly sshSessionsChanged: EventEmitter<{ sessions: SSHSessionInfo[]; tunnels: SSHTunnelInfo[] }> =
+    new EventEmitter();
+
   protected readonly fromHost = new AsyncQueue<ExtensionToWebViewMessage>();
   protected readonly streams = new Map<string, AsyncQueue<any>>();
   protected readonly outstandingRequests = new Map<string, RequestHandler>();
@@ -97,6 +145,13 @@ export abstract class BaseTransport {
       type: "get_claude_state",
     });
     this.claudeConfig(claudeState.config);
+
+    try {
+      const modelsResponse = await this.getModels();
+      this.models(modelsResponse.models);
+    } catch (error) {
+      console.warn("[BaseTransport] 获取模型目录失败:", error);
+    }
     this.state("connected");
   }
 
@@ -106,7 +161,8 @@ export abstract class BaseTransport {
     cwd?: string,
     model?: string,
     permissionMode?: PermissionMode,
-    thinkingLevel?: string
+    thinkingLevel?: string,
+    resumeSessionAt?: string
   ): AsyncQueue<any> {
     const queue = new AsyncQueue<any>();
     this.streams.set(channelId, queue);
@@ -118,6 +174,7 @@ export abstract class BaseTransport {
       model,
       permissionMode,
       thinkingLevel,
+      resumeSessionAt,
     });
     return queue;
   }
@@ -130,6 +187,18 @@ export abstract class BaseTransport {
     this.send({ type: "interrupt_claude", channelId });
   }
 
+  /**
+   * 关闭 channel（结束 SDK 会话并终止本地消息流）
+   */
+  closeChannel(channelId: string): void {
+    this.send({ type: "close_channel", channelId });
+    const stream = this.streams.get(channelId);
+    if (stream) {
+      stream.done();
+      this.streams.delete(channelId);
+    }
+  }
+
   openFile(filePath: string, location?: any): Promise<any> {
     return this.sendRequest({ type: "open_file", filePath, location });
   }
@@ -232,7 +301,7 @@ export abstract class BaseTransport {
   }
 
   // SSH 操作
-  sshConnect(host: string, options?: { port?: number; username?: string; identityFile?: string }): Promise<{ sessionId?: string; error?: string }> {
+  sshConnect(host: string, options?: { port?: number; username?: string; identityFile?: string; proxyJump?: string }): Promise<{ sessionId?: string; error?: string }> {
     return this.sendRequest({
       type: "ssh_connect",
       host,
@@ -240,7 +309,35 @@ export abstract class BaseTransport {
     });
   }
 
-  sshCommand(sessionId: string, command: string, timeout?: number): Promise<{ success: boolean; output: string; error?: string }> {
+  /**
+   * 按主机配置名称连接（工作区预设或 ~/.ssh/config 别名）
+   */
+  sshConnectProfile(profile: string): Promise<{ sessionId?: string; error?: string }> {
+    return this.sendRequest({ type: "ssh_connect", profile });
+  }
+
+  sshListProfiles(): Promise<{ profiles: SSHProfile[] }> {
+    return this.sendRequest({ type: "ssh_list_profiles" });
+  }
+
+  sshSaveProfile(profile: SSHProfilePreset): Promise<{ success: boolean; error?: string }> {
+    return this.sendRequest({ type: "ssh_save_profile", profile });
+  }
+
+  sshRemoveProfile(name: string): Promise<{ success: boolean }> {
+    return this.sendRequest({ type: "ssh_remove_profile", name });
+  }
+
+  sshCommand(sessionId: string, command: string, timeout?: number): Promise<{
+    success: boolean;
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+    output: string;
+    error?: string;
+    timedOut?: boolean;
+    durationMs: number;
+  }> {
     return this.sendRequest({
       type: "ssh_command",
       sessionId,
@@ -263,10 +360,40 @@ export abstract class BaseTransport {
     });
   }
 
-  sshListSessions(): Promise<{ sessions: Array<{ id: string; host: string; isConnected: boolean }> }> {
+  sshListSessions(): Promise<{ sessions: SSHSessionInfo[]; tunnels: SSHTunnelInfo[] }> {
     return this.sendRequest({ type: "ssh_list_sessions" });
   }
 
+  /**
+   * 打开端口转发隧道（复用会话或主机配置的连接参数）
+   */
+  sshOpenTunnel(options: {
+    name: string;
+    tunnelType: "local" | "remote";
+    sessionId?: string;
+    profile?: string;
+    bindPort: number;
+    bindAddress?: string;
+    targetHost?: string;
+    targetPort: number;
+  }): Promise<{ tunnel?: SSHTunnelInfo; error?: string }> {
+    return this.sendRequest({ type: "ssh_open_tunnel", ...options });
+  }
+
+  /**
+   * 将 SSH 会话挂载到 VS Code 终端（已挂载时聚焦该终端）
+   */
+  sshAttachTerminal(sessionId: string): Promise<{ success: boolean; error?: string }> {
+    return this.sendRequest({ type: "ssh_attach_terminal", sessionId });
+  }
+
+  /**
+   * 关闭端口转发隧道（ID 或名称）
+   */
+  sshCloseTunnel(tunnel: string): Promise<{ success: boolean }> {
+    return this.sendRequest({ type: "ssh_close_tunnel", tunnel });
+  }
+
   getCurrentSelection(): Promise<any> {
     return this.sendRequest({ type: "get_current_selection" });
   }
@@ -399,7 +526,7 @@ export abstract class BaseTransport {
     return this.sendRequest({ type: "set_auto_approve_config", config });
   }
 
-  readTaskFile(): Promise<{ success: boolean; content?: string; error?: string }> {
+  readTaskFile(): Promise<{ success: boolean; content?: string; tasks?: TaskInfo[]; error?: string }> {
     return this.sendRequest({ type: "read_task_file" });
   }
 
@@ -447,15 +574,91 @@ export abstract class BaseTransport {
    * 手动触发任务检查
    */
   checkTasksNow(): Promise<{
-    tasks: Array<{
-      title: string;
-      status: 'pending' | 'in-progress' | 'completed';
-      section: 'in-progress' | 'pending' | 'completed';
-    }>;
+    tasks: TaskInfo[];
   }> {
     return this.sendRequest({ type: "check_tasks_now" });
   }
 
+  // ============================================================================
+  // 任务队列 API
+  // ============================================================================
+
+  /**
+   * 开始逐条执行任务文件中的任务
+   */
+  startTaskQueue(): Promise<{ success: boolean; error?: string; state: TaskQueueState }> {
+    return this.sendRequest({ type: "start_task_queue" });
+  }
+
+  /**
+   * 停止任务队列（当前任务结束后生效）
+   */
+  stopTaskQueue(): Promise<{ state: TaskQueueState }> {
+    return this.sendRequest({ type: "stop_task_queue" });
+  }
+
+  /**
+   * 获取任务队列状态
+   */
+  getTaskQueueState(): Promise<{ state: TaskQueueState }> {
+    return this.sendRequest({ type: "get_task_queue_state" });
+  }
+
+  /**
+   * 在工作区根目录运行验证命令
+   */
+  runVerifyCommand(command: string): Promise<{ passed: boolean; exitCode: number | null; output: string }> {
+    return this.sendRequest({ type: "run_verify_command", command });
+  }
+
+  // ============================================================================
+  // 定时任务 API
+  // ============================================================================
+
+  /**
+   * 获取定时任务（xiong.schedules）及最近的运行记录
+   */
+  getScheduledTasks(): Promise<{ state: ScheduledTasksState }> {
+    return this.sendRequest({ type: "get_scheduled_tasks" });
+  }
+
+  /**
+   * 立即在后台会话中运行一个定时任务
+   */
+  runScheduledTask(name: string): Promise<{ success: boolean; error?: string; state: ScheduledTasksState }> {
+    return this.sendRequest({ type: "run_scheduled_task", name });
+  }
+
+  // ============================================================================
+  // 项目记忆 API
+  // ============================================================================
+
+  /**
+   * 添加快速记忆（`# 内容` 写入 CLAUDE.md，`#local` / `#user` / `#summary` 写入对应文件）
+   */
+  addMemoryNote(text: string): Promise<{ success: boolean; target?: MemoryTarget; fileName?: string; error?: string }> {
+    return this.sendRequest({ type: "add_memory_note", text });
+  }
+
+  /**
+   * 获取 .claude-summary.md 中的项目概述（不含工作日志）
+   */
+  getSummaryOverview(): Promise<{ exists: boolean; overview: string }> {
+    return this.sendRequest({ type: "get_summary_overview" });
+  }
+
+  /**
+   * 提出 .claude-summary.md 的更新，扩展展示 Diff 并等待用户确认
+   */
+  proposeSummaryUpdate(params: {
+    reply: string;
+    sessionTitle: string;
+    messageCount: number;
+    modifiedFiles: string[];
+  }): Promise<{ status?: MemoryUpdateStatus; error?: string }> {
+    return this.sendRequest({ type: "propose_summary_update", ...params });
+  }
+
   /**
    * 撤回文件修改
    */
@@ -477,6 +680,84 @@ export abstract class BaseTransport {
     return this.sendRequest({ type: "view_snapshot_diff", snapshotId });
   }
 
+  /**
+   * 回滚检查点（撤回一轮 assistant 回复中的所有文件修改）
+   */
+  revertCheckpoint(sessionId: string, messageId: string, includeLater = false): Promise<{
+    success: boolean;
+    revertedFiles: string[];
+    error?: string;
+  }> {
+    return this.sendRequest({ type: "revert_checkpoint", sessionId, messageId, includeLater });
+  }
+
+  /**
+   * 列出会话的检查点
+   */
+  listCheckpoints(sessionId: string): Promise<{
+    checkpoints: Array<{ messageId: string; timestamp: number; files: string[]; reverted: boolean }>;
+  }> {
+    return this.sendRequest({ type: "list_checkpoints", sessionId });
+  }
+
+  /**
+   * 回退对话到某条用户消息之前，并撤回之后的文件修改
+   */
+  rewindSession(sessionId: string, promptText: string, occurrence: number, promptIndex: number): Promise<{
+    success: boolean;
+    resumeAt?: string | null;
+    revertedFiles: string[];
+    error?: string;
+  }> {
+    return this.sendRequest({ type: "rewind_session", sessionId, promptText, occurrence, promptIndex });
+  }
+
+  /**
+   * 获取当前生效的权限规则
+   */
+  getPermissionRules(channelId?: string): Promise<{ rules: PermissionRule[] }> {
+    return this.sendRequest({ type: "get_permission_rules", channelId });
+  }
+
+  /**
+   * 添加权限规则
+   */
+  addPermissionRule(rule: PermissionRuleConfig, scope: PermissionRuleScope, channelId?: string): Promise<{
+    success: boolean;
+    rule?: PermissionRule;
+    error?: string;
+  }> {
+    return this.sendRequest({ type: "add_permission_rule", rule, scope, channelId });
+  }
+
+  /**
+   * 删除权限规则
+   */
+  removePermissionRule(id: string): Promise<{ success: boolean }> {
+    return this.sendRequest({ type: "remove_permission_rule", id });
+  }
+
+  /**
+   * 获取权限决策日志（最新的在前）
+   */
+  getPermissionDecisions(limit?: number): Promise<{ decisions: PermissionDecisionLogEntry[] }> {
+    return this.sendRequest({ type: "get_permission_decisions", limit });
+  }
+
+  /**
+   * 获取 Claude 以外的 AI Provider（OpenAI 兼容 / Ollama / GLM）及其模型
+   */
+  getProviders(): Promise<{ providers: ProviderInfoItem[] }> {
+    return this.sendRequest({ type: "get_providers" });
+  }
+
+  /**
+   * 获取模型目录
+   */
+  getModels(): Promise<{ models: ModelDefinition[] }> {
+    return this.sendRequest({ type: "get_models" });
+  }
+
   onPermissionRequested(callback: (request: PermissionRequest) => void): void {
     this.permissionRequested.add(callback);
   }
@@ -660,9 +941,15 @@ export abstract class BaseTransport {
         console.log("[BaseTransport] 工作区变化:", info);
         break;
       }
+      case "models_changed": {
+        const modelsReq = req as ModelsChangedRequest;
+        this.models(modelsReq.models);
+        console.log("[BaseTransport] 模型目录更新:", modelsReq.models.length, "个模型");
+        break;
+      }
       case "auto_task_found": {
         // 自动任务发现通知
-        const taskReq = req as { tasks: Array<{ title: string; status: string; section: string }>; prompt: string };
+        const taskReq = req as { tasks: TaskInfo[]; prompt: string };
         console.log("[BaseTransport] 自动任务发现:", taskReq.tasks.length, "个任务");
         this.autoTaskFound.emit({
           tasks: taskReq.tasks,
@@ -672,7 +959,7 @@ export abstract class BaseTransport {
       }
       case "task_file_changed": {
         // 任务文件变化通知（用于实时 UI 更新）
-        const fileChangeReq = req as { tasks: Array<{ title: string; status: string; section: string }> };
+        const fileChangeReq = req as { tasks: TaskInfo[] };
         console.log("[BaseTransport] 任务文件变化:", fileChangeReq.tasks.length, "个任务");
         this.taskFileChanged.emit({
           tasks: fileChangeReq.tasks,
@@ -685,11 +972,58 @@ export abstract class BaseTransport {
         this.autoTaskDisabled.emit();
         break;
       }
+      case "run_queued_task": {
+        // 任务执行时间很长，不能阻塞消息循环（会话的 io_message 也走这里）
+        void this.handleRunQueuedTask(req as RunQueuedTaskRequest).then((response) => {
+          this.send({ type: "response", requestId: message.requestId, response });
+        });
+        break;
+      }
+      case "task_queue_state_changed": {
+        this.taskQueueStateChanged.emit((req as TaskQueueStateChangedRequest).state);
+        break;
+      }
+      case "scheduled_tasks_changed": {
+        this.scheduledTasksChanged.emit((req as ScheduledTasksChangedRequest).state);
+        break;
+      }
+      case "local_todos_changed": {
+        this.localTodosChanged.emit((req as LocalTodosChangedRequest).todos);
+        break;
+      }
+      case "ssh_command_output": {
+        const { sessionId, commandId, command, stream, data } = req as SSHCommandOutputRequest;
+        this.sshCommandOutput.emit({ sessionId, commandId, command, stream, data });
+        break;
+      }
+      case "ssh_sessions_changed": {
+        const { sessions, tunnels } = req as SSHSessionsChangedRequest;
+        this.sshSessionsChanged.emit({ sessions, tunnels });
+        break;
+      }
       default:
         console.warn("[BaseTransport] Unhandled request", req);
     }
   }
 
+  private handleRunQueuedTask(request: RunQueuedTaskRequest): Promise<RunQueuedTaskResponse> {
+    if (this.queuedTaskRequested.listenerCount === 0) {
+      return Promise.resolve({
+        type: "run_queued_task_response",
+        success: false,
+        error: "WebView 未就绪，无法创建会话",
+      });
+    }
+
+    return new Promise<RunQueuedTaskResponse>((resolve) => {
+      this.queuedTaskRequested.emit({
+        title: request.title,
+        prompt: request.prompt,
+        resolve: (result) => resolve({ type: "run_queued_task_response", ...result }),
+      });
+    });
+  }
+
   private async handleToolPermissionRequest(
     channelId: string,
     request: ToolPermissionRequest
@@ -171,6 +171,12 @@ export function processAndAttachMessage(messages: Message[], rawEvent: any): voi
         }
     }
 
+    // 工具执行中的部分输出（非 SDK Provider 的 tool_progress 消息携带 output）
+    if (rawEvent.type === 'tool_progress' && typeof rawEvent.output === 'string') {
+        findToolUseBlock(messages, rawEvent.tool_use_id)?.appendToolProgress(rawEvent.output);
+        return;
+    }
+
     // 2. 将原始事件转换为 Message 并添加到数组
     const message = Message.fromRaw(rawEvent);
     if (message) {
@@ -0,0 +1,56 @@
+/**
+ * Cron 表达式测试 / Cron Expression Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronTime } from '../src/services/cron';
+
+function next(expression: string, after: Date): Date | undefined {
+    return nextCronTime(parseCron(expression), after);
+}
+
+describe('parseCron', () => {
+    it('should expand lists, ranges, steps and names', () => {
+        const schedule = parseCron('*/15 9-17 1,15 jan-mar mon-fri');
+
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect([...schedule.months]).toEqual([1, 2, 3]);
+        expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as sunday and accept macros', () => {
+        expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+        expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow();
+        expect(() => parseCron('60 * * * *')).toThrow();
+        expect(() => parseCron('*/0 * * * *')).toThrow();
+        expect(() => parseCron('0 0 * foo *')).toThrow();
+    });
+});
+
+describe('nextCronTime', () => {
+    it('should return the next matching minute strictly after the given time', () => {
+        expect(next('*/15 * * * *', new Date(2026, 0, 1, 10, 15, 30))).toEqual(new Date(2026, 0, 1, 10, 30));
+        expect(next('30 9 * * *', new Date(2026, 0, 1, 9, 30))).toEqual(new Date(2026, 0, 2, 9, 30));
+    });
+
+    it('should match either day field when both are restricted', () => {
+        // 2026-01-01 是周四；下一个 13 日或周一
+        expect(next('0 0 13 * mon', new Date(2026, 0, 1))).toEqual(new Date(2026, 0, 5));
+        expect(next('0 0 * * mon', new Date(2026, 0, 5))).toEqual(new Date(2026, 0, 12));
+    });
+
+    it('should roll over months and years', () => {
+        expect(next('0 8 1 * *', new Date(2026, 11, 15))).toEqual(new Date(2027, 0, 1, 8));
+        expect(next('0 0 29 2 *', new Date(2026, 0, 1))).toEqual(new Date(2028, 1, 29));
+    });
+
+    it('should give up on impossible dates', () => {
+        expect(next('0 0 30 2 *', new Date(2026, 0, 1))).toBeUndefined();
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * 无尽模式测试 / Endless Mode Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_ENDLESS_CONDITIONS,
+    evaluateEndlessStop,
+    hasDoneMarker,
+    renderEndlessPrompt,
+    summarizeReply,
+    type EndlessRoundReport
+} from '../src/webview/src/core/endlessMode';
+
+function report(partial: Partial<EndlessRoundReport>): EndlessRoundReport {
+    return { round: 1, startedAt: 0, finishedAt: 0, summary: '', changedFiles: ['a.ts'], tokens: 0, cost: 0, done: false, ...partial };
+}
+
+describe('renderEndlessPrompt', () => {
+    it('should leave out the previous round on the first round', () => {
+        const prompt = renderEndlessPrompt('{{prompt}}\n\n{{previous}}\n\n第 {{round}}/{{maxRounds}} 轮', { prompt: ' 完善页面 ', round: 1, maxRounds: 5 });
+
+        expect(prompt).toBe('完善页面\n\n第 1/5 轮');
+    });
+
+    it('should describe the previous round including verify failures', () => {
+        const previous = report({ round: 2, summary: '重构了表单', changedFiles: ['src/a.ts'], verify: { passed: false, exitCode: 1, output: 'FAIL a.spec.ts' } });
+        const prompt = renderEndlessPrompt('{{previous}} {{unknown}}', { prompt: 'x', round: 3, maxRounds: 5, previous });
+
+        expect(prompt).toContain('上一轮（第 2 轮）总结：\n重构了表单');
+        expect(prompt).toContain('修改的文件：src/a.ts');
+        expect(prompt).toContain('验证命令失败（退出码 1）');
+        expect(prompt).toContain('FAIL a.spec.ts');
+        expect(prompt).toContain('{{unknown}}');
+    });
+});
+
+describe('done marker', () => {
+    it('should only match the marker on its own line', () => {
+        expect(hasDoneMarker('都改好了\n\n**ENDLESS_DONE**')).toBe(true);
+        expect(hasDoneMarker('还没到 ENDLESS_DONE 的时候')).toBe(false);
+        expect(summarizeReply('都改好了\nENDLESS_DONE\n')).toBe('都改好了');
+    });
+});
+
+describe('evaluateEndlessStop', () => {
+    const conditions = { ...DEFAULT_ENDLESS_CONDITIONS };
+
+    it('should continue until the max round', () => {
+        expect(evaluateEndlessStop([report({ round: 1 })], conditions, 3)).toBeUndefined();
+        expect(evaluateEndlessStop([report({ round: 3 })], conditions, 3)).toBe('max_rounds');
+        expect(evaluateEndlessStop([], conditions, 3)).toBeUndefined();
+    });
+
+    it('should stop when done unless verification failed', () => {
+        expect(evaluateEndlessStop([report({ done: true })], conditions, 10)).toBe('done');
+        expect(evaluateEndlessStop([report({ done: true, verify: { passed: false, exitCode: 1, output: '' } })], conditions, 10)).toBeUndefined();
+        expect(evaluateEndlessStop([report({ verify: { passed: true, exitCode: 0, output: '' } })], conditions, 10)).toBe('verify_passed');
+    });
+
+    it('should stop on rounds without changes when enabled', () => {
+        const noChanges = [report({ changedFiles: [] })];
+
+        expect(evaluateEndlessStop(noChanges, conditions, 10)).toBeUndefined();
+        expect(evaluateEndlessStop(noChanges, { ...conditions, stopOnNoChanges: true }, 10)).toBe('no_changes');
+    });
+
+    it('should stop on budgets and repeated errors', () => {
+        const rounds = [report({ round: 1, tokens: 6000, cost: 0.4 }), report({ round: 2, tokens: 5000, cost: 0.7 })];
+
+        expect(evaluateEndlessStop(rounds, { ...conditions, maxTokens: 10000 }, 10)).toBe('token_budget');
+        expect(evaluateEndlessStop(rounds, { ...conditions, maxCost: 1 }, 10)).toBe('cost_budget');
+
+        const errors = [report({ round: 1, error: 'x', done: true }), report({ round: 2, error: 'y', done: true })];
+        expect(evaluateEndlessStop(errors.slice(0, 1), conditions, 10)).toBeUndefined();
+        expect(evaluateEndlessStop(errors, conditions, 10)).toBe('errors');
+    });
+});
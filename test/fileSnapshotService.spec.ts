@@ -0,0 +1,101 @@
+/**
+ * 文件快照服务测试 / File Snapshot Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('vscode', async () => {
+    const nodeFs = await import('fs/promises');
+    return {
+        Uri: { file: (fsPath: string) => ({ fsPath }) },
+        workspace: {
+            fs: {
+                readFile: (uri: { fsPath: string }) => nodeFs.readFile(uri.fsPath),
+                writeFile: (uri: { fsPath: string }, content: Uint8Array) => nodeFs.writeFile(uri.fsPath, content),
+                delete: (uri: { fsPath: string }) => nodeFs.rm(uri.fsPath),
+            },
+            openTextDocument: async () => ({}),
+        },
+        window: { showTextDocument: async () => undefined },
+    };
+});
+
+import { FileSnapshotService } from '../src/services/FileSnapshotService';
+import type { ILogService } from '../src/services/logService';
+import type { ISSHService } from '../src/services/sshService';
+
+const logService = { info: () => {}, warn: () => {}, error: () => {} } as unknown as ILogService;
+
+describe('FileSnapshotService', () => {
+    let root: string;
+
+    const createService = () => new FileSnapshotService(
+        { globalStorageUri: { fsPath: path.join(root, 'storage') } } as never,
+        logService,
+        {} as ISSHService
+    );
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should restore files deleted during a turn when the checkpoint is reverted', async () => {
+        const service = createService();
+        const dir = path.join(root, 'src');
+        await fs.mkdir(dir);
+        await fs.writeFile(path.join(dir, 'a.ts'), 'a');
+        await fs.writeFile(path.join(dir, 'b.ts'), 'b');
+
+        service.bindToolUses('s1', 'm1', ['tool_1']);
+        expect(await service.createDeleteSnapshots('tool_1', [dir], 's1')).toBe(2);
+        await fs.rm(dir, { recursive: true });
+
+        const result = await service.revertCheckpoint('s1', 'm1');
+
+        expect(result.success).toBe(true);
+        expect(await fs.readFile(path.join(dir, 'a.ts'), 'utf-8')).toBe('a');
+        expect(await fs.readFile(path.join(dir, 'b.ts'), 'utf-8')).toBe('b');
+        service.dispose();
+    });
+
+    it('should revert an edit and a later delete of the same file to the original content', async () => {
+        const service = createService();
+        const file = path.join(root, 'c.ts');
+        await fs.writeFile(file, 'original');
+
+        await service.createSnapshot('tool_edit', file, 'edit', 's1');
+        await fs.writeFile(file, 'edited');
+        await service.createDeleteSnapshots('tool_rm', [file], 's1');
+        await fs.rm(file);
+        service.bindToolUses('s1', 'm1', ['tool_edit', 'tool_rm']);
+
+        await service.revertCheckpoint('s1', 'm1');
+
+        expect(await fs.readFile(file, 'utf-8')).toBe('original');
+        service.dispose();
+    });
+
+    it('should write the pending index on dispose', async () => {
+        const file = path.join(root, 'd.ts');
+        await fs.writeFile(file, 'd');
+
+        const service = createService();
+        await service.createSnapshot('tool_write', file, 'write', 's1');
+        service.bindToolUses('s1', 'm1', ['tool_write']);
+        service.dispose();
+
+        const reloaded = createService();
+        await reloaded.readSnapshotContent('tool_write');
+
+        expect(reloaded.getSnapshot('tool_write')?.filePath).toBe(file);
+        expect(reloaded.listCheckpoints('s1').map(cp => cp.messageId)).toEqual(['m1']);
+        reloaded.dispose();
+    });
+});
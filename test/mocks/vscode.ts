@@ -109,9 +109,6 @@ export const commands = {
 
 export const Uri = MockUri;
 
-// Re-export ExtensionMode enum
-export { ExtensionMode };
-
 export const RelativePattern = class RelativePattern {
 	constructor(base: any, pattern: string) {
 		// Mock implementation
@@ -0,0 +1,107 @@
+/**
+ * 项目记忆测试 / Project Memory Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMemoryNote } from '../src/shared/memory';
+import {
+    appendMemoryNote,
+    appendSummaryNote,
+    buildSummaryUpdate,
+    parseSummaryReply,
+    splitSummary,
+    SUMMARY_HEADER,
+    type WorklogMeta
+} from '../src/services/projectMemory';
+
+const meta: WorklogMeta = {
+    sessionTitle: '重构登录',
+    recordedAt: new Date(2026, 0, 2, 3, 4, 5),
+    messageCount: 12,
+    modifiedFiles: ['src/login.ts']
+};
+
+describe('parseMemoryNote', () => {
+    it('should parse the target prefix', () => {
+        expect(parseMemoryNote('# 使用 pnpm')).toEqual({ target: 'project', note: '使用 pnpm' });
+        expect(parseMemoryNote('  #local   测试库在 5433 端口 ')).toEqual({ target: 'local', note: '测试库在 5433 端口' });
+        expect(parseMemoryNote('#user 回答用中文\n 保持简洁')).toEqual({ target: 'user', note: '回答用中文 保持简洁' });
+    });
+
+    it('should ignore issue references, tags and headings without content', () => {
+        expect(parseMemoryNote('#123 这个问题')).toBeUndefined();
+        expect(parseMemoryNote('#标签')).toBeUndefined();
+        expect(parseMemoryNote('## 标题')).toBeUndefined();
+        expect(parseMemoryNote('# ')).toBeUndefined();
+        expect(parseMemoryNote('修复 # 号转义')).toBeUndefined();
+    });
+});
+
+describe('appendMemoryNote', () => {
+    it('should create the section when missing', () => {
+        expect(appendMemoryNote('', '使用 pnpm')).toBe('## 记忆\n\n- 使用 pnpm\n');
+        expect(appendMemoryNote('# 项目\n\n说明\n', '使用 pnpm')).toBe('# 项目\n\n说明\n\n## 记忆\n\n- 使用 pnpm\n');
+    });
+
+    it('should append to the end of the existing section', () => {
+        const content = '# 项目\n\n## 记忆\n\n- 使用 pnpm\n\n## 其他\n\n内容\n';
+
+        expect(appendMemoryNote(content, '提交前运行 lint')).toBe(
+            '# 项目\n\n## 记忆\n\n- 使用 pnpm\n- 提交前运行 lint\n\n## 其他\n\n内容\n'
+        );
+        expect(appendMemoryNote('## 记忆\n## 其他\n', '使用 pnpm')).toBe('## 记忆\n\n- 使用 pnpm\n\n## 其他\n');
+    });
+
+    it('should skip duplicates', () => {
+        const content = '## 记忆\n\n- 使用 pnpm\n';
+
+        expect(appendMemoryNote(content, ' 使用 pnpm ')).toBe(content);
+    });
+});
+
+describe('summary file', () => {
+    const existing = `${SUMMARY_HEADER}\n## 记忆\n\n- 旧约定\n\n---\n\n## 工作日志 - 2026/01/01\n\n旧日志\n`;
+
+    it('should split the overview from the worklog', () => {
+        const { overview, worklog } = splitSummary(existing);
+
+        expect(overview).toContain('- 旧约定');
+        expect(overview).not.toContain('---');
+        expect(worklog.startsWith('---')).toBe(true);
+        expect(worklog).toContain('旧日志');
+        expect(splitSummary('# 概述\n')).toEqual({ overview: '# 概述\n', worklog: '' });
+    });
+
+    it('should add quick notes to the overview only', () => {
+        const updated = appendSummaryNote(existing, '新约定');
+
+        expect(updated.indexOf('- 新约定')).toBeLessThan(updated.indexOf('## 工作日志'));
+        expect(updated).toContain('旧日志');
+    });
+
+    it('should parse tagged replies and fall back to the whole reply', () => {
+        expect(parseSummaryReply('<overview>\n# 新概述\n</overview>\n<worklog>- 做了 A</worklog>')).toEqual({
+            overview: '# 新概述',
+            worklog: '- 做了 A'
+        });
+        expect(parseSummaryReply('- 做了 A\n')).toEqual({ worklog: '- 做了 A' });
+    });
+
+    it('should replace the overview and append the worklog entry', () => {
+        const updated = buildSummaryUpdate(existing, '<overview># 新概述</overview><worklog>- 做了 A</worklog>', meta);
+
+        expect(updated.startsWith('# 新概述\n\n---')).toBe(true);
+        expect(updated).toContain('旧日志');
+        expect(updated.indexOf('旧日志')).toBeLessThan(updated.indexOf('- 做了 A'));
+        expect(updated).toContain('> **会话标题**: 重构登录');
+        expect(updated).toContain('- `src/login.ts`');
+    });
+
+    it('should keep the overview when the reply has none and create the file when missing', () => {
+        expect(buildSummaryUpdate(existing, '- 做了 A', meta)).toContain('- 旧约定');
+
+        const created = buildSummaryUpdate(undefined, '- 做了 A', meta);
+        expect(created.startsWith(SUMMARY_HEADER.trimEnd())).toBe(true);
+        expect(created).toContain('- 做了 A');
+    });
+});
@@ -0,0 +1,37 @@
+/**
+ * 删除路径识别测试 / Removed Paths Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractRemovedPaths, splitShellWords } from '../src/services/removedPaths';
+
+describe('splitShellWords', () => {
+    it('should split commands and keep quoted words together', () => {
+        expect(splitShellWords(`rm "my file" 'a;b' && echo x\\ y | cat`)).toEqual([
+            ['rm', 'my file', 'a;b'],
+            ['echo', 'x y'],
+            ['cat'],
+        ]);
+        expect(splitShellWords('cmd 2>&1 >>log')).toEqual([['cmd', '2>&', '1', '>>', 'log']]);
+    });
+});
+
+describe('extractRemovedPaths', () => {
+    it('should find rm, unlink and git rm targets', () => {
+        expect(extractRemovedPaths('rm -rf build dist && npm test')).toEqual(['build', 'dist']);
+        expect(extractRemovedPaths('echo hi | rm a; unlink b & sudo rm -- -c')).toEqual(['a', 'b', '-c']);
+        expect(extractRemovedPaths('git rm -r old')).toEqual(['old']);
+        expect(extractRemovedPaths('git rm --cached keep')).toEqual([]);
+    });
+
+    it('should treat mv sources as removed', () => {
+        expect(extractRemovedPaths('mv a b dest/')).toEqual(['a', 'b']);
+        expect(extractRemovedPaths('mv -t dest x y')).toEqual(['x', 'y']);
+    });
+
+    it('should skip redirections and dynamic arguments', () => {
+        expect(extractRemovedPaths('rm a 2>/dev/null > log')).toEqual(['a']);
+        expect(extractRemovedPaths('rm *.log $TMP/x ~/y')).toEqual([]);
+        expect(extractRemovedPaths('echo rm a')).toEqual([]);
+    });
+});
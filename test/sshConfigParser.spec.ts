@@ -0,0 +1,68 @@
+/**
+ * SSH 配置解析测试 / SSH Config Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSSHConfig } from '../src/services/sshConfigParser';
+
+describe('parseSSHConfig', () => {
+    it('should list aliases with their own options', () => {
+        const hosts = parseSSHConfig([
+            '# staging',
+            'Host staging stg',
+            '    HostName 10.0.0.5',
+            '    User deploy',
+            '    Port 2222',
+            '    ProxyJump bastion',
+            '',
+            'Host bastion',
+            '    HostName bastion.example.com',
+        ].join('\n'));
+
+        expect(hosts.map(h => h.alias)).toEqual(['staging', 'stg', 'bastion']);
+        expect(hosts[0]).toMatchObject({ hostName: '10.0.0.5', user: 'deploy', port: 2222, proxyJump: 'bastion' });
+        expect(hosts[1]).toMatchObject({ hostName: '10.0.0.5', user: 'deploy' });
+        expect(hosts[2].proxyJump).toBeUndefined();
+    });
+
+    it('should keep the first obtained value and apply wildcard blocks', () => {
+        const hosts = parseSSHConfig([
+            'User global',
+            'Host web',
+            '  User=web-user',
+            '  IdentityFile "/keys/web"',
+            'Host *',
+            '  User fallback',
+            '  Port 2200',
+            '  IdentityFile /keys/default',
+        ].join('\n'));
+
+        expect(hosts).toHaveLength(1);
+        expect(hosts[0]).toMatchObject({ alias: 'web', user: 'global', port: 2200, identityFile: '/keys/web' });
+    });
+
+    it('should skip wildcard patterns, negations and Match blocks', () => {
+        const hosts = parseSSHConfig([
+            'Host *.internal !db.internal',
+            '  User ops',
+            'Match host app',
+            '  User matched',
+            'Host app.internal db.internal',
+            '  ProxyJump none',
+        ].join('\n'));
+
+        expect(hosts.map(h => h.alias)).toEqual(['app.internal', 'db.internal']);
+        expect(hosts[0].user).toBe('ops');
+        expect(hosts[1].user).toBeUndefined();
+        expect(hosts[0].proxyJump).toBeUndefined();
+    });
+
+    it('should expand Include through the resolver', () => {
+        const hosts = parseSSHConfig('Include conf.d/*\nHost main\n', (pattern) =>
+            pattern === 'conf.d/*' ? ['Host included\n  HostName 192.168.1.2'] : []
+        );
+
+        expect(hosts.map(h => h.alias)).toEqual(['included', 'main']);
+        expect(hosts[0].hostName).toBe('192.168.1.2');
+    });
+});
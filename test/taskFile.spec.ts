@@ -0,0 +1,136 @@
+/**
+ * 任务文件解析与修改测试 / Task File Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseTaskItems,
+    findNextTask,
+    markTaskInProgress,
+    markTaskCompleted,
+    appendTaskNote,
+    toTaskInfos
+} from '../src/services/taskFile';
+
+const SAMPLE = [
+    '# 当前任务',
+    '',
+    '## 进行中',
+    '',
+    '## 待办',
+    '- [ ] 修复登录',
+    '  - 注意 token 过期',
+    '- [ ] 补充测试',
+    '',
+    '## 已完成',
+    '- [x] 初始化项目',
+    ''
+].join('\n');
+
+describe('parseTaskItems', () => {
+    it('should parse top-level tasks with their indented body', () => {
+        const items = parseTaskItems(SAMPLE);
+
+        expect(items.map(i => [i.title, i.section, i.checked])).toEqual([
+            ['修复登录', 'pending', false],
+            ['补充测试', 'pending', false],
+            ['初始化项目', 'completed', true],
+        ]);
+        expect(items[0].body).toEqual(['- 注意 token 过期']);
+    });
+
+    it('should prefer in-progress tasks and honour the skip filter', () => {
+        const content = markTaskInProgress(SAMPLE, '补充测试');
+        const items = parseTaskItems(content);
+
+        expect(findNextTask(items)?.title).toBe('补充测试');
+        expect(findNextTask(items, item => item.title === '补充测试')?.title).toBe('修复登录');
+    });
+});
+
+describe('task mutations', () => {
+    it('should move a task and its body into the in-progress section', () => {
+        const content = markTaskInProgress(SAMPLE, '修复登录');
+
+        expect(content.split('\n').slice(2, 6)).toEqual([
+            '## 进行中',
+            '- [ ] 修复登录',
+            '  - 注意 token 过期',
+            '',
+        ]);
+        expect(parseTaskItems(content).find(i => i.title === '修复登录')?.section).toBe('in-progress');
+    });
+
+    it('should tick a task into the completed section', () => {
+        const content = markTaskCompleted(markTaskInProgress(SAMPLE, '修复登录'), '修复登录');
+        const done = parseTaskItems(content).filter(i => i.section === 'completed');
+
+        expect(done.map(i => [i.title, i.checked])).toEqual([['初始化项目', true], ['修复登录', true]]);
+        expect(content).toContain('- [x] 修复登录\n  - 注意 token 过期');
+    });
+
+    it('should create a missing section', () => {
+        const content = markTaskInProgress('## 待办\n- [ ] 写文档\n', '写文档');
+
+        expect(content.startsWith('## 进行中\n- [ ] 写文档\n\n## 待办')).toBe(true);
+    });
+
+    it('should append notes under the task', () => {
+        const content = appendTaskNote(SAMPLE, '修复登录', '❌ 验证失败\n退出码 1');
+        const item = parseTaskItems(content)[0];
+
+        expect(item.body).toEqual(['- 注意 token 过期', '- ❌ 验证失败', '  退出码 1']);
+        expect(parseTaskItems(content)[1].title).toBe('补充测试');
+    });
+});
+
+describe('extended task format', () => {
+    const EXTENDED = [
+        '## 待办',
+        '- [ ] 登录接口 #auth-2 @high',
+        '  - depends-on: auth-1',
+        '  - [x] 定义路由',
+        '  - [ ] 错误处理',
+        '  - acceptance:',
+        '    - 错误密码返回 401',
+        '    - token 有效期 1 小时',
+        '  - verify: `npm test -- login`',
+        '- [ ] 修复 #42 问题 @low',
+        '- [ ] 用户模型 #auth-1',
+        '',
+        '## 已完成',
+        ''
+    ].join('\n');
+
+    it('should parse ids, priorities and metadata lines', () => {
+        const [login, issue] = parseTaskItems(EXTENDED);
+
+        expect(login).toMatchObject({
+            title: '登录接口',
+            id: 'auth-2',
+            priority: 'high',
+            dependsOn: ['auth-1'],
+            subtasks: [{ title: '定义路由', checked: true }, { title: '错误处理', checked: false }],
+            acceptance: ['错误密码返回 401', 'token 有效期 1 小时'],
+            verify: 'npm test -- login'
+        });
+        expect(issue).toMatchObject({ title: '修复 #42 问题', id: undefined, priority: 'low' });
+    });
+
+    it('should skip blocked tasks and order by priority', () => {
+        const items = parseTaskItems(EXTENDED);
+
+        expect(findNextTask(items)?.title).toBe('用户模型');
+        expect(toTaskInfos(items)[0]).toMatchObject({ blocked: true, blockedBy: ['auth-1'] });
+
+        const unblocked = parseTaskItems(markTaskCompleted(EXTENDED, 'auth-1'));
+        expect(findNextTask(unblocked)?.title).toBe('登录接口');
+        expect(toTaskInfos(unblocked)[0].blocked).toBeUndefined();
+    });
+
+    it('should keep id and priority tokens when moving a task', () => {
+        const content = markTaskCompleted(EXTENDED, '用户模型');
+
+        expect(content).toContain('- [x] 用户模型 #auth-1');
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Todo 导入导出测试 / Todo Exchange Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTodos, formatTodos, detectTodoFormat } from '../src/services/todoExchange';
+import type { LocalTodo } from '../src/shared/todos';
+
+function todo(partial: Partial<LocalTodo>): LocalTodo {
+    return { id: 'local-1', content: '', status: 'pending', createdAt: 0, updatedAt: 0, ...partial };
+}
+
+describe('parseTodos', () => {
+    it('should map GitHub issue labels to priority, status and tags', () => {
+        const json = JSON.stringify([
+            { number: 12, title: '登录超时', state: 'open', html_url: 'https://github.com/o/r/issues/12', labels: [{ name: 'priority: high' }, { name: 'bug' }, { name: 'status: in progress' }] },
+            { number: 13, title: '旧问题', state: 'CLOSED', labels: [{ name: 'P3' }] },
+            { number: 14, title: '某个 PR', state: 'open', pull_request: {} }
+        ]);
+
+        expect(parseTodos('github', json)).toEqual([
+            { content: '登录超时', status: 'in_progress', priority: 'high', tags: ['bug'], external: { source: 'github', id: '12', url: 'https://github.com/o/r/issues/12' } },
+            { content: '旧问题', status: 'completed', priority: 'low', external: { source: 'github', id: '13' } }
+        ]);
+    });
+
+    it('should read GitLab scoped labels', () => {
+        const json = JSON.stringify([{ iid: 7, title: '迁移', state: 'opened', labels: ['priority::medium', 'workflow::doing', 'backend'], web_url: 'https://gitlab.com/g/p/-/issues/7' }]);
+
+        expect(parseTodos('gitlab', json)[0]).toMatchObject({ status: 'in_progress', priority: 'medium', tags: ['backend'], external: { id: '7' } });
+    });
+
+    it('should parse quoted CSV cells', () => {
+        const csv = 'ID,Title,Status,Priority,Labels\nA-1,"写文档, 补示例",done,p1,docs;"""quoted"""\nA-2,无状态,,,\n';
+
+        expect(parseTodos('csv', csv)).toEqual([
+            { content: '写文档, 补示例', status: 'completed', priority: 'high', tags: ['docs', '"quoted"'], external: { source: 'csv', id: 'A-1' } },
+            { content: '无状态', status: 'pending', external: { source: 'csv', id: 'A-2' } }
+        ]);
+    });
+
+    it('should parse markdown checklists with trailing tokens', () => {
+        const md = '# Sprint\n- [ ] 修复 #42 问题 @high #bug <!-- id: 42 -->\n- [/] 重构\n  - [x] 子项\n';
+
+        expect(parseTodos('markdown', md)).toEqual([
+            { content: '修复 #42 问题', status: 'pending', priority: 'high', tags: ['bug'], external: { source: 'markdown', id: '42' } },
+            { content: '重构', status: 'in_progress' },
+            { content: '子项', status: 'completed' }
+        ]);
+    });
+});
+
+describe('formatTodos', () => {
+    const todos = [
+        todo({ content: '登录超时', status: 'in_progress', priority: 'high', tags: ['bug'], external: { source: 'github', id: '12' } }),
+        todo({ id: 'local-2', content: '写文档, 补示例', status: 'completed' })
+    ];
+
+    it.each(['github', 'gitlab', 'csv', 'markdown'] as const)('should round-trip %s', (format) => {
+        const parsed = parseTodos(format, formatTodos(format, todos));
+
+        expect(parsed.map(t => [t.content, t.status, t.priority, t.tags])).toEqual([
+            ['登录超时', 'in_progress', 'high', ['bug']],
+            ['写文档, 补示例', 'completed', undefined, undefined]
+        ]);
+    });
+
+    it('should keep external ids of the same source', () => {
+        const [first, second] = parseTodos('github', formatTodos('github', todos));
+
+        expect(first.external).toEqual({ source: 'github', id: '12' });
+        expect(second.external).toBeUndefined();
+    });
+});
+
+describe('detectTodoFormat', () => {
+    it('should detect by extension and content', () => {
+        expect(detectTodoFormat('board.csv', '')).toBe('csv');
+        expect(detectTodoFormat('sprint.md', '')).toBe('markdown');
+        expect(detectTodoFormat('issues.json', '[{"iid": 1}]')).toBe('gitlab');
+        expect(detectTodoFormat('', '[{"number": 1}]')).toBe('github');
+        expect(detectTodoFormat('notes.txt', 'hello')).toBeUndefined();
+    });
+});
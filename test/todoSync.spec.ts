@@ -0,0 +1,108 @@
+/**
+ * Todo 与任务文件同步测试 / Todo Sync Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reconcileTaskFile, ReconcileOptions } from '../src/services/todoSync';
+import { parseTaskItems } from '../src/services/taskFile';
+import type { LocalTodo } from '../src/shared/todos';
+
+const FILE = '.tasks/current.md';
+
+function createOptions(): ReconcileOptions {
+    let taskSeq = 0;
+    let todoSeq = 0;
+    return {
+        now: 1000,
+        createTaskId: () => `t-${++taskSeq}`,
+        createTodoId: () => `todo-${++todoSeq}`
+    };
+}
+
+function todo(partial: Partial<LocalTodo>): LocalTodo {
+    return { id: 'x', content: '', status: 'pending', createdAt: 0, updatedAt: 0, ...partial };
+}
+
+const SAMPLE = [
+    '## 进行中',
+    '',
+    '## 待办',
+    '- [ ] 修复登录 #login',
+    '',
+    '## 已完成',
+    ''
+].join('\n');
+
+describe('reconcileTaskFile', () => {
+    it('should import file tasks and export local todos', () => {
+        const local = todo({ id: 'a', content: '写文档', priority: 'high' });
+        const { content, todos } = reconcileTaskFile([local], SAMPLE, FILE, createOptions());
+
+        expect(content).toContain('- [ ] 写文档 #t-1 @high');
+        expect(todos.map(t => [t.content, t.source, t.taskLink?.taskId])).toEqual([
+            ['修复登录', 'task-file', 'login'],
+            ['写文档', undefined, 't-1'],
+        ]);
+    });
+
+    it('should assign ids to tasks without one', () => {
+        const { content } = reconcileTaskFile([], '## 待办\n- [ ] 甲\n- [ ] 乙\n', FILE, createOptions());
+
+        expect(parseTaskItems(content).map(i => i.id)).toEqual(['t-1', 't-2']);
+    });
+
+    it('should be stable once both sides are in sync', () => {
+        const first = reconcileTaskFile([todo({ id: 'a', content: '写文档' })], SAMPLE, FILE, createOptions());
+        const second = reconcileTaskFile(first.todos, first.content, FILE, createOptions());
+
+        expect(second.content).toBe(first.content);
+        expect(second.todosChanged).toBe(false);
+    });
+
+    it('should propagate a checkbox ticked in either place', () => {
+        const synced = reconcileTaskFile([], SAMPLE, FILE, createOptions());
+
+        // 在 Todos 页面勾选
+        const ticked = synced.todos.map(t => ({ ...t, status: 'completed' as const }));
+        const toFile = reconcileTaskFile(ticked, synced.content, FILE, createOptions());
+        expect(parseTaskItems(toFile.content)[0]).toMatchObject({ checked: true, section: 'completed' });
+
+        // 在文件中勾选
+        const edited = synced.content.replace('- [ ] 修复登录', '- [x] 修复登录');
+        const toTodo = reconcileTaskFile(synced.todos, edited, FILE, createOptions());
+        expect(toTodo.todos[0]).toMatchObject({ status: 'completed', completedAt: 1000 });
+    });
+
+    it('should resolve conflicting edits with completed first, then local', () => {
+        const synced = reconcileTaskFile([], SAMPLE, FILE, createOptions());
+        const localInProgress = synced.todos.map(t => ({ ...t, status: 'in_progress' as const, content: '修复登录页' }));
+        const fileDone = synced.content.replace('- [ ] 修复登录', '- [x] 修复登录流程');
+
+        const { content, todos } = reconcileTaskFile(localInProgress, fileDone, FILE, createOptions());
+
+        expect(todos[0]).toMatchObject({ status: 'completed', content: '修复登录页' });
+        expect(content).toContain('- [x] 修复登录页 #login');
+    });
+
+    it('should drop todos whose task was deleted unless they changed locally', () => {
+        const synced = reconcileTaskFile([], SAMPLE, FILE, createOptions());
+        const removed = synced.content.replace('- [ ] 修复登录 #login\n', '');
+
+        expect(reconcileTaskFile(synced.todos, removed, FILE, createOptions()).todos).toEqual([]);
+
+        const changed = synced.todos.map(t => ({ ...t, status: 'in_progress' as const }));
+        const restored = reconcileTaskFile(changed, removed, FILE, createOptions());
+        expect(restored.todos).toHaveLength(1);
+        expect(restored.content).toContain('## 进行中\n- [ ] 修复登录 #login');
+    });
+
+    it('should adopt an unlinked task with the same title and leave other files alone', () => {
+        const other = todo({ id: 'b', content: '别的', taskLink: { file: 'other.md', taskId: 'x', status: 'pending', content: '别的' } });
+        const { todos, content } = reconcileTaskFile([todo({ id: 'a', content: '修复登录' }), other], SAMPLE, FILE, createOptions());
+
+        expect(todos).toHaveLength(2);
+        expect(todos[0].taskLink?.taskId).toBe('login');
+        expect(todos[1]).toBe(other);
+        expect(parseTaskItems(content)).toHaveLength(1);
+    });
+});